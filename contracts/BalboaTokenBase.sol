@@ -0,0 +1,203 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+
+/**
+ * @title BalboaTokenBase
+ * @notice BalboaToken's behavior and storage, with hooks later versions can extend
+ * @dev Base of BalboaTokenV3 and later.
+ *
+ * BalboaToken.sol is the source of the V1 implementation deployed on
+ * mainnet and stays unchanged so it keeps verifying against that bytecode.
+ * Its `_update` and `_authorizeUpgrade` cannot be overridden, so this
+ * contract restates it with the same storage layout (`_blacklisted`, then a
+ * 49-slot gap) and adds the hooks: virtual `_update` and `_authorizeUpgrade`,
+ * `_initializeBalboaToken` for fresh-deployment initializers, `_setBlacklisted`
+ * and a public `isBlacklisted`. A proxy on BalboaToken or BalboaTokenV2 can
+ * upgrade to a contract built on it.
+ */
+abstract contract BalboaTokenBase is
+    Initializable,
+    ERC20Upgradeable,
+    AccessControlUpgradeable,
+    UUPSUpgradeable,
+    PausableUpgradeable,
+    ReentrancyGuardUpgradeable
+{
+    // Roles
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+    bytes32 public constant BLACKLISTER_ROLE = keccak256("BLACKLISTER_ROLE");
+
+    // Blacklist mapping
+    mapping(address => bool) private _blacklisted;
+
+    // Events
+    event Blacklisted(address indexed account);
+    event UnBlacklisted(address indexed account);
+    event TokensBurned(address indexed from, uint256 amount);
+    event TokensMinted(address indexed to, uint256 amount);
+
+    // Errors
+    error ZeroAddress();
+    error ZeroAmount();
+    error AccountBlacklisted(address account);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initialize the token
+     * @param admin Address that will receive all roles
+     */
+    function initialize(address admin) public virtual initializer {
+        _initializeBalboaToken(admin);
+    }
+
+    /**
+     * @notice Mint new tokens
+     * @param to Address to receive tokens
+     * @param amount Amount to mint
+     */
+    function mint(address to, uint256 amount) external onlyRole(MINTER_ROLE) whenNotPaused nonReentrant {
+        if (to == address(0)) revert ZeroAddress();
+        if (amount == 0) revert ZeroAmount();
+        if (_blacklisted[to]) revert AccountBlacklisted(to);
+
+        _mint(to, amount);
+        emit TokensMinted(to, amount);
+    }
+
+    /**
+     * @notice Burn tokens from an address
+     * @param from Address to burn from
+     * @param amount Amount to burn
+     */
+    function burn(address from, uint256 amount) external onlyRole(BURNER_ROLE) nonReentrant {
+        if (from == address(0)) revert ZeroAddress();
+        if (amount == 0) revert ZeroAmount();
+
+        _burn(from, amount);
+        emit TokensBurned(from, amount);
+    }
+
+    /**
+     * @notice Burn tokens from caller's balance
+     * @param amount Amount to burn
+     */
+    function burnSelf(uint256 amount) external nonReentrant {
+        if (amount == 0) revert ZeroAmount();
+
+        _burn(msg.sender, amount);
+        emit TokensBurned(msg.sender, amount);
+    }
+
+    /**
+     * @notice Pause all token transfers
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @notice Unpause token transfers
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @notice Add address to blacklist
+     * @param account Address to blacklist
+     */
+    function blacklist(address account) external onlyRole(BLACKLISTER_ROLE) {
+        if (account == address(0)) revert ZeroAddress();
+        _setBlacklisted(account, true);
+    }
+
+    /**
+     * @notice Remove address from blacklist
+     * @param account Address to unblacklist
+     */
+    function unBlacklist(address account) external onlyRole(BLACKLISTER_ROLE) {
+        _setBlacklisted(account, false);
+    }
+
+    /**
+     * @notice Check if address is blacklisted
+     * @param account Address to check
+     * @return bool True if blacklisted
+     */
+    function isBlacklisted(address account) public view returns (bool) {
+        return _blacklisted[account];
+    }
+
+    /**
+     * @dev Grant every role to `admin`; shared by the fresh-deployment initializers
+     * @param admin Address that will receive all roles
+     */
+    function _initializeBalboaToken(address admin) internal onlyInitializing {
+        if (admin == address(0)) revert ZeroAddress();
+
+        __ERC20_init("BALBOA", "BALBOA");
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
+        __Pausable_init();
+        __ReentrancyGuard_init();
+
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(UPGRADER_ROLE, admin);
+        _grantRole(MINTER_ROLE, admin);
+        _grantRole(BURNER_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
+        _grantRole(BLACKLISTER_ROLE, admin);
+    }
+
+    /**
+     * @dev Set an account's blacklist status, emitting Blacklisted or UnBlacklisted on a change
+     * @param account Address to update
+     * @param status True to blacklist, false to lift it
+     * @return bool False if the account already had that status
+     */
+    function _setBlacklisted(address account, bool status) internal returns (bool) {
+        if (_blacklisted[account] == status) return false;
+
+        _blacklisted[account] = status;
+        if (status) emit Blacklisted(account);
+        else emit UnBlacklisted(account);
+        return true;
+    }
+
+    /**
+     * @dev Override to add pause and blacklist checks
+     * Note: Blacklisted addresses can still burn their own tokens (to == address(0))
+     */
+    function _update(address from, address to, uint256 value) internal virtual override whenNotPaused {
+        // Check blacklist - allow burns (to == address(0)) even if from is blacklisted
+        if (to != address(0) && _blacklisted[from]) revert AccountBlacklisted(from);
+        if (_blacklisted[to]) revert AccountBlacklisted(to);
+
+        super._update(from, to, value);
+    }
+
+    /**
+     * @dev Authorize upgrade - only UPGRADER_ROLE can upgrade
+     */
+    function _authorizeUpgrade(address newImplementation) internal virtual override onlyRole(UPGRADER_ROLE) {}
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions
+     * to add new variables without shifting down storage in the inheritance chain.
+     */
+    uint256[49] private __gap;
+}
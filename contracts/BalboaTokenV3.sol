@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/extensions/IAccessControlEnumerable.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./BalboaTokenBase.sol";
+
+/**
+ * @title BalboaTokenV3
+ * @notice Upgrade implementation that adds on-chain enumeration of role members
+ * @dev Upgrade-safe: new state is appended after BalboaToken's storage gap,
+ * which BalboaTokenBase lays out the same way.
+ *
+ * Role grants and revocations are tracked from the moment this implementation
+ * is active. Holders that received a role under an earlier implementation are
+ * registered once through `initializeV3`, which only records accounts that
+ * actually hold the role.
+ *
+ * V3 extends BalboaTokenBase, not the BalboaTokenV2 demo, so the symbol
+ * stays BALBOA for this and every later version.
+ */
+contract BalboaTokenV3 is BalboaTokenBase, IAccessControlEnumerable {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // Role members
+    mapping(bytes32 => EnumerableSet.AddressSet) private _roleMembers;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() BalboaTokenBase() {}
+
+    /**
+     * @notice Register existing role holders after upgrading from V1/V2
+     * @dev Every (role, account) pair is checked with `hasRole`; accounts that
+     * do not hold a role are ignored, so an incomplete or noisy list can never
+     * add a member that does not exist.
+     * @param roles Roles to register members for
+     * @param accounts Candidate holders, checked against every role
+     */
+    function initializeV3(bytes32[] calldata roles, address[] calldata accounts)
+        external
+        reinitializer(3)
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        _registerRoleMembers(roles, accounts);
+    }
+
+    /**
+     * @notice Get the member of a role at a given index
+     * @param role Role to query
+     * @param index Position in the member set (order is not stable across changes)
+     * @return address Member at `index`
+     */
+    function getRoleMember(bytes32 role, uint256 index) external view returns (address) {
+        return _roleMembers[role].at(index);
+    }
+
+    /**
+     * @notice Get the number of accounts that have a role
+     * @param role Role to query
+     * @return uint256 Number of members
+     */
+    function getRoleMemberCount(bytes32 role) external view returns (uint256) {
+        return _roleMembers[role].length();
+    }
+
+    /**
+     * @notice Get all accounts that have a role
+     * @param role Role to query
+     * @return address[] Members of the role
+     */
+    function getRoleMembers(bytes32 role) external view returns (address[] memory) {
+        return _roleMembers[role].values();
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IAccessControlEnumerable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /**
+     * @dev Add every account that holds one of `roles` to its member set.
+     * Idempotent, so later reinitializers can call it again safely.
+     */
+    function _registerRoleMembers(bytes32[] calldata roles, address[] calldata accounts) internal {
+        for (uint256 i = 0; i < roles.length; ++i) {
+            for (uint256 j = 0; j < accounts.length; ++j) {
+                if (hasRole(roles[i], accounts[j])) {
+                    _roleMembers[roles[i]].add(accounts[j]);
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Track members on grant
+     */
+    function _grantRole(bytes32 role, address account) internal virtual override returns (bool) {
+        bool granted = super._grantRole(role, account);
+        if (granted) {
+            _roleMembers[role].add(account);
+        }
+        return granted;
+    }
+
+    /**
+     * @dev Track members on revoke
+     */
+    function _revokeRole(bytes32 role, address account) internal virtual override returns (bool) {
+        bool revoked = super._revokeRole(role, account);
+        if (revoked) {
+            _roleMembers[role].remove(account);
+        }
+        return revoked;
+    }
+
+    /**
+     * @dev Reserved storage for future versions, following BalboaToken's convention.
+     */
+    uint256[49] private __gap;
+}
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./BalboaTokenV3.sol";
+
+/**
+ * @title BalboaTokenV4
+ * @notice Upgrade implementation that adds a maximum total supply
+ * @dev Upgrade-safe: new state is appended after BalboaTokenV3's storage gap.
+ *
+ * A cap of 0 means unlimited. Once set, the cap can only be lowered, and
+ * never below the current total supply.
+ */
+contract BalboaTokenV4 is BalboaTokenV3 {
+    // Maximum total supply (0 = unlimited)
+    uint256 private _cap;
+
+    // Events
+    event CapUpdated(uint256 previousCap, uint256 newCap);
+
+    // Errors
+    error CapExceeded(uint256 cap, uint256 supply);
+    error CapBelowSupply(uint256 cap, uint256 supply);
+    error InvalidCap(uint256 cap);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() BalboaTokenV3() {}
+
+    /**
+     * @notice Initialize a fresh deployment with a supply cap
+     * @param admin Address that will receive all roles
+     * @param cap_ Maximum total supply (0 for unlimited)
+     */
+    function initializeWithCap(address admin, uint256 cap_) external virtual initializer {
+        _initializeBalboaToken(admin);
+        if (cap_ != 0) _setCap(cap_);
+    }
+
+    /**
+     * @notice Configure the cap after upgrading from an earlier version
+     * @dev Also registers existing role holders, so upgrading straight from
+     * V1/V2 keeps role enumeration complete. Pass empty arrays when the
+     * proxy already ran `initializeV3`.
+     * @param roles Roles to register members for
+     * @param accounts Candidate holders, checked against every role
+     * @param cap_ Maximum total supply (0 for unlimited)
+     */
+    function initializeV4(bytes32[] calldata roles, address[] calldata accounts, uint256 cap_)
+        external
+        reinitializer(4)
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        _registerRoleMembers(roles, accounts);
+        if (cap_ != 0) _setCap(cap_);
+    }
+
+    /**
+     * @notice Lower the supply cap
+     * @param newCap New maximum total supply, below the current cap and not below total supply
+     */
+    function setCap(uint256 newCap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setCap(newCap);
+    }
+
+    /**
+     * @notice Get the maximum total supply
+     * @return uint256 Current cap (0 = unlimited)
+     */
+    function cap() external view returns (uint256) {
+        return _cap;
+    }
+
+    /**
+     * @dev Enforce the cap on mints
+     */
+    function _update(address from, address to, uint256 value) internal virtual override {
+        super._update(from, to, value);
+
+        if (from == address(0) && _cap != 0 && totalSupply() > _cap) {
+            revert CapExceeded(_cap, totalSupply());
+        }
+    }
+
+    /**
+     * @dev Set a new cap; unlimited counts as higher than any value, so the
+     * first cap is always a decrease
+     */
+    function _setCap(uint256 newCap) internal {
+        bool lowered = _cap == 0 || newCap < _cap;
+        if (newCap == 0 || !lowered) revert InvalidCap(newCap);
+        if (newCap < totalSupply()) revert CapBelowSupply(newCap, totalSupply());
+
+        emit CapUpdated(_cap, newCap);
+        _cap = newCap;
+    }
+
+    /**
+     * @dev Reserved storage for future versions, following BalboaToken's convention.
+     */
+    uint256[49] private __gap;
+}
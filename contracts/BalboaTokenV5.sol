@@ -0,0 +1,209 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./BalboaTokenV4.sol";
+
+/**
+ * @title BalboaTokenV5
+ * @notice Upgrade implementation that puts a timelock on further upgrades
+ * @dev Upgrade-safe: new state is appended after BalboaTokenV4's storage gap.
+ *
+ * An upgrade is identified by its new implementation and the hash of the
+ * calldata run with it. UPGRADER_ROLE schedules it, and `upgradeToAndCall`
+ * only accepts it once the delay has passed. UPGRADER_ROLE and
+ * DEFAULT_ADMIN_ROLE can cancel a scheduled upgrade before it runs.
+ *
+ * The delay is set by `initializeV5` when upgrading, or by
+ * `initializeWithTimelock` on a fresh deployment, and is never zero: a zero
+ * delay would let an upgrade run in the block it is scheduled. The inherited
+ * `initialize` and `initializeWithCap` revert, and until a delay is set no
+ * upgrade can be scheduled or executed. Changing it later takes a new
+ * implementation whose reinitializer sets it, so a change to the delay is
+ * itself subject to the current delay.
+ */
+contract BalboaTokenV5 is BalboaTokenV4 {
+    // Longest delay that can be configured, so upgrades cannot be locked out for good
+    uint256 public constant MAX_UPGRADE_DELAY = 30 days;
+
+    // Delay between scheduling and executing an upgrade
+    uint256 private _upgradeDelay;
+
+    // Timestamp from which each scheduled upgrade can execute (0 = not scheduled)
+    mapping(bytes32 => uint256) private _upgradeReadyAt;
+
+    // Events
+    event UpgradeScheduled(bytes32 indexed id, address indexed implementation, bytes data, uint256 readyAt);
+    event UpgradeCancelled(bytes32 indexed id);
+    event UpgradeDelayUpdated(uint256 previousDelay, uint256 newDelay);
+
+    // Errors
+    error InvalidUpgradeDelay(uint256 delay);
+    error UpgradeAlreadyScheduled(bytes32 id);
+    error UpgradeNotScheduled(bytes32 id);
+    error UpgradeNotReady(bytes32 id, uint256 readyAt);
+    error UpgradeDelayNotSet();
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() BalboaTokenV4() {}
+
+    /**
+     * @dev Restrict to a proxy that has never been initialized, ahead of a
+     * reinitializer that would otherwise also accept a live proxy
+     */
+    modifier onlyUninitialized() {
+        if (_getInitializedVersion() != 0) revert InvalidInitialization();
+        _;
+    }
+
+    /**
+     * @notice Unavailable: it would leave the upgrade delay unset; use `initializeWithTimelock`
+     * @custom:oz-upgrades-unsafe-allow missing-initializer-call
+     */
+    function initialize(address) public pure override {
+        revert UpgradeDelayNotSet();
+    }
+
+    /**
+     * @notice Unavailable: it would leave the upgrade delay unset; use `initializeWithTimelock`
+     * @custom:oz-upgrades-unsafe-allow missing-initializer-call
+     */
+    function initializeWithCap(address, uint256) external pure override {
+        revert UpgradeDelayNotSet();
+    }
+
+    /**
+     * @notice Initialize a fresh deployment with a supply cap and the upgrade timelock
+     * @dev Leaves the initialized version at 5, so the earlier reinitializers,
+     * which a fresh deployment has no use for, can never run
+     * @param admin Address that will receive all roles
+     * @param cap_ Maximum total supply (0 for unlimited)
+     * @param delay Seconds between scheduling and executing an upgrade (1 to MAX_UPGRADE_DELAY)
+     * @custom:oz-upgrades-validate-as-initializer
+     */
+    function initializeWithTimelock(address admin, uint256 cap_, uint256 delay)
+        external
+        onlyUninitialized
+        reinitializer(5)
+    {
+        _initializeBalboaToken(admin);
+        if (cap_ != 0) _setCap(cap_);
+        _setUpgradeDelay(delay);
+    }
+
+    /**
+     * @notice Turn on the upgrade timelock after upgrading from an earlier version
+     * @dev Also registers existing role holders, so upgrading straight from
+     * V1/V2 keeps role enumeration complete. Pass empty arrays when the
+     * proxy already ran `initializeV3` or `initializeV4`.
+     * @param roles Roles to register members for
+     * @param accounts Candidate holders, checked against every role
+     * @param delay Seconds between scheduling and executing an upgrade (1 to MAX_UPGRADE_DELAY)
+     */
+    function initializeV5(bytes32[] calldata roles, address[] calldata accounts, uint256 delay)
+        external
+        reinitializer(5)
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        _registerRoleMembers(roles, accounts);
+        _setUpgradeDelay(delay);
+    }
+
+    /**
+     * @notice Schedule an upgrade; it can execute once the delay has passed
+     * @param implementation New implementation
+     * @param data Calldata `upgradeToAndCall` will run on it (empty for none)
+     * @return id Identifier of the scheduled upgrade
+     */
+    function scheduleUpgrade(address implementation, bytes calldata data)
+        external
+        onlyRole(UPGRADER_ROLE)
+        returns (bytes32 id)
+    {
+        if (implementation == address(0)) revert ZeroAddress();
+        if (_upgradeDelay == 0) revert UpgradeDelayNotSet();
+
+        id = upgradeId(implementation, data);
+        if (_upgradeReadyAt[id] != 0) revert UpgradeAlreadyScheduled(id);
+
+        uint256 readyAt = block.timestamp + _upgradeDelay;
+        _upgradeReadyAt[id] = readyAt;
+        emit UpgradeScheduled(id, implementation, data, readyAt);
+    }
+
+    /**
+     * @notice Cancel a scheduled upgrade
+     * @dev Callable by UPGRADER_ROLE or DEFAULT_ADMIN_ROLE, so admins can stop
+     * an upgrade scheduled with a compromised upgrader key
+     * @param id Identifier returned by `scheduleUpgrade`
+     */
+    function cancelUpgrade(bytes32 id) external {
+        if (!hasRole(UPGRADER_ROLE, _msgSender()) && !hasRole(DEFAULT_ADMIN_ROLE, _msgSender())) {
+            revert AccessControlUnauthorizedAccount(_msgSender(), UPGRADER_ROLE);
+        }
+        if (_upgradeReadyAt[id] == 0) revert UpgradeNotScheduled(id);
+
+        delete _upgradeReadyAt[id];
+        emit UpgradeCancelled(id);
+    }
+
+    /**
+     * @notice Get the delay between scheduling and executing an upgrade
+     * @return uint256 Delay in seconds
+     */
+    function upgradeDelay() public view returns (uint256) {
+        return _upgradeDelay;
+    }
+
+    /**
+     * @notice Get when a scheduled upgrade can execute
+     * @param id Upgrade identifier
+     * @return uint256 Timestamp, or 0 if the upgrade is not scheduled
+     */
+    function upgradeReadyAt(bytes32 id) external view returns (uint256) {
+        return _upgradeReadyAt[id];
+    }
+
+    /**
+     * @notice Compute the identifier of an upgrade
+     * @param implementation New implementation
+     * @param data Calldata run on it by `upgradeToAndCall`
+     * @return bytes32 keccak256 of the implementation and the calldata hash
+     */
+    function upgradeId(address implementation, bytes memory data) public pure returns (bytes32) {
+        return keccak256(abi.encode(implementation, keccak256(data)));
+    }
+
+    /**
+     * @dev Require UPGRADER_ROLE, a configured delay and a scheduled upgrade
+     * whose delay has passed, then consume the schedule. `upgradeToAndCall` is the only path
+     * here and is always called externally, so its calldata is read from
+     * `msg.data`.
+     */
+    function _authorizeUpgrade(address newImplementation) internal virtual override {
+        super._authorizeUpgrade(newImplementation);
+        if (_upgradeDelay == 0) revert UpgradeDelayNotSet();
+
+        (, bytes memory data) = abi.decode(msg.data[4:], (address, bytes));
+        bytes32 id = upgradeId(newImplementation, data);
+        uint256 readyAt = _upgradeReadyAt[id];
+        if (readyAt == 0) revert UpgradeNotScheduled(id);
+        if (block.timestamp < readyAt) revert UpgradeNotReady(id, readyAt);
+
+        delete _upgradeReadyAt[id];
+    }
+
+    /**
+     * @dev Set the upgrade delay within bounds
+     */
+    function _setUpgradeDelay(uint256 newDelay) internal {
+        if (newDelay == 0 || newDelay > MAX_UPGRADE_DELAY) revert InvalidUpgradeDelay(newDelay);
+
+        emit UpgradeDelayUpdated(_upgradeDelay, newDelay);
+        _upgradeDelay = newDelay;
+    }
+
+    /**
+     * @dev Reserved storage for future versions, following BalboaToken's convention.
+     */
+    uint256[48] private __gap;
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./BalboaTokenV5.sol";
+
+/**
+ * @title BalboaTokenV6
+ * @notice Upgrade implementation that blacklists and unblacklists accounts in batches
+ * @dev Upgrade-safe: no storage layout changes; only adds functions.
+ *
+ * Each account whose status changes emits the usual Blacklisted or
+ * UnBlacklisted event, followed by BlacklistUpdated carrying a reason: a
+ * 32-byte reference to the evidence or case behind the change (e.g. the
+ * keccak256 of a case id), or zero for none. Accounts that already have the
+ * requested status are skipped without events.
+ *
+ * Fresh deployments use the inherited `initializeWithTimelock`.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract BalboaTokenV6 is BalboaTokenV5 {
+    // Events
+    event BlacklistUpdated(address indexed account, bool blacklisted, bytes32 indexed reason);
+
+    // Errors
+    error BatchLengthMismatch(uint256 accounts, uint256 reasons);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() BalboaTokenV5() {}
+
+    /**
+     * @notice Add addresses to the blacklist
+     * @param accounts Addresses to blacklist
+     * @param reasons Reason per address, or an empty array for none
+     * @return changed Number of addresses that were not blacklisted yet
+     */
+    function blacklistBatch(address[] calldata accounts, bytes32[] calldata reasons)
+        external
+        onlyRole(BLACKLISTER_ROLE)
+        returns (uint256 changed)
+    {
+        return _setBlacklistedBatch(accounts, reasons, true);
+    }
+
+    /**
+     * @notice Remove addresses from the blacklist
+     * @param accounts Addresses to unblacklist
+     * @param reasons Reason per address, or an empty array for none
+     * @return changed Number of addresses that were blacklisted
+     */
+    function unBlacklistBatch(address[] calldata accounts, bytes32[] calldata reasons)
+        external
+        onlyRole(BLACKLISTER_ROLE)
+        returns (uint256 changed)
+    {
+        return _setBlacklistedBatch(accounts, reasons, false);
+    }
+
+    /**
+     * @dev Apply one status to every account, recording the reason of each change
+     */
+    function _setBlacklistedBatch(address[] calldata accounts, bytes32[] calldata reasons, bool status)
+        internal
+        returns (uint256 changed)
+    {
+        if (reasons.length != 0 && reasons.length != accounts.length) {
+            revert BatchLengthMismatch(accounts.length, reasons.length);
+        }
+
+        for (uint256 i = 0; i < accounts.length; ++i) {
+            address account = accounts[i];
+            if (status && account == address(0)) revert ZeroAddress();
+            if (_setBlacklisted(account, status)) {
+                emit BlacklistUpdated(account, status, reasons.length == 0 ? bytes32(0) : reasons[i]);
+                ++changed;
+            }
+        }
+    }
+}
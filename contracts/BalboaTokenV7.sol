@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./BalboaTokenV6.sol";
+
+/**
+ * @title BalboaTokenV7
+ * @notice Upgrade implementation that moves blacklisted balances to a recovery address
+ * @dev Upgrade-safe: new state is appended; BalboaTokenV6 adds no storage.
+ *
+ * SEIZER_ROLE moves the whole balance of a blacklisted account to the
+ * recovery address set by DEFAULT_ADMIN_ROLE, instead of burning it. The
+ * transfer skips the blacklist check on the sender, and only on this path;
+ * it still respects the pause, and the recovery address itself may not be
+ * blacklisted. The roles are separate: the seizer cannot choose where funds
+ * go, and the admin cannot move them without holding SEIZER_ROLE too.
+ *
+ * Fresh deployments use the inherited `initializeWithTimelock`.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract BalboaTokenV7 is BalboaTokenV6 {
+    bytes32 public constant SEIZER_ROLE = keccak256("SEIZER_ROLE");
+
+    // Account that receives seized balances (zero = not set, seizing disabled)
+    address private _recoveryAddress;
+
+    // Events
+    event RecoveryAddressUpdated(address indexed previousRecovery, address indexed newRecovery);
+    event BalanceSeized(address indexed account, address indexed recovery, uint256 amount);
+
+    // Errors
+    error AccountNotBlacklisted(address account);
+    error RecoveryAddressNotSet();
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() BalboaTokenV6() {}
+
+    /**
+     * @notice Set the recovery address after upgrading from an earlier version
+     * @dev Also registers existing role holders and sets the upgrade delay,
+     * so upgrading straight from V1-V4 leaves nothing the skipped
+     * reinitializers would have done. Pass empty arrays when the proxy
+     * already ran `initializeV3`, `initializeV4` or `initializeV5`.
+     * SEIZER_ROLE is not granted here; grant it separately.
+     * @param roles Roles to register members for
+     * @param accounts Candidate holders, checked against every role
+     * @param delay Upgrade delay in seconds; 0 keeps the current one, which
+     * only works once a delay is set
+     * @param recovery Account that will receive seized balances
+     */
+    function initializeV7(bytes32[] calldata roles, address[] calldata accounts, uint256 delay, address recovery)
+        external
+        reinitializer(7)
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        _registerRoleMembers(roles, accounts);
+        if (delay != 0 || upgradeDelay() == 0) _setUpgradeDelay(delay);
+        _setRecoveryAddress(recovery);
+    }
+
+    /**
+     * @notice Change the account that receives seized balances
+     * @param recovery New recovery address (not blacklisted)
+     */
+    function setRecoveryAddress(address recovery) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setRecoveryAddress(recovery);
+    }
+
+    /**
+     * @notice Get the account that receives seized balances
+     * @return address Recovery address (zero if not set)
+     */
+    function recoveryAddress() external view returns (address) {
+        return _recoveryAddress;
+    }
+
+    /**
+     * @notice Move the full balance of a blacklisted account to the recovery address
+     * @param account Blacklisted account to seize from
+     * @return amount Amount moved
+     */
+    function seize(address account)
+        external
+        onlyRole(SEIZER_ROLE)
+        whenNotPaused
+        nonReentrant
+        returns (uint256 amount)
+    {
+        if (!isBlacklisted(account)) revert AccountNotBlacklisted(account);
+        address recovery = _recoveryAddress;
+        if (recovery == address(0)) revert RecoveryAddressNotSet();
+        if (isBlacklisted(recovery)) revert AccountBlacklisted(recovery);
+
+        amount = balanceOf(account);
+        if (amount == 0) revert ZeroAmount();
+
+        // Straight to ERC20's balance update: BalboaToken's would reject the blacklisted sender
+        ERC20Upgradeable._update(account, recovery, amount);
+        emit BalanceSeized(account, recovery, amount);
+    }
+
+    /**
+     * @dev Set the recovery address, rejecting zero and blacklisted accounts
+     */
+    function _setRecoveryAddress(address recovery) internal {
+        if (recovery == address(0)) revert ZeroAddress();
+        if (isBlacklisted(recovery)) revert AccountBlacklisted(recovery);
+
+        emit RecoveryAddressUpdated(_recoveryAddress, recovery);
+        _recoveryAddress = recovery;
+    }
+
+    /**
+     * @dev Reserved storage for future versions, following BalboaToken's convention.
+     */
+    uint256[49] private __gap;
+}
@@ -7,10 +7,20 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * @title Create2Factory
  * @notice Factory contract for deterministic deployment using CREATE2
  * @dev Allows owner-controlled deterministic contract deployment
+ *
+ * Salts come in two kinds:
+ * - Sender-protected: the first 20 bytes equal the caller's address. The
+ *   CREATE2 salt is then hashed with the caller, so only that caller can ever
+ *   deploy to the resulting address; anyone else reusing the salt gets a
+ *   different address.
+ * - Shared: any other salt is used as-is, so every authorized deployer
+ *   reaches the same address with it.
  * 
  * Security Features:
- * - Owner-only deployment to prevent spam
+ * - Deployment limited to the owner and deployers it authorizes
  * - Checks for existing deployments to prevent duplicates
+ * - Atomic deploy-and-initialize, so no one can initialize a fresh deployment first
+ * - All-or-nothing batch deployment
  * - Proper error handling and events
  * - No payable to prevent stuck ETH
  */
@@ -18,16 +28,71 @@ contract Create2Factory is Ownable {
     // Events
     event Deployed(address indexed addr, bytes32 indexed salt, address indexed deployer);
     event DeployFailed(bytes32 indexed salt, address deployer);
+    event DeployedAndCalled(address indexed addr, bytes32 indexed salt, address indexed deployer, bytes result);
+    event DeployerAuthorized(address indexed account);
+    event DeployerRevoked(address indexed account);
 
     // Errors
     error CreateFailed();
     error ContractAlreadyDeployed(address existingAddress);
     error EmptyBytecode();
+    error EmptyCallData();
+    error CallFailed(address addr, bytes reason);
+    error LengthMismatch(uint256 salts, uint256 bytecodes);
+    error UnauthorizedDeployer(address account);
+    error ZeroAddress();
+
+    // Accounts besides the owner allowed to deploy
+    mapping(address => bool) private _authorizedDeployers;
+
+    /**
+     * @dev Restrict to the owner and authorized deployers
+     */
+    modifier onlyDeployer() {
+        if (!isAuthorizedDeployer(msg.sender)) revert UnauthorizedDeployer(msg.sender);
+        _;
+    }
+
+    /**
+     * @notice Constructor sets the initial owner
+     * @dev Taking the owner as an argument (rather than msg.sender) lets a
+     * keyless, pre-signed transaction deploy a factory someone can operate.
+     * @param initialOwner Account allowed to deploy through the factory
+     */
+    constructor(address initialOwner) Ownable(initialOwner) {}
+
+    /**
+     * @notice Allow an account to deploy through the factory
+     * @param account Account to authorize
+     */
+    function authorizeDeployer(address account) external onlyOwner {
+        if (account == address(0)) revert ZeroAddress();
+        if (_authorizedDeployers[account]) return;
+
+        _authorizedDeployers[account] = true;
+        emit DeployerAuthorized(account);
+    }
+
+    /**
+     * @notice Stop an account from deploying through the factory
+     * @dev The owner can always deploy and is not affected.
+     * @param account Account to revoke
+     */
+    function revokeDeployer(address account) external onlyOwner {
+        if (!_authorizedDeployers[account]) return;
+
+        _authorizedDeployers[account] = false;
+        emit DeployerRevoked(account);
+    }
 
     /**
-     * @notice Constructor sets the contract deployer as owner
+     * @notice Check whether an account may deploy through the factory
+     * @param account Account to check
+     * @return bool True for the owner and authorized deployers
      */
-    constructor() Ownable(msg.sender) {}
+    function isAuthorizedDeployer(address account) public view returns (bool) {
+        return account == owner() || _authorizedDeployers[account];
+    }
 
     /**
      * @notice Deploy a contract using CREATE2
@@ -37,19 +102,76 @@ contract Create2Factory is Ownable {
      */
     function deploy(bytes32 salt, bytes memory bytecode) 
         external 
-        onlyOwner 
+        onlyDeployer 
         returns (address addr) 
     {
+        addr = _deploy(salt, bytecode);
+    }
+
+    /**
+     * @notice Deploy a contract using CREATE2 and call it in the same transaction
+     * @dev Typically used to initialize a proxy created with empty init data.
+     * If the call reverts, the whole deployment is rolled back.
+     * @param salt Unique salt for deterministic address
+     * @param bytecode Contract bytecode to deploy
+     * @param data Calldata for the deployed contract (e.g. an initializer)
+     * @return addr Address of deployed contract
+     * @return result Data returned by the call
+     */
+    function deployAndCall(bytes32 salt, bytes memory bytecode, bytes calldata data)
+        external
+        onlyDeployer
+        returns (address addr, bytes memory result)
+    {
+        if (data.length == 0) revert EmptyCallData();
+
+        addr = _deploy(salt, bytecode);
+
+        bool success;
+        // solhint-disable-next-line avoid-low-level-calls
+        (success, result) = addr.call(data);
+        if (!success) revert CallFailed(addr, result);
+
+        emit DeployedAndCalled(addr, salt, msg.sender, result);
+    }
+
+    /**
+     * @notice Deploy several contracts using CREATE2 in one transaction
+     * @dev Deploys in order, so a later contract may reference an earlier one
+     * (e.g. a proxy pointing at its implementation). If any deployment fails,
+     * none of them happen.
+     * @param salts Unique salt for each deployment
+     * @param bytecodes Contract bytecode for each deployment
+     * @return addrs Addresses of deployed contracts, in input order
+     */
+    function deployMany(bytes32[] calldata salts, bytes[] calldata bytecodes)
+        external
+        onlyDeployer
+        returns (address[] memory addrs)
+    {
+        if (salts.length != bytecodes.length) revert LengthMismatch(salts.length, bytecodes.length);
+
+        addrs = new address[](salts.length);
+        for (uint256 i = 0; i < salts.length; ++i) {
+            addrs[i] = _deploy(salts[i], bytecodes[i]);
+        }
+    }
+
+    /**
+     * @dev Deploy with CREATE2 after checking the bytecode and target address
+     */
+    function _deploy(bytes32 salt, bytes memory bytecode) internal returns (address addr) {
         if (bytecode.length == 0) revert EmptyBytecode();
 
         // Check if contract already deployed at this address
-        address predictedAddress = computeAddress(salt, bytecode);
+        bytes32 create2Salt = _create2Salt(msg.sender, salt);
+        address predictedAddress = _computeAddress(create2Salt, bytecode);
         if (predictedAddress.code.length > 0) {
             revert ContractAlreadyDeployed(predictedAddress);
         }
 
         assembly {
-            addr := create2(0, add(bytecode, 32), mload(bytecode), salt)
+            addr := create2(0, add(bytecode, 32), mload(bytecode), create2Salt)
         }
         
         if (addr == address(0)) {
@@ -61,7 +183,8 @@ contract Create2Factory is Ownable {
     }
 
     /**
-     * @notice Predict the deployment address for given salt and bytecode
+     * @notice Predict the deployment address for a shared salt and bytecode
+     * @dev Wrong for sender-protected salts; use computeAddressFor instead.
      * @param salt Salt for deployment
      * @param bytecode Contract bytecode
      * @return predicted The predicted address
@@ -71,19 +194,37 @@ contract Create2Factory is Ownable {
         view 
         returns (address predicted) 
     {
-        bytes32 hash = keccak256(
-            abi.encodePacked(
-                bytes1(0xff),
-                address(this),
-                salt,
-                keccak256(bytecode)
-            )
-        );
-        predicted = address(uint160(uint256(hash)));
+        predicted = _computeAddress(salt, bytecode);
+    }
+
+    /**
+     * @notice Predict the deployment address when `sender` deploys
+     * @param sender Account that will call deploy
+     * @param salt Salt for deployment (shared or sender-protected)
+     * @param bytecode Contract bytecode
+     * @return predicted The predicted address
+     */
+    function computeAddressFor(address sender, bytes32 salt, bytes memory bytecode)
+        public
+        view
+        returns (address predicted)
+    {
+        predicted = _computeAddress(_create2Salt(sender, salt), bytecode);
+    }
+
+    /**
+     * @notice Check whether a salt is protected for `sender`
+     * @param sender Account to check against
+     * @param salt Salt to check
+     * @return bool True if the salt's first 20 bytes are `sender`
+     */
+    function isProtectedSalt(address sender, bytes32 salt) public pure returns (bool) {
+        return address(bytes20(salt)) == sender;
     }
 
     /**
      * @notice Check if a contract is already deployed at the predicted address
+     * @dev Wrong for sender-protected salts; use isDeployedFor instead.
      * @param salt Salt for deployment
      * @param bytecode Contract bytecode
      * @return bool True if contract exists at predicted address
@@ -96,4 +237,37 @@ contract Create2Factory is Ownable {
         address predicted = computeAddress(salt, bytecode);
         return predicted.code.length > 0;
     }
+
+    /**
+     * @notice Check if a contract is already deployed where `sender` would deploy it
+     * @param sender Account that calls deploy
+     * @param salt Salt for deployment (shared or sender-protected)
+     * @param bytecode Contract bytecode
+     * @return bool True if contract exists at predicted address
+     */
+    function isDeployedFor(address sender, bytes32 salt, bytes memory bytecode) external view returns (bool) {
+        return computeAddressFor(sender, salt, bytecode).code.length > 0;
+    }
+
+    /**
+     * @dev Salt passed to CREATE2: protected salts are bound to their sender
+     */
+    function _create2Salt(address sender, bytes32 salt) internal pure returns (bytes32) {
+        return isProtectedSalt(sender, salt) ? keccak256(abi.encode(sender, salt)) : salt;
+    }
+
+    /**
+     * @dev CREATE2 address for the salt actually passed to the opcode
+     */
+    function _computeAddress(bytes32 create2Salt, bytes memory bytecode) internal view returns (address) {
+        bytes32 hash = keccak256(
+            abi.encodePacked(
+                bytes1(0xff),
+                address(this),
+                create2Salt,
+                keccak256(bytecode)
+            )
+        );
+        return address(uint160(uint256(hash)));
+    }
 }
@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @dev Pulls ERC1967Proxy into the Hardhat build so deployment tasks and tests
+ * can use `ethers.getContractFactory("ERC1967Proxy")` with the project's
+ * compiler settings (required for deterministic proxy addresses).
+ */
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
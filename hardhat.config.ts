@@ -2,6 +2,7 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@openzeppelin/hardhat-upgrades";
 import * as dotenv from "dotenv";
 import { HardhatUserConfig } from "hardhat/config";
+import "./tasks";
 
 dotenv.config();
 
@@ -29,6 +30,11 @@ const config: HardhatUserConfig = {
     },
   },
   networks: {
+    // Overridden for the `hardhat node` processes that rehearsals and multi-chain tests start (scripts/lib/node.ts)
+    hardhat: {
+      chainId: Number(getEnv("HARDHAT_CHAIN_ID")) || 31337,
+      initialDate: getEnv("HARDHAT_INITIAL_DATE") || undefined,
+    },
     sepolia: {
       url: getEnv("SEPOLIA_RPC") || "",
       accounts: getEnv("DEPLOYER_KEY") ? [getEnv("DEPLOYER_KEY")] : [],
@@ -0,0 +1,350 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Contract, Provider, getAddress, keccak256 } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken, Create2Factory } from "../../typechain-types";
+import { resolveAddress } from "../lib/config";
+import { describeError } from "../lib/errors";
+import { browserUrl } from "../lib/explorer";
+import { findBlacklisted, findRoleHolders } from "../lib/holders";
+import { syncEventIndex } from "../lib/indexer";
+import { readImplementation } from "../lib/invariants";
+import { ReadOnlyConnection, configuredNetworks, connectReadOnly } from "../lib/networks";
+import { deploymentRecordPath, loadDeploymentRecord } from "../lib/records";
+import { allRoles } from "../lib/roles";
+
+/**
+ * Audit BalboaToken roles and admin state across networks
+ *
+ * For every network this reads each role's holders, the Create2Factory
+ * owner, the implementation behind the proxy, the paused state and the
+ * blacklist, then compares them between networks and flags any drift. The
+ * result is printed as tables and written as JSON and Markdown for compliance
+ * records. Nothing is sent, so no account is needed.
+ *
+ * Usage:
+ *   npx hardhat balboa:roles:audit
+ *   npx hardhat balboa:roles:audit --networks mainnet,base,polygon
+ *
+ * Optional:
+ *   --networks a,b     Networks to audit (defaults to every network in hardhat.config.ts
+ *                      with an RPC URL, else --network)
+ *   --token 0x...      Proxy address (defaults to each network's deployment record, then TOKEN_ADDRESS)
+ *   --factory 0x...    Create2Factory address (defaults to each network's deployment record, then FACTORY_ADDRESS)
+ *   --json <path>      JSON report (default deployments/audits/roles-<date>.json)
+ *   --markdown <path>  Markdown report (default deployments/audits/roles-<date>.md)
+ *
+ * Networks that cannot be read (no RPC, no token) are listed as not audited
+ * and left out of the drift comparison. Implementations count as drift when
+ * their code differs, not their address.
+ */
+
+export interface AuditRolesArgs {
+  networks?: string[];
+  token?: string;
+  factory?: string;
+  json?: string;
+  markdown?: string;
+}
+
+export interface NetworkAudit {
+  network: string;
+  chainId: string;
+  token: string;
+  /** Block explorer page of the token, when the chain has a known explorer */
+  tokenUrl?: string;
+  implementation: {
+    address: string;
+    /** Contract name from the deployment record */
+    contract?: string;
+    /** keccak256 of the runtime code */
+    codeHash: string;
+  };
+  /** Undefined when no factory address is known for the network */
+  factory?: {
+    address: string;
+    /** Undefined when no factory is deployed at the address */
+    owner?: string;
+  };
+  paused: boolean;
+  blacklisted: string[];
+  /** Holders of each role, by role constant */
+  roles: Record<string, string[]>;
+}
+
+/** A property whose value is not the same on every audited network */
+export interface AuditDrift {
+  item: string;
+  /** Value by network */
+  values: Record<string, string>;
+}
+
+export interface RoleAuditReport {
+  createdAt: string;
+  networks: NetworkAudit[];
+  /** Networks that could not be read */
+  unaudited: { network: string; error: string }[];
+  drift: AuditDrift[];
+}
+
+export async function auditRoles(hre: HardhatRuntimeEnvironment, args: AuditRolesArgs): Promise<RoleAuditReport> {
+  const configured = configuredNetworks(hre);
+  const networks = [...new Set(args.networks ?? (configured.length > 0 ? configured : [hre.network.name]))];
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Role Audit");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nNetworks:", networks.join(", "));
+
+  const report: RoleAuditReport = { createdAt: new Date().toISOString(), networks: [], unaudited: [], drift: [] };
+  for (const network of networks) {
+    let connection: ReadOnlyConnection | undefined;
+    try {
+      // The selected network may be in-process, so it is read through hre
+      const provider: Provider =
+        network === hre.network.name
+          ? hre.ethers.provider
+          : (connection = await connectReadOnly(hre, network)).provider;
+      const audit = await auditNetwork(hre, network, provider, args);
+      report.networks.push(audit);
+      console.log(`  ✓ ${network} (chain ${audit.chainId}): token ${audit.token}`);
+    } catch (error) {
+      report.unaudited.push({ network, error: describeError(error) });
+      console.log(`  ❌ ${network}: ${describeError(error)}`);
+    } finally {
+      connection?.provider.destroy();
+    }
+  }
+  report.drift = findDrift(report.networks);
+
+  printReport(report);
+
+  const date = report.createdAt.slice(0, 10);
+  const dir = path.join(path.dirname(deploymentRecordPath(hre.network.name)), "audits");
+  const jsonPath = args.json ?? path.join(dir, `roles-${date}.json`);
+  const markdownPath = args.markdown ?? path.join(dir, `roles-${date}.md`);
+  for (const [file, content] of [
+    [jsonPath, JSON.stringify(report, null, 2) + "\n"],
+    [markdownPath, formatMarkdown(report)],
+  ]) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+  console.log("\nJSON report:", jsonPath);
+  console.log("Markdown report:", markdownPath);
+
+  return report;
+}
+
+async function auditNetwork(
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  provider: Provider,
+  args: AuditRolesArgs
+): Promise<NetworkAudit> {
+  const { chainId } = await provider.getNetwork();
+  const record = loadDeploymentRecord(network);
+  const tokenAddress = resolveAddress(args.token ?? record?.proxy?.address, "TOKEN_ADDRESS");
+  if ((await provider.getCode(tokenAddress)) === "0x") {
+    throw new Error(`No contract found at token address ${tokenAddress}`);
+  }
+
+  const { abi } = await hre.artifacts.readArtifact("BalboaToken");
+  const token = new Contract(tokenAddress, abi, provider) as unknown as BalboaToken;
+  const fromBlock = record?.proxy?.address === tokenAddress ? (record.proxy.blockNumber ?? 0) : 0;
+  const index = await syncEventIndex(provider, network, [{ address: tokenAddress, kind: "token", fromBlock }]);
+
+  const implementation = await readImplementation(token);
+  const roles: Record<string, string[]> = {};
+  for (const role of allRoles()) {
+    roles[role.constant] = (await findRoleHolders(token, role.hash, fromBlock, [], index)).sort();
+  }
+
+  const explorer = browserUrl(hre, chainId.toString());
+  return {
+    network,
+    chainId: chainId.toString(),
+    token: tokenAddress,
+    tokenUrl: explorer && `${explorer}/address/${tokenAddress}`,
+    implementation: {
+      address: implementation,
+      contract: record?.implementations.find((entry) => getAddress(entry.address) === implementation)?.contract,
+      codeHash: keccak256(await provider.getCode(implementation)),
+    },
+    factory: await auditFactory(hre, provider, args.factory ?? record?.factory?.address),
+    paused: await token.paused(),
+    blacklisted: await findBlacklisted(token, fromBlock, [], index),
+    roles,
+  };
+}
+
+async function auditFactory(
+  hre: HardhatRuntimeEnvironment,
+  provider: Provider,
+  value: string | undefined
+): Promise<NetworkAudit["factory"]> {
+  if (!value && !process.env.FACTORY_ADDRESS?.trim()) return undefined;
+  const address = resolveAddress(value, "FACTORY_ADDRESS");
+  if ((await provider.getCode(address)) === "0x") return { address };
+
+  const { abi } = await hre.artifacts.readArtifact("Create2Factory");
+  const factory = new Contract(address, abi, provider) as unknown as Create2Factory;
+  return { address, owner: await factory.owner() };
+}
+
+/**
+ * Properties that differ between the audited networks
+ */
+function findDrift(audits: NetworkAudit[]): AuditDrift[] {
+  if (audits.length < 2) return [];
+
+  const items: [string, (audit: NetworkAudit) => string][] = [
+    ["token address", (audit) => audit.token],
+    [
+      "implementation code",
+      (audit) => `${audit.implementation.contract ?? "unknown contract"} (code ${audit.implementation.codeHash})`,
+    ],
+    ["factory owner", (audit) => (audit.factory ? (audit.factory.owner ?? "no factory") : "unknown")],
+    ["paused", (audit) => String(audit.paused)],
+    ["blacklist", (audit) => audit.blacklisted.join(", ") || "empty"],
+    ...allRoles().map((role): [string, (audit: NetworkAudit) => string] => [
+      `${role.constant} holders`,
+      (audit) => audit.roles[role.constant].join(", ") || "none",
+    ]),
+  ];
+
+  const drift: AuditDrift[] = [];
+  for (const [item, value] of items) {
+    const values = Object.fromEntries(audits.map((audit) => [audit.network, value(audit)]));
+    if (new Set(Object.values(values)).size > 1) drift.push({ item, values });
+  }
+  return drift;
+}
+
+function printReport(report: RoleAuditReport): void {
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("              Role Audit Report");
+  console.log("═══════════════════════════════════════════════════════════");
+  if (report.networks.length > 0) {
+    console.table(
+      report.networks.map((audit) => ({
+        network: audit.network,
+        chainId: audit.chainId,
+        token: audit.token,
+        implementation: audit.implementation.contract ?? audit.implementation.address,
+        paused: audit.paused ? "yes" : "no",
+        blacklisted: audit.blacklisted.length,
+        "factory owner": audit.factory ? (audit.factory.owner ?? "no factory") : "unknown",
+      }))
+    );
+
+    console.log("\n👥 Role holders:");
+    console.table(holderRows(report).map(({ role, account, present }) => ({ role, account, ...present })));
+  }
+
+  if (report.drift.length > 0) {
+    console.log(`\n⚠️  Drift between networks (${report.drift.length}):`);
+    for (const { item, values } of report.drift) {
+      console.log(`  ${item}:`);
+      for (const [network, value] of Object.entries(values)) {
+        console.log(`    ${network}: ${value}`);
+      }
+    }
+  } else if (report.networks.length > 1) {
+    console.log(`\n✅ No drift across ${report.networks.length} networks`);
+  }
+
+  if (report.unaudited.length > 0) {
+    console.log(`\n⚠️  Not audited (${report.unaudited.length}):`);
+    for (const { network, error } of report.unaudited) {
+      console.log(`  ${network}: ${error}`);
+    }
+  }
+}
+
+/**
+ * One row per role holder, with ✓/✗ for each audited network
+ */
+function holderRows(report: RoleAuditReport): { role: string; account: string; present: Record<string, string> }[] {
+  const rows: { role: string; account: string; present: Record<string, string> }[] = [];
+  for (const role of allRoles()) {
+    const accounts = [...new Set(report.networks.flatMap((audit) => audit.roles[role.constant]))].sort();
+    for (const account of accounts) {
+      const present = Object.fromEntries(
+        report.networks.map((audit) => [audit.network, audit.roles[role.constant].includes(account) ? "✓" : "✗"])
+      );
+      rows.push({ role: role.constant, account, present });
+    }
+  }
+  return rows;
+}
+
+function formatMarkdown(report: RoleAuditReport): string {
+  const networks = report.networks.map((audit) => audit.network);
+  const table = (header: string[], rows: string[][]): string[] => [
+    `| ${header.join(" | ")} |`,
+    `|${header.map(() => "---").join("|")}|`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ];
+  const code = (value: string): string => `\`${value}\``;
+
+  const lines = ["# BalboaToken Role Audit", "", `Generated ${report.createdAt}.`, "", "## Networks", ""];
+  lines.push(
+    ...table(
+      ["Network", "Chain", "Token", "Implementation", "Paused", "Blacklisted", "Factory owner"],
+      report.networks.map((audit) => [
+        audit.network,
+        audit.chainId,
+        audit.tokenUrl ? `[${code(audit.token)}](${audit.tokenUrl})` : code(audit.token),
+        `${audit.implementation.contract ?? "unknown"} ${code(audit.implementation.address)}`,
+        audit.paused ? "yes" : "no",
+        String(audit.blacklisted.length),
+        audit.factory ? (audit.factory.owner ? code(audit.factory.owner) : "no factory") : "unknown",
+      ])
+    )
+  );
+
+  lines.push("", "## Role Holders", "");
+  const rows = holderRows(report);
+  lines.push(
+    ...(rows.length > 0
+      ? table(
+          ["Role", "Account", ...networks],
+          rows.map(({ role, account, present }) => [role, code(account), ...networks.map((n) => present[n])])
+        )
+      : ["No role holders found."])
+  );
+
+  lines.push("", "## Blacklist", "");
+  const blacklisted = [...new Set(report.networks.flatMap((audit) => audit.blacklisted))].sort();
+  lines.push(
+    ...(blacklisted.length > 0
+      ? table(
+          ["Account", ...networks],
+          blacklisted.map((account) => [
+            code(account),
+            ...report.networks.map((audit) => (audit.blacklisted.includes(account) ? "✓" : "✗")),
+          ])
+        )
+      : ["No blacklisted accounts."])
+  );
+
+  lines.push("", "## Drift", "");
+  if (report.drift.length === 0) {
+    lines.push(report.networks.length > 1 ? "None." : "Only one network was audited.");
+  }
+  for (const { item, values } of report.drift) {
+    lines.push(`- **${item}**`);
+    for (const [network, value] of Object.entries(values)) {
+      lines.push(`  - ${network}: ${value}`);
+    }
+  }
+
+  if (report.unaudited.length > 0) {
+    lines.push("", "## Not Audited", "");
+    for (const { network, error } of report.unaudited) {
+      lines.push(`- ${network}: ${error}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
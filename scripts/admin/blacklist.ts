@@ -0,0 +1,213 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaTokenV6 } from "../../typechain-types";
+import { DEFAULT_BATCH_GAS_LIMIT, BlacklistEntry, GasChunk, chunkByGas, loadBlacklistCsv } from "../lib/blacklist";
+import { countdown } from "../lib/config";
+import { DryRunReport, PlannedTransaction, dryRun, plannedTransaction } from "../lib/dryrun";
+import { deploymentRecordPath, resolveTokenAddress } from "../lib/records";
+import { roleInfo } from "../lib/roles";
+
+/**
+ * Blacklist or unblacklist the accounts listed in a CSV file
+ *
+ * Accounts already in the requested state are skipped; the rest are sent in
+ * blacklistBatch / unBlacklistBatch transactions (BalboaTokenV6+) sized to
+ * stay under a gas limit, each account with the hash of its reason. Every
+ * transaction is appended to a receipt log as soon as it is mined, so an
+ * interrupted run can be checked and re-run (already listed accounts are
+ * skipped the second time).
+ *
+ * Usage:
+ *   npx hardhat balboa:blacklist:add --file blacklist.csv --network sepolia
+ *   npx hardhat balboa:blacklist:remove --file cleared.csv --network sepolia
+ *
+ * Optional:
+ *   --token 0x...        Proxy address (defaults to the deployment record, then TOKEN_ADDRESS)
+ *   --gas-limit <gas>    Most gas per transaction (default 5000000)
+ *   --receipts <path>    Receipt log (default deployments/blacklist/<network>-<timestamp>.json)
+ *   --yes                Skip the confirmation countdown
+ *   --dry-run            Simulate the batches without sending them
+ *
+ * See scripts/lib/blacklist.ts for the file format.
+ * Note: The account running this task must have BLACKLISTER_ROLE
+ */
+
+export interface BlacklistImportArgs {
+  file: string;
+  token?: string;
+  gasLimit?: bigint;
+  receipts?: string;
+  yes: boolean;
+  dryRun?: boolean;
+}
+
+export interface BlacklistBatchReceipt {
+  txHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  /** Accounts whose status the transaction changed */
+  changed: number;
+  entries: BlacklistEntry[];
+}
+
+export interface BlacklistReceiptLog {
+  createdAt: string;
+  network: string;
+  chainId: string;
+  token: string;
+  action: "blacklist" | "unblacklist";
+  file: string;
+  executor: string;
+  /** Accounts that already had the requested status */
+  skipped: BlacklistEntry[];
+  batches: BlacklistBatchReceipt[];
+}
+
+export function blacklistFromCsv(
+  hre: HardhatRuntimeEnvironment,
+  args: BlacklistImportArgs
+): Promise<BlacklistReceiptLog | DryRunReport> {
+  return importBlacklist(hre, args, "blacklist");
+}
+
+export function unBlacklistFromCsv(
+  hre: HardhatRuntimeEnvironment,
+  args: BlacklistImportArgs
+): Promise<BlacklistReceiptLog | DryRunReport> {
+  return importBlacklist(hre, args, "unblacklist");
+}
+
+async function importBlacklist(
+  hre: HardhatRuntimeEnvironment,
+  args: BlacklistImportArgs,
+  action: BlacklistReceiptLog["action"]
+): Promise<BlacklistReceiptLog | DryRunReport> {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const tokenAddress = resolveTokenAddress(hre, args.token);
+  const entries = loadBlacklistCsv(args.file);
+  const gasLimit = args.gasLimit ?? DEFAULT_BATCH_GAS_LIMIT;
+  const adding = action === "blacklist";
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log(adding ? "              Blacklist Import" : "              Blacklist Removal");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nExecuting with account:", signer.address);
+  console.log("Token address:", tokenAddress);
+  console.log("File:", args.file);
+  console.log("Gas limit per transaction:", gasLimit.toString());
+
+  const token = (await ethers.getContractAt("BalboaTokenV6", tokenAddress)) as unknown as BalboaTokenV6;
+  const blacklister = roleInfo("BLACKLISTER");
+  if (!(await token.hasRole(blacklister.hash, signer.address))) {
+    console.log("\n💡 Run balboa:roles:check to see who holds BLACKLISTER_ROLE");
+    throw new Error(`Account ${signer.address} does not have ${blacklister.constant}. Cannot update the blacklist.`);
+  }
+  try {
+    await token.blacklistBatch.staticCall([], []);
+  } catch {
+    throw new Error(`Token ${tokenAddress} has no batch blacklisting; upgrade it to BalboaTokenV6 first`);
+  }
+
+  const pending: BlacklistEntry[] = [];
+  const skipped: BlacklistEntry[] = [];
+  for (const entry of entries) {
+    ((await token.isBlacklisted(entry.account)) === adding ? skipped : pending).push(entry);
+  }
+
+  console.log(`\n📋 ${entries.length} account(s) listed:`);
+  for (const entry of skipped) {
+    console.log(`  ⏭️  ${entry.account} already ${adding ? "blacklisted" : "not blacklisted"}`);
+  }
+  for (const entry of pending) {
+    console.log(`  ${adding ? "+" : "-"} ${entry.account}${entry.reason ? ` (${entry.reason})` : ""}`);
+  }
+
+  const populate = (chunk: BlacklistEntry[]) => {
+    const accounts = chunk.map((entry) => entry.account);
+    const reasons = chunk.map((entry) => entry.reasonHash);
+    return adding
+      ? token.blacklistBatch.populateTransaction(accounts, reasons)
+      : token.unBlacklistBatch.populateTransaction(accounts, reasons);
+  };
+  const chunks: GasChunk<BlacklistEntry>[] = await chunkByGas(pending, gasLimit, async (chunk) =>
+    signer.estimateGas(await populate(chunk))
+  );
+  if (chunks.length > 0) {
+    console.log(`\n📦 ${chunks.length} transaction(s):`);
+    chunks.forEach((chunk, i) => console.log(`  ${i + 1}. ${chunk.items.length} account(s), ~${chunk.gas} gas`));
+  }
+
+  const verb = adding ? "Blacklist" : "Unblacklist";
+  if (args.dryRun) {
+    const planned: PlannedTransaction[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      planned.push(
+        plannedTransaction(
+          `${verb} batch ${i + 1}/${chunks.length} (${chunk.items.length} accounts)`,
+          signer.address,
+          await populate(chunk.items)
+        )
+      );
+    }
+    return dryRun(ethers.provider, hre.network.name, planned);
+  }
+
+  const log: BlacklistReceiptLog = {
+    createdAt: new Date().toISOString(),
+    network: hre.network.name,
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    token: tokenAddress,
+    action,
+    file: args.file,
+    executor: signer.address,
+    skipped,
+    batches: [],
+  };
+  const logPath =
+    args.receipts ??
+    path.join(
+      path.dirname(deploymentRecordPath(hre.network.name)),
+      "blacklist",
+      `${hre.network.name}-${log.createdAt.replace(/[:.]/g, "-")}.json`
+    );
+  const writeLog = () => {
+    fs.mkdirSync(path.dirname(path.resolve(logPath)), { recursive: true });
+    fs.writeFileSync(logPath, JSON.stringify(log, null, 2) + "\n");
+  };
+
+  if (chunks.length === 0) {
+    writeLog();
+    console.log(`\n✓ Every listed account is already ${adding ? "blacklisted" : "off the blacklist"}`);
+    console.log("Receipt log:", logPath);
+    return log;
+  }
+
+  console.log("\n⚠️  Review the above carefully!");
+  await countdown(args.yes ? 0 : 10);
+
+  for (const [i, chunk] of chunks.entries()) {
+    console.log(`\n📤 ${verb} batch ${i + 1}/${chunks.length} (${chunk.items.length} accounts)...`);
+    const tx = await signer.sendTransaction(await populate(chunk.items));
+    const receipt = (await tx.wait())!;
+    const changed = receipt.logs.filter((entry) => token.interface.parseLog(entry)?.name === "BlacklistUpdated").length;
+    log.batches.push({
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      changed,
+      entries: chunk.items,
+    });
+    writeLog();
+    console.log(`✅ Tx: ${receipt.hash} (${changed} changed, ${receipt.gasUsed} gas)`);
+  }
+
+  const changed = log.batches.reduce((sum, batch) => sum + batch.changed, 0);
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log(adding ? "              Blacklist Updated!" : "              Blacklist Lifted!");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log(`\n✅ ${changed} account(s) ${adding ? "blacklisted" : "unblacklisted"}, ${skipped.length} skipped`);
+  console.log("Receipt log:", logPath);
+  return log;
+}
@@ -1,95 +1,78 @@
-import { ethers } from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken } from "../../typechain-types";
+import { describeError } from "../lib/errors";
+import { browserUrl } from "../lib/explorer";
+import { findRoleHolders, supportsRoleEnumeration } from "../lib/holders";
+import { eventIndexPath, syncTokenIndex } from "../lib/indexer";
+import { deploymentRecordPath, resolveTokenAddress } from "../lib/records";
+import { allRoles } from "../lib/roles";
 
 /**
  * Check role assignments for a token
- * 
- * This script checks which addresses have which roles.
- * Useful for debugging role-related issues.
- * 
+ *
+ * This task checks which roles an address holds and lists every holder of
+ * every role. Useful for debugging role-related issues.
+ *
  * Usage:
- *   npx hardhat run scripts/check_roles.ts --network sepolia
+ *   npx hardhat balboa:roles:check --network sepolia
+ *
+ * Optional:
+ *   --token 0x...     Proxy address (defaults to the deployment record, then TOKEN_ADDRESS)
+ *   --account 0x...   Address to check (defaults to the configured signer)
  */
 
-const TOKEN_ADDRESS = process.env.TOKEN_ADDRESS || "";
-
-async function main() {
-  const [signer] = await ethers.getSigners();
+export interface CheckRolesArgs {
+  token?: string;
+  account?: string;
+}
 
-  if (!TOKEN_ADDRESS) {
-    throw new Error("TOKEN_ADDRESS not set in .env");
-  }
+export async function checkRoles(hre: HardhatRuntimeEnvironment, args: CheckRolesArgs): Promise<void> {
+  const { ethers } = hre;
+  const tokenAddress = resolveTokenAddress(hre, args.token);
+  const account = args.account ?? (await ethers.getSigners())[0].address;
 
   console.log("═══════════════════════════════════════════════════════════");
   console.log("              Role Checker");
   console.log("═══════════════════════════════════════════════════════════");
-  console.log("\nToken address:", TOKEN_ADDRESS);
-  console.log("Your address:", signer.address);
+  console.log("\nToken address:", tokenAddress);
+  console.log("Checked address:", account);
 
-  const token = await ethers.getContractAt("BalboaToken", TOKEN_ADDRESS);
-
-  // Get role hashes
-  const DEFAULT_ADMIN_ROLE = await token.DEFAULT_ADMIN_ROLE();
-  const MINTER_ROLE = await token.MINTER_ROLE();
-  const BURNER_ROLE = await token.BURNER_ROLE();
-  const PAUSER_ROLE = await token.PAUSER_ROLE();
-  const UPGRADER_ROLE = await token.UPGRADER_ROLE();
-  const BLACKLISTER_ROLE = await token.BLACKLISTER_ROLE();
+  const token = (await ethers.getContractAt("BalboaToken", tokenAddress)) as unknown as BalboaToken;
+  const roles = allRoles();
 
   console.log("\n📋 Role Hashes:");
-  console.log("DEFAULT_ADMIN_ROLE:", DEFAULT_ADMIN_ROLE);
-  console.log("MINTER_ROLE:       ", MINTER_ROLE);
-  console.log("BURNER_ROLE:       ", BURNER_ROLE);
-  console.log("PAUSER_ROLE:       ", PAUSER_ROLE);
-  console.log("UPGRADER_ROLE:     ", UPGRADER_ROLE);
-  console.log("BLACKLISTER_ROLE:  ", BLACKLISTER_ROLE);
+  for (const role of roles) {
+    console.log(`${role.constant.padEnd(19)}`, role.hash);
+  }
 
-  console.log("\n🔍 Checking your address:", signer.address);
+  console.log("\n🔍 Checking address:", account);
   console.log("───────────────────────────────────────────────────────────");
 
-  const roles = [
-    { name: "DEFAULT_ADMIN_ROLE", hash: DEFAULT_ADMIN_ROLE },
-    { name: "MINTER_ROLE", hash: MINTER_ROLE },
-    { name: "BURNER_ROLE", hash: BURNER_ROLE },
-    { name: "PAUSER_ROLE", hash: PAUSER_ROLE },
-    { name: "UPGRADER_ROLE", hash: UPGRADER_ROLE },
-    { name: "BLACKLISTER_ROLE", hash: BLACKLISTER_ROLE },
-  ];
-
   for (const role of roles) {
-    const hasRole = await token.hasRole(role.hash, signer.address);
-    console.log(`${hasRole ? "✅" : "❌"} ${role.name}`);
+    const hasRole = await token.hasRole(role.hash, account);
+    console.log(`${hasRole ? "✅" : "❌"} ${role.constant}`);
   }
 
-  // Try to find who has admin role by checking RoleGranted events
-  console.log("\n🔎 Searching for admin addresses in events...");
-  console.log("(This may take a moment)");
-  
+  // List every holder of every role
+  const enumerable = await supportsRoleEnumeration(token);
+  console.log("\n👥 Role holders:");
+  console.log(
+    enumerable
+      ? "(read directly from on-chain role enumeration)"
+      : `(implementation has no role enumeration - reading RoleGranted events from ${eventIndexPath(hre.network.name)})`
+  );
+
   try {
-    // Get RoleGranted events for DEFAULT_ADMIN_ROLE
-    const filter = token.filters.RoleGranted(DEFAULT_ADMIN_ROLE, null, null);
-    const events = await token.queryFilter(filter, 0, "latest");
-    
-    if (events.length > 0) {
-      console.log(`\n✅ Found ${events.length} admin grant event(s):`);
-      
-      const admins = new Set<string>();
-      for (const event of events) {
-        const account = event.args?.account;
-        if (account) {
-          admins.add(account);
-        }
+    const index = enumerable ? undefined : await syncTokenIndex(hre, tokenAddress);
+    for (const role of roles) {
+      const holders = await findRoleHolders(token, role.hash, 0, [], index);
+      console.log(`\n${role.constant} (${holders.length}):`);
+      for (const holder of holders) {
+        console.log(`  • ${holder}${holder === account ? " (checked address)" : ""}`);
       }
-      
-      console.log("\n👥 Addresses that received DEFAULT_ADMIN_ROLE:");
-      for (const admin of admins) {
-        const hasRole = await token.hasRole(DEFAULT_ADMIN_ROLE, admin);
-        console.log(`  ${hasRole ? "✅" : "❌"} ${admin} ${hasRole ? "(currently has role)" : "(role revoked)"}`);
-      }
-    } else {
-      console.log("❌ No RoleGranted events found for DEFAULT_ADMIN_ROLE");
     }
-  } catch (error: any) {
-    console.log("⚠️  Could not fetch events:", error.message);
+  } catch (error) {
+    console.log("⚠️  Could not list role holders:", describeError(error));
   }
 
   // Check token name and symbol to verify it's the right contract
@@ -99,23 +82,20 @@ async function main() {
     const symbol = await token.symbol();
     console.log(`Name: ${name}`);
     console.log(`Symbol: ${symbol}`);
-  } catch (error: any) {
+  } catch {
     console.log("❌ Could not fetch token info - this might not be a valid token address");
   }
 
   console.log("\n💡 Next Steps:");
-  if (await token.hasRole(DEFAULT_ADMIN_ROLE, signer.address)) {
-    console.log("✅ You have admin role! You can grant roles using grant_roles.ts");
+  if (await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), account)) {
+    console.log("✅ This address has admin role! It can grant roles using balboa:roles:grant");
   } else {
-    console.log("1. Check Etherscan for the deployment transaction:");
-    console.log(`   https://sepolia.etherscan.io/address/${TOKEN_ADDRESS}`);
+    const { chainId } = await ethers.provider.getNetwork();
+    const explorer = browserUrl(hre, chainId.toString());
+    console.log("1. Check the deployment transaction to find the deploying account:");
+    console.log(`   ${explorer ? `${explorer}/address/${tokenAddress}` : deploymentRecordPath(hre.network.name)}`);
     console.log("2. The deployer address should have all roles");
     console.log("3. Update DEPLOYER_KEY in .env with that account's private key");
     console.log("4. Or have that account grant DEFAULT_ADMIN_ROLE to your address");
   }
 }
-
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
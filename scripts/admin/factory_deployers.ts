@@ -0,0 +1,105 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Create2Factory } from "../../typechain-types";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import { resolveFactoryAddress } from "../lib/records";
+
+/**
+ * Manage the accounts allowed to deploy through the Create2Factory
+ *
+ * The owner can always deploy; these commands add or remove other deployers,
+ * so each chain's factory does not depend on a single key.
+ *
+ * Usage:
+ *   npx hardhat balboa:factory:authorize --account 0x... --network sepolia
+ *   npx hardhat balboa:factory:revoke --account 0x... --network sepolia
+ *
+ * Optional:
+ *   --factory 0x...   Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)
+ *   --dry-run         Simulate the change without sending it
+ *
+ * Note: The account running these tasks must own the factory
+ */
+
+export interface FactoryDeployerArgs {
+  factory?: string;
+  account: string;
+  dryRun?: boolean;
+}
+
+export async function authorizeDeployer(
+  hre: HardhatRuntimeEnvironment,
+  args: FactoryDeployerArgs
+): Promise<DryRunReport | void> {
+  const factory = await connectFactory(hre, args.factory);
+
+  if (await factory.isAuthorizedDeployer(args.account)) {
+    console.log(`\n⏭️  Skipped: ${args.account} can already deploy`);
+    return;
+  }
+
+  if (args.dryRun) {
+    return dryRun(hre.ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Authorize ${args.account} to deploy through the factory`,
+        await factory.owner(),
+        await factory.authorizeDeployer.populateTransaction(args.account)
+      ),
+    ]);
+  }
+
+  console.log(`\n📤 Authorizing ${args.account}...`);
+  const tx = await factory.authorizeDeployer(args.account);
+  await tx.wait();
+  console.log(`✅ ${args.account} can now deploy through the factory`);
+  console.log(`   Tx: ${tx.hash}`);
+}
+
+export async function revokeDeployer(
+  hre: HardhatRuntimeEnvironment,
+  args: FactoryDeployerArgs
+): Promise<DryRunReport | void> {
+  const factory = await connectFactory(hre, args.factory);
+
+  if (args.account === (await factory.owner())) {
+    throw new Error(`${args.account} owns the factory; transfer ownership instead of revoking it`);
+  }
+  if (!(await factory.isAuthorizedDeployer(args.account))) {
+    console.log(`\n⏭️  Skipped: ${args.account} is not an authorized deployer`);
+    return;
+  }
+
+  if (args.dryRun) {
+    return dryRun(hre.ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Revoke ${args.account} from deploying through the factory`,
+        await factory.owner(),
+        await factory.revokeDeployer.populateTransaction(args.account)
+      ),
+    ]);
+  }
+
+  console.log(`\n📤 Revoking ${args.account}...`);
+  const tx = await factory.revokeDeployer(args.account);
+  await tx.wait();
+  console.log(`✅ ${args.account} can no longer deploy through the factory`);
+  console.log(`   Tx: ${tx.hash}`);
+}
+
+async function connectFactory(hre: HardhatRuntimeEnvironment, value: string | undefined): Promise<Create2Factory> {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const factoryAddress = resolveFactoryAddress(hre, value);
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Factory Deployers");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nExecuting with account:", signer.address);
+  console.log("Factory address:", factoryAddress);
+
+  const factory = (await ethers.getContractAt("Create2Factory", factoryAddress)) as unknown as Create2Factory;
+  const owner = await factory.owner();
+  if (owner !== signer.address) {
+    throw new Error(`Only the factory owner (${owner}) can manage deployers`);
+  }
+  return factory;
+}
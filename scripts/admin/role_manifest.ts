@@ -0,0 +1,219 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken } from "../../typechain-types";
+import { countdown } from "../lib/config";
+import { DryRunReport, PlannedTransaction, dryRun, plannedTransaction } from "../lib/dryrun";
+import { findRoleHolders, supportsRoleEnumeration } from "../lib/holders";
+import { EventIndex, syncTokenIndex } from "../lib/indexer";
+import { RoleManifest, defaultManifestPath, loadRoleManifest } from "../lib/manifest";
+import { resolveTokenAddress } from "../lib/records";
+import { RoleInfo } from "../lib/roles";
+
+/**
+ * Plan and apply role assignments from a manifest
+ *
+ * `plan` compares the manifest with on-chain state and prints the grants and
+ * revokes needed to converge; `apply` executes exactly that diff.
+ *
+ * Usage:
+ *   npx hardhat balboa:roles:plan --network sepolia
+ *   npx hardhat balboa:roles:apply --network sepolia
+ *
+ * Optional:
+ *   --manifest <path>  Manifest file (defaults to roles/<network>.json)
+ *   --token 0x...      Proxy address (defaults to the manifest, then the deployment record, then TOKEN_ADDRESS)
+ *   --yes              Skip the confirmation countdown (apply only)
+ *   --dry-run          Simulate the grants and revokes without sending them (apply only)
+ *
+ * Note: apply must run from an account with DEFAULT_ADMIN_ROLE
+ */
+
+export interface RoleChange {
+  action: "grant" | "revoke";
+  role: RoleInfo;
+  account: string;
+}
+
+export interface RolePlanArgs {
+  manifest?: string;
+  token?: string;
+}
+
+export interface RoleApplyArgs extends RolePlanArgs {
+  yes: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Compute the ordered list of changes that makes on-chain state match the manifest
+ *
+ * Grants come first and DEFAULT_ADMIN_ROLE revocations last, with the executing
+ * account's own admin revocation at the very end, so the signer keeps the
+ * permissions it needs for the remaining steps.
+ */
+export async function computeRolePlan(
+  token: BalboaToken,
+  manifest: RoleManifest,
+  executor?: string,
+  index?: EventIndex
+): Promise<RoleChange[]> {
+  const grants: RoleChange[] = [];
+  const revokes: RoleChange[] = [];
+
+  for (const { role, holders } of manifest.roles) {
+    const current = await findRoleHolders(token, role.hash, manifest.fromBlock, holders, index);
+
+    for (const account of holders) {
+      if (!current.includes(account)) grants.push({ action: "grant", role, account });
+    }
+    for (const account of current) {
+      if (!holders.includes(account)) revokes.push({ action: "revoke", role, account });
+    }
+  }
+
+  const rank = (change: RoleChange): number => {
+    if (change.role.name !== "ADMIN") return 0;
+    return change.account === executor ? 2 : 1;
+  };
+  revokes.sort((a, b) => rank(a) - rank(b));
+
+  return [...grants, ...revokes];
+}
+
+export function printRolePlan(manifest: RoleManifest, changes: RoleChange[]): void {
+  for (const { role, holders } of manifest.roles) {
+    console.log(`\n${role.constant}:`);
+    const roleChanges = changes.filter((change) => change.role.name === role.name);
+    for (const account of holders) {
+      const pending = roleChanges.some((change) => change.account === account);
+      console.log(pending ? `  + ${account} (will grant)` : `    ${account} (unchanged)`);
+    }
+    for (const change of roleChanges.filter((change) => change.action === "revoke")) {
+      console.log(`  - ${change.account} (will revoke)`);
+    }
+  }
+
+  const grants = changes.filter((change) => change.action === "grant").length;
+  console.log(`\nPlan: ${grants} to grant, ${changes.length - grants} to revoke.`);
+}
+
+async function loadPlanContext(hre: HardhatRuntimeEnvironment, args: RolePlanArgs) {
+  const manifestPath = args.manifest ?? defaultManifestPath(hre.network.name);
+  const manifest = loadRoleManifest(manifestPath);
+  const tokenAddress = resolveTokenAddress(hre, args.token ?? manifest.token);
+  const token = (await hre.ethers.getContractAt("BalboaToken", tokenAddress)) as unknown as BalboaToken;
+  return { manifestPath, manifest, tokenAddress, token };
+}
+
+/** Sync the event index when holders can only be found through RoleGranted events */
+async function indexRoleEvents(
+  hre: HardhatRuntimeEnvironment,
+  token: BalboaToken,
+  tokenAddress: string
+): Promise<EventIndex | undefined> {
+  return (await supportsRoleEnumeration(token)) ? undefined : syncTokenIndex(hre, tokenAddress);
+}
+
+export async function planRoles(hre: HardhatRuntimeEnvironment, args: RolePlanArgs): Promise<RoleChange[]> {
+  const [signer] = await hre.ethers.getSigners();
+  const { manifestPath, manifest, tokenAddress, token } = await loadPlanContext(hre, args);
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Role Plan");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nManifest:", manifestPath);
+  console.log("Token address:", tokenAddress);
+
+  const changes = await computeRolePlan(
+    token,
+    manifest,
+    signer.address,
+    await indexRoleEvents(hre, token, tokenAddress)
+  );
+  printRolePlan(manifest, changes);
+
+  if (changes.length > 0) {
+    console.log(`\nRun balboa:roles:apply --network ${hre.network.name} to execute this plan.`);
+  }
+  return changes;
+}
+
+export async function applyRoles(
+  hre: HardhatRuntimeEnvironment,
+  args: RoleApplyArgs
+): Promise<RoleChange[] | DryRunReport> {
+  const [signer] = await hre.ethers.getSigners();
+  const { manifestPath, manifest, tokenAddress, token } = await loadPlanContext(hre, args);
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Role Apply");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nExecuting with account:", signer.address);
+  console.log("Manifest:", manifestPath);
+  console.log("Token address:", tokenAddress);
+
+  const changes = await computeRolePlan(
+    token,
+    manifest,
+    signer.address,
+    await indexRoleEvents(hre, token, tokenAddress)
+  );
+  printRolePlan(manifest, changes);
+
+  if (changes.length === 0) {
+    console.log("\n✓ On-chain roles already match the manifest");
+    return changes;
+  }
+
+  if (!(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), signer.address))) {
+    throw new Error(`Account ${signer.address} does not have DEFAULT_ADMIN_ROLE. Cannot apply role plan.`);
+  }
+
+  if (args.dryRun) {
+    const planned: PlannedTransaction[] = [];
+    for (const change of changes) {
+      const grant = change.action === "grant";
+      planned.push(
+        plannedTransaction(
+          `${grant ? "Grant" : "Revoke"} ${change.role.constant} ${grant ? "to" : "from"} ${change.account}`,
+          signer.address,
+          grant
+            ? await token.grantRole.populateTransaction(change.role.hash, change.account)
+            : await token.revokeRole.populateTransaction(change.role.hash, change.account)
+        )
+      );
+    }
+    return dryRun(hre.ethers.provider, hre.network.name, planned);
+  }
+
+  console.log("\n⚠️  Review the above carefully!");
+  await countdown(args.yes ? 0 : 10);
+
+  console.log("\n🚀 Applying role plan...\n");
+  for (const change of changes) {
+    const verb = change.action === "grant" ? "Granting" : "Revoking";
+    console.log(`📤 ${verb} ${change.role.constant} ${change.action === "grant" ? "to" : "from"} ${change.account}...`);
+    const tx =
+      change.action === "grant"
+        ? await token.grantRole(change.role.hash, change.account)
+        : await token.revokeRole(change.role.hash, change.account);
+    await tx.wait();
+    console.log(`✅ Tx: ${tx.hash}`);
+  }
+
+  const remaining = await computeRolePlan(
+    token,
+    manifest,
+    signer.address,
+    await indexRoleEvents(hre, token, tokenAddress)
+  );
+  if (remaining.length > 0) {
+    printRolePlan(manifest, remaining);
+    throw new Error("On-chain roles still differ from the manifest after apply");
+  }
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("              Role Plan Applied!");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log(`\n✅ ${changes.length} change(s) applied; on-chain roles match ${manifestPath}`);
+  return changes;
+}
@@ -0,0 +1,167 @@
+import { ZeroAddress, formatEther } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaTokenV7 } from "../../typechain-types";
+import { countdown } from "../lib/config";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import { resolveTokenAddress } from "../lib/records";
+import { roleInfo } from "../lib/roles";
+
+/**
+ * Seize the balance of a blacklisted account, and manage where it goes
+ *
+ * `seize` moves the account's whole balance to the token's recovery address
+ * (BalboaTokenV7+), instead of burning it. `recovery` changes that address.
+ *
+ * Usage:
+ *   npx hardhat balboa:seize --account 0x... --network sepolia
+ *   npx hardhat balboa:seize:recovery --recovery 0x... --network sepolia
+ *
+ * Optional:
+ *   --token 0x...   Proxy address (defaults to the deployment record, then TOKEN_ADDRESS)
+ *   --yes           Skip the confirmation countdown
+ *   --dry-run       Simulate the transaction without sending it
+ *
+ * Note: seize needs SEIZER_ROLE; recovery needs DEFAULT_ADMIN_ROLE
+ */
+
+export interface SeizeArgs {
+  token?: string;
+  account: string;
+  yes: boolean;
+  dryRun?: boolean;
+}
+
+export interface SetRecoveryArgs {
+  token?: string;
+  recovery: string;
+  yes: boolean;
+  dryRun?: boolean;
+}
+
+export interface SeizeResult {
+  account: string;
+  recovery: string;
+  amount: bigint;
+  txHash: string;
+}
+
+export async function seizeBalance(
+  hre: HardhatRuntimeEnvironment,
+  args: SeizeArgs
+): Promise<SeizeResult | DryRunReport | void> {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const tokenAddress = resolveTokenAddress(hre, args.token);
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Seize Blacklisted Balance");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nExecuting with account:", signer.address);
+  console.log("Token address:", tokenAddress);
+
+  const token = await connectSeizableToken(hre, tokenAddress);
+  const seizer = roleInfo("SEIZER");
+  if (!(await token.hasRole(seizer.hash, signer.address))) {
+    console.log("\n💡 Run balboa:roles:check to see who holds SEIZER_ROLE");
+    throw new Error(`Account ${signer.address} does not have ${seizer.constant}. Cannot seize balances.`);
+  }
+
+  const recovery = await token.recoveryAddress();
+  if (recovery === ZeroAddress) {
+    throw new Error("No recovery address is set; an admin must run balboa:seize:recovery first");
+  }
+  if (!(await token.isBlacklisted(args.account))) {
+    throw new Error(`${args.account} is not blacklisted; only blacklisted balances can be seized`);
+  }
+
+  const amount = await token.balanceOf(args.account);
+  console.log("\nAccount:", args.account, "(blacklisted)");
+  console.log("Balance:", formatEther(amount), "BALBOA");
+  console.log("Recovery address:", recovery);
+
+  if (amount === 0n) {
+    console.log(`\n⏭️  Skipped: ${args.account} holds no tokens`);
+    return;
+  }
+
+  if (args.dryRun) {
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Seize ${formatEther(amount)} BALBOA from ${args.account} to ${recovery}`,
+        signer.address,
+        await token.seize.populateTransaction(args.account)
+      ),
+    ]);
+  }
+
+  console.log("\n⚠️  Review the above carefully!");
+  await countdown(args.yes ? 0 : 10);
+
+  console.log(`\n📤 Seizing ${formatEther(amount)} BALBOA from ${args.account}...`);
+  const tx = await token.seize(args.account);
+  await tx.wait();
+  console.log(`✅ Moved ${formatEther(amount)} BALBOA to ${recovery}`);
+  console.log(`   Tx: ${tx.hash}`);
+
+  return { account: args.account, recovery, amount, txHash: tx.hash };
+}
+
+export async function setRecoveryAddress(
+  hre: HardhatRuntimeEnvironment,
+  args: SetRecoveryArgs
+): Promise<DryRunReport | void> {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const tokenAddress = resolveTokenAddress(hre, args.token);
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Recovery Address");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nExecuting with account:", signer.address);
+  console.log("Token address:", tokenAddress);
+
+  const token = await connectSeizableToken(hre, tokenAddress);
+  if (!(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), signer.address))) {
+    throw new Error(`Account ${signer.address} does not have DEFAULT_ADMIN_ROLE. Cannot set the recovery address.`);
+  }
+
+  const current = await token.recoveryAddress();
+  console.log("\nCurrent recovery address:", current === ZeroAddress ? "(not set)" : current);
+  if (current === args.recovery) {
+    console.log(`\n⏭️  Skipped: the recovery address is already ${args.recovery}`);
+    return;
+  }
+  console.log("New recovery address:", args.recovery);
+
+  if (args.dryRun) {
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Set the recovery address to ${args.recovery}`,
+        signer.address,
+        await token.setRecoveryAddress.populateTransaction(args.recovery)
+      ),
+    ]);
+  }
+
+  console.log("\n⚠️  Seized balances will be sent to this address!");
+  await countdown(args.yes ? 0 : 5);
+
+  console.log(`\n📤 Setting the recovery address to ${args.recovery}...`);
+  const tx = await token.setRecoveryAddress(args.recovery);
+  await tx.wait();
+  console.log("✅ Recovery address set");
+  console.log(`   Tx: ${tx.hash}`);
+}
+
+/**
+ * The token as BalboaTokenV7, failing when the implementation cannot seize yet
+ */
+async function connectSeizableToken(hre: HardhatRuntimeEnvironment, tokenAddress: string): Promise<BalboaTokenV7> {
+  const token = (await hre.ethers.getContractAt("BalboaTokenV7", tokenAddress)) as unknown as BalboaTokenV7;
+  try {
+    await token.recoveryAddress();
+  } catch {
+    throw new Error(`Token ${tokenAddress} cannot seize balances; upgrade it to BalboaTokenV7 first`);
+  }
+  return token;
+}
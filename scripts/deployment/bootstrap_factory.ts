@@ -0,0 +1,143 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DryRunReport, PlannedTransaction, dryRun } from "../lib/dryrun";
+import { KEYLESS_FACTORY_FILE, loadKeylessDeployment } from "../lib/keyless";
+import { updateDeploymentRecord } from "../lib/records";
+
+/**
+ * Deploy Create2Factory from the keyless transaction
+ *
+ * Funds the one-time signer from the configured account and broadcasts the
+ * pre-signed transaction generated by balboa:deploy:factory:keyless, so the
+ * factory lands at the same address as on every other chain. Anyone can run
+ * it; re-running on a network that already has the factory does nothing.
+ *
+ * Usage:
+ *   npx hardhat balboa:deploy:factory:bootstrap --network <network>
+ *
+ * Optional:
+ *   --file <path>   Keyless transaction file (default deployments/keyless-factory.json)
+ *   --dry-run       Simulate the funding and the deployment without sending them
+ */
+
+export interface BootstrapFactoryArgs {
+  file?: string;
+  dryRun?: boolean;
+}
+
+export interface BootstrapFactoryResult {
+  address: string;
+  status: "deployed" | "existing";
+  txHash?: string;
+}
+
+export async function bootstrapFactory(
+  hre: HardhatRuntimeEnvironment,
+  args: BootstrapFactoryArgs
+): Promise<BootstrapFactoryResult | DryRunReport> {
+  const { ethers } = hre;
+  const [funder] = await ethers.getSigners();
+  const file = args.file ?? KEYLESS_FACTORY_FILE;
+  const deployment = loadKeylessDeployment(file);
+  const gasPrice = BigInt(deployment.gasPrice);
+  const gasLimit = BigInt(deployment.gasLimit);
+  const cost = gasPrice * gasLimit;
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Keyless Factory Bootstrap");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nNetwork:", hre.network.name);
+  console.log("Factory address:", deployment.address);
+  console.log("One-time signer:", deployment.signer);
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const record = (txHash?: string, blockNumber?: number) =>
+    updateDeploymentRecord(hre.network.name, chainId, (entry) => {
+      if (entry.factory?.address === deployment.address && !txHash) return;
+      entry.factory = {
+        contract: deployment.contract,
+        address: deployment.address,
+        owner: deployment.owner,
+        txHash,
+        blockNumber,
+        compiler: deployment.compiler,
+      };
+    });
+
+  if ((await ethers.provider.getCode(deployment.address)) !== "0x") {
+    console.log("\n✓ Factory already deployed on this network");
+    if (args.dryRun) return dryRun(ethers.provider, hre.network.name, []);
+    console.log("Recorded in:", record());
+    return { address: deployment.address, status: "existing" };
+  }
+
+  // Preflight: the transaction can only ever be sent once per chain, at nonce 0
+  if ((await ethers.provider.getTransactionCount(deployment.signer)) > 0) {
+    throw new Error(
+      `One-time signer ${deployment.signer} has already used nonce 0 on ${hre.network.name}; ` +
+        `the factory can never be deployed at ${deployment.address} here`
+    );
+  }
+  const tx = ethers.Transaction.from(deployment.rawTransaction);
+  const gasNeeded = await ethers.provider.estimateGas({ from: deployment.signer, data: tx.data });
+  if (gasNeeded > gasLimit) {
+    throw new Error(
+      `Deployment needs ${gasNeeded} gas on ${hre.network.name} but the transaction allows ${gasLimit}; ` +
+        "regenerate it with a higher --gas-limit (this changes the factory address)"
+    );
+  }
+  const block = await ethers.provider.getBlock("latest");
+  if (block?.baseFeePerGas && block.baseFeePerGas > gasPrice) {
+    throw new Error(
+      `Base fee ${ethers.formatUnits(block.baseFeePerGas, "gwei")} gwei exceeds the transaction's gas price ` +
+        `${ethers.formatUnits(gasPrice, "gwei")} gwei; wait for lower fees`
+    );
+  }
+
+  const balance = await ethers.provider.getBalance(deployment.signer);
+  if (args.dryRun) {
+    const planned: PlannedTransaction[] = [];
+    if (balance < cost) {
+      planned.push({
+        description: `Fund one-time signer with ${ethers.formatEther(cost - balance)} ETH`,
+        from: funder.address,
+        to: deployment.signer,
+        data: "0x",
+        value: cost - balance,
+      });
+    }
+    planned.push({
+      description: "Broadcast keyless Create2Factory deployment",
+      from: deployment.signer,
+      data: tx.data,
+    });
+    return dryRun(ethers.provider, hre.network.name, planned);
+  }
+
+  // 1) Fund the one-time signer
+  if (balance < cost) {
+    console.log(`\n[1/2] Funding signer with ${ethers.formatEther(cost - balance)} ETH from ${funder.address}...`);
+    const funding = await funder.sendTransaction({ to: deployment.signer, value: cost - balance });
+    await funding.wait();
+  } else {
+    console.log("\n[1/2] Signer already funded");
+  }
+
+  // 2) Broadcast the pre-signed deployment
+  console.log("\n[2/2] Broadcasting keyless deployment...");
+  const sent = await ethers.provider.broadcastTransaction(deployment.rawTransaction);
+  const receipt = await sent.wait();
+  if ((await ethers.provider.getCode(deployment.address)) === "0x") {
+    throw new Error(`Transaction ${sent.hash} did not deploy the factory at ${deployment.address}`);
+  }
+
+  const recordPath = record(sent.hash, receipt?.blockNumber);
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("           Deployment Complete!");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("Factory address:", deployment.address);
+  console.log("Owner:", deployment.owner);
+  console.log("Recorded in:", recordPath);
+
+  return { address: deployment.address, status: "deployed", txHash: sent.hash };
+}
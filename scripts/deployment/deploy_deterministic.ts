@@ -1,28 +1,65 @@
-import { ethers } from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveSupplyCap, resolveTokenAdmin, resolveUpgradeDelay } from "../lib/config";
+import { IMPLEMENTATION_CONTRACT, computeDeterministicPlan } from "../lib/deterministic";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import {
+  compilerSettings,
+  recordDeterministicDeployment,
+  resolveFactoryAddress,
+  updateDeploymentRecord,
+} from "../lib/records";
 
 /**
  * Deploy BalboaToken deterministically using CREATE2
- * 
- * This ensures the same proxy address across all chains.
- * 
+ *
+ * This ensures the same proxy address across all chains. The proxy's init
+ * data names the admin, so pass --admin (or set TOKEN_ADMIN) to make the
+ * address independent of the deploying account.
+ *
+ * The implementation and proxy are deployed in a single factory transaction,
+ * so a failure cannot leave an implementation without its proxy. The proxy is
+ * initialized with `initializeWithTimelock`, so every later upgrade goes
+ * through balboa:timelock:schedule and balboa:timelock:execute.
+ *
  * Prerequisites:
- *   - Factory deployed at FACTORY_ADDRESS (same on all chains)
- *   - FACTORY_ADDRESS set in .env
- * 
+ *   - Factory deployed at the same address on all chains
+ *
+ * The implementation and proxy are saved to deployments/<network>.json.
+ *
  * Usage:
- *   npx hardhat run scripts/deploy_deterministic.ts --network <network>
+ *   npx hardhat balboa:deploy --network <network>
+ *
+ * Optional:
+ *   --factory 0x...   Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)
+ *   --admin 0x...     Account that receives all roles (defaults to TOKEN_ADMIN, then the deployer)
+ *   --cap <amount>    Supply cap in base units (defaults to SUPPLY_CAP; 0 for unlimited)
+ *   --delay <seconds> Upgrade delay (defaults to UPGRADE_DELAY, then 48 hours)
+ *   --dry-run         Simulate the deployment without sending it
  */
 
-const SALT_IMPL  = ethers.keccak256(ethers.toUtf8Bytes("BALBOA_IMPL_V1"));
-const SALT_PROXY = ethers.keccak256(ethers.toUtf8Bytes("BALBOA_PROXY_V1"));
+export interface DeployDeterministicArgs {
+  factory?: string;
+  admin?: string;
+  cap?: bigint;
+  delay?: bigint;
+  dryRun?: boolean;
+}
+
+export interface DeployDeterministicResult {
+  implementation: string;
+  proxy: string;
+}
 
-async function main() {
+export async function deployDeterministic(
+  hre: HardhatRuntimeEnvironment,
+  args: DeployDeterministicArgs
+): Promise<DeployDeterministicResult | DryRunReport> {
+  const { ethers } = hre;
   const [deployer] = await ethers.getSigners();
-  const FACTORY = process.env.FACTORY_ADDRESS;
-  
-  if (!FACTORY) {
-    throw new Error("Missing FACTORY_ADDRESS in .env file");
-  }
+  const FACTORY = resolveFactoryAddress(hre, args.factory);
+  const ADMIN = resolveTokenAdmin(args.admin) ?? deployer.address;
+  const CAP = resolveSupplyCap(args.cap);
+  const DELAY = resolveUpgradeDelay(args.delay);
 
   console.log("═══════════════════════════════════════════════════════════");
   console.log("           BalboaToken Deterministic Deployment");
@@ -30,6 +67,12 @@ async function main() {
   console.log("\nDeploying with account:", deployer.address);
   console.log("Account balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH");
   console.log("Factory address:", FACTORY);
+  console.log("Admin address:", ADMIN);
+  if (ADMIN === deployer.address) {
+    console.log("⚠️  No --admin or TOKEN_ADMIN: the proxy address depends on the deploying account");
+  }
+  console.log("Supply cap:", CAP === 0n ? "unlimited" : `${ethers.formatEther(CAP)} BALBOA`);
+  console.log("Upgrade delay:", `${DELAY}s`);
 
   // Validate factory exists
   const factoryCode = await ethers.provider.getCode(FACTORY);
@@ -38,52 +81,66 @@ async function main() {
   }
 
   const factory = await ethers.getContractAt("Create2Factory", FACTORY);
+  const plan = await computeDeterministicPlan(hre, FACTORY, ADMIN, CAP, DELAY);
 
-  // 1) Deploy Implementation
-  console.log("\n[1/2] Deploying BalboaToken implementation...");
-  const Impl = await ethers.getContractFactory("BalboaToken");
-  const implCreation = Impl.bytecode;
-  
-  const tx1 = await factory.deploy(SALT_IMPL, implCreation);
-  await tx1.wait();
-
-  const implBytecodeHash = ethers.keccak256(implCreation);
-  const implAddr = ethers.getCreate2Address(FACTORY, SALT_IMPL, implBytecodeHash);
-  console.log("✓ Implementation deployed:", implAddr);
-
-  // 2) Deploy Proxy
-  console.log("\n[2/2] Deploying ERC1967 Proxy...");
-  const initData = Impl.interface.encodeFunctionData("initialize", [deployer.address]);
-  
-  const Proxy = await ethers.getContractFactory("ERC1967Proxy");
-  const proxyCreation = Proxy.bytecode + Proxy.interface.encodeDeploy([implAddr, initData]).slice(2);
+  if (args.dryRun) {
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Deploy ${IMPLEMENTATION_CONTRACT} implementation at ${plan.implAddr} and proxy at ${plan.proxyAddr}`,
+        deployer.address,
+        await factory.deployMany.populateTransaction(
+          [plan.saltImpl, plan.saltProxy],
+          [plan.implCreation, plan.proxyCreation]
+        )
+      ),
+    ]);
+  }
 
-  const tx2 = await factory.deploy(SALT_PROXY, proxyCreation);
-  await tx2.wait();
+  // Implementation and proxy in one transaction: both or neither
+  console.log(`\nDeploying ${IMPLEMENTATION_CONTRACT} implementation and ERC1967 Proxy...`);
+  const tx = await factory.deployMany([plan.saltImpl, plan.saltProxy], [plan.implCreation, plan.proxyCreation]);
+  const receipt = await tx.wait();
+  const deployed = { txHash: tx.hash, blockNumber: receipt?.blockNumber };
+  console.log("✓ Implementation deployed:", plan.implAddr);
+  console.log("✓ Proxy deployed:", plan.proxyAddr);
 
-  const proxyBytecodeHash = ethers.keccak256(proxyCreation);
-  const proxyAddr = ethers.getCreate2Address(FACTORY, SALT_PROXY, proxyBytecodeHash);
-  console.log("✓ Proxy deployed:", proxyAddr);
+  const { chainId } = await ethers.provider.getNetwork();
+  const compiler = await compilerSettings(hre, IMPLEMENTATION_CONTRACT);
+  const owner = await factory.owner();
+  const recordPath = updateDeploymentRecord(hre.network.name, chainId, (record) => {
+    if (record.factory?.address !== FACTORY) {
+      record.factory = { contract: "Create2Factory", address: FACTORY, owner };
+    }
+    recordDeterministicDeployment(
+      record,
+      plan,
+      ADMIN,
+      { implementation: IMPLEMENTATION_CONTRACT, proxy: "ERC1967Proxy" },
+      { implementation: deployed, proxy: deployed },
+      compiler
+    );
+  });
 
   console.log("\n═══════════════════════════════════════════════════════════");
   console.log("           Deployment Complete!");
   console.log("═══════════════════════════════════════════════════════════");
-  console.log("Implementation:", implAddr);
-  console.log("Proxy (Token):", proxyAddr);
-  console.log("Admin/Roles:", deployer.address);
+  console.log("Implementation:", plan.implAddr);
+  console.log("Proxy (Token):", plan.proxyAddr);
+  console.log("Admin/Roles:", ADMIN);
+  console.log("Recorded in:", recordPath);
   console.log("\nThis proxy address will be IDENTICAL on all chains using:");
   console.log("  • Same factory:", FACTORY);
   console.log("  • Same salts (SALT_IMPL, SALT_PROXY)");
   console.log("  • Same compiler settings");
   console.log("  • Same admin address");
-  console.log("\nVerify commands:");
-  console.log(`npx hardhat verify --network <network> ${implAddr}`);
-  console.log(`npx hardhat verify --network <network> ${proxyAddr} ${implAddr} ${initData}`);
+  console.log("  • Same supply cap");
+  console.log("  • Same upgrade delay");
+  console.log("\nVerify command:");
+  console.log("npx hardhat balboa:verify --network <network>");
   console.log("\nInteract with token:");
-  console.log(`const token = await ethers.getContractAt("BalboaToken", "${proxyAddr}");`);
-}
+  console.log(`const token = await ethers.getContractAt("${IMPLEMENTATION_CONTRACT}", "${plan.proxyAddr}");`);
+  console.log("\nFrom an integration (sdk/):");
+  console.log(`const client = new BalboaClient("${plan.proxyAddr}", signer);`);
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
+  return { implementation: plan.implAddr, proxy: plan.proxyAddr };
+}
@@ -1,20 +1,40 @@
-import { ethers } from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import { compilerSettings, updateDeploymentRecord } from "../lib/records";
 
 /**
  * Deploy CREATE2 Factory
- * 
+ *
  * This factory enables deterministic deployment across chains.
- * Deploy it to the SAME address on all chains for consistent token addresses.
- * 
+ * Deploy it to the SAME address on all chains for consistent token addresses;
+ * balboa:deploy:factory:bootstrap guarantees that, this command does not.
+ *
  * Usage:
- *   npx hardhat run scripts/deploy_factory.ts --network <network>
- * 
+ *   npx hardhat balboa:deploy:factory --network <network>
+ *
+ * Optional:
+ *   --owner 0x...   Account allowed to deploy through the factory (defaults to the deployer)
+ *   --dry-run       Simulate the deployment without sending it
+ *
+ * The factory is saved to deployments/<network>.json, where later commands
+ * pick it up by default.
+ *
  * Note: You can also use Nick's Factory at 0x4e59b44847b379578588920cA78FbF26c0B4956C
  */
 
-async function main() {
+export interface DeployFactoryArgs {
+  owner?: string;
+  dryRun?: boolean;
+}
+
+export async function deployFactory(
+  hre: HardhatRuntimeEnvironment,
+  args: DeployFactoryArgs
+): Promise<string | DryRunReport> {
+  const { ethers } = hre;
   const [deployer] = await ethers.getSigners();
-  
+  const owner = args.owner ?? deployer.address;
+
   console.log("═══════════════════════════════════════════════════════════");
   console.log("           CREATE2 Factory Deployment");
   console.log("═══════════════════════════════════════════════════════════");
@@ -22,27 +42,46 @@ async function main() {
   console.log("Account balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH");
 
   const Factory = await ethers.getContractFactory("Create2Factory");
-  const factory = await Factory.deploy();
+  if (args.dryRun) {
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Deploy Create2Factory owned by ${owner}`,
+        deployer.address,
+        await Factory.getDeployTransaction(owner)
+      ),
+    ]);
+  }
+  const factory = await Factory.deploy(owner);
   await factory.waitForDeployment();
 
   const factoryAddress = await factory.getAddress();
-  
+  const receipt = await factory.deploymentTransaction()?.wait();
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const compiler = await compilerSettings(hre, "Create2Factory");
+  const recordPath = updateDeploymentRecord(hre.network.name, chainId, (record) => {
+    record.factory = {
+      contract: "Create2Factory",
+      address: factoryAddress,
+      owner,
+      txHash: receipt?.hash,
+      blockNumber: receipt?.blockNumber,
+      compiler,
+    };
+  });
+
   console.log("\n═══════════════════════════════════════════════════════════");
   console.log("           Deployment Complete!");
   console.log("═══════════════════════════════════════════════════════════");
   console.log("Factory address:", factoryAddress);
-  console.log("\nIMPORTANT: Add this to your .env file:");
-  console.log(`FACTORY_ADDRESS=${factoryAddress}`);
-  console.log("\nFor deterministic deployment across chains:");
-  console.log("  1. Deploy this factory to the SAME address on each chain");
-  console.log("  2. Use a fresh deployer account with nonce 0");
-  console.log("  3. Or use an existing factory like Nick's Factory:");
-  console.log("     0x4e59b44847b379578588920cA78FbF26c0B4956C");
+  console.log("Owner:", owner);
+  console.log("Recorded in:", recordPath);
+  console.log("\nThis address depends on the deployer account and its nonce.");
+  console.log("For the SAME factory address on every chain, use the keyless bootstrap instead:");
+  console.log("  npx hardhat balboa:deploy:factory:keyless --owner <owner>");
+  console.log("  npx hardhat balboa:deploy:factory:bootstrap --network <network>");
   console.log("\nVerify command:");
-  console.log(`npx hardhat verify --network <network> ${factoryAddress}`);
-}
+  console.log("npx hardhat balboa:verify --network <network>");
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
+  return factoryAddress;
+}
@@ -0,0 +1,316 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Contract, ZeroAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaTokenV7, Create2Factory } from "../../typechain-types";
+import { resolveAddress, resolveSupplyCap, resolveTokenAdmin, resolveUpgradeDelay } from "../lib/config";
+import { DeterministicPlan, IMPLEMENTATION_CONTRACT, computeDeterministicPlan } from "../lib/deterministic";
+import { DryRunReport, assertNoReverts, plannedTransaction, simulateTransactions } from "../lib/dryrun";
+import { IMPLEMENTATION_SLOT } from "../lib/invariants";
+import { NetworkConnection, connectNetwork } from "../lib/networks";
+import {
+  TxInfo,
+  compilerSettings,
+  loadDeploymentRecord,
+  recordDeterministicDeployment,
+  updateDeploymentRecord,
+} from "../lib/records";
+
+/**
+ * Deploy BalboaToken deterministically to several networks in one run
+ *
+ * Every network is checked before anything is sent: the factory must exist at
+ * the same address and accept the deployer (owner or authorized deployer), and the pre-computed proxy
+ * address must match across chains (which needs a fixed --admin when the
+ * deployer differs between chains). The implementation and proxy are then
+ * deployed wherever they are missing, in one factory transaction per chain, and a consolidated report confirms each
+ * chain ended with the same proxy. Each network's deployments/<network>.json
+ * is updated along the way.
+ *
+ * Usage:
+ *   npx hardhat balboa:deploy:multichain --networks sepolia,polygon,base
+ *
+ * Optional:
+ *   --factory 0x...   Create2Factory address (defaults to the first network's record, then FACTORY_ADDRESS)
+ *   --admin 0x...     Account that receives all roles (defaults to TOKEN_ADMIN, then each network's deployer)
+ *   --cap <amount>    Supply cap in base units (defaults to SUPPLY_CAP; 0 for unlimited)
+ *   --delay <seconds> Upgrade delay (defaults to UPGRADE_DELAY, then 48 hours)
+ *   --report <path>   Also write the report as JSON
+ *   --dry-run         Run the preflight, then simulate each network's deployment without sending it
+ */
+
+export interface DeployMultichainArgs {
+  networks: string[];
+  factory?: string;
+  admin?: string;
+  cap?: bigint;
+  delay?: bigint;
+  report?: string;
+  dryRun?: boolean;
+}
+
+export type DeploymentStatus = "deployed" | "existing";
+
+export interface ChainDeployment {
+  network: string;
+  chainId: string;
+  deployer: string;
+  admin: string;
+  implementation: { address: string; status: DeploymentStatus } & TxInfo;
+  proxy: { address: string; status: DeploymentStatus } & TxInfo;
+  verified: boolean;
+}
+
+export interface MultichainReport {
+  factory: string;
+  implementation: string;
+  proxy: string;
+  cap: string;
+  /** Upgrade delay in seconds */
+  upgradeDelay: string;
+  chains: ChainDeployment[];
+  consistent: boolean;
+}
+
+interface ChainContext {
+  connection: NetworkConnection;
+  factory: Create2Factory;
+  plan: DeterministicPlan;
+}
+
+export async function deployMultichain(
+  hre: HardhatRuntimeEnvironment,
+  args: DeployMultichainArgs
+): Promise<MultichainReport | DryRunReport[]> {
+  const networks = [...new Set(args.networks)];
+  const FACTORY = resolveAddress(args.factory ?? loadDeploymentRecord(networks[0])?.factory?.address, "FACTORY_ADDRESS");
+  const ADMIN = resolveTokenAdmin(args.admin);
+  const CAP = resolveSupplyCap(args.cap);
+  const DELAY = resolveUpgradeDelay(args.delay);
+  const { abi } = await hre.artifacts.readArtifact("Create2Factory");
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           BalboaToken Multi-Chain Deployment");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nNetworks:", networks.join(", "));
+  console.log("Factory address:", FACTORY);
+  console.log("Admin address:", ADMIN ?? "each network's deployer");
+  console.log("Supply cap:", CAP === 0n ? "unlimited" : `${hre.ethers.formatEther(CAP)} BALBOA`);
+  console.log("Upgrade delay:", `${DELAY}s`);
+
+  const chains: ChainContext[] = [];
+  try {
+    // 1) Preflight every network before sending anything
+    console.log("\n[1/3] Preflight checks...");
+    const problems: string[] = [];
+    for (const name of networks) {
+      const connection = await connectNetwork(hre, name);
+      const factory = new Contract(FACTORY, abi, connection.signer) as unknown as Create2Factory;
+      const plan = await computeDeterministicPlan(hre, FACTORY, ADMIN ?? connection.address, CAP, DELAY);
+      chains.push({ connection, factory, plan });
+
+      if ((await connection.provider.getCode(FACTORY)) === "0x") {
+        problems.push(`${name}: no factory at ${FACTORY}`);
+        continue;
+      }
+      if (!(await factory.isAuthorizedDeployer(connection.address))) {
+        problems.push(`${name}: deployer ${connection.address} is not authorized on the factory`);
+      }
+      console.log(`  ${name} (chain ${connection.chainId}): deployer ${connection.address}, proxy ${plan.proxyAddr}`);
+    }
+
+    const expected = chains[0].plan;
+    for (const { connection, plan } of chains) {
+      if (plan.proxyAddr !== expected.proxyAddr) {
+        problems.push(`${connection.name}: proxy would be ${plan.proxyAddr}, expected ${expected.proxyAddr}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Preflight failed; nothing was deployed:\n  ${problems.join("\n  ")}`);
+    }
+    console.log("✓ Factory present and proxy address identical on every network");
+
+    if (args.dryRun) {
+      const reports: DryRunReport[] = [];
+      for (const { connection, factory, plan } of chains) {
+        const contracts = await missingContracts(connection, factory, deterministicContracts(plan));
+        const planned =
+          contracts.length === 0
+            ? []
+            : [
+                plannedTransaction(
+                  `Deploy ${contracts.map((contract) => `${contract.name} at ${contract.address}`).join(" and ")}`,
+                  connection.address,
+                  await factory.deployMany.populateTransaction(
+                    contracts.map((contract) => contract.salt),
+                    contracts.map((contract) => contract.creationCode)
+                  )
+                ),
+              ];
+        reports.push(await simulateTransactions(connection.provider, connection.name, planned));
+      }
+      assertNoReverts(reports);
+      return reports;
+    }
+
+    // 2) Deploy wherever the implementation or proxy is missing
+    console.log("\n[2/3] Deploying...");
+    const compiler = await compilerSettings(hre, IMPLEMENTATION_CONTRACT);
+    const deployments: ChainDeployment[] = [];
+    for (const { connection, factory, plan } of chains) {
+      console.log(`\n  ${connection.name}:`);
+      const [implementation, proxy] = await deployMissing(connection, factory, deterministicContracts(plan));
+      console.log(`    Implementation ${implementation.status}: ${plan.implAddr}`);
+      console.log(`    Proxy ${proxy.status}: ${plan.proxyAddr}`);
+
+      const owner = await factory.owner();
+      const recordPath = updateDeploymentRecord(connection.name, connection.chainId, (record) => {
+        if (record.factory?.address !== FACTORY) {
+          record.factory = { contract: "Create2Factory", address: FACTORY, owner };
+        }
+        recordDeterministicDeployment(
+          record,
+          plan,
+          ADMIN ?? connection.address,
+          { implementation: IMPLEMENTATION_CONTRACT, proxy: "ERC1967Proxy" },
+          { implementation, proxy },
+          compiler
+        );
+      });
+      console.log(`    Recorded in ${recordPath}`);
+
+      deployments.push({
+        network: connection.name,
+        chainId: connection.chainId.toString(),
+        deployer: connection.address,
+        admin: ADMIN ?? connection.address,
+        implementation: { address: plan.implAddr, ...implementation },
+        proxy: { address: plan.proxyAddr, ...proxy },
+        verified: false,
+      });
+    }
+
+    // 3) Verify final on-chain state
+    console.log("\n[3/3] Verifying...");
+    const { abi: tokenAbi } = await hre.artifacts.readArtifact(IMPLEMENTATION_CONTRACT);
+    for (const [i, { connection, plan }] of chains.entries()) {
+      const token = new Contract(plan.proxyAddr, tokenAbi, connection.provider) as unknown as BalboaTokenV7;
+      const slot = await connection.provider.getStorage(plan.proxyAddr, IMPLEMENTATION_SLOT);
+      const implementation = slot === "0x" ? ZeroAddress : hre.ethers.getAddress(hre.ethers.dataSlice(slot, 12));
+
+      deployments[i].verified =
+        implementation === plan.implAddr &&
+        (await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), deployments[i].admin)) &&
+        (await token.cap()) === CAP &&
+        (await token.upgradeDelay()) === DELAY;
+    }
+
+    const report: MultichainReport = {
+      factory: FACTORY,
+      implementation: expected.implAddr,
+      proxy: expected.proxyAddr,
+      cap: CAP.toString(),
+      upgradeDelay: DELAY.toString(),
+      chains: deployments,
+      consistent: deployments.every((chain) => chain.verified && chain.proxy.address === expected.proxyAddr),
+    };
+
+    printReport(report);
+    if (args.report) {
+      fs.mkdirSync(path.dirname(path.resolve(args.report)), { recursive: true });
+      fs.writeFileSync(args.report, JSON.stringify(report, null, 2) + "\n");
+      console.log(`\nReport written to ${args.report}`);
+    }
+
+    if (!report.consistent) {
+      throw new Error("Deployment finished but not every network ended with the expected proxy");
+    }
+    return report;
+  } finally {
+    for (const { connection } of chains) {
+      connection.provider.destroy();
+    }
+  }
+}
+
+interface PlannedContract {
+  name: string;
+  salt: string;
+  creationCode: string;
+  address: string;
+}
+
+function deterministicContracts(plan: DeterministicPlan): PlannedContract[] {
+  return [
+    { name: "implementation", salt: plan.saltImpl, creationCode: plan.implCreation, address: plan.implAddr },
+    { name: "proxy", salt: plan.saltProxy, creationCode: plan.proxyCreation, address: plan.proxyAddr },
+  ];
+}
+
+/**
+ * The contracts that have no code yet where this network's deployer would put them
+ */
+async function missingContracts(
+  connection: NetworkConnection,
+  factory: Create2Factory,
+  contracts: PlannedContract[]
+): Promise<PlannedContract[]> {
+  const missing: PlannedContract[] = [];
+  for (const contract of contracts) {
+    if (!(await factory.isDeployedFor(connection.address, contract.salt, contract.creationCode))) {
+      missing.push(contract);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Deploy the contracts that have no code yet, all in one factory transaction
+ */
+async function deployMissing(
+  connection: NetworkConnection,
+  factory: Create2Factory,
+  contracts: PlannedContract[]
+): Promise<({ status: DeploymentStatus } & TxInfo)[]> {
+  const toDeploy = await missingContracts(connection, factory, contracts);
+  if (toDeploy.length === 0) {
+    return contracts.map(() => ({ status: "existing" }));
+  }
+
+  const tx = await factory.deployMany(
+    toDeploy.map((contract) => contract.salt),
+    toDeploy.map((contract) => contract.creationCode)
+  );
+  const receipt = await tx.wait();
+  return contracts.map((contract) =>
+    toDeploy.includes(contract)
+      ? { status: "deployed", txHash: tx.hash, blockNumber: receipt?.blockNumber }
+      : { status: "existing" }
+  );
+}
+
+function printReport(report: MultichainReport): void {
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("           Multi-Chain Deployment Report");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("Factory:       ", report.factory);
+  console.log("Implementation:", report.implementation);
+  console.log("Proxy (Token): ", report.proxy);
+  console.log("");
+  console.table(
+    report.chains.map((chain) => ({
+      network: chain.network,
+      chainId: chain.chainId,
+      implementation: chain.implementation.status,
+      proxy: chain.proxy.status,
+      address: chain.proxy.address,
+      verified: chain.verified ? "✓" : "✗",
+    }))
+  );
+  console.log(
+    report.consistent
+      ? `\n✅ All ${report.chains.length} networks share proxy ${report.proxy}`
+      : "\n❌ Networks do not share the same proxy"
+  );
+}
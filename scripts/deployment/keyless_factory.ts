@@ -0,0 +1,80 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveAddress } from "../lib/config";
+import {
+  DEFAULT_KEYLESS_GAS_LIMIT,
+  DEFAULT_KEYLESS_GAS_PRICE,
+  KEYLESS_FACTORY_FILE,
+  KeylessDeployment,
+  buildKeylessTransaction,
+  saveKeylessDeployment,
+} from "../lib/keyless";
+import { compilerSettings } from "../lib/records";
+
+/**
+ * Generate the keyless Create2Factory deployment transaction
+ *
+ * Builds a pre-signed, chain-agnostic (pre-EIP-155) transaction that deploys
+ * Create2Factory from a one-time signer nobody holds the key for. Broadcasting
+ * it with balboa:deploy:factory:bootstrap puts the factory at the same address
+ * on every chain. Commit the generated file: regenerating it with a different
+ * owner, gas setting or compiler output gives a different address.
+ *
+ * Usage:
+ *   npx hardhat balboa:deploy:factory:keyless --owner 0x...
+ *
+ * Optional:
+ *   --owner 0x...        Factory owner (defaults to FACTORY_OWNER)
+ *   --gas-price <wei>    Gas price baked into the transaction (default 100 gwei)
+ *   --gas-limit <gas>    Gas limit baked into the transaction (default 1,500,000)
+ *   --file <path>        Output file (default deployments/keyless-factory.json)
+ */
+
+export interface KeylessFactoryArgs {
+  owner?: string;
+  gasPrice?: bigint;
+  gasLimit?: bigint;
+  file?: string;
+}
+
+export async function generateKeylessFactory(
+  hre: HardhatRuntimeEnvironment,
+  args: KeylessFactoryArgs
+): Promise<KeylessDeployment> {
+  const { ethers } = hre;
+  const owner = resolveAddress(args.owner, "FACTORY_OWNER");
+  const gasPrice = args.gasPrice ?? DEFAULT_KEYLESS_GAS_PRICE;
+  const gasLimit = args.gasLimit ?? DEFAULT_KEYLESS_GAS_LIMIT;
+  const file = args.file ?? KEYLESS_FACTORY_FILE;
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Keyless Factory Transaction");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nOwner:", owner);
+  console.log("Gas price:", ethers.formatUnits(gasPrice, "gwei"), "gwei");
+  console.log("Gas limit:", gasLimit.toString());
+
+  const Factory = await ethers.getContractFactory("Create2Factory");
+  const { data } = await Factory.getDeployTransaction(owner);
+  const { signer, address, rawTransaction } = buildKeylessTransaction(data, gasPrice, gasLimit);
+
+  const deployment: KeylessDeployment = {
+    contract: "Create2Factory",
+    owner,
+    signer,
+    address,
+    gasPrice: gasPrice.toString(),
+    gasLimit: gasLimit.toString(),
+    rawTransaction,
+    compiler: await compilerSettings(hre, "Create2Factory"),
+  };
+  saveKeylessDeployment(file, deployment);
+
+  console.log("\nOne-time signer:", signer);
+  console.log("Factory address (every chain):", address);
+  console.log("Funding needed per chain:", ethers.formatEther(gasPrice * gasLimit), "ETH (or native token)");
+  console.log("Written to:", file);
+  console.log("\nCommit this file, then on each network run:");
+  console.log("npx hardhat balboa:deploy:factory:bootstrap --network <network>");
+
+  return deployment;
+}
@@ -0,0 +1,172 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken } from "../../typechain-types";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import { syncTokenIndex } from "../lib/indexer";
+import { captureInvariants, verifyInvariants } from "../lib/invariants";
+import {
+  compilerSettings,
+  loadDeploymentRecord,
+  recordImplementation,
+  resolveTokenAddress,
+  updateDeploymentRecord,
+} from "../lib/records";
+import { compareStorageLayouts, readStorageLayout } from "../lib/storage";
+import { assertNotTimelocked, currentImplementationContract, implementationHistory } from "../lib/upgrades";
+import type { UpgradeResult } from "./upgrade";
+
+/**
+ * Roll the BalboaToken proxy back to an implementation it used before
+ *
+ * Usage:
+ *   npx hardhat balboa:upgrade:rollback --network <network>
+ *
+ * Optional:
+ *   --proxy 0x...   Proxy address (defaults to the deployment record, then PROXY_ADDRESS)
+ *   --to 0x...      Implementation to return to (defaults to the one before the current)
+ *   --contract      Contract the target was deployed from, when the deployment record does not name it
+ *   --dry-run       Simulate the rollback without sending it
+ *
+ * The history comes from the proxy's Upgraded events. The target must keep
+ * every variable of the current implementation at the same slot; rolling
+ * back past a version that added storage (e.g. V3's role enumeration) is
+ * refused. No reinitializer runs: the target's initializers already ran.
+ *
+ * The rollback is appended to deployments/<network>.json and checked with
+ * the same invariants as balboa:upgrade. The configured account must hold
+ * UPGRADER_ROLE. Proxies on BalboaTokenV5 or later are refused, since every
+ * upgrade there has to go through the timelock.
+ */
+
+export interface RollbackArgs {
+  proxy?: string;
+  to?: string;
+  contract?: string;
+  dryRun?: boolean;
+}
+
+export interface RollbackResult extends UpgradeResult {
+  txHash: string;
+}
+
+export async function rollback(
+  hre: HardhatRuntimeEnvironment,
+  args: RollbackArgs
+): Promise<RollbackResult | DryRunReport> {
+  const { ethers, upgrades } = hre;
+  const proxy = resolveTokenAddress(hre, args.proxy, "PROXY_ADDRESS");
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           BalboaToken Rollback");
+  console.log("═══════════════════════════════════════════════════════════");
+
+  const [signer] = await ethers.getSigners();
+  console.log("\nRolling back with account:", signer.address);
+  console.log("Proxy address:", proxy);
+
+  if ((await ethers.provider.getCode(proxy)) === "0x") {
+    throw new Error(`No contract found at proxy address: ${proxy}`);
+  }
+  await assertNotTimelocked(ethers.provider, proxy);
+
+  const token = (await ethers.getContractAt("BalboaToken", proxy)) as unknown as BalboaToken;
+  if (!(await token.hasRole(await token.UPGRADER_ROLE(), signer.address))) {
+    throw new Error(`Account ${signer.address} does not have UPGRADER_ROLE`);
+  }
+
+  // Pick the target from the history
+  const current = await upgrades.erc1967.getImplementationAddress(proxy);
+  const history = await implementationHistory(hre, proxy);
+  console.log("\nImplementation history:");
+  for (const entry of history) {
+    console.log(`  ${entry.address} ${entry.contract ?? "(unnamed)"} block ${entry.blockNumber}`);
+  }
+
+  const currentIndex = history.map((entry) => entry.address).lastIndexOf(current);
+  const earlier = history.slice(0, currentIndex === -1 ? history.length : currentIndex);
+  const target = args.to
+    ? history.find((entry) => entry.address.toLowerCase() === args.to!.toLowerCase())
+    : earlier.reverse().find((entry) => entry.address !== current);
+  if (!target) {
+    throw new Error(
+      args.to
+        ? `${args.to} is not in the implementation history of proxy ${proxy}`
+        : `No earlier implementation to roll back to for proxy ${proxy}`
+    );
+  }
+  if (target.address === current) {
+    throw new Error(`Proxy ${proxy} already points to ${current}`);
+  }
+  const targetContract = args.contract ?? target.contract;
+  if (!targetContract) {
+    throw new Error(`Implementation ${target.address} is not named in the deployment record; pass --contract`);
+  }
+  if ((await ethers.provider.getCode(target.address)) === "0x") {
+    throw new Error(`No contract found at implementation address: ${target.address}`);
+  }
+  console.log("\nCurrent implementation:", current);
+  console.log("Rolling back to:", target.address, `(${targetContract})`);
+
+  // The target must read the storage the current implementation wrote
+  console.log("\nValidating storage compatibility...");
+  const currentContract = await currentImplementationContract(hre, proxy);
+  const issues = compareStorageLayouts(
+    (await readStorageLayout(hre, currentContract)).storage,
+    (await readStorageLayout(hre, targetContract)).storage
+  );
+  if (issues.length > 0) {
+    throw new Error(`${targetContract} is not storage-compatible with ${currentContract}:\n  ${issues.join("\n  ")}`);
+  }
+  console.log(`✓ ${targetContract} keeps the storage of ${currentContract}`);
+
+  if (args.dryRun) {
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `upgradeToAndCall(${target.address}, 0x) on ${proxy}`,
+        signer.address,
+        await token.upgradeToAndCall.populateTransaction(target.address, "0x")
+      ),
+    ]);
+  }
+
+  const record = loadDeploymentRecord(hre.network.name);
+  const fromBlock = record?.proxy?.blockNumber ?? 0;
+  const before = await captureInvariants(token, { fromBlock, index: await syncTokenIndex(hre, proxy) });
+
+  console.log("\n📤 Sending upgradeToAndCall...");
+  const tx = await token.upgradeToAndCall(target.address, "0x");
+  const receipt = await tx.wait();
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const compiler =
+    record?.implementations.find((entry) => entry.address.toLowerCase() === target.address.toLowerCase())?.compiler ??
+    (await compilerSettings(hre, targetContract));
+  const recorded = record?.proxy?.address;
+  let recordPath: string | undefined;
+  if (recorded === undefined || recorded === proxy) {
+    recordPath = updateDeploymentRecord(hre.network.name, chainId, (entry) => {
+      entry.proxy ??= { contract: "ERC1967Proxy", address: proxy };
+      recordImplementation(entry, {
+        contract: targetContract,
+        address: target.address,
+        txHash: receipt?.hash,
+        blockNumber: receipt?.blockNumber,
+        compiler,
+      });
+    });
+  }
+
+  console.log("\nVerifying invariants...");
+  await verifyInvariants(token, before, target.address, { fromBlock, index: await syncTokenIndex(hre, proxy) });
+  console.log("✓ Supply, sampled balances, roles, blacklist, pause state and implementation slot as expected");
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("           Rollback Complete!");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("Proxy address (unchanged):", proxy);
+  console.log("Rolled back from:", current);
+  console.log("Now pointing to:", target.address, `(${targetContract})`);
+  console.log("Tx:", tx.hash);
+  console.log("Recorded in:", recordPath ?? `(not recorded: deployment record tracks proxy ${recorded})`);
+
+  return { proxy, previousImplementation: current, implementation: target.address, txHash: tx.hash };
+}
@@ -1,27 +1,78 @@
-import { ethers, upgrades } from "hardhat";
+import type { ContractTransactionResponse } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken } from "../../typechain-types";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import { syncTokenIndex } from "../lib/indexer";
+import { captureInvariants, verifyInvariants } from "../lib/invariants";
+import {
+  compilerSettings,
+  loadDeploymentRecord,
+  recordImplementation,
+  resolveTokenAddress,
+  updateDeploymentRecord,
+} from "../lib/records";
+import { assertNotTimelocked, resolveInitializerCall, validateUpgradeSafety } from "../lib/upgrades";
 
 /**
  * Upgrade BalboaToken to a new implementation
- * 
+ *
  * Usage:
- *   PROXY_ADDRESS=0x... npx hardhat run scripts/upgrade.ts --network <network>
- * 
+ *   npx hardhat balboa:upgrade --proxy 0x... --contract BalboaTokenV2 --network <network>
+ *
  * Optional:
- *   CONTRACT_NAME=BalboaTokenV2 # Specify new implementation contract name
+ *   --proxy 0x...   Proxy address (defaults to the deployment record, then PROXY_ADDRESS)
+ *   --contract      New implementation contract name (defaults to BalboaToken)
+ *   --call          Reinitializer to run atomically with the upgrade (e.g. initializeV3)
+ *   --args          JSON array of arguments for --call
+ *   --dry-run       Simulate the implementation deployment and the upgrade without sending them
+ *
+ * When `--call` names initializeV3, initializeV4, initializeV5 or
+ * initializeV7 without `--args`, the current holders of every role are discovered from
+ * RoleGranted events and registered in the new role enumeration;
+ * initializeV4 also receives the supply cap configured in SUPPLY_CAP, and
+ * initializeV5 the delay in UPGRADE_DELAY. initializeV7 receives the same
+ * holders, UPGRADE_DELAY unless the proxy already has a delay, and the
+ * recovery address in RECOVERY_ADDRESS.
+ *
+ * Proxies on BalboaTokenV5 or later timelock upgrades; use
+ * balboa:timelock:schedule and balboa:timelock:execute for them.
+ *
+ * The new implementation is appended to deployments/<network>.json. Total
+ * supply, sampled balances, role holders, the blacklist, the pause state and
+ * the implementation slot are checked after the upgrade; the command fails
+ * with the differences if any of them changed unexpectedly.
+ *
+ * This sends the upgrade from the configured account, which must hold
+ * UPGRADER_ROLE. When the role belongs to a multisig, use
+ * balboa:upgrade:propose instead.
  */
 
-const PROXY_ADDRESS = process.env.PROXY_ADDRESS || "";
-const CONTRACT_NAME = process.env.CONTRACT_NAME || "BalboaToken";
+export interface UpgradeArgs {
+  proxy?: string;
+  contract: string;
+  call?: string;
+  args?: unknown[];
+  dryRun?: boolean;
+}
 
-async function main() {
-  if (!PROXY_ADDRESS) {
-    throw new Error("Please set PROXY_ADDRESS in environment variable");
-  }
+export interface UpgradeResult {
+  proxy: string;
+  previousImplementation: string;
+  implementation: string;
+}
+
+export async function upgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: UpgradeArgs
+): Promise<UpgradeResult | DryRunReport> {
+  const { ethers, upgrades } = hre;
+  const PROXY_ADDRESS = resolveTokenAddress(hre, args.proxy, "PROXY_ADDRESS");
+  const CONTRACT_NAME = args.contract;
 
   console.log("═══════════════════════════════════════════════════════════");
-  console.log("           BalboaToken Upgrade Script");
+  console.log("           BalboaToken Upgrade");
   console.log("═══════════════════════════════════════════════════════════");
-  
+
   const [deployer] = await ethers.getSigners();
   console.log("\nUpgrading with account:", deployer.address);
   console.log("Account balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH");
@@ -33,10 +84,11 @@ async function main() {
   if (proxyCode === "0x") {
     throw new Error(`No contract found at proxy address: ${PROXY_ADDRESS}`);
   }
+  await assertNotTimelocked(ethers.provider, PROXY_ADDRESS);
 
   // Attach to existing proxy
-  const balboa = await ethers.getContractAt("BalboaToken", PROXY_ADDRESS);
-  
+  const balboa = (await ethers.getContractAt("BalboaToken", PROXY_ADDRESS)) as unknown as BalboaToken;
+
   // Validate caller has UPGRADER_ROLE
   console.log("\nValidating permissions...");
   const UPGRADER_ROLE = await balboa.UPGRADER_ROLE();
@@ -53,54 +105,78 @@ async function main() {
   // Preflight: validate upgrade safety (storage layout, UUPS compatibility, etc.)
   console.log("\nValidating upgrade compatibility...");
   const NewImplementation = await ethers.getContractFactory(CONTRACT_NAME);
-  try {
-    await upgrades.validateUpgrade(PROXY_ADDRESS, NewImplementation);
-    console.log("✓ Upgrade compatibility check passed");
-  } catch (e: any) {
-    const message = typeof e?.message === "string" ? e.message : String(e);
-    if (message.toLowerCase().includes("forceimport") || message.toLowerCase().includes("not registered")) {
-      console.log("⚠️  Proxy not registered in local upgrades manifest; importing...");
-      const CurrentImplementation = await ethers.getContractFactory("BalboaToken");
-      await upgrades.forceImport(PROXY_ADDRESS, CurrentImplementation, { kind: "uups" });
-      console.log("✓ Proxy imported");
-      await upgrades.validateUpgrade(PROXY_ADDRESS, NewImplementation);
-      console.log("✓ Upgrade compatibility check passed");
-    } else {
-      throw e;
-    }
+  await validateUpgradeSafety(hre, PROXY_ADDRESS, NewImplementation);
+
+  // Resolve reinitializer call
+  const index = await syncTokenIndex(hre, PROXY_ADDRESS);
+  const call = await resolveInitializerCall(balboa, args.call, args.args, {}, index);
+
+  if (args.dryRun) {
+    const implementation = ethers.getCreateAddress({ from: deployer.address, nonce: await deployer.getNonce() });
+    const initData = call ? NewImplementation.interface.encodeFunctionData(call.fn, call.args) : "0x";
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Deploy ${CONTRACT_NAME} implementation`,
+        deployer.address,
+        await NewImplementation.getDeployTransaction()
+      ),
+      plannedTransaction(
+        `upgradeToAndCall(${implementation}, ${call ? call.fn : "0x"}) on ${PROXY_ADDRESS}`,
+        deployer.address,
+        await balboa.upgradeToAndCall.populateTransaction(implementation, initData)
+      ),
+    ]);
   }
 
-  // Deploy new implementation
+  // Snapshot the state the upgrade must preserve
+  const fromBlock = loadDeploymentRecord(hre.network.name)?.proxy?.blockNumber ?? 0;
+  const before = await captureInvariants(balboa, { fromBlock, index });
+  console.log(`\nCaptured invariants (${Object.keys(before.balances).length} sampled balances)`);
+
+  // Deploy new implementation; upgradeProxy reuses it
   console.log("\nDeploying new implementation...");
-  const upgraded = await upgrades.upgradeProxy(PROXY_ADDRESS, NewImplementation);
+  const expectedImpl = (await upgrades.prepareUpgrade(PROXY_ADDRESS, NewImplementation, { kind: "uups" })) as string;
+  const upgraded = await upgrades.upgradeProxy(PROXY_ADDRESS, NewImplementation, { call });
   await upgraded.waitForDeployment();
-  
+
   const proxyAddress = await upgraded.getAddress();
   const newImpl = await upgrades.erc1967.getImplementationAddress(proxyAddress);
-  
+
+  // The plugin exposes the upgrade transaction as `deployTransaction`
+  const upgradeTx = (upgraded as unknown as { deployTransaction?: ContractTransactionResponse }).deployTransaction;
+  const receipt = await upgradeTx?.wait();
+  const { chainId } = await ethers.provider.getNetwork();
+  const compiler = await compilerSettings(hre, CONTRACT_NAME);
+  const recorded = loadDeploymentRecord(hre.network.name)?.proxy?.address;
+  let recordPath: string | undefined;
+  if (recorded === undefined || recorded === proxyAddress) {
+    recordPath = updateDeploymentRecord(hre.network.name, chainId, (record) => {
+      record.proxy ??= { contract: "ERC1967Proxy", address: proxyAddress };
+      recordImplementation(record, {
+        contract: CONTRACT_NAME,
+        address: newImpl,
+        txHash: receipt?.hash,
+        blockNumber: receipt?.blockNumber,
+        compiler,
+      });
+    });
+  }
+
+  // Post-upgrade checks; the upgrade is on-chain and recorded, so a failure here needs attention
+  console.log("\nVerifying invariants...");
+  await verifyInvariants(balboa, before, expectedImpl, { fromBlock, index: await syncTokenIndex(hre, proxyAddress) });
+  console.log("✓ Supply, sampled balances, roles, blacklist, pause state and implementation slot as expected");
+
   console.log("\n═══════════════════════════════════════════════════════════");
   console.log("           Upgrade Complete!");
   console.log("═══════════════════════════════════════════════════════════");
   console.log("Proxy address (unchanged):", proxyAddress);
   console.log("Old implementation:", currentImpl);
   console.log("New implementation:", newImpl);
-
-  // Post-upgrade sanity checks
-  try {
-    const name = await upgraded.name();
-    const symbol = await upgraded.symbol();
-    console.log("\nToken metadata (post-upgrade):");
-    console.log("Name:  ", name);
-    console.log("Symbol:", symbol);
-  } catch {
-    // Non-fatal: keep script output focused; verification can be done separately
-  }
+  console.log("Recorded in:", recordPath ?? `(not recorded: deployment record tracks proxy ${recorded})`);
 
   console.log("\nVerify command:");
   console.log(`npx hardhat verify --network <network> ${newImpl}`);
-}
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
+  return { proxy: proxyAddress, previousImplementation: currentImpl, implementation: newImpl };
+}
@@ -0,0 +1,369 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken } from "../../typechain-types";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import { findRoleHolders } from "../lib/holders";
+import { EventIndex, queryEvents, syncTokenIndex } from "../lib/indexer";
+import { captureInvariants, verifyInvariants } from "../lib/invariants";
+import {
+  PROPOSAL_VERSION,
+  TX_BUILDER_VERSION,
+  UpgradeCheck,
+  UpgradeProposal,
+  defaultProposalPath,
+  loadUpgradeProposal,
+  saveUpgradeProposal,
+} from "../lib/proposals";
+import {
+  compilerSettings,
+  loadDeploymentRecord,
+  recordImplementation,
+  resolveTokenAddress,
+  updateDeploymentRecord,
+} from "../lib/records";
+import { assertNotTimelocked, resolveInitializerCall, validateUpgradeSafety } from "../lib/upgrades";
+import type { UpgradeResult } from "./upgrade";
+
+/**
+ * Upgrade BalboaToken through a multisig
+ *
+ * `propose` validates and deploys the new implementation, then writes a Safe
+ * Transaction Builder batch with the `upgradeToAndCall` call and the checks
+ * that must hold afterwards. Nothing is sent to the proxy, so any account can
+ * run it. The holder of UPGRADER_ROLE executes the batch (or `execute` sends
+ * it from the configured account), and `confirm` verifies that it was applied
+ * and records the new implementation.
+ *
+ * `propose` also snapshots the upgrade invariants (supply, sampled balances,
+ * roles, blacklist, pause state) and `confirm` checks them like balboa:upgrade.
+ * It reads the snapshot's accounts at the block before the Upgraded event and
+ * at the upgrade's block, so activity between the proposal and the Safe
+ * execution, or after it, is not reported.
+ *
+ * Usage:
+ *   npx hardhat balboa:upgrade:propose --contract BalboaTokenV2 --safe 0x... --network <network>
+ *   npx hardhat balboa:upgrade:execute --file <proposal> --network <network>
+ *   npx hardhat balboa:upgrade:confirm --file <proposal> --network <network>
+ *
+ * Optional (propose):
+ *   --proxy 0x...   Proxy address (defaults to the deployment record, then PROXY_ADDRESS)
+ *   --call          Reinitializer to run atomically with the upgrade (e.g. initializeV3)
+ *   --args          JSON array of arguments for --call
+ *   --safe 0x...    Multisig that will execute the batch; must hold UPGRADER_ROLE
+ *   --out <path>    Output file (default deployments/proposals/<network>-<contract>.json)
+ *   --dry-run       Simulate the implementation deployment without sending it or writing a proposal
+ *
+ * Optional (execute):
+ *   --dry-run       Simulate the batch from the configured account without sending it
+ */
+
+export interface ProposeUpgradeArgs {
+  proxy?: string;
+  contract: string;
+  call?: string;
+  args?: unknown[];
+  safe?: string;
+  out?: string;
+  dryRun?: boolean;
+}
+
+export interface ProposeUpgradeResult {
+  file: string;
+  proposal: UpgradeProposal;
+}
+
+export interface UpgradeProposalArgs {
+  file: string;
+}
+
+export interface ExecuteUpgradeArgs extends UpgradeProposalArgs {
+  dryRun?: boolean;
+}
+
+export interface ConfirmUpgradeResult extends UpgradeResult {
+  txHash?: string;
+}
+
+export async function proposeUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: ProposeUpgradeArgs
+): Promise<ProposeUpgradeResult | DryRunReport> {
+  const { ethers, upgrades } = hre;
+  const proxy = resolveTokenAddress(hre, args.proxy, "PROXY_ADDRESS");
+  const file = args.out ?? defaultProposalPath(hre.network.name, args.contract);
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           BalboaToken Upgrade Proposal");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nNetwork:", hre.network.name);
+  console.log("Proxy address:", proxy);
+  console.log("New implementation:", args.contract);
+
+  if ((await ethers.provider.getCode(proxy)) === "0x") {
+    throw new Error(`No contract found at proxy address: ${proxy}`);
+  }
+  await assertNotTimelocked(ethers.provider, proxy);
+  const token = (await ethers.getContractAt("BalboaToken", proxy)) as unknown as BalboaToken;
+
+  if (args.safe) {
+    if (!(await token.hasRole(await token.UPGRADER_ROLE(), args.safe))) {
+      throw new Error(`${args.safe} does not have UPGRADER_ROLE and could not execute the proposal`);
+    }
+    console.log("✓ Safe has UPGRADER_ROLE");
+  }
+
+  const previousImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+  console.log("\nCurrent implementation:", previousImplementation);
+
+  console.log("\nValidating upgrade compatibility...");
+  const NewImplementation = await ethers.getContractFactory(args.contract);
+  await validateUpgradeSafety(hre, proxy, NewImplementation);
+  const index = await syncTokenIndex(hre, proxy);
+  const call = await resolveInitializerCall(token, args.call, args.args, {}, index);
+
+  if (args.dryRun) {
+    const [signer] = await ethers.getSigners();
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Deploy ${args.contract} implementation`,
+        signer.address,
+        await NewImplementation.getDeployTransaction()
+      ),
+    ]);
+  }
+
+  // Deploys the implementation, or reuses the one already deployed for this bytecode
+  console.log("\nDeploying new implementation...");
+  const implementation = ethers.getAddress(
+    (await upgrades.prepareUpgrade(proxy, NewImplementation, { kind: "uups" })) as string
+  );
+  console.log("✓ Implementation:", implementation);
+
+  const initData = call ? NewImplementation.interface.encodeFunctionData(call.fn, call.args) : "0x";
+  const data = token.interface.encodeFunctionData("upgradeToAndCall", [implementation, initData]);
+  const { chainId } = await ethers.provider.getNetwork();
+  const fromBlock = loadDeploymentRecord(hre.network.name)?.proxy?.blockNumber ?? 0;
+
+  const proposal: UpgradeProposal = {
+    version: PROPOSAL_VERSION,
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: `Upgrade BalboaToken to ${args.contract}`,
+      description: `upgradeToAndCall(${implementation}, ${call ? call.fn : "0x"}) on ${proxy}`,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: args.safe,
+    },
+    transactions: [{ to: proxy, value: "0", data, contractMethod: null, contractInputsValues: null }],
+    upgrade: {
+      network: hre.network.name,
+      proxy,
+      contract: args.contract,
+      previousImplementation,
+      implementation,
+      // Bigints (e.g. a supply cap) are kept as decimal strings
+      call: call && {
+        fn: call.fn,
+        args: JSON.parse(JSON.stringify(call.args, (_, value) => (typeof value === "bigint" ? value.toString() : value))),
+      },
+      proposedAtBlock: await ethers.provider.getBlockNumber(),
+      compiler: await compilerSettings(hre, args.contract),
+      checks: await expectedChecks(token, fromBlock, index),
+      invariants: await captureInvariants(token, { fromBlock, index }),
+    },
+  };
+  saveUpgradeProposal(file, proposal);
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("           Proposal Ready");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("Target:", proxy);
+  console.log("Calldata:", data);
+  console.log(`Post-upgrade checks: ${proposal.upgrade.checks.length}`);
+  console.log(`Captured invariants: ${Object.keys(proposal.upgrade.invariants.balances).length} sampled balances`);
+  console.log("Written to:", file);
+  console.log("\nImport the file into the Safe Transaction Builder (or run balboa:upgrade:execute), then:");
+  console.log(`npx hardhat balboa:upgrade:confirm --file ${file} --network ${hre.network.name}`);
+
+  return { file, proposal };
+}
+
+/**
+ * Send a proposal from the configured account, then confirm it
+ */
+export async function executeUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: ExecuteUpgradeArgs
+): Promise<ConfirmUpgradeResult | DryRunReport> {
+  const { ethers, upgrades } = hre;
+  const proposal = await loadForNetwork(hre, args.file);
+  const { proxy, previousImplementation, implementation } = proposal.upgrade;
+  const [signer] = await ethers.getSigners();
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Execute Upgrade Proposal");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nExecuting with account:", signer.address);
+  console.log("Proposal:", proposal.meta.name);
+
+  const current = await upgrades.erc1967.getImplementationAddress(proxy);
+  if (current === implementation) {
+    console.log("\n⏭️  Skipped: proposal already executed");
+  } else {
+    if (current !== previousImplementation) {
+      throw new Error(
+        `Proxy ${proxy} points to ${current}, not the proposal's starting implementation ` +
+          `${previousImplementation}; create a new proposal`
+      );
+    }
+    const token = (await ethers.getContractAt("BalboaToken", proxy)) as unknown as BalboaToken;
+    if (!(await token.hasRole(await token.UPGRADER_ROLE(), signer.address))) {
+      throw new Error(`Account ${signer.address} does not have UPGRADER_ROLE; execute ${args.file} from the Safe`);
+    }
+
+    if (args.dryRun) {
+      return dryRun(
+        ethers.provider,
+        hre.network.name,
+        proposal.transactions.map((transaction) =>
+          plannedTransaction(proposal.meta.description, signer.address, transaction)
+        )
+      );
+    }
+
+    console.log("\n📤 Sending upgradeToAndCall...");
+    for (const transaction of proposal.transactions) {
+      const tx = await signer.sendTransaction({ to: transaction.to, data: transaction.data, value: transaction.value });
+      await tx.wait();
+      console.log("   Tx:", tx.hash);
+    }
+  }
+
+  return confirmUpgrade(hre, args);
+}
+
+/**
+ * Verify that a proposal was applied and record the new implementation
+ */
+export async function confirmUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: UpgradeProposalArgs
+): Promise<ConfirmUpgradeResult> {
+  const { ethers, upgrades } = hre;
+  const proposal = await loadForNetwork(hre, args.file);
+  const { proxy, contract, previousImplementation, implementation } = proposal.upgrade;
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Confirm Upgrade Proposal");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nProxy address:", proxy);
+  console.log("Expected implementation:", implementation);
+
+  const current = await upgrades.erc1967.getImplementationAddress(proxy);
+  if (current !== implementation) {
+    throw new Error(`Proposal not applied: proxy ${proxy} points to ${current}, expected ${implementation}`);
+  }
+  console.log("✓ Proxy points to the new implementation");
+
+  const failures: string[] = [];
+  for (const check of proposal.upgrade.checks) {
+    const actual = await ethers.provider.call({ to: check.to, data: check.data }).catch(() => "reverted");
+    if (actual === check.expected) {
+      console.log(`✓ ${check.description}`);
+    } else {
+      failures.push(`${check.description}: got ${actual}, expected ${check.expected}`);
+    }
+  }
+  if (failures.length > 0) {
+    throw new Error(`Post-upgrade checks failed:\n  ${failures.join("\n  ")}`);
+  }
+
+  const token = (await ethers.getContractAt("BalboaToken", proxy)) as unknown as BalboaToken;
+  const index = await syncTokenIndex(hre, proxy);
+  const events = queryEvents(index, { address: proxy, event: "Upgraded", args: { implementation } }).filter(
+    (entry) => entry.blockNumber >= proposal.upgrade.proposedAtBlock
+  );
+  const event = events[events.length - 1];
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const record = loadDeploymentRecord(hre.network.name);
+  const recorded = record?.proxy?.address;
+  let recordPath: string | undefined;
+  if (recorded === undefined || recorded === proxy) {
+    recordPath = updateDeploymentRecord(hre.network.name, chainId, (record) => {
+      record.proxy ??= { contract: "ERC1967Proxy", address: proxy };
+      recordImplementation(record, {
+        contract,
+        address: implementation,
+        txHash: event?.txHash,
+        blockNumber: event?.blockNumber,
+        compiler: proposal.upgrade.compiler,
+      });
+    });
+  }
+
+  // Checked after recording: the upgrade is on-chain either way, so a failure here needs attention
+  console.log("\nVerifying invariants...");
+  if (!event) {
+    throw new Error(
+      `No Upgraded(${implementation}) event on ${proxy} since block ${proposal.upgrade.proposedAtBlock}; ` +
+        "cannot tell which state to compare"
+    );
+  }
+  const fromBlock = record?.proxy?.blockNumber ?? 0;
+  const before = await captureInvariants(
+    token,
+    { fromBlock, index, blockTag: event.blockNumber - 1 },
+    proposal.upgrade.invariants
+  );
+  await verifyInvariants(token, before, implementation, { fromBlock, index, blockTag: event.blockNumber });
+  console.log("✓ Supply, sampled balances, roles, blacklist, pause state and implementation slot as expected");
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("           Upgrade Confirmed!");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("Old implementation:", previousImplementation);
+  console.log("New implementation:", implementation);
+  console.log("Upgrade tx:", event?.txHash ?? "(not found)");
+  console.log("Recorded in:", recordPath ?? `(not recorded: deployment record tracks proxy ${recorded})`);
+
+  return { proxy, previousImplementation, implementation, txHash: event?.txHash };
+}
+
+async function loadForNetwork(hre: HardhatRuntimeEnvironment, file: string): Promise<UpgradeProposal> {
+  const proposal = loadUpgradeProposal(file);
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  if (proposal.chainId !== chainId.toString()) {
+    throw new Error(`${file} is for chain ${proposal.chainId}, connected to chain ${chainId}`);
+  }
+  return proposal;
+}
+
+/**
+ * State the upgrade must not change: metadata, pause state and the holders
+ * of DEFAULT_ADMIN_ROLE and UPGRADER_ROLE
+ */
+async function expectedChecks(token: BalboaToken, fromBlock: number, index: EventIndex): Promise<UpgradeCheck[]> {
+  const to = await token.getAddress();
+  const runner = token.runner?.provider;
+  if (!runner) throw new Error("Token is not connected to a provider");
+
+  const calls: [string, string][] = [
+    ["name() unchanged", token.interface.encodeFunctionData("name")],
+    ["decimals() unchanged", token.interface.encodeFunctionData("decimals")],
+    ["paused() unchanged", token.interface.encodeFunctionData("paused")],
+  ];
+  for (const [label, role] of [
+    ["DEFAULT_ADMIN_ROLE", await token.DEFAULT_ADMIN_ROLE()],
+    ["UPGRADER_ROLE", await token.UPGRADER_ROLE()],
+  ]) {
+    for (const holder of await findRoleHolders(token, role, fromBlock, [], index)) {
+      calls.push([`${holder} keeps ${label}`, token.interface.encodeFunctionData("hasRole", [role, holder])]);
+    }
+  }
+
+  const checks: UpgradeCheck[] = [];
+  for (const [description, data] of calls) {
+    checks.push({ description, to, data, expected: await runner.call({ to, data }) });
+  }
+  return checks;
+}
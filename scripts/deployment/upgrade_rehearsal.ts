@@ -0,0 +1,353 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Contract, ContractFactory, JsonRpcProvider, JsonRpcSigner, getAddress, parseEther, toQuantity } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken, BalboaTokenV5 } from "../../typechain-types";
+import { describeError } from "../lib/errors";
+import { syncTokenIndex } from "../lib/indexer";
+import { InvariantSnapshot, captureInvariants, diffInvariants } from "../lib/invariants";
+import { startLocalNode, stopLocalNode } from "../lib/node";
+import { deploymentRecordPath, loadDeploymentRecord, resolveTokenAddress } from "../lib/records";
+import {
+  STATE_DUMP_VERSION,
+  StateDump,
+  applyStateDump,
+  defaultStateDumpPath,
+  loadStateDump,
+  readImplementationStorage,
+  readTokenStorage,
+  saveStateDump,
+} from "../lib/state";
+import { compareStorageLayouts, readStorageLayout } from "../lib/storage";
+import { currentImplementationContract, resolveInitializerCall, upgradeDelay } from "../lib/upgrades";
+
+/**
+ * Rehearse an upgrade on a local replay of the token's recorded state
+ *
+ * balboa:state:dump records the proxy's code and storage at the latest block
+ * (see scripts/lib/state.ts). balboa:upgrade:rehearse loads that dump into a
+ * fresh `hardhat node` with the same chain id and clock, so it needs no RPC
+ * connection, then:
+ *   1. compares the storage layout of the recorded contract and --contract
+ *   2. checks the replayed token against the invariants recorded with the dump
+ *   3. impersonates an UPGRADER_ROLE holder and upgrades, scheduling the
+ *      upgrade and skipping the delay first on timelocked proxies (V5+)
+ *   4. checks the upgrade invariants (supply, balances, roles, blacklist,
+ *      pause state, implementation slot)
+ *   5. runs smoke checks: metadata, a transfer, pause and unpause
+ *
+ * The report is written to rehearsals/<network>-<contract>.json next to the
+ * deployment record; the command fails if any check failed.
+ *
+ * Usage:
+ *   npx hardhat balboa:state:dump --network mainnet
+ *   npx hardhat balboa:upgrade:rehearse --contract BalboaTokenV5 --network mainnet
+ *
+ * Optional (dump):
+ *   --proxy 0x...     Proxy address (defaults to the deployment record, then PROXY_ADDRESS)
+ *   --contract        Contract the current implementation was deployed from (defaults to the deployment record)
+ *   --out <path>      Output file (default deployments/state/<network>.json)
+ *
+ * Optional (rehearse):
+ *   --state <path>    State dump (default deployments/state/<network>.json)
+ *   --call            Reinitializer to run with the upgrade (e.g. initializeV5)
+ *   --args            JSON array of arguments for --call
+ *   --upgrader 0x...  Account to impersonate (defaults to the first recorded UPGRADER_ROLE holder)
+ *   --out <path>      Report file (default deployments/rehearsals/<network>-<contract>.json)
+ */
+
+/** Receives the 1 base unit moved by the transfer smoke check */
+const SMOKE_RECIPIENT = "0x000000000000000000000000000000000000dEaD";
+
+export interface DumpStateArgs {
+  proxy?: string;
+  contract?: string;
+  out?: string;
+}
+
+export interface DumpStateResult {
+  file: string;
+  dump: StateDump;
+}
+
+export interface RehearseUpgradeArgs {
+  contract: string;
+  state?: string;
+  call?: string;
+  args?: unknown[];
+  upgrader?: string;
+  out?: string;
+}
+
+export interface RehearsalCheck {
+  name: string;
+  passed: boolean;
+  issues: string[];
+  notes: string[];
+}
+
+export interface RehearsalReport {
+  network: string;
+  chainId: string;
+  proxy: string;
+  /** Block the state was recorded at */
+  blockNumber: number;
+  from: string;
+  contract: string;
+  call?: { fn: string; args: unknown[] };
+  upgrader: string;
+  implementation?: string;
+  gasUsed?: string;
+  passed: boolean;
+  checks: RehearsalCheck[];
+}
+
+export interface RehearseUpgradeResult {
+  file: string;
+  report: RehearsalReport;
+}
+
+export async function dumpState(hre: HardhatRuntimeEnvironment, args: DumpStateArgs): Promise<DumpStateResult> {
+  const { ethers, upgrades } = hre;
+  const proxy = resolveTokenAddress(hre, args.proxy, "PROXY_ADDRESS");
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Record Token State");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nProxy:", proxy);
+
+  if ((await ethers.provider.getCode(proxy)) === "0x") {
+    throw new Error(`No contract found at proxy address: ${proxy}`);
+  }
+  const block = await ethers.provider.getBlock("latest");
+  if (!block) throw new Error("Could not read the latest block");
+  const implementation = await upgrades.erc1967.getImplementationAddress(proxy);
+  const contract = args.contract ?? (await currentImplementationContract(hre, proxy));
+  console.log("Implementation:", implementation, `(${contract})`);
+  console.log("Block:", block.number);
+
+  const token = (await ethers.getContractAt("BalboaToken", proxy)) as unknown as BalboaToken;
+  const fromBlock = loadDeploymentRecord(hre.network.name)?.proxy?.blockNumber ?? 0;
+  const index = await syncTokenIndex(hre, proxy);
+  const invariants = await captureInvariants(token, { fromBlock, index });
+  const storage = await readTokenStorage(hre, ethers.provider, proxy, contract, invariants, block.number, index);
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const dump: StateDump = {
+    version: STATE_DUMP_VERSION,
+    network: hre.network.name,
+    chainId: chainId.toString(),
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    proxy,
+    implementation,
+    contract,
+    invariants,
+    accounts: {
+      [proxy]: { code: await ethers.provider.getCode(proxy, block.number), storage },
+      [implementation]: {
+        code: await ethers.provider.getCode(implementation, block.number),
+        storage: await readImplementationStorage(ethers.provider, implementation, block.number),
+      },
+    },
+  };
+  const file = args.out ?? defaultStateDumpPath(hre.network.name);
+  saveStateDump(file, dump);
+
+  console.log("\n✅ State recorded:", file);
+  console.log(`   ${Object.keys(storage).length} storage slots`);
+  console.log(`   ${Object.keys(invariants.balances).length} sampled balances`);
+  console.log(`   ${Object.values(invariants.roles).flat().length} role assignments`);
+  console.log(`   ${invariants.blacklisted.length} blacklisted accounts`);
+  return { file, dump };
+}
+
+export async function rehearseUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: RehearseUpgradeArgs
+): Promise<RehearseUpgradeResult> {
+  const dump = loadStateDump(args.state ?? defaultStateDumpPath(hre.network.name));
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Upgrade Rehearsal");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log(`\nState: ${dump.network} (chain ${dump.chainId}) at block ${dump.blockNumber}`);
+  console.log("Proxy:", dump.proxy);
+  console.log(`Upgrade: ${dump.contract} -> ${args.contract}`);
+
+  const upgrader = args.upgrader ?? dump.invariants.roles.UPGRADER_ROLE?.[0];
+  if (!upgrader) {
+    throw new Error("No UPGRADER_ROLE holder recorded in the state dump; pass --upgrader");
+  }
+  const report: RehearsalReport = {
+    network: dump.network,
+    chainId: dump.chainId,
+    proxy: dump.proxy,
+    blockNumber: dump.blockNumber,
+    from: dump.contract,
+    contract: args.contract,
+    upgrader: getAddress(upgrader),
+    passed: false,
+    checks: [],
+  };
+  // Each check returns its issues; an exception counts as one
+  const check = async (name: string, run: (notes: string[]) => Promise<string[]>): Promise<void> => {
+    const notes: string[] = [];
+    let issues: string[];
+    try {
+      issues = await run(notes);
+    } catch (e) {
+      issues = [describeError(e)];
+    }
+    const passed = issues.length === 0;
+    report.checks.push({ name, passed, issues, notes });
+    console.log(`\n${passed ? "✅" : "❌"} ${name}`);
+    for (const line of [...issues, ...notes]) console.log(`   ${line}`);
+  };
+
+  await check("storage layout", async () => {
+    const previous = await readStorageLayout(hre, dump.contract);
+    const next = await readStorageLayout(hre, args.contract);
+    const NewImplementation = await hre.ethers.getContractFactory(args.contract);
+    await hre.upgrades.validateImplementation(NewImplementation, { kind: "uups" });
+    return compareStorageLayouts(previous.storage, next.storage);
+  });
+
+  // Fresh node with the dump's chain id and clock, holding its state
+  const node = await startLocalNode(hre, {
+    chainId: Number(dump.chainId),
+    initialDate: new Date(dump.timestamp * 1000),
+  });
+  // Reads repeat right after each transaction; ethers' short response cache would return stale values
+  const provider = new JsonRpcProvider(node.url, undefined, { staticNetwork: true, cacheTimeout: -1 });
+  try {
+    await applyStateDump(provider, dump);
+    const abi = (await hre.artifacts.readArtifact("BalboaToken")).abi;
+    const token = new Contract(dump.proxy, abi, provider) as unknown as BalboaToken;
+
+    let before: InvariantSnapshot | undefined;
+    await check("replayed state", async () => {
+      before = await captureInvariants(token, {}, dump.invariants);
+      return diffInvariants(dump.invariants, before);
+    });
+
+    await check("upgrade", async (notes) => {
+      const signer = await impersonate(provider, report.upgrader);
+      const tokenAsUpgrader = token.connect(signer) as BalboaToken;
+      if (!(await tokenAsUpgrader.hasRole(await token.UPGRADER_ROLE(), report.upgrader))) {
+        return [`${report.upgrader} does not have UPGRADER_ROLE`];
+      }
+
+      const artifact = await hre.artifacts.readArtifact(args.contract);
+      const NewImplementation = new ContractFactory(artifact.abi, artifact.bytecode, signer);
+      const deployed = await NewImplementation.deploy();
+      await deployed.waitForDeployment();
+      const implementation = await deployed.getAddress();
+
+      const call = await resolveInitializerCall(tokenAsUpgrader, args.call, args.args, dump.invariants.roles);
+      const data = call ? NewImplementation.interface.encodeFunctionData(call.fn, call.args) : "0x";
+      report.call = call;
+
+      const delay = await upgradeDelay(provider, dump.proxy);
+      if (delay !== undefined) {
+        const timelock = new Contract(dump.proxy, (await hre.artifacts.readArtifact("BalboaTokenV5")).abi, signer);
+        await (await (timelock as unknown as BalboaTokenV5).scheduleUpgrade(implementation, data)).wait();
+        await provider.send("evm_increaseTime", [toQuantity(delay)]);
+        notes.push(`scheduled and waited out the ${delay}s upgrade delay`);
+      }
+
+      const receipt = await (await tokenAsUpgrader.upgradeToAndCall(implementation, data)).wait();
+      report.implementation = implementation;
+      report.gasUsed = receipt?.gasUsed.toString();
+      notes.push(`implementation ${implementation}, gas used ${report.gasUsed}`);
+      return [];
+    });
+
+    if (!before || !report.implementation) {
+      for (const name of ["invariants", "smoke"]) {
+        report.checks.push({ name, passed: false, issues: ["skipped: the upgrade did not happen"], notes: [] });
+      }
+    } else {
+      const snapshot = before;
+      await check("invariants", async () =>
+        diffInvariants(snapshot, await captureInvariants(token, {}, snapshot), report.implementation)
+      );
+      await check("smoke", async (notes) => smokeChecks(provider, token, snapshot, notes));
+    }
+  } finally {
+    provider.destroy();
+    await stopLocalNode(node);
+  }
+
+  report.passed = report.checks.every((entry) => entry.passed);
+  const file = args.out ?? defaultRehearsalPath(hre.network.name, args.contract);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(report, null, 2) + "\n");
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log(report.passed ? "✅ Rehearsal passed" : "❌ Rehearsal failed");
+  console.log("   Report:", file);
+  console.log("═══════════════════════════════════════════════════════════");
+
+  if (!report.passed) {
+    const failed = report.checks.filter((entry) => !entry.passed).map((entry) => entry.name);
+    throw new Error(`Upgrade rehearsal failed: ${failed.join(", ")} (see ${file})`);
+  }
+  return { file, report };
+}
+
+/**
+ * Default report location: next to the network's deployment record, under rehearsals/
+ */
+export function defaultRehearsalPath(network: string, contract: string): string {
+  return path.join(path.dirname(deploymentRecordPath(network)), "rehearsals", `${network}-${contract}.json`);
+}
+
+async function impersonate(provider: JsonRpcProvider, account: string): Promise<JsonRpcSigner> {
+  await provider.send("hardhat_impersonateAccount", [account]);
+  await provider.send("hardhat_setBalance", [account, toQuantity(parseEther("100"))]);
+  return new JsonRpcSigner(provider, account);
+}
+
+/**
+ * Metadata, a transfer from the largest sampled holder, and pause/unpause by a pauser
+ */
+async function smokeChecks(
+  provider: JsonRpcProvider,
+  token: BalboaToken,
+  before: InvariantSnapshot,
+  notes: string[]
+): Promise<string[]> {
+  const issues: string[] = [];
+
+  notes.push(`${await token.name()} (${await token.symbol()}), ${await token.decimals()} decimals`);
+
+  const holder = Object.entries(before.balances)
+    .filter(([account, balance]) => BigInt(balance) > 0n && !before.blacklisted.includes(account))
+    .sort(([, a], [, b]) => (BigInt(b) > BigInt(a) ? 1 : -1))[0]?.[0];
+  if (before.paused) {
+    notes.push("token is paused; transfer and pause checks skipped");
+    return issues;
+  }
+  if (!holder) {
+    notes.push("no sampled holder with a balance; transfer check skipped");
+  } else {
+    const received = await token.balanceOf(SMOKE_RECIPIENT);
+    await (await (token.connect(await impersonate(provider, holder)) as BalboaToken).transfer(SMOKE_RECIPIENT, 1n)).wait();
+    if ((await token.balanceOf(SMOKE_RECIPIENT)) !== received + 1n) {
+      issues.push(`transfer of 1 unit from ${holder} was not credited`);
+    }
+  }
+
+  const pauser = before.roles.PAUSER_ROLE?.[0];
+  if (!pauser) {
+    notes.push("no PAUSER_ROLE holder; pause check skipped");
+  } else {
+    const asPauser = token.connect(await impersonate(provider, pauser)) as BalboaToken;
+    await (await asPauser.pause()).wait();
+    if (!(await token.paused())) issues.push("pause() did not pause the token");
+    await (await asPauser.unpause()).wait();
+    if (await token.paused()) issues.push("unpause() did not unpause the token");
+  }
+  return issues;
+}
@@ -0,0 +1,392 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken, BalboaTokenV5 } from "../../typechain-types";
+import { DryRunReport, dryRun, plannedTransaction } from "../lib/dryrun";
+import { queryEvents, syncTokenIndex } from "../lib/indexer";
+import { captureInvariants, verifyInvariants } from "../lib/invariants";
+import {
+  DeploymentRecord,
+  ScheduledUpgradeRecord,
+  compilerSettings,
+  loadDeploymentRecord,
+  recordImplementation,
+  resolveTokenAddress,
+  updateDeploymentRecord,
+} from "../lib/records";
+import { resolveInitializerCall, upgradeDelay, validateUpgradeSafety } from "../lib/upgrades";
+import type { UpgradeResult } from "./upgrade";
+
+/**
+ * Schedule, execute and cancel upgrades of a timelocked proxy (BalboaTokenV5+)
+ *
+ * `schedule` validates and deploys the new implementation and schedules it
+ * with the upgrade calldata; `execute` sends `upgradeToAndCall` once the delay
+ * has passed; `cancel` drops a scheduled upgrade. Pending upgrades are kept in
+ * deployments/<network>.json until they execute or are cancelled.
+ *
+ * `schedule` records an invariant snapshot with the upgrade. The token keeps
+ * operating during the delay, so `execute` re-reads the snapshot's accounts
+ * just before `upgradeToAndCall` and checks them again afterwards, as
+ * balboa:upgrade does.
+ *
+ * Usage:
+ *   npx hardhat balboa:timelock:schedule --contract BalboaTokenV6 --network <network>
+ *   npx hardhat balboa:timelock:execute --network <network>
+ *   npx hardhat balboa:timelock:cancel --id 0x... --network <network>
+ *
+ * Optional:
+ *   --proxy 0x...   Proxy address (defaults to the deployment record, then PROXY_ADDRESS)
+ *   --call          Reinitializer to run with the upgrade (schedule)
+ *   --args          JSON array of arguments for --call (schedule)
+ *   --id 0x...      Upgrade to execute when several are scheduled (execute)
+ *   --contract      Implementation name for the record, when the upgrade was
+ *                   scheduled elsewhere (execute)
+ *   --dry-run       Simulate the transactions without sending them; schedule
+ *                   assumes the implementation is deployed fresh
+ *
+ * Note: schedule and execute need UPGRADER_ROLE; cancel needs UPGRADER_ROLE
+ * or DEFAULT_ADMIN_ROLE
+ */
+
+export interface ScheduleUpgradeArgs {
+  proxy?: string;
+  contract: string;
+  call?: string;
+  args?: unknown[];
+  dryRun?: boolean;
+}
+
+export interface ScheduleUpgradeResult {
+  id: string;
+  implementation: string;
+  data: string;
+  readyAt: number;
+}
+
+export interface ExecuteScheduledUpgradeArgs {
+  proxy?: string;
+  id?: string;
+  contract?: string;
+  dryRun?: boolean;
+}
+
+export interface ExecuteScheduledUpgradeResult extends UpgradeResult {
+  txHash: string;
+}
+
+export interface CancelScheduledUpgradeArgs {
+  proxy?: string;
+  id: string;
+  dryRun?: boolean;
+}
+
+interface PendingUpgrade {
+  id: string;
+  implementation: string;
+  data: string;
+  readyAt: number;
+}
+
+export async function scheduleUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: ScheduleUpgradeArgs
+): Promise<ScheduleUpgradeResult | DryRunReport> {
+  const { ethers, upgrades } = hre;
+  const proxy = resolveTokenAddress(hre, args.proxy, "PROXY_ADDRESS");
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Schedule Timelocked Upgrade");
+  console.log("═══════════════════════════════════════════════════════════");
+  const { token, signer, delay } = await connectTimelock(hre, proxy, "UPGRADER_ROLE");
+  console.log("New implementation:", args.contract);
+
+  console.log("\nValidating upgrade compatibility...");
+  const NewImplementation = await ethers.getContractFactory(args.contract);
+  await validateUpgradeSafety(hre, proxy, NewImplementation);
+  const index = await syncTokenIndex(hre, proxy);
+  const call = await resolveInitializerCall(token as unknown as BalboaToken, args.call, args.args, {}, index);
+
+  if (args.dryRun) {
+    const predicted = ethers.getCreateAddress({
+      from: signer.address,
+      nonce: await ethers.provider.getTransactionCount(signer.address),
+    });
+    const data = call ? NewImplementation.interface.encodeFunctionData(call.fn, call.args) : "0x";
+    console.log("Upgrade id:", await token.upgradeId(predicted, data));
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `Deploy ${args.contract} implementation`,
+        signer.address,
+        await NewImplementation.getDeployTransaction()
+      ),
+      plannedTransaction(
+        `scheduleUpgrade(${predicted}, ${call ? call.fn : "0x"}) on ${proxy}`,
+        signer.address,
+        await token.scheduleUpgrade.populateTransaction(predicted, data)
+      ),
+    ]);
+  }
+
+  // Deploys the implementation, or reuses the one already deployed for this bytecode
+  console.log("\nDeploying new implementation...");
+  const implementation = ethers.getAddress(
+    (await upgrades.prepareUpgrade(proxy, NewImplementation, { kind: "uups" })) as string
+  );
+  console.log("✓ Implementation:", implementation);
+
+  const data = call ? NewImplementation.interface.encodeFunctionData(call.fn, call.args) : "0x";
+  const id = await token.upgradeId(implementation, data);
+  if ((await token.upgradeReadyAt(id)) !== 0n) {
+    throw new Error(`Upgrade ${id} is already scheduled`);
+  }
+
+  // Snapshot the state the upgrade must preserve; execute checks the same accounts
+  const fromBlock = loadDeploymentRecord(hre.network.name)?.proxy?.blockNumber ?? 0;
+  const invariants = await captureInvariants(token as unknown as BalboaToken, { fromBlock, index });
+  console.log(`\nCaptured invariants (${Object.keys(invariants.balances).length} sampled balances)`);
+
+  console.log(`\n📤 Scheduling upgrade (delay ${delay}s) from ${signer.address}...`);
+  const tx = await token.scheduleUpgrade(implementation, data);
+  const receipt = await tx.wait();
+  const readyAt = Number(await token.upgradeReadyAt(id));
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const compiler = await compilerSettings(hre, args.contract);
+  const recordPath = updateProxyRecord(hre, proxy, chainId, (scheduled) => {
+    scheduled.push({
+      id,
+      contract: args.contract,
+      address: implementation,
+      data,
+      readyAt,
+      txHash: receipt?.hash,
+      blockNumber: receipt?.blockNumber,
+      compiler,
+      invariants,
+    });
+  });
+
+  console.log("\n✅ Upgrade scheduled");
+  console.log("   Id:", id);
+  console.log("   Executable from:", new Date(readyAt * 1000).toISOString());
+  console.log("   Tx:", tx.hash);
+  console.log("Recorded in:", recordPath);
+  console.log("\nOnce the delay has passed:");
+  console.log(`npx hardhat balboa:timelock:execute --id ${id} --network ${hre.network.name}`);
+
+  return { id, implementation, data, readyAt };
+}
+
+export async function executeScheduledUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: ExecuteScheduledUpgradeArgs
+): Promise<ExecuteScheduledUpgradeResult | DryRunReport> {
+  const { ethers, upgrades } = hre;
+  const proxy = resolveTokenAddress(hre, args.proxy, "PROXY_ADDRESS");
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Execute Timelocked Upgrade");
+  console.log("═══════════════════════════════════════════════════════════");
+  const { token, signer } = await connectTimelock(hre, proxy, "UPGRADER_ROLE");
+
+  const pending = await pendingUpgrades(hre, token, proxy);
+  const upgrade = args.id ? pending.find((entry) => entry.id === args.id) : pending[0];
+  if (!upgrade) {
+    throw new Error(args.id ? `Upgrade ${args.id} is not scheduled` : `No upgrade is scheduled on ${proxy}`);
+  }
+  if (!args.id && pending.length > 1) {
+    throw new Error(`Several upgrades are scheduled; pass --id with one of ${pending.map((e) => e.id).join(", ")}`);
+  }
+
+  const record = loadDeploymentRecord(hre.network.name);
+  const scheduled = record?.scheduledUpgrades?.find((entry) => entry.id === upgrade.id);
+  const contract = scheduled?.contract ?? args.contract;
+  if (!contract) {
+    throw new Error(`Upgrade ${upgrade.id} was not scheduled from this checkout; pass --contract to name it`);
+  }
+  const compiler = scheduled?.compiler ?? (await compilerSettings(hre, contract));
+
+  const latest = await ethers.provider.getBlock("latest");
+  const now = latest?.timestamp ?? 0;
+  if (now < upgrade.readyAt) {
+    throw new Error(
+      `Upgrade ${upgrade.id} can execute from ${new Date(upgrade.readyAt * 1000).toISOString()} ` +
+        `(${upgrade.readyAt - now}s from now)`
+    );
+  }
+
+  const previousImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+  console.log("\nCurrent implementation:", previousImplementation);
+  console.log("New implementation:", upgrade.implementation, `(${contract})`);
+
+  if (args.dryRun) {
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `upgradeToAndCall(${upgrade.implementation}, ${upgrade.data}) on ${proxy}`,
+        signer.address,
+        await token.upgradeToAndCall.populateTransaction(upgrade.implementation, upgrade.data)
+      ),
+    ]);
+  }
+
+  // Re-read the accounts snapshotted at scheduling time (sampling anew when scheduled elsewhere)
+  const balboa = token as unknown as BalboaToken;
+  const fromBlock = record?.proxy?.blockNumber ?? 0;
+  const before = await captureInvariants(
+    balboa,
+    { fromBlock, index: await syncTokenIndex(hre, proxy) },
+    scheduled?.invariants
+  );
+  console.log(`\nCaptured invariants (${Object.keys(before.balances).length} sampled balances)`);
+
+  console.log("\n📤 Sending upgradeToAndCall...");
+  const tx = await token.upgradeToAndCall(upgrade.implementation, upgrade.data);
+  const receipt = await tx.wait();
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const recordPath = updateProxyRecord(hre, proxy, chainId, (pendingRecords, record) => {
+    removeScheduled(pendingRecords, upgrade.id);
+    recordImplementation(record, {
+      contract,
+      address: upgrade.implementation,
+      txHash: receipt?.hash,
+      blockNumber: receipt?.blockNumber,
+      compiler,
+    });
+  });
+
+  // Post-upgrade checks; the upgrade is on-chain and recorded, so a failure here needs attention
+  console.log("\nVerifying invariants...");
+  await verifyInvariants(balboa, before, upgrade.implementation, {
+    fromBlock,
+    index: await syncTokenIndex(hre, proxy),
+  });
+  console.log("✓ Supply, sampled balances, roles, blacklist, pause state and implementation slot as expected");
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log("           Upgrade Complete!");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("Old implementation:", previousImplementation);
+  console.log("New implementation:", upgrade.implementation);
+  console.log("Tx:", tx.hash);
+  console.log("Recorded in:", recordPath);
+
+  return { proxy, previousImplementation, implementation: upgrade.implementation, txHash: tx.hash };
+}
+
+export async function cancelScheduledUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: CancelScheduledUpgradeArgs
+): Promise<DryRunReport | void> {
+  const { ethers } = hre;
+  const proxy = resolveTokenAddress(hre, args.proxy, "PROXY_ADDRESS");
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Cancel Timelocked Upgrade");
+  console.log("═══════════════════════════════════════════════════════════");
+  const { token, signer } = await connectTimelock(hre, proxy, "UPGRADER_ROLE", "DEFAULT_ADMIN_ROLE");
+
+  if ((await token.upgradeReadyAt(args.id)) === 0n) {
+    throw new Error(`Upgrade ${args.id} is not scheduled`);
+  }
+
+  if (args.dryRun) {
+    return dryRun(ethers.provider, hre.network.name, [
+      plannedTransaction(
+        `cancelUpgrade(${args.id}) on ${proxy}`,
+        signer.address,
+        await token.cancelUpgrade.populateTransaction(args.id)
+      ),
+    ]);
+  }
+
+  console.log(`\n📤 Cancelling ${args.id}...`);
+  const tx = await token.cancelUpgrade(args.id);
+  await tx.wait();
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const recordPath = updateProxyRecord(hre, proxy, chainId, (scheduled) => removeScheduled(scheduled, args.id));
+
+  console.log("✅ Upgrade cancelled");
+  console.log("   Tx:", tx.hash);
+  console.log("Recorded in:", recordPath);
+}
+
+/**
+ * Attach to a timelocked proxy and check that the signer holds one of `roles`
+ */
+async function connectTimelock(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  ...roles: ("UPGRADER_ROLE" | "DEFAULT_ADMIN_ROLE")[]
+): Promise<{ token: BalboaTokenV5; signer: { address: string }; delay: bigint }> {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+
+  console.log("\nExecuting with account:", signer.address);
+  console.log("Proxy address:", proxy);
+
+  if ((await ethers.provider.getCode(proxy)) === "0x") {
+    throw new Error(`No contract found at proxy address: ${proxy}`);
+  }
+  const delay = await upgradeDelay(ethers.provider, proxy);
+  if (delay === undefined) {
+    throw new Error(`Proxy ${proxy} does not timelock upgrades; use balboa:upgrade`);
+  }
+  console.log("Upgrade delay:", `${delay}s`);
+
+  const token = (await ethers.getContractAt("BalboaTokenV5", proxy)) as unknown as BalboaTokenV5;
+  for (const role of roles) {
+    if (await token.hasRole(await token[role](), signer.address)) {
+      return { token, signer, delay };
+    }
+  }
+  throw new Error(`Account ${signer.address} does not have ${roles.join(" or ")}`);
+}
+
+/**
+ * Upgrades scheduled on-chain and neither executed nor cancelled, oldest first
+ */
+async function pendingUpgrades(
+  hre: HardhatRuntimeEnvironment,
+  token: BalboaTokenV5,
+  proxy: string
+): Promise<PendingUpgrade[]> {
+  const index = await syncTokenIndex(hre, proxy);
+
+  const pending = new Map<string, PendingUpgrade>();
+  for (const event of queryEvents(index, { address: proxy, event: "UpgradeScheduled" })) {
+    const { id, implementation, data } = event.args;
+    const readyAt = await token.upgradeReadyAt(id);
+    if (readyAt !== 0n) {
+      pending.set(id, { id, implementation, data, readyAt: Number(readyAt) });
+    }
+  }
+  return [...pending.values()];
+}
+
+/**
+ * Update the record's scheduled upgrades, unless the record tracks another proxy
+ * @returns Path of the written record, or a note why nothing was recorded
+ */
+function updateProxyRecord(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  chainId: bigint,
+  update: (scheduled: ScheduledUpgradeRecord[], record: DeploymentRecord) => void
+): string {
+  const recorded = loadDeploymentRecord(hre.network.name)?.proxy?.address;
+  if (recorded !== undefined && recorded !== proxy) {
+    return `(not recorded: deployment record tracks proxy ${recorded})`;
+  }
+  return updateDeploymentRecord(hre.network.name, chainId, (record) => {
+    record.proxy ??= { contract: "ERC1967Proxy", address: proxy };
+    record.scheduledUpgrades ??= [];
+    update(record.scheduledUpgrades, record);
+    if (record.scheduledUpgrades.length === 0) delete record.scheduledUpgrades;
+  });
+}
+
+function removeScheduled(scheduled: ScheduledUpgradeRecord[], id: string): void {
+  const index = scheduled.findIndex((entry) => entry.id === id);
+  if (index !== -1) scheduled.splice(index, 1);
+}
@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import { ZeroHash, getAddress, id, isAddress, isHexString } from "ethers";
+
+/**
+ * Blacklist import files: one account per line, with an optional reason
+ *
+ * ```csv
+ * address,reason
+ * 0x1234...,CASE-2026-014
+ * 0xabcd...,0x<32-byte evidence hash>
+ * 0x5678...,
+ * ```
+ *
+ * A reason that already is a 32-byte hex value is recorded as is; any other
+ * text (a case id, a ticket URL) is recorded as its keccak256 hash. Blank
+ * lines and lines starting with # are ignored, and the header row is optional.
+ */
+
+/** Gas per batch transaction when none is given, well below common block gas limits */
+export const DEFAULT_BATCH_GAS_LIMIT = 5_000_000n;
+
+export interface BlacklistEntry {
+  account: string;
+  /** Reason as written in the file (empty for none) */
+  reason: string;
+  /** Reason recorded on-chain (zero for none) */
+  reasonHash: string;
+}
+
+export interface GasChunk<T> {
+  items: T[];
+  gas: bigint;
+}
+
+/**
+ * On-chain reason for a reason text: hex values of 32 bytes as is, other text hashed, empty as zero
+ */
+export function reasonHash(reason: string): string {
+  if (reason === "") return ZeroHash;
+  return isHexString(reason, 32) ? reason.toLowerCase() : id(reason);
+}
+
+export function loadBlacklistCsv(file: string): BlacklistEntry[] {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Blacklist file not found: ${file}`);
+  }
+  return parseBlacklistCsv(fs.readFileSync(file, "utf8"), file);
+}
+
+export function parseBlacklistCsv(content: string, source = "CSV"): BlacklistEntry[] {
+  const entries: BlacklistEntry[] = [];
+  const seen = new Map<string, number>();
+
+  content.split(/\r?\n/).forEach((text, i) => {
+    const line = i + 1;
+    if (text.trim() === "" || text.trimStart().startsWith("#")) return;
+
+    const [address = "", reason = "", ...rest] = splitCsvLine(text, `${source}:${line}`);
+    if (entries.length === 0 && address.toLowerCase() === "address") return;
+    if (rest.some((field) => field !== "")) {
+      throw new Error(`${source}:${line}: expected "address,reason", found ${rest.length + 2} columns`);
+    }
+    if (!isAddress(address)) {
+      throw new Error(`${source}:${line}: invalid address: ${address}`);
+    }
+
+    const account = getAddress(address);
+    if (seen.has(account)) {
+      throw new Error(`${source}:${line}: ${account} is already listed on line ${seen.get(account)}`);
+    }
+    seen.set(account, line);
+    entries.push({ account, reason, reasonHash: reasonHash(reason) });
+  });
+
+  if (entries.length === 0) {
+    throw new Error(`${source}: no accounts listed`);
+  }
+  return entries;
+}
+
+/**
+ * Split items into consecutive chunks whose estimated gas stays within a limit
+ *
+ * The size of each chunk is predicted from the cost of one and two items,
+ * then shrunk until its estimate fits.
+ * @param estimate Gas needed to process the given items in one transaction
+ */
+export async function chunkByGas<T>(
+  items: T[],
+  gasLimit: bigint,
+  estimate: (items: T[]) => Promise<bigint>
+): Promise<GasChunk<T>[]> {
+  if (items.length === 0) return [];
+
+  const one = await estimate(items.slice(0, 1));
+  if (one > gasLimit) {
+    throw new Error(`A single entry needs ${one} gas, above the gas limit of ${gasLimit}`);
+  }
+  const perItem = items.length > 1 ? (await estimate(items.slice(0, 2))) - one : one;
+  const predicted = perItem > 0n ? Number((gasLimit - one) / perItem) + 1 : items.length;
+
+  const chunks: GasChunk<T>[] = [];
+  let start = 0;
+  while (start < items.length) {
+    let size = Math.max(1, Math.min(predicted, items.length - start));
+    let gas = await estimate(items.slice(start, start + size));
+    while (gas > gasLimit && size > 1) {
+      size = Math.max(1, Math.min(size - 1, Math.floor((size * Number(gasLimit)) / Number(gas))));
+      gas = await estimate(items.slice(start, start + size));
+    }
+    if (gas > gasLimit) {
+      throw new Error(`A single entry needs ${gas} gas, above the gas limit of ${gasLimit}`);
+    }
+    chunks.push({ items: items.slice(start, start + size), gas });
+    start += size;
+  }
+  return chunks;
+}
+
+/**
+ * Fields of one CSV line; double-quoted fields may contain commas and "" for a quote
+ */
+function splitCsvLine(text: string, source: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true;
+      field = "";
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error(`${source}: unterminated quote`);
+  fields.push(field.trim());
+  return fields;
+}
@@ -0,0 +1,73 @@
+import { getAddress, isAddress } from "ethers";
+
+/**
+ * Resolve an address from a task parameter, falling back to an environment variable
+ * @param value Value passed on the command line (may be undefined)
+ * @param envKey Environment variable used when no value was passed
+ */
+export function resolveAddress(value: string | undefined, envKey: string): string {
+  const resolved = value || process.env[envKey]?.trim();
+  if (!resolved) {
+    throw new Error(`Missing ${envKey}: pass it as a task parameter or set it in .env`);
+  }
+  if (!isAddress(resolved)) {
+    throw new Error(`${envKey} is not a valid address: ${resolved}`);
+  }
+  return getAddress(resolved);
+}
+
+/**
+ * Resolve the admin encoded into a new proxy's init data, falling back to TOKEN_ADMIN
+ *
+ * Returns undefined when neither is set; callers then use the deploying
+ * account, which makes the proxy address depend on who deploys.
+ * @param value Value passed on the command line (may be undefined)
+ */
+export function resolveTokenAdmin(value: string | undefined): string | undefined {
+  return value || process.env.TOKEN_ADMIN?.trim() ? resolveAddress(value, "TOKEN_ADMIN") : undefined;
+}
+
+/**
+ * Resolve the supply cap in base units, falling back to SUPPLY_CAP
+ *
+ * A missing or empty value means unlimited (0).
+ * @param value Value passed on the command line (may be undefined)
+ */
+export function resolveSupplyCap(value: bigint | undefined): bigint {
+  if (value !== undefined) {
+    if (value < 0n) throw new Error(`Supply cap cannot be negative: ${value}`);
+    return value;
+  }
+  const resolved = process.env.SUPPLY_CAP?.trim() || "0";
+  if (!/^\d+$/.test(resolved)) {
+    throw new Error(`SUPPLY_CAP must be a non-negative integer in base units: ${resolved}`);
+  }
+  return BigInt(resolved);
+}
+
+/** Upgrade delay used when UPGRADE_DELAY is not set: 48 hours */
+export const DEFAULT_UPGRADE_DELAY = 48n * 60n * 60n;
+
+/**
+ * Resolve the upgrade timelock delay in seconds, falling back to UPGRADE_DELAY
+ * @param value Value passed on the command line (may be undefined)
+ */
+export function resolveUpgradeDelay(value: bigint | undefined): bigint {
+  if (value !== undefined) return value;
+  const resolved = process.env.UPGRADE_DELAY?.trim();
+  if (!resolved) return DEFAULT_UPGRADE_DELAY;
+  if (!/^\d+$/.test(resolved) || BigInt(resolved) === 0n) {
+    throw new Error(`UPGRADE_DELAY must be a positive number of seconds: ${resolved}`);
+  }
+  return BigInt(resolved);
+}
+
+/**
+ * Give the operator a chance to abort before transactions are sent
+ * @param seconds Countdown length; skipped when zero
+ */
+export async function countdown(seconds: number): Promise<void> {
+  if (seconds <= 0) return;
+  console.log(`Press Ctrl+C to cancel, or wait ${seconds} seconds to proceed...`);
+  await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+}
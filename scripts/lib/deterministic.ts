@@ -0,0 +1,64 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Salts and address derivation shared by every deterministic deployment command
+ *
+ * The proxy address only matches across chains when the factory, salts,
+ * compiler settings and initialization data (admin, cap and upgrade delay)
+ * are identical.
+ */
+export const SALT_IMPL_LABEL = "BALBOA_IMPL_V1";
+export const SALT_PROXY_LABEL = "BALBOA_PROXY_V1";
+
+/** Implementation deployed behind fresh proxies; initialized with the upgrade timelock */
+export const IMPLEMENTATION_CONTRACT = "BalboaTokenV7";
+
+export interface DeterministicPlan {
+  factory: string;
+  saltImpl: string;
+  saltProxy: string;
+  implCreation: string;
+  implAddr: string;
+  cap: bigint;
+  delay: bigint;
+  initData: string;
+  proxyCreation: string;
+  proxyAddr: string;
+}
+
+export function salts(hre: HardhatRuntimeEnvironment): { saltImpl: string; saltProxy: string } {
+  const { ethers } = hre;
+  return {
+    saltImpl: ethers.keccak256(ethers.toUtf8Bytes(SALT_IMPL_LABEL)),
+    saltProxy: ethers.keccak256(ethers.toUtf8Bytes(SALT_PROXY_LABEL)),
+  };
+}
+
+/**
+ * Compute the creation code and CREATE2 addresses of the implementation and proxy
+ * @param factory Create2Factory address
+ * @param admin Address that receives all roles
+ * @param cap Supply cap passed to `initializeWithTimelock` (0 for unlimited)
+ * @param delay Upgrade delay in seconds passed to `initializeWithTimelock`
+ */
+export async function computeDeterministicPlan(
+  hre: HardhatRuntimeEnvironment,
+  factory: string,
+  admin: string,
+  cap: bigint,
+  delay: bigint
+): Promise<DeterministicPlan> {
+  const { ethers } = hre;
+  const { saltImpl, saltProxy } = salts(hre);
+
+  const Impl = await ethers.getContractFactory(IMPLEMENTATION_CONTRACT);
+  const implCreation = Impl.bytecode;
+  const implAddr = ethers.getCreate2Address(factory, saltImpl, ethers.keccak256(implCreation));
+
+  const initData = Impl.interface.encodeFunctionData("initializeWithTimelock", [admin, cap, delay]);
+  const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+  const proxyCreation = Proxy.bytecode + Proxy.interface.encodeDeploy([implAddr, initData]).slice(2);
+  const proxyAddr = ethers.getCreate2Address(factory, saltProxy, ethers.keccak256(proxyCreation));
+
+  return { factory, saltImpl, saltProxy, implCreation, implAddr, cap, delay, initData, proxyCreation, proxyAddr };
+}
@@ -0,0 +1,415 @@
+import {
+  AbiCoder,
+  EventFragment,
+  FeeData,
+  Interface,
+  TransactionRequest,
+  dataSlice,
+  formatEther,
+  formatUnits,
+  getAddress,
+  getCreateAddress,
+  toBeHex,
+  toQuantity,
+} from "ethers";
+import { BalboaTokenV7__factory, Create2Factory__factory } from "../../typechain-types";
+import { describeError } from "./errors";
+
+/**
+ * Simulate transactions instead of sending them (`--dry-run`)
+ *
+ * Each transaction runs through `eth_call` and `eth_estimateGas` against the
+ * latest block. Events come from `debug_traceCall`: the callTracer where the
+ * node has it, else the default struct logger (Hardhat), which exposes the
+ * indexed arguments only. Nothing is signed or broadcast.
+ *
+ * Transactions are simulated independently against the latest block, except
+ * that contracts created by earlier transactions of the run are passed as
+ * state overrides, so e.g. an upgrade can call the implementation it would
+ * have deployed. Nodes that cannot estimate or trace with overrides (Hardhat)
+ * report the gas or events of such a transaction as unknown.
+ */
+
+export interface PlannedTransaction {
+  /** What the transaction does, e.g. "Grant MINTER_ROLE to 0x..." */
+  description: string;
+  from: string;
+  /** Omitted for contract creation */
+  to?: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface SimulatedTransaction {
+  description: string;
+  from: string;
+  to?: string;
+  /** Address a contract creation would deploy to */
+  address?: string;
+  /** Runtime code a contract creation would deploy */
+  code?: string;
+  gas?: bigint;
+  cost?: bigint;
+  /** Decoded events, e.g. "RoleGranted(role=0x..., account=0x..., sender=0x...)" */
+  events?: string[];
+  /** Why the transaction would revert */
+  revert?: string;
+}
+
+export interface DryRunReport {
+  network: string;
+  chainId: bigint;
+  /** Gas price the costs assume, in wei */
+  gasPrice: bigint;
+  transactions: SimulatedTransaction[];
+  gas: bigint;
+  cost: bigint;
+}
+
+/** JSON-RPC access used for simulation; ethers and Hardhat providers both fit */
+export interface SimulationProvider {
+  send(method: string, params: unknown[]): Promise<unknown>;
+  getFeeData(): Promise<FeeData>;
+  getNetwork(): Promise<{ chainId: bigint }>;
+  getTransactionCount(address: string, blockTag?: string): Promise<number>;
+}
+
+interface RawLog {
+  address?: string;
+  topics: string[];
+  /** Undefined when the trace does not expose memory */
+  data?: string;
+}
+
+/** debug_traceCall result with the callTracer and `withLog` */
+interface CallFrame {
+  error?: string;
+  calls?: CallFrame[];
+  logs?: { address: string; topics: string[]; data: string; position?: string | number }[];
+}
+
+/** One step of debug_traceCall's default tracer */
+interface StructLog {
+  op: string;
+  depth: number;
+  stack?: string[];
+}
+
+const EVENTS_INTERFACE = new Interface(
+  [...BalboaTokenV7__factory.abi, ...Create2Factory__factory.abi]
+    .filter((fragment) => fragment.type === "event")
+    .map((fragment) => EventFragment.from(fragment).format("full"))
+    .filter((signature, index, all) => all.indexOf(signature) === index)
+);
+
+const NATIVE_SYMBOLS: Record<string, string> = { "137": "POL", "80002": "POL" };
+
+/**
+ * A planned transaction from an ethers transaction request
+ */
+export function plannedTransaction(description: string, from: string, request: TransactionRequest): PlannedTransaction {
+  return {
+    description,
+    from,
+    to: request.to === undefined || request.to === null ? undefined : String(request.to),
+    data: request.data ?? "0x",
+    value: request.value === undefined || request.value === null ? undefined : BigInt(request.value),
+  };
+}
+
+/**
+ * Simulate planned transactions, print what they would do and return the report
+ *
+ * Throws after printing when any of them would revert.
+ */
+export async function dryRun(
+  provider: SimulationProvider,
+  network: string,
+  planned: PlannedTransaction[]
+): Promise<DryRunReport> {
+  const report = await simulateTransactions(provider, network, planned);
+  assertNoReverts([report]);
+  return report;
+}
+
+/**
+ * Simulate planned transactions and print what they would do
+ */
+export async function simulateTransactions(
+  provider: SimulationProvider,
+  network: string,
+  planned: PlannedTransaction[]
+): Promise<DryRunReport> {
+  const { chainId } = await provider.getNetwork();
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  const symbol = nativeSymbol(chainId);
+
+  // Nonces advance per sender as if each transaction had been sent, so
+  // creations report the address they would deploy to
+  const nonces = new Map<string, number>();
+  const created: Record<string, { code: string }> = {};
+  const transactions: SimulatedTransaction[] = [];
+  for (const transaction of planned) {
+    const nonce = nonces.get(transaction.from) ?? (await provider.getTransactionCount(transaction.from, "latest"));
+    nonces.set(transaction.from, nonce + 1);
+    const result = await simulateTransaction(
+      provider,
+      transaction,
+      gasPrice,
+      transaction.to === undefined ? nonce : undefined,
+      Object.keys(created).length > 0 ? { ...created } : undefined
+    );
+    if (result.address && result.code && !result.revert) created[result.address] = { code: result.code };
+    transactions.push(result);
+  }
+
+  const gas = transactions.reduce((sum, transaction) => sum + (transaction.gas ?? 0n), 0n);
+  const report: DryRunReport = { network, chainId, gasPrice, transactions, gas, cost: gas * gasPrice };
+
+  console.log("\n═══════════════════════════════════════════════════════════");
+  console.log(`           Dry Run on ${network} (nothing was sent)`);
+  console.log("═══════════════════════════════════════════════════════════");
+  transactions.forEach((transaction, i) => {
+    console.log(`\n${i + 1}. ${transaction.description}`);
+    console.log(`   From: ${transaction.from}`);
+    console.log(`   To:   ${transaction.to ?? `(new contract at ${transaction.address})`}`);
+    if (transaction.revert) {
+      console.log(`   ❌ Would revert: ${transaction.revert}`);
+      return;
+    }
+    console.log(
+      transaction.gas === undefined
+        ? "   ✓ Would succeed (gas not estimated: the node cannot estimate against contracts deployed in this run)"
+        : `   ✓ Would succeed · gas ${transaction.gas} · cost ${formatEther(transaction.cost!)} ${symbol}`
+    );
+    if (transaction.events === undefined) {
+      console.log("   Events: not traced (the node does not support debug_traceCall for this call)");
+    } else {
+      console.log(`   Events:${transaction.events.length === 0 ? " none" : ""}`);
+      for (const event of transaction.events) console.log(`     • ${event}`);
+    }
+  });
+  const unestimated = transactions.filter((transaction) => !transaction.revert && transaction.gas === undefined);
+  console.log(
+    `\nTotal gas: ${gas} · cost ${formatEther(report.cost)} ${symbol} at ${formatUnits(gasPrice, "gwei")} gwei` +
+      (unestimated.length > 0 ? ` (excluding ${unestimated.length} unestimated)` : "")
+  );
+  return report;
+}
+
+/**
+ * Fail when any simulated transaction would revert
+ */
+export function assertNoReverts(reports: DryRunReport[]): void {
+  const reverts = reports.flatMap((report) =>
+    report.transactions
+      .filter((transaction) => transaction.revert !== undefined)
+      .map(
+        (transaction) =>
+          `${reports.length > 1 ? `${report.network}: ` : ""}${transaction.description}: ${transaction.revert}`
+      )
+  );
+  if (reverts.length > 0) {
+    throw new Error(`Dry run: ${reverts.length} transaction(s) would revert:\n  ${reverts.join("\n  ")}`);
+  }
+}
+
+/**
+ * Simulate one transaction against the latest block
+ * @param nonce Sender nonce, for contract creations
+ * @param overrides Contracts created earlier in the run
+ */
+async function simulateTransaction(
+  provider: SimulationProvider,
+  planned: PlannedTransaction,
+  gasPrice: bigint,
+  nonce: number | undefined,
+  overrides: Record<string, { code: string }> | undefined
+): Promise<SimulatedTransaction> {
+  const request: Record<string, string> = { from: planned.from, data: planned.data };
+  if (planned.to !== undefined) request.to = planned.to;
+  if (planned.value) request.value = toQuantity(planned.value);
+
+  const result: SimulatedTransaction = { description: planned.description, from: planned.from, to: planned.to };
+  if (nonce !== undefined) result.address = getCreateAddress({ from: planned.from, nonce });
+
+  let returned: string;
+  try {
+    returned = String(
+      await provider.send("eth_call", overrides ? [request, "latest", overrides] : [request, "latest"])
+    );
+  } catch (error) {
+    result.revert = describeError(error);
+    return result;
+  }
+  if (planned.to === undefined) result.code = returned;
+
+  // Estimating without overrides only fails when the transaction depends on
+  // a contract created earlier in the run; otherwise eth_call would have failed
+  let dependsOnCreated = false;
+  try {
+    result.gas = BigInt(String(await provider.send("eth_estimateGas", [request])));
+  } catch (error) {
+    if (!overrides) {
+      result.revert = describeError(error);
+      return result;
+    }
+    dependsOnCreated = true;
+    try {
+      result.gas = BigInt(String(await provider.send("eth_estimateGas", [request, "latest", overrides])));
+    } catch {
+      // Gas stays unknown
+    }
+  }
+  if (result.gas !== undefined) result.cost = result.gas * gasPrice;
+
+  const logs = await traceLogs(
+    provider,
+    request,
+    dependsOnCreated ? overrides : undefined,
+    result.to ?? result.address
+  );
+  result.events = logs?.map(formatEvent);
+  return result;
+}
+
+/**
+ * Logs a call would emit, or undefined when the node cannot trace it
+ */
+async function traceLogs(
+  provider: SimulationProvider,
+  request: Record<string, string>,
+  overrides: Record<string, { code: string }> | undefined,
+  address: string | undefined
+): Promise<RawLog[] | undefined> {
+  try {
+    const frame = await provider.send("debug_traceCall", [
+      request,
+      "latest",
+      { tracer: "callTracer", tracerConfig: { withLog: true }, ...(overrides && { stateOverrides: overrides }) },
+    ]);
+    return callFrameLogs(frame as CallFrame);
+  } catch {
+    // Fall through to the default tracer
+  }
+  // The default tracer cannot be trusted to apply overrides (Hardhat ignores them)
+  if (overrides) return undefined;
+  try {
+    const trace = (await provider.send("debug_traceCall", [
+      request,
+      "latest",
+      { disableMemory: true, disableStorage: true },
+    ])) as { structLogs?: StructLog[] };
+    return structLogLogs(trace.structLogs ?? [], address);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Logs of a callTracer frame and its successful subcalls, in emission order
+ */
+function callFrameLogs(frame: CallFrame): RawLog[] {
+  if (frame.error) return [];
+  const calls = frame.calls ?? [];
+  const logs: RawLog[] = [];
+  let next = 0;
+  for (const log of frame.logs ?? []) {
+    const position = log.position === undefined ? calls.length : Number(log.position);
+    while (next < Math.min(position, calls.length)) logs.push(...callFrameLogs(calls[next++]));
+    logs.push({ address: getAddress(log.address), topics: log.topics, data: log.data });
+  }
+  while (next < calls.length) logs.push(...callFrameLogs(calls[next++]));
+  return logs;
+}
+
+/**
+ * Logs from default-tracer steps
+ *
+ * LOG topics are on the stack; the data is in memory, which is not traced.
+ * The emitting address follows the call frames: CALL and STATICCALL enter the
+ * callee, DELEGATECALL and CALLCODE keep the caller, and CREATE/CREATE2 learn
+ * their address when they return. Logs of failed frames are dropped.
+ */
+function structLogLogs(steps: StructLog[], address: string | undefined): RawLog[] {
+  interface Frame {
+    address?: string;
+    create: boolean;
+    logs: RawLog[];
+  }
+  const word = (stack: string[], fromTop: number): string => {
+    const item = stack[stack.length - 1 - fromTop];
+    return toBeHex(BigInt(item.startsWith("0x") ? item : `0x${item}`), 32);
+  };
+
+  const frames: Frame[] = [{ address, create: false, logs: [] }];
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const next = steps[i + 1];
+    const frame = frames[frames.length - 1];
+    const stack = step.stack ?? [];
+
+    if (/^LOG[0-4]$/.test(step.op)) {
+      const count = Number(step.op.slice(3));
+      const topics = Array.from({ length: count }, (_, k) => word(stack, 2 + k));
+      frame.logs.push({ address: frame.address, topics });
+    }
+    if (!next) break;
+
+    if (next.depth > step.depth) {
+      const callee =
+        step.op === "CALL" || step.op === "STATICCALL" ? getAddress(dataSlice(word(stack, 1), 12)) : undefined;
+      const inherits = step.op === "DELEGATECALL" || step.op === "CALLCODE";
+      frames.push({ address: inherits ? frame.address : callee, create: step.op.startsWith("CREATE"), logs: [] });
+    } else if (next.depth < step.depth) {
+      // The parent's next step has the call's result on top of its stack
+      const child = frames.pop()!;
+      const parent = frames[frames.length - 1];
+      const result = word(next.stack ?? [], 0);
+      if (BigInt(result) === 0n) continue;
+      if (child.create) {
+        const created = getAddress(dataSlice(result, 12));
+        for (const log of child.logs) log.address ??= created;
+      }
+      parent.logs.push(...child.logs);
+    }
+  }
+  return frames[0].logs;
+}
+
+/**
+ * "Name(arg=value, ...)" for known events; arguments only in memory show as "?"
+ */
+function formatEvent(log: RawLog): string {
+  const fragment = log.topics.length > 0 ? eventFragment(log.topics[0]) : undefined;
+  if (!fragment) return `${log.topics[0] ?? "anonymous event"} at ${log.address ?? "(new contract)"}`;
+
+  let values: unknown[];
+  if (log.data !== undefined) {
+    values = EVENTS_INTERFACE.decodeEventLog(fragment, log.data, log.topics).toArray();
+  } else {
+    let topic = 1;
+    values = fragment.inputs.map((input) => {
+      if (!input.indexed) return "?";
+      const value = log.topics[topic++];
+      return input.isArray() || input.isTuple() || input.type === "string" || input.type === "bytes"
+        ? value
+        : AbiCoder.defaultAbiCoder().decode([input.type], value)[0];
+    });
+  }
+  const args = fragment.inputs.map((input, i) => `${input.name}=${String(values[i])}`);
+  return `${fragment.name}(${args.join(", ")})`;
+}
+
+function eventFragment(topic: string): EventFragment | undefined {
+  try {
+    return EVENTS_INTERFACE.getEvent(topic) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function nativeSymbol(chainId: bigint): string {
+  return NATIVE_SYMBOLS[chainId.toString()] ?? "ETH";
+}
@@ -0,0 +1,247 @@
+import { formatEther } from "ethers";
+import { BalboaError, decodeBalboaError } from "../../sdk/errors";
+import { roleByHash } from "./roles";
+
+/**
+ * Explanations for reverts of BalboaToken and the Create2Factory
+ *
+ * Decoding is shared with the SDK (sdk/errors.ts); this adds what someone
+ * running a balboa:* task needs: what the revert means and how to get past
+ * it. Every task goes through `explainErrors` (tasks/errors.ts), so scripts
+ * only handle the reverts they can recover from.
+ */
+
+export interface ErrorExplanation {
+  /** The decoded revert */
+  error: BalboaError;
+  /** What went wrong, in one line */
+  summary: string;
+  /** Steps that usually resolve it */
+  remedies: string[];
+}
+
+type Explainer = (args: readonly unknown[]) => Omit<ErrorExplanation, "error">;
+
+const EXPLAINERS: Record<string, Explainer> = {
+  // Access control
+  AccessControlUnauthorizedAccount: ([account, roleHash]) => {
+    const role = roleByHash(String(roleHash));
+    const constant = role?.constant ?? `role ${roleHash}`;
+    return {
+      summary: `${account} does not hold ${constant}`,
+      remedies: [
+        role
+          ? `Have an admin run balboa:roles:grant --role ${role.name} --account ${account}`
+          : `Have an admin grant ${roleHash} to ${account}`,
+        "Run balboa:roles:check to see who holds the role",
+        "Make sure --token / --proxy is the PROXY address (not the implementation)",
+      ],
+    };
+  },
+  AccessControlBadConfirmation: () => ({
+    summary: "Accounts can only renounce their own roles",
+    remedies: ["Pass the calling account to renounceRole, or have an admin use balboa:roles:revoke"],
+  }),
+  OwnableUnauthorizedAccount: ([account]) => ({
+    summary: `${account} does not own the Create2Factory`,
+    remedies: ["Run the task from the factory owner's account"],
+  }),
+  UnauthorizedDeployer: ([account]) => ({
+    summary: `${account} is not allowed to deploy through the Create2Factory`,
+    remedies: [
+      `Have the factory owner run balboa:factory:authorize --account ${account}`,
+      "Or deploy from the factory owner's account",
+    ],
+  }),
+
+  // Token state
+  EnforcedPause: () => ({
+    summary: "The token is paused",
+    remedies: ["A PAUSER_ROLE holder must call unpause() first", "Run balboa:roles:check to find one"],
+  }),
+  ExpectedPause: () => ({
+    summary: "The token is not paused",
+    remedies: ["Only call unpause() while the token is paused"],
+  }),
+  AccountBlacklisted: ([account]) => ({
+    summary: `${account} is blacklisted`,
+    remedies: [`A BLACKLISTER_ROLE holder can lift it with unBlacklist(${account})`],
+  }),
+  BatchLengthMismatch: ([accounts, reasons]) => ({
+    summary: `${reasons} reasons were given for ${accounts} accounts`,
+    remedies: ["Pass one reason per account, or none at all"],
+  }),
+  AccountNotBlacklisted: ([account]) => ({
+    summary: `${account} is not blacklisted; only blacklisted balances can be seized`,
+    remedies: [`A BLACKLISTER_ROLE holder must blacklist ${account} first`],
+  }),
+  RecoveryAddressNotSet: () => ({
+    summary: "No recovery address is set for seized balances",
+    remedies: ["Have an admin run balboa:seize:recovery --recovery 0x..."],
+  }),
+  ZeroAddress: () => ({
+    summary: "The zero address is not allowed here",
+    remedies: ["Check the address arguments and environment variables (TOKEN_ADMIN, FACTORY_OWNER, ...)"],
+  }),
+  ZeroAmount: () => ({
+    summary: "Amount must be greater than zero",
+    remedies: ["Pass a non-zero amount"],
+  }),
+  ERC20InsufficientBalance: ([sender, balance, needed]) => ({
+    summary: `${sender} holds ${tokens(balance)} tokens but ${tokens(needed)} are needed`,
+    remedies: ["Lower the amount, or fund the account first"],
+  }),
+  ERC20InsufficientAllowance: ([spender, allowance, needed]) => ({
+    summary: `${spender} may spend ${tokens(allowance)} tokens but ${tokens(needed)} are needed`,
+    remedies: ["Have the owner approve a larger allowance"],
+  }),
+  CapExceeded: ([cap, supply]) => ({
+    summary: `Minting would bring the supply to ${tokens(supply)}, above the cap of ${tokens(cap)}`,
+    remedies: ["Mint less; the cap can only be lowered"],
+  }),
+  CapBelowSupply: ([cap, supply]) => ({
+    summary: `A cap of ${tokens(cap)} is below the current supply of ${tokens(supply)}`,
+    remedies: ["Burn tokens first, or choose a cap of at least the current supply"],
+  }),
+  InvalidCap: ([cap]) => ({
+    summary: `Cap ${cap} is not lower than the current cap`,
+    remedies: ["The cap can only be lowered, and never to 0 (unlimited)"],
+  }),
+
+  // Upgrades
+  InvalidInitialization: () => ({
+    summary: "The initializer already ran on this proxy",
+    remedies: [
+      "Upgrade without --call, or call the reinitializer of a newer version (e.g. initializeV3)",
+      "Check which version the proxy runs with balboa:verify or the deployment record",
+    ],
+  }),
+  NotInitializing: () => ({
+    summary: "An initializer step ran outside of initialization",
+    remedies: ["Call the version's public initializer instead"],
+  }),
+  ERC1967InvalidImplementation: ([implementation]) => ({
+    summary: `${implementation} is not a contract`,
+    remedies: ["Deploy the implementation first and check the address"],
+  }),
+  UUPSUnsupportedProxiableUUID: () => ({
+    summary: "The new implementation is not UUPS-compatible",
+    remedies: ["Upgrade to a BalboaToken version (they all inherit UUPSUpgradeable)"],
+  }),
+  UUPSUnauthorizedCallContext: () => ({
+    summary: "The call went to the implementation instead of the proxy",
+    remedies: ["Use the PROXY address (not the implementation)"],
+  }),
+  UpgradeNotScheduled: ([id]) => ({
+    summary: `Upgrade ${id} is not scheduled; this proxy only upgrades through its timelock`,
+    remedies: [
+      "Schedule it with balboa:timelock:schedule, then run balboa:timelock:execute once the delay has passed",
+      "The implementation and --call/--args must match the scheduled ones exactly",
+    ],
+  }),
+  UpgradeNotReady: ([id, readyAt]) => ({
+    summary: `Upgrade ${id} is not ready until ${new Date(Number(readyAt) * 1000).toISOString()}`,
+    remedies: ["Run balboa:timelock:execute again after that time"],
+  }),
+  UpgradeAlreadyScheduled: ([id]) => ({
+    summary: `Upgrade ${id} is already scheduled`,
+    remedies: [`Execute it with balboa:timelock:execute, or cancel it with balboa:timelock:cancel --id ${id}`],
+  }),
+  InvalidUpgradeDelay: ([delay]) => ({
+    summary: `Upgrade delay ${delay}s is zero or above the maximum`,
+    remedies: ["Pick a delay of at least 1 second and at most 30 days"],
+  }),
+  UpgradeDelayNotSet: () => ({
+    summary: "The upgrade timelock has no delay yet; BalboaTokenV5+ only initializes with one",
+    remedies: [
+      "On a fresh proxy, initialize with initializeWithTimelock (balboa:deploy does)",
+      "After upgrading from V4 or earlier, have an admin call initializeV5 or initializeV7 with a delay",
+    ],
+  }),
+
+  // Create2Factory
+  ContractAlreadyDeployed: ([address]) => ({
+    summary: `A contract is already deployed at ${address}`,
+    remedies: [
+      "Run balboa:proxy:find to see whether this is your earlier deployment",
+      "Use the existing contract, or deploy with a different admin, cap or salt",
+    ],
+  }),
+  EmptyBytecode: () => ({
+    summary: "No bytecode to deploy",
+    remedies: ["Run npx hardhat compile and check the contract name"],
+  }),
+  EmptyCallData: () => ({
+    summary: "deployAndCall needs calldata",
+    remedies: ["Use deploy() when nothing should run after deployment"],
+  }),
+  LengthMismatch: ([salts, bytecodes]) => ({
+    summary: `${salts} salts for ${bytecodes} bytecodes`,
+    remedies: ["Pass one salt per bytecode"],
+  }),
+  CreateFailed: () => ({
+    summary: "CREATE2 failed; the constructor reverted or ran out of gas",
+    remedies: ["Check the constructor arguments and raise the gas limit"],
+  }),
+  CallFailed: ([address, reason]) => {
+    const inner = explainRevertData(String(reason));
+    return {
+      summary: inner
+        ? `Call to ${address} after deployment failed: ${inner.summary} (${inner.error.errorName})`
+        : `Call to ${address} after deployment failed`,
+      remedies: inner?.remedies ?? ["Check the initializer and its arguments"],
+    };
+  },
+};
+
+/**
+ * Explain the custom error behind a failed call or transaction
+ * @returns The explanation, or undefined when the error is not a decodable revert
+ */
+export function explainError(error: unknown): ErrorExplanation | undefined {
+  const decoded = decodeBalboaError(error);
+  if (!decoded) return undefined;
+
+  const explainer = EXPLAINERS[decoded.errorName];
+  const explanation = explainer
+    ? explainer(decoded.args)
+    : { summary: `Reverted with ${decoded.message}`, remedies: [] };
+  return { error: decoded, ...explanation };
+}
+
+/**
+ * Multi-line text for an explanation, in the tasks' console style
+ */
+export function formatExplanation(explanation: ErrorExplanation): string {
+  const lines = [`${explanation.summary} (${explanation.error.message})`];
+  if (explanation.remedies.length > 0) {
+    lines.push("", "💡 Possible Solutions:", ...explanation.remedies.map((remedy, i) => `${i + 1}. ${remedy}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * One line describing any error: the explanation of a decodable revert,
+ * else the error's own message
+ */
+export function describeError(error: unknown): string {
+  const explanation = explainError(error);
+  if (explanation) return `${explanation.summary} (${explanation.error.errorName})`;
+  if (typeof error === "object" && error !== null) {
+    if ("shortMessage" in error && typeof error.shortMessage === "string") return error.shortMessage;
+    if ("message" in error && typeof error.message === "string") return error.message;
+  }
+  return String(error);
+}
+
+/**
+ * A decoded uint256 amount in tokens
+ */
+function tokens(value: unknown): string {
+  return typeof value === "bigint" ? formatEther(value) : String(value);
+}
+
+function explainRevertData(data: string): ErrorExplanation | undefined {
+  if (data === "0x") return undefined;
+  return explainError({ data });
+}
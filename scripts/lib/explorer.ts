@@ -0,0 +1,27 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Block explorer links
+ *
+ * Verification goes through hardhat-verify (see scripts/utility/verify.ts);
+ * this only maps chains to explorer websites for reports.
+ */
+
+const BROWSER_URLS: { [chainId: string]: string } = {
+  "1": "https://etherscan.io",
+  "11155111": "https://sepolia.etherscan.io",
+  "137": "https://polygonscan.com",
+  "42161": "https://arbiscan.io",
+  "10": "https://optimistic.etherscan.io",
+  "8453": "https://basescan.org",
+};
+
+/**
+ * Block explorer website for a chain, or undefined when none is known (e.g. local networks)
+ *
+ * `etherscan.customChains` in hardhat.config.ts takes precedence.
+ */
+export function browserUrl(hre: HardhatRuntimeEnvironment, chainId: string): string | undefined {
+  const custom = hre.config.etherscan.customChains.find((chain) => chain.chainId.toString() === chainId);
+  return custom?.urls.browserURL ?? BROWSER_URLS[chainId];
+}
@@ -0,0 +1,95 @@
+import { Contract, getAddress } from "ethers";
+import { ACCESS_CONTROL_ENUMERABLE_ID } from "../../sdk/client";
+import type { BalboaToken } from "../../typechain-types";
+import { EventIndex, isIndexed, queryEvents } from "./indexer";
+
+const ENUMERABLE_ABI = ["function getRoleMembers(bytes32 role) view returns (address[])"];
+
+/**
+ * Whether the implementation behind `token` enumerates role members (BalboaTokenV3+)
+ * @param blockTag Block to ask at (default: latest)
+ */
+export async function supportsRoleEnumeration(token: BalboaToken, blockTag?: number): Promise<boolean> {
+  try {
+    return await token.supportsInterface(ACCESS_CONTROL_ENUMERABLE_ID, { blockTag });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Current holders of a role
+ *
+ * Implementations with role enumeration are queried directly. Older ones do
+ * not enumerate members on-chain, so candidates are collected from the
+ * indexed RoleGranted events and filtered through `hasRole`.
+ * @param extraCandidates Addresses checked even if no event was found for them
+ * @param index Synced event index of the token; without one, only `extraCandidates`
+ * are checked on implementations without role enumeration
+ * @param blockTag Block whose holders are returned (default: latest)
+ */
+export async function findRoleHolders(
+  token: BalboaToken,
+  role: string,
+  fromBlock = 0,
+  extraCandidates: string[] = [],
+  index?: EventIndex,
+  blockTag?: number
+): Promise<string[]> {
+  const candidates = new Set(extraCandidates.map((account) => getAddress(account)));
+
+  if (await supportsRoleEnumeration(token, blockTag)) {
+    const enumerable = new Contract(await token.getAddress(), ENUMERABLE_ABI, token.runner);
+    const members: string[] = await enumerable.getRoleMembers(role, { blockTag });
+    for (const member of members) {
+      candidates.add(getAddress(member));
+    }
+  } else if (index && isIndexed(index, await token.getAddress())) {
+    const filter = { address: await token.getAddress(), event: "RoleGranted", args: { role } };
+    for (const event of queryEvents(index, filter)) {
+      if (inRange(event.blockNumber, fromBlock, blockTag)) candidates.add(event.args.account);
+    }
+  }
+
+  const holders: string[] = [];
+  for (const candidate of candidates) {
+    if (await token.hasRole(role, candidate, { blockTag })) {
+      holders.push(candidate);
+    }
+  }
+  return holders;
+}
+
+/**
+ * Currently blacklisted accounts, sorted
+ *
+ * Candidates are collected from the indexed Blacklisted events and filtered
+ * through `isBlacklisted`.
+ * @param extraCandidates Addresses checked even if no event was found for them
+ * @param index Synced event index of the token; without one, only `extraCandidates` are checked
+ * @param blockTag Block whose blacklist is returned (default: latest)
+ */
+export async function findBlacklisted(
+  token: BalboaToken,
+  fromBlock = 0,
+  extraCandidates: string[] = [],
+  index?: EventIndex,
+  blockTag?: number
+): Promise<string[]> {
+  const candidates = new Set(extraCandidates.map((account) => getAddress(account)));
+  if (index && isIndexed(index, await token.getAddress())) {
+    for (const event of queryEvents(index, { address: await token.getAddress(), event: "Blacklisted" })) {
+      if (inRange(event.blockNumber, fromBlock, blockTag)) candidates.add(event.args.account);
+    }
+  }
+
+  const blacklisted: string[] = [];
+  for (const account of [...candidates].sort()) {
+    if (await token.isBlacklisted(account, { blockTag })) blacklisted.push(account);
+  }
+  return blacklisted;
+}
+
+function inRange(blockNumber: number, fromBlock: number, toBlock?: number): boolean {
+  return blockNumber >= fromBlock && (toBlock === undefined || blockNumber <= toBlock);
+}
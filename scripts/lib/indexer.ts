@@ -0,0 +1,288 @@
+import * as fs from "fs";
+import * as path from "path";
+import { EventFragment, Interface, Log, getAddress } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BalboaTokenV7__factory, Create2Factory__factory } from "../../typechain-types";
+import {
+  expectAddress,
+  expectArray,
+  expectInteger,
+  expectObject,
+  expectString,
+  expectStringRecord,
+  isObject,
+  readJsonFile,
+} from "./json";
+import { deploymentRecordPath, loadDeploymentRecord } from "./records";
+
+/**
+ * Local index of token and factory events
+ *
+ * RPC providers cap `eth_getLogs` by block range or result size, so a single
+ * query from block 0 fails on most real chains. The indexer pulls events in
+ * bounded ranges (halving a range the provider rejects) and stores them in
+ * deployments/index/<network>.json with a checkpoint per contract, so later
+ * runs only fetch the blocks since. A checkpoint whose block hash changed
+ * (a reorg, or a reverted local chain) re-indexes that contract.
+ *
+ * The index is a cache: deleting it only costs a full re-sync.
+ */
+
+export const INDEX_VERSION = 4;
+
+/** Blocks per eth_getLogs request, before any halving */
+export const DEFAULT_BLOCK_RANGE = 2000;
+
+/** Events kept for each kind of contract */
+export const INDEXED_EVENTS = {
+  token: [
+    "RoleGranted",
+    "RoleRevoked",
+    "Blacklisted",
+    "UnBlacklisted",
+    "BlacklistUpdated",
+    "BalanceSeized",
+    "TokensMinted",
+    "TokensBurned",
+    "Transfer",
+    "Paused",
+    "Unpaused",
+    "UpgradeScheduled",
+    "Upgraded",
+  ],
+  factory: ["Deployed"],
+} as const;
+
+export type IndexedContractKind = keyof typeof INDEXED_EVENTS;
+
+export interface IndexedEvent {
+  address: string;
+  event: string;
+  /** Arguments by name; numbers as decimal strings, addresses checksummed */
+  args: Record<string, string>;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+export interface IndexedContract {
+  kind: IndexedContractKind;
+  /** First block indexed */
+  fromBlock: number;
+  /** Last block indexed and its hash */
+  checkpoint?: { blockNumber: number; blockHash: string };
+}
+
+export interface EventIndex {
+  version: number;
+  network: string;
+  chainId: string;
+  /** Indexed contracts by address */
+  contracts: Record<string, IndexedContract>;
+  /** Events of every indexed contract, in chain order */
+  events: IndexedEvent[];
+}
+
+export interface IndexSource {
+  address: string;
+  kind: IndexedContractKind;
+  /** First block to index (usually the deployment block); defaults to 0 */
+  fromBlock?: number;
+}
+
+export interface EventFilter {
+  address?: string;
+  event?: string;
+  /** Arguments that must match exactly (addresses in any case) */
+  args?: Record<string, string>;
+}
+
+/** JSON-RPC access used for indexing; ethers and Hardhat providers both fit */
+export interface IndexProvider {
+  getNetwork(): Promise<{ chainId: bigint }>;
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<{ hash: string | null } | null>;
+  getLogs(filter: { address: string; topics: string[][]; fromBlock: number; toBlock: number }): Promise<Log[]>;
+}
+
+const EVENTS_INTERFACE = new Interface(
+  [...BalboaTokenV7__factory.abi, ...Create2Factory__factory.abi]
+    .filter((fragment) => fragment.type === "event")
+    .map((fragment) => EventFragment.from(fragment).format("full"))
+    .filter((signature, index, all) => all.indexOf(signature) === index)
+);
+
+export function eventIndexPath(network: string): string {
+  return path.join(path.dirname(deploymentRecordPath(network)), "index", `${network}.json`);
+}
+
+export function loadEventIndex(network: string): EventIndex | undefined {
+  const file = eventIndexPath(network);
+  if (!fs.existsSync(file)) return undefined;
+
+  const raw = readJsonFile(file);
+  // An index from an older release is rebuilt rather than read
+  return isObject(raw) && raw.version !== INDEX_VERSION ? undefined : parseEventIndex(raw, file);
+}
+
+function parseEventIndex(raw: unknown, source: string): EventIndex {
+  if (!isObject(raw)) {
+    throw new Error(`${source}: expected an event index object`);
+  }
+  expectString(raw.network, "network", source);
+  expectString(raw.chainId, "chainId", source);
+  for (const [address, entry] of Object.entries(expectObject(raw.contracts, "contracts", source))) {
+    const name = `contracts.${address}`;
+    const contract = expectObject(entry, name, source);
+    if (typeof contract.kind !== "string" || !(contract.kind in INDEXED_EVENTS)) {
+      throw new Error(`${source}: "${name}.kind" must be one of ${Object.keys(INDEXED_EVENTS).join(", ")}`);
+    }
+    expectInteger(contract.fromBlock, `${name}.fromBlock`, source);
+    if (contract.checkpoint !== undefined) {
+      const checkpoint = expectObject(contract.checkpoint, `${name}.checkpoint`, source);
+      expectInteger(checkpoint.blockNumber, `${name}.checkpoint.blockNumber`, source);
+      expectString(checkpoint.blockHash, `${name}.checkpoint.blockHash`, source);
+    }
+  }
+  expectArray(raw.events, "events", source).forEach((entry, i) => {
+    const event = expectObject(entry, `events[${i}]`, source);
+    expectAddress(event.address, `events[${i}].address`, source);
+    expectString(event.event, `events[${i}].event`, source);
+    expectStringRecord(event.args, `events[${i}].args`, source);
+    expectInteger(event.blockNumber, `events[${i}].blockNumber`, source);
+    expectInteger(event.logIndex, `events[${i}].logIndex`, source);
+    expectString(event.txHash, `events[${i}].txHash`, source);
+  });
+  return raw as unknown as EventIndex;
+}
+
+/**
+ * Bring the index up to the latest block for every source
+ *
+ * The index is written after each range, so an interrupted sync resumes from
+ * the last checkpoint.
+ * @param blockRange Blocks per request, halved down to 1 while the provider rejects it
+ */
+export async function syncEventIndex(
+  provider: IndexProvider,
+  network: string,
+  sources: IndexSource[],
+  blockRange = DEFAULT_BLOCK_RANGE
+): Promise<EventIndex> {
+  const chainId = (await provider.getNetwork()).chainId.toString();
+  const stored = loadEventIndex(network);
+  const index: EventIndex =
+    stored?.chainId === chainId ? stored : { version: INDEX_VERSION, network, chainId, contracts: {}, events: [] };
+
+  const head = await provider.getBlockNumber();
+  for (const source of sources) {
+    const address = getAddress(source.address);
+    const fromBlock = source.fromBlock ?? 0;
+    let contract: IndexedContract | undefined = index.contracts[address];
+    if (
+      contract &&
+      (contract.kind !== source.kind || fromBlock < contract.fromBlock || !(await isCanonical(provider, contract)))
+    ) {
+      index.events = index.events.filter((event) => event.address !== address);
+      contract = undefined;
+    }
+    contract ??= { kind: source.kind, fromBlock };
+    index.contracts[address] = contract;
+
+    const topics = [INDEXED_EVENTS[source.kind].map((name) => EVENTS_INTERFACE.getEvent(name)!.topicHash)];
+    let start = contract.checkpoint ? contract.checkpoint.blockNumber + 1 : contract.fromBlock;
+    let range = blockRange;
+    while (start <= head) {
+      const end = Math.min(start + range - 1, head);
+      let logs: Log[];
+      try {
+        logs = await provider.getLogs({ address, topics, fromBlock: start, toBlock: end });
+      } catch (error) {
+        if (range === 1) throw error;
+        range = Math.max(1, Math.floor(range / 2));
+        continue;
+      }
+
+      index.events.push(...logs.map(decodeLog));
+      const block = await provider.getBlock(end);
+      contract.checkpoint = { blockNumber: end, blockHash: block!.hash! };
+      saveEventIndex(index);
+      start = end + 1;
+    }
+  }
+
+  index.events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  saveEventIndex(index);
+  return index;
+}
+
+/**
+ * Sync the index for a token on the selected network, with the recorded factory
+ *
+ * Indexing starts at the proxy's recorded deployment block when the record
+ * tracks this token.
+ */
+export async function syncTokenIndex(
+  hre: HardhatRuntimeEnvironment,
+  token: string,
+  blockRange?: number
+): Promise<EventIndex> {
+  const record = loadDeploymentRecord(hre.network.name);
+  const sources: IndexSource[] = [{ address: token, kind: "token", fromBlock: 0 }];
+  if (record?.proxy?.address === getAddress(token)) {
+    sources[0].fromBlock = record.proxy.blockNumber ?? 0;
+    if (record.factory) {
+      sources.push({ address: record.factory.address, kind: "factory", fromBlock: record.factory.blockNumber ?? 0 });
+    }
+  }
+  return syncEventIndex(hre.ethers.provider, hre.network.name, sources, blockRange);
+}
+
+/**
+ * Indexed events matching a filter, in chain order
+ */
+export function queryEvents(index: EventIndex, filter: EventFilter = {}): IndexedEvent[] {
+  const address = filter.address && getAddress(filter.address);
+  const args = Object.entries(filter.args ?? {}).map(([name, value]) => [name, value.toLowerCase()]);
+  return index.events.filter(
+    (event) =>
+      (!address || event.address === address) &&
+      (!filter.event || event.event === filter.event) &&
+      args.every(([name, value]) => event.args[name]?.toLowerCase() === value)
+  );
+}
+
+/**
+ * Whether the index covers a contract (it has been synced at least once)
+ */
+export function isIndexed(index: EventIndex, address: string): boolean {
+  return index.contracts[getAddress(address)]?.checkpoint !== undefined;
+}
+
+function saveEventIndex(index: EventIndex): void {
+  const file = eventIndexPath(index.network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(index, null, 2) + "\n");
+}
+
+async function isCanonical(provider: IndexProvider, contract: IndexedContract): Promise<boolean> {
+  if (!contract.checkpoint) return true;
+  const block = await provider.getBlock(contract.checkpoint.blockNumber);
+  return block?.hash === contract.checkpoint.blockHash;
+}
+
+function decodeLog(log: Log): IndexedEvent {
+  const parsed = EVENTS_INTERFACE.parseLog(log)!;
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = String(parsed.args[i]);
+  });
+  return {
+    address: getAddress(log.address),
+    event: parsed.name,
+    args,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+  };
+}
@@ -0,0 +1,195 @@
+import { ZeroAddress, getAddress } from "ethers";
+import type { BalboaToken } from "../../typechain-types";
+import { findBlacklisted, findRoleHolders } from "./holders";
+import { EventIndex, queryEvents } from "./indexer";
+import { expectAddress, expectArray, expectBoolean, expectObject, expectString, expectStringRecord } from "./json";
+import { allRoles } from "./roles";
+
+/**
+ * Upgrade invariants: token state an upgrade must leave untouched
+ *
+ * Capture a snapshot before the upgrade and verify it afterwards. Accounts
+ * are discovered from the event index (Transfer for balances, RoleGranted for
+ * roles on implementations without role enumeration, Blacklisted for the
+ * blacklist); the verification re-reads exactly the accounts found before, so
+ * an implementation that loses track of them cannot hide the change.
+ */
+
+/** ERC1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1) */
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/** Most recently active accounts whose balances are sampled */
+export const DEFAULT_BALANCE_SAMPLE = 50;
+
+export interface InvariantSnapshot {
+  implementation: string;
+  totalSupply: string;
+  paused: boolean;
+  /** Sampled balances by account */
+  balances: Record<string, string>;
+  /** Holders of each role, by role constant */
+  roles: Record<string, string[]>;
+  blacklisted: string[];
+}
+
+export interface InvariantOptions {
+  /** First block to scan for events (usually the proxy deployment block) */
+  fromBlock?: number;
+  /** Number of recently active accounts whose balances are sampled */
+  sampleSize?: number;
+  /** Accounts always included in the balance sample */
+  accounts?: string[];
+  /**
+   * Synced event index of the token (see syncTokenIndex); without one, only
+   * `accounts` and the accounts of the previous snapshot are read
+   */
+  index?: EventIndex;
+  /** Block whose state is read (default: latest); later events are ignored */
+  blockTag?: number;
+}
+
+/**
+ * Snapshot the invariant state of a token
+ * @param previous Earlier snapshot whose accounts are re-read instead of sampling new ones
+ */
+export async function captureInvariants(
+  token: BalboaToken,
+  options: InvariantOptions = {},
+  previous?: InvariantSnapshot
+): Promise<InvariantSnapshot> {
+  const fromBlock = options.fromBlock ?? 0;
+  const { blockTag } = options;
+  const sampleSize = previous ? 0 : (options.sampleSize ?? DEFAULT_BALANCE_SAMPLE);
+
+  const sampled = new Set([...(options.accounts ?? []), ...Object.keys(previous?.balances ?? {})].map(getAddress));
+  const transfers = options.index
+    ? queryEvents(options.index, { address: await token.getAddress(), event: "Transfer" }).filter(
+        (event) => blockTag === undefined || event.blockNumber <= blockTag
+      )
+    : [];
+  const recent = new Set<string>();
+  for (let i = transfers.length - 1; i >= 0 && recent.size < sampleSize; --i) {
+    if (transfers[i].blockNumber < fromBlock) break;
+    for (const account of [transfers[i].args.from, transfers[i].args.to]) {
+      if (account !== ZeroAddress && recent.size < sampleSize) recent.add(account);
+    }
+  }
+  const balances: Record<string, string> = {};
+  for (const account of [...sampled, ...recent].sort()) {
+    balances[account] = (await token.balanceOf(account, { blockTag })).toString();
+  }
+
+  const roles: Record<string, string[]> = {};
+  for (const role of allRoles()) {
+    const known = previous?.roles[role.constant] ?? [];
+    roles[role.constant] = (await findRoleHolders(token, role.hash, fromBlock, known, options.index, blockTag)).sort();
+  }
+
+  const blacklisted = await findBlacklisted(token, fromBlock, previous?.blacklisted, options.index, blockTag);
+
+  return {
+    implementation: await readImplementation(token, blockTag),
+    totalSupply: (await token.totalSupply({ blockTag })).toString(),
+    paused: await token.paused({ blockTag }),
+    balances,
+    roles,
+    blacklisted,
+  };
+}
+
+/**
+ * Differences between two snapshots, one line each
+ * @param expectedImplementation Implementation the proxy should point to now;
+ * when omitted, the implementation must not have changed
+ */
+export function diffInvariants(
+  before: InvariantSnapshot,
+  after: InvariantSnapshot,
+  expectedImplementation = before.implementation
+): string[] {
+  const diff: string[] = [];
+
+  if (getAddress(after.implementation) !== getAddress(expectedImplementation)) {
+    diff.push(`implementation: ${after.implementation} (expected ${expectedImplementation})`);
+  }
+  if (after.totalSupply !== before.totalSupply) {
+    diff.push(`totalSupply: ${before.totalSupply} -> ${after.totalSupply}`);
+  }
+  if (after.paused !== before.paused) {
+    diff.push(`paused: ${before.paused} -> ${after.paused}`);
+  }
+  for (const [account, balance] of Object.entries(before.balances)) {
+    if (after.balances[account] !== balance) {
+      diff.push(`balance of ${account}: ${balance} -> ${after.balances[account] ?? "(not read)"}`);
+    }
+  }
+  for (const [role, holders] of Object.entries(before.roles)) {
+    const current = after.roles[role] ?? [];
+    for (const holder of holders.filter((account) => !current.includes(account))) {
+      diff.push(`${role}: ${holder} lost the role`);
+    }
+    for (const holder of current.filter((account) => !holders.includes(account))) {
+      diff.push(`${role}: ${holder} gained the role`);
+    }
+  }
+  for (const account of before.blacklisted.filter((entry) => !after.blacklisted.includes(entry))) {
+    diff.push(`blacklist: ${account} removed`);
+  }
+  for (const account of after.blacklisted.filter((entry) => !before.blacklisted.includes(entry))) {
+    diff.push(`blacklist: ${account} added`);
+  }
+  return diff;
+}
+
+/**
+ * Re-read the accounts in `before` and fail with the differences, if any
+ * @param expectedImplementation Implementation the proxy should point to now
+ * @returns The new snapshot
+ */
+export async function verifyInvariants(
+  token: BalboaToken,
+  before: InvariantSnapshot,
+  expectedImplementation?: string,
+  options: InvariantOptions = {}
+): Promise<InvariantSnapshot> {
+  const after = await captureInvariants(token, options, before);
+
+  const diff = diffInvariants(before, after, expectedImplementation);
+  if (diff.length > 0) {
+    throw new Error(`Upgrade invariants violated:\n  ${diff.join("\n  ")}`);
+  }
+  return after;
+}
+
+/**
+ * Address in the proxy's ERC1967 implementation slot
+ * @param blockTag Block to read it at (default: latest)
+ */
+export async function readImplementation(token: BalboaToken, blockTag?: number): Promise<string> {
+  const provider = token.runner?.provider;
+  if (!provider) throw new Error("Token is not connected to a provider");
+
+  const slot = await provider.getStorage(await token.getAddress(), IMPLEMENTATION_SLOT, blockTag);
+  return getAddress("0x" + slot.slice(-40));
+}
+
+/**
+ * Check a snapshot read back from a record, proposal or state dump
+ * @param name Field holding the snapshot, for error messages
+ */
+export function parseInvariantSnapshot(raw: unknown, name: string, source: string): InvariantSnapshot {
+  const snapshot = expectObject(raw, name, source);
+  expectAddress(snapshot.implementation, `${name}.implementation`, source);
+  expectString(snapshot.totalSupply, `${name}.totalSupply`, source);
+  expectBoolean(snapshot.paused, `${name}.paused`, source);
+  expectStringRecord(snapshot.balances, `${name}.balances`, source);
+  for (const [role, holders] of Object.entries(expectObject(snapshot.roles, `${name}.roles`, source))) {
+    expectArray(holders, `${name}.roles.${role}`, source).forEach((holder, i) =>
+      expectAddress(holder, `${name}.roles.${role}[${i}]`, source)
+    );
+  }
+  expectArray(snapshot.blacklisted, `${name}.blacklisted`, source).forEach((account, i) =>
+    expectAddress(account, `${name}.blacklisted[${i}]`, source)
+  );
+  return snapshot as unknown as InvariantSnapshot;
+}
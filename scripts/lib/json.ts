@@ -0,0 +1,69 @@
+import * as fs from "fs";
+import { isAddress } from "ethers";
+
+/**
+ * Checks for the JSON files the scripts read back: deployment records,
+ * proposals, state dumps, storage snapshots and the event index
+ *
+ * The files are edited by hand and copied between checkouts, so loaders parse
+ * them as `unknown` and narrow each field they rely on. Every error names the
+ * file and the field, e.g. `deployments/mainnet.json: "proxy.address" must be an address`.
+ */
+
+/**
+ * Parse a JSON file, reporting a syntax error with the file name
+ */
+export function readJsonFile(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    throw new Error(`${file} is not valid JSON: ${error.message}`);
+  }
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+export function expectObject(value: unknown, name: string, source: string): Record<string, unknown> {
+  if (!isObject(value)) throw new Error(`${source}: "${name}" must be an object`);
+  return value;
+}
+
+export function expectArray(value: unknown, name: string, source: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`${source}: "${name}" must be a list`);
+  return value;
+}
+
+export function expectString(value: unknown, name: string, source: string): string {
+  if (typeof value !== "string") throw new Error(`${source}: "${name}" must be a string`);
+  return value;
+}
+
+export function expectAddress(value: unknown, name: string, source: string): string {
+  if (typeof value !== "string" || !isAddress(value)) throw new Error(`${source}: "${name}" must be an address`);
+  return value;
+}
+
+export function expectBoolean(value: unknown, name: string, source: string): boolean {
+  if (typeof value !== "boolean") throw new Error(`${source}: "${name}" must be true or false`);
+  return value;
+}
+
+/** A block number, timestamp, slot or other count */
+export function expectInteger(value: unknown, name: string, source: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${source}: "${name}" must be a non-negative integer`);
+  }
+  return value;
+}
+
+/** An object whose values are all strings, such as balances or storage slots */
+export function expectStringRecord(value: unknown, name: string, source: string): Record<string, string> {
+  const record = expectObject(value, name, source);
+  for (const [key, entry] of Object.entries(record)) {
+    expectString(entry, `${name}.${key}`, source);
+  }
+  return record as Record<string, string>;
+}
@@ -0,0 +1,109 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Signature, Transaction, getCreateAddress } from "ethers";
+import { expectAddress, expectString, isObject, readJsonFile } from "./json";
+import { CompilerSettings, DEPLOYMENTS_DIR, parseCompilerSettings } from "./records";
+
+/**
+ * Keyless ("Nick's method") deployment transactions
+ *
+ * A legacy transaction without a chain id (pre-EIP-155) is valid on every
+ * chain. Signing it with a made-up signature instead of a private key yields a
+ * one-time signer nobody controls: fund it, broadcast the transaction, and the
+ * contract lands at the signer's nonce-0 CREATE address. Every input (creation
+ * code, gas price, gas limit) is baked into the signature, so the file written
+ * here must be committed and broadcast as-is rather than regenerated.
+ */
+export const KEYLESS_FACTORY_FILE = path.join(DEPLOYMENTS_DIR, "keyless-factory.json");
+
+/** High enough to clear the base fee on the chains we deploy to; the unused part is never spent */
+export const DEFAULT_KEYLESS_GAS_PRICE = 100_000_000_000n;
+/**
+ * About 1.75x the factory's ~845k deployment gas (checked by test/KeylessFactory.test.ts), for
+ * chains that price calldata differently. Running out of gas burns the signer's nonce 0 on that
+ * chain for good, and the unused part is never spent, so err high.
+ */
+export const DEFAULT_KEYLESS_GAS_LIMIT = 1_500_000n;
+
+// Arbitrary signature values; s is below secp256k1n/2 as required since Homestead
+const KEYLESS_R = "0x" + "22".repeat(32);
+const KEYLESS_S = "0x" + "22".repeat(32);
+
+export interface KeylessDeployment {
+  contract: string;
+  /** Owner passed to the factory constructor */
+  owner: string;
+  /** One-time signer recovered from the made-up signature */
+  signer: string;
+  /** Where the contract lands on every chain */
+  address: string;
+  gasPrice: string;
+  gasLimit: string;
+  rawTransaction: string;
+  compiler: CompilerSettings;
+}
+
+/**
+ * Build a chain-agnostic deployment transaction signed by nobody
+ * @param creationCode Bytecode followed by ABI-encoded constructor arguments
+ */
+export function buildKeylessTransaction(
+  creationCode: string,
+  gasPrice: bigint,
+  gasLimit: bigint
+): { signer: string; address: string; rawTransaction: string } {
+  const tx = Transaction.from({
+    type: 0,
+    nonce: 0,
+    gasPrice,
+    gasLimit,
+    to: null,
+    value: 0n,
+    data: creationCode,
+    chainId: 0n,
+  });
+  tx.signature = Signature.from({ r: KEYLESS_R, s: KEYLESS_S, v: 27 });
+
+  const signer = tx.from;
+  if (!signer) {
+    throw new Error("Could not recover a signer from the keyless signature");
+  }
+  return { signer, address: getCreateAddress({ from: signer, nonce: 0 }), rawTransaction: tx.serialized };
+}
+
+export function loadKeylessDeployment(file: string): KeylessDeployment {
+  if (!fs.existsSync(file)) {
+    throw new Error(`No keyless deployment at ${file}; generate it with balboa:deploy:factory:keyless`);
+  }
+  const deployment = parseKeylessDeployment(readJsonFile(file), file);
+
+  // The file is broadcast as-is, so make sure it still says what it claims
+  const tx = Transaction.from(deployment.rawTransaction);
+  if (tx.chainId !== 0n || tx.nonce !== 0 || tx.to !== null) {
+    throw new Error(`${file}: not a chain-agnostic nonce-0 deployment transaction`);
+  }
+  if (tx.from !== deployment.signer || getCreateAddress({ from: deployment.signer, nonce: 0 }) !== deployment.address) {
+    throw new Error(`${file}: signer or address does not match the raw transaction`);
+  }
+  return deployment;
+}
+
+function parseKeylessDeployment(raw: unknown, source: string): KeylessDeployment {
+  if (!isObject(raw)) {
+    throw new Error(`${source}: expected a keyless deployment object`);
+  }
+  expectString(raw.contract, "contract", source);
+  for (const field of ["owner", "signer", "address"]) {
+    expectAddress(raw[field], field, source);
+  }
+  for (const field of ["gasPrice", "gasLimit", "rawTransaction"]) {
+    expectString(raw[field], field, source);
+  }
+  parseCompilerSettings(raw.compiler, "compiler", source);
+  return raw as unknown as KeylessDeployment;
+}
+
+export function saveKeylessDeployment(file: string, deployment: KeylessDeployment): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(deployment, null, 2) + "\n");
+}
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress, isAddress } from "ethers";
+import { isObject } from "./json";
+import { RoleInfo, allRoles } from "./roles";
+
+/**
+ * Role manifest: the desired holders of each BalboaToken role on one network
+ *
+ * ```json
+ * {
+ *   "token": "0x...",
+ *   "fromBlock": 5000000,
+ *   "roles": {
+ *     "DEFAULT_ADMIN_ROLE": ["0xMultisig"],
+ *     "MINTER_ROLE": ["0xTreasury"]
+ *   }
+ * }
+ * ```
+ *
+ * Roles listed in the manifest are managed exactly: missing holders are
+ * granted and any other holder is revoked. Roles left out are not touched.
+ */
+
+export const ROLE_MANIFEST_DIR = "roles";
+
+export interface RoleAssignment {
+  role: RoleInfo;
+  holders: string[];
+}
+
+export interface RoleManifest {
+  /** Token proxy address; falls back to TOKEN_ADDRESS when omitted */
+  token?: string;
+  /** First block to scan for RoleGranted events (usually the proxy deployment block) */
+  fromBlock: number;
+  /** Desired holders of every managed role */
+  roles: RoleAssignment[];
+}
+
+export function defaultManifestPath(network: string): string {
+  return path.join(ROLE_MANIFEST_DIR, `${network}.json`);
+}
+
+export function loadRoleManifest(file: string): RoleManifest {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Role manifest not found: ${file}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Role manifest ${file} is not valid JSON: ${(error as SyntaxError).message}`);
+  }
+
+  return parseRoleManifest(raw, file);
+}
+
+export function parseRoleManifest(raw: unknown, source = "manifest"): RoleManifest {
+  if (!isObject(raw) || !isObject(raw.roles)) {
+    throw new Error(`${source}: expected an object with a "roles" section`);
+  }
+  const { token, fromBlock } = raw;
+  if (token !== undefined && (typeof token !== "string" || !isAddress(token))) {
+    throw new Error(`${source}: "token" is not a valid address: ${token}`);
+  }
+  if (fromBlock !== undefined && (typeof fromBlock !== "number" || !Number.isInteger(fromBlock) || fromBlock < 0)) {
+    throw new Error(`${source}: "fromBlock" must be a non-negative integer`);
+  }
+
+  const known = new Map(allRoles().map((role) => [role.constant, role]));
+  const roles: RoleAssignment[] = [];
+
+  for (const [key, holders] of Object.entries(raw.roles)) {
+    const role = known.get(key);
+    if (!role) {
+      throw new Error(`${source}: unknown role "${key}" (expected one of ${[...known.keys()].join(", ")})`);
+    }
+    if (!Array.isArray(holders)) {
+      throw new Error(`${source}: "${key}" must be a list of addresses`);
+    }
+
+    const normalized = new Set<string>();
+    for (const holder of holders) {
+      if (typeof holder !== "string" || !isAddress(holder)) {
+        throw new Error(`${source}: "${key}" contains an invalid address: ${holder}`);
+      }
+      normalized.add(getAddress(holder));
+    }
+    roles.push({ role, holders: [...normalized] });
+  }
+
+  const admin = roles.find((assignment) => assignment.role.name === "ADMIN");
+  if (admin && admin.holders.length === 0) {
+    throw new Error(`${source}: DEFAULT_ADMIN_ROLE must keep at least one holder`);
+  }
+
+  return {
+    token: token === undefined ? undefined : getAddress(token),
+    fromBlock: fromBlock ?? 0,
+    roles,
+  };
+}
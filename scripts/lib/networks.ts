@@ -0,0 +1,84 @@
+import { JsonRpcProvider, Signer, Wallet } from "ethers";
+import type { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types";
+
+/**
+ * Connections to networks other than the one selected with `--network`
+ *
+ * Hardhat binds `hre.ethers` to a single network, so commands that work across
+ * chains open their own JSON-RPC connection per entry in `hardhat.config.ts`.
+ */
+
+export interface ReadOnlyConnection {
+  name: string;
+  chainId: bigint;
+  provider: JsonRpcProvider;
+}
+
+export interface NetworkConnection extends ReadOnlyConnection {
+  signer: Signer;
+  address: string;
+}
+
+/**
+ * Open a connection to a configured HTTP network, signing with its first account
+ * @param name Network name from `hardhat.config.ts`
+ */
+export async function connectNetwork(hre: HardhatRuntimeEnvironment, name: string): Promise<NetworkConnection> {
+  const { url, accounts } = httpNetworkConfig(hre, name);
+  const provider = new JsonRpcProvider(url);
+  let signer: Signer;
+  if (accounts === "remote") {
+    signer = await provider.getSigner(0);
+  } else if (Array.isArray(accounts) && accounts.length > 0) {
+    signer = new Wallet(accounts[0], provider);
+  } else {
+    provider.destroy();
+    throw new Error(`No deployer account configured for network ${name} (set DEPLOYER_KEY)`);
+  }
+
+  try {
+    const { chainId } = await provider.getNetwork();
+    return { name, chainId, provider, signer, address: await signer.getAddress() };
+  } catch (error) {
+    provider.destroy();
+    throw error;
+  }
+}
+
+/**
+ * Open a connection to a configured HTTP network for reading only; no account is needed
+ * @param name Network name from `hardhat.config.ts`
+ */
+export async function connectReadOnly(hre: HardhatRuntimeEnvironment, name: string): Promise<ReadOnlyConnection> {
+  const provider = new JsonRpcProvider(httpNetworkConfig(hre, name).url);
+  try {
+    const { chainId } = await provider.getNetwork();
+    return { name, chainId, provider };
+  } catch (error) {
+    provider.destroy();
+    throw error;
+  }
+}
+
+/**
+ * Networks in `hardhat.config.ts` with an RPC URL, except the built-in `localhost`
+ */
+export function configuredNetworks(hre: HardhatRuntimeEnvironment): string[] {
+  return Object.entries(hre.config.networks)
+    .filter(([name, config]) => name !== "localhost" && "url" in config && Boolean(config.url))
+    .map(([name]) => name);
+}
+
+function httpNetworkConfig(hre: HardhatRuntimeEnvironment, name: string): HttpNetworkConfig {
+  const config = hre.config.networks[name];
+  if (!config) {
+    throw new Error(`Network ${name} is not defined in hardhat.config.ts`);
+  }
+  if (!("url" in config)) {
+    throw new Error(`Network ${name} is in-process; start it with \`hardhat node\` and use its URL instead`);
+  }
+  if (!config.url) {
+    throw new Error(`No RPC URL configured for network ${name}`);
+  }
+  return config;
+}
@@ -0,0 +1,97 @@
+import { ChildProcess, spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Local Hardhat networks in their own `hardhat node` process
+ *
+ * Started through the hardhat CLI, so nothing depends on Hardhat's internal
+ * provider construction. hardhat.config.ts reads the chain id and clock of
+ * the hardhat network from HARDHAT_CHAIN_ID and HARDHAT_INITIAL_DATE.
+ */
+
+/** Time allowed for the node to compile-check and open its port */
+const START_TIMEOUT_MS = 120_000;
+
+export interface LocalNodeOptions {
+  chainId: number;
+  /** Timestamp of the first block (default: now) */
+  initialDate?: Date;
+}
+
+export interface LocalNodeProcess {
+  url: string;
+  process: ChildProcess;
+}
+
+/**
+ * Start `hardhat node` on a free local port and wait until it serves requests
+ */
+export async function startLocalNode(
+  hre: HardhatRuntimeEnvironment,
+  options: LocalNodeOptions
+): Promise<LocalNodeProcess> {
+  const args = ["node", "--network", "hardhat", "--hostname", "127.0.0.1", "--port", "0"];
+  const child = spawn(process.execPath, [hardhatCli(), ...args, "--config", hre.config.paths.configFile], {
+    cwd: hre.config.paths.root,
+    env: {
+      ...process.env,
+      HARDHAT_CHAIN_ID: String(options.chainId),
+      HARDHAT_INITIAL_DATE: options.initialDate?.toISOString() ?? "",
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  // Never outlive this process, even when the caller fails before stopping the node
+  const stop = () => child.kill();
+  process.once("exit", stop);
+  child.once("exit", () => process.removeListener("exit", stop));
+
+  const url = await new Promise<string>((resolve, reject) => {
+    let output = "";
+    const fail = (reason: string) => {
+      clearTimeout(timer);
+      child.kill();
+      reject(new Error(`hardhat node ${reason}:\n${output}`));
+    };
+    const timer = setTimeout(() => fail(`did not start within ${START_TIMEOUT_MS / 1000}s`), START_TIMEOUT_MS);
+    const collect = (chunk: Buffer) => {
+      output += chunk.toString();
+      const started = /JSON-RPC server at (http:\/\/[^/\s]+)/.exec(output);
+      if (started) {
+        clearTimeout(timer);
+        child.removeListener("exit", exited);
+        // Keep draining the pipes, so the node never blocks on its request log
+        child.stdout?.removeListener("data", collect).resume();
+        child.stderr?.removeListener("data", collect).resume();
+        resolve(started[1]);
+      }
+    };
+    const exited = (code: number | null) => fail(`exited with ${code} before starting`);
+    child.stdout?.on("data", collect);
+    child.stderr?.on("data", collect);
+    child.once("exit", exited);
+  });
+  return { url, process: child };
+}
+
+/**
+ * Stop a node started by startLocalNode
+ */
+export async function stopLocalNode(node: LocalNodeProcess): Promise<void> {
+  if (node.process.exitCode !== null || node.process.signalCode !== null) return;
+  await new Promise<void>((resolve) => {
+    node.process.once("exit", () => resolve());
+    node.process.kill();
+  });
+}
+
+/**
+ * The `hardhat` executable declared in Hardhat's package.json
+ */
+function hardhatCli(): string {
+  const manifest = require.resolve("hardhat/package.json");
+  const { bin } = JSON.parse(fs.readFileSync(manifest, "utf8")) as { bin?: { hardhat?: string } };
+  if (!bin?.hardhat) throw new Error(`${manifest} declares no hardhat executable`);
+  return path.join(path.dirname(manifest), bin.hardhat);
+}
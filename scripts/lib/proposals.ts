@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress } from "ethers";
+import { InvariantSnapshot, parseInvariantSnapshot } from "./invariants";
+import { expectAddress, expectArray, expectInteger, expectObject, expectString, isObject, readJsonFile } from "./json";
+import type { CompilerSettings } from "./records";
+import { deploymentRecordPath, parseCompilerSettings } from "./records";
+import type { InitializerCall } from "./upgrades";
+
+/**
+ * Upgrade proposals: a prepared upgrade waiting to be executed by UPGRADER_ROLE
+ *
+ * The file is a Safe Transaction Builder batch (version, chainId, meta,
+ * transactions), so it can be imported into the Safe UI as is. The `upgrade`
+ * section is ignored by the Safe and describes what the batch does, plus the
+ * read-only checks and the invariant snapshot that must hold once it has been
+ * executed.
+ */
+
+export const PROPOSAL_VERSION = "1.0";
+
+/** Safe Transaction Builder release whose batch format the proposal follows */
+export const TX_BUILDER_VERSION = "1.16.5";
+
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: null;
+  contractInputsValues: null;
+}
+
+/** A view call whose return data must equal `expected` after the upgrade */
+export interface UpgradeCheck {
+  description: string;
+  to: string;
+  data: string;
+  expected: string;
+}
+
+export interface UpgradeProposal {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress?: string;
+  };
+  transactions: SafeTransaction[];
+  upgrade: {
+    network: string;
+    proxy: string;
+    contract: string;
+    previousImplementation: string;
+    implementation: string;
+    call?: InitializerCall;
+    /** Block the proposal was created at; the upgrade is searched for from here */
+    proposedAtBlock: number;
+    compiler: CompilerSettings;
+    checks: UpgradeCheck[];
+    /**
+     * Token state when the proposal was created; confirm re-reads its accounts
+     * just before and after the upgrade
+     */
+    invariants: InvariantSnapshot;
+  };
+}
+
+/**
+ * Default location: next to the network's deployment record, under proposals/
+ */
+export function defaultProposalPath(network: string, contract: string): string {
+  return path.join(path.dirname(deploymentRecordPath(network)), "proposals", `${network}-${contract}.json`);
+}
+
+export function loadUpgradeProposal(file: string): UpgradeProposal {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Upgrade proposal not found: ${file}`);
+  }
+
+  const proposal = parseUpgradeProposal(readJsonFile(file), file);
+  const [transaction] = proposal.transactions;
+  if (proposal.transactions.length !== 1 || getAddress(transaction.to) !== getAddress(proposal.upgrade.proxy)) {
+    throw new Error(`${file}: expected a single transaction to proxy ${proposal.upgrade.proxy}`);
+  }
+  return proposal;
+}
+
+function parseUpgradeProposal(raw: unknown, source: string): UpgradeProposal {
+  if (!isObject(raw) || raw.version !== PROPOSAL_VERSION || !isObject(raw.upgrade)) {
+    throw new Error(`${source} is not a BalboaToken upgrade proposal`);
+  }
+  expectString(raw.chainId, "chainId", source);
+  expectInteger(raw.createdAt, "createdAt", source);
+  const meta = expectObject(raw.meta, "meta", source);
+  expectString(meta.name, "meta.name", source);
+  expectString(meta.description, "meta.description", source);
+  expectString(meta.txBuilderVersion, "meta.txBuilderVersion", source);
+  if (meta.createdFromSafeAddress !== undefined) {
+    expectAddress(meta.createdFromSafeAddress, "meta.createdFromSafeAddress", source);
+  }
+  expectArray(raw.transactions, "transactions", source).forEach((entry, i) => {
+    const transaction = expectObject(entry, `transactions[${i}]`, source);
+    expectAddress(transaction.to, `transactions[${i}].to`, source);
+    expectString(transaction.value, `transactions[${i}].value`, source);
+    expectString(transaction.data, `transactions[${i}].data`, source);
+  });
+
+  const { upgrade } = raw;
+  expectString(upgrade.network, "upgrade.network", source);
+  expectAddress(upgrade.proxy, "upgrade.proxy", source);
+  expectString(upgrade.contract, "upgrade.contract", source);
+  expectAddress(upgrade.previousImplementation, "upgrade.previousImplementation", source);
+  expectAddress(upgrade.implementation, "upgrade.implementation", source);
+  if (upgrade.call !== undefined) {
+    const call = expectObject(upgrade.call, "upgrade.call", source);
+    expectString(call.fn, "upgrade.call.fn", source);
+    expectArray(call.args, "upgrade.call.args", source);
+  }
+  expectInteger(upgrade.proposedAtBlock, "upgrade.proposedAtBlock", source);
+  parseCompilerSettings(upgrade.compiler, "upgrade.compiler", source);
+  expectArray(upgrade.checks, "upgrade.checks", source).forEach((entry, i) => {
+    const check = expectObject(entry, `upgrade.checks[${i}]`, source);
+    for (const field of ["description", "to", "data", "expected"]) {
+      expectString(check[field], `upgrade.checks[${i}].${field}`, source);
+    }
+  });
+  parseInvariantSnapshot(upgrade.invariants, "upgrade.invariants", source);
+  return raw as unknown as UpgradeProposal;
+}
+
+export function saveUpgradeProposal(file: string, proposal: UpgradeProposal): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(proposal, null, 2) + "\n");
+}
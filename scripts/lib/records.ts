@@ -0,0 +1,279 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveAddress } from "./config";
+import type { DeterministicPlan } from "./deterministic";
+import { InvariantSnapshot, parseInvariantSnapshot } from "./invariants";
+import {
+  expectAddress,
+  expectArray,
+  expectBoolean,
+  expectInteger,
+  expectObject,
+  expectString,
+  isObject,
+  readJsonFile,
+} from "./json";
+
+/**
+ * Deployment records: one `deployments/<network>.json` per network
+ *
+ * Deploy and upgrade commands write what they did here; every other command
+ * reads its default addresses from the record before falling back to `.env`.
+ * The in-process `hardhat` network is discarded when the process exits, so its
+ * record lives in a temporary directory instead. `DEPLOYMENTS_DIR` overrides
+ * the location for every network.
+ */
+export const DEPLOYMENTS_DIR = "deployments";
+export const RECORD_VERSION = 1;
+
+export interface CompilerSettings {
+  version: string;
+  optimizer: { enabled: boolean; runs: number };
+  evmVersion?: string;
+}
+
+export interface ContractRecord {
+  contract: string;
+  address: string;
+  /** Transaction that deployed the contract (for implementations: that activated it) */
+  txHash?: string;
+  blockNumber?: number;
+  compiler?: CompilerSettings;
+}
+
+export interface FactoryRecord extends ContractRecord {
+  owner: string;
+}
+
+export interface ImplementationRecord extends ContractRecord {
+  salt?: string;
+}
+
+export interface ProxyRecord extends ContractRecord {
+  salt?: string;
+  initData?: string;
+  admin?: string;
+  cap?: string;
+  /** Upgrade delay in seconds the proxy was initialized with */
+  upgradeDelay?: string;
+}
+
+/** An upgrade scheduled on a timelocked proxy and not yet executed or cancelled */
+export interface ScheduledUpgradeRecord extends ContractRecord {
+  id: string;
+  /** Calldata run on the implementation by upgradeToAndCall */
+  data: string;
+  /** Unix timestamp from which the upgrade can execute */
+  readyAt: number;
+  /** Token state when the upgrade was scheduled; execute re-reads its accounts */
+  invariants?: InvariantSnapshot;
+}
+
+export interface DeploymentRecord {
+  version: number;
+  network: string;
+  chainId: string;
+  factory?: FactoryRecord;
+  proxy?: ProxyRecord;
+  /** Every implementation the proxy has pointed to, oldest first */
+  implementations: ImplementationRecord[];
+  scheduledUpgrades?: ScheduledUpgradeRecord[];
+}
+
+export interface TxInfo {
+  txHash?: string;
+  blockNumber?: number;
+}
+
+const tempDir = path.join(os.tmpdir(), `balboa-deployments-${process.pid}`);
+
+export function deploymentRecordPath(network: string): string {
+  const dir = process.env.DEPLOYMENTS_DIR?.trim() || (network === "hardhat" ? tempDir : DEPLOYMENTS_DIR);
+  return path.join(dir, `${network}.json`);
+}
+
+export function loadDeploymentRecord(network: string): DeploymentRecord | undefined {
+  const file = deploymentRecordPath(network);
+  if (!fs.existsSync(file)) return undefined;
+
+  return parseDeploymentRecord(readJsonFile(file), file);
+}
+
+function parseDeploymentRecord(raw: unknown, source: string): DeploymentRecord {
+  if (!isObject(raw)) {
+    throw new Error(`${source}: expected a deployment record object`);
+  }
+  if (raw.version !== RECORD_VERSION) {
+    throw new Error(`${source}: unsupported record version ${raw.version} (expected ${RECORD_VERSION})`);
+  }
+  expectString(raw.network, "network", source);
+  expectString(raw.chainId, "chainId", source);
+
+  if (raw.factory !== undefined) {
+    const factory = parseContractRecord(raw.factory, "factory", source);
+    expectAddress(factory.owner, "factory.owner", source);
+  }
+  if (raw.proxy !== undefined) {
+    const proxy = parseContractRecord(raw.proxy, "proxy", source);
+    for (const field of ["salt", "initData", "admin", "cap", "upgradeDelay"]) {
+      if (proxy[field] !== undefined) expectString(proxy[field], `proxy.${field}`, source);
+    }
+  }
+  expectArray(raw.implementations, "implementations", source).forEach((implementation, i) => {
+    const entry = parseContractRecord(implementation, `implementations[${i}]`, source);
+    if (entry.salt !== undefined) expectString(entry.salt, `implementations[${i}].salt`, source);
+  });
+  if (raw.scheduledUpgrades !== undefined) {
+    expectArray(raw.scheduledUpgrades, "scheduledUpgrades", source).forEach((scheduled, i) => {
+      const name = `scheduledUpgrades[${i}]`;
+      const entry = parseContractRecord(scheduled, name, source);
+      expectString(entry.id, `${name}.id`, source);
+      expectString(entry.data, `${name}.data`, source);
+      expectInteger(entry.readyAt, `${name}.readyAt`, source);
+      if (entry.invariants !== undefined) parseInvariantSnapshot(entry.invariants, `${name}.invariants`, source);
+    });
+  }
+  return raw as unknown as DeploymentRecord;
+}
+
+/**
+ * Check the fields every contract entry shares and return the entry for the
+ * caller's own fields
+ */
+function parseContractRecord(raw: unknown, name: string, source: string): Record<string, unknown> {
+  const entry = expectObject(raw, name, source);
+  expectString(entry.contract, `${name}.contract`, source);
+  expectAddress(entry.address, `${name}.address`, source);
+  if (entry.txHash !== undefined) expectString(entry.txHash, `${name}.txHash`, source);
+  if (entry.blockNumber !== undefined) expectInteger(entry.blockNumber, `${name}.blockNumber`, source);
+  if (entry.compiler !== undefined) parseCompilerSettings(entry.compiler, `${name}.compiler`, source);
+  return entry;
+}
+
+/**
+ * Check compiler settings read back from a record, proposal or keyless file
+ * @param name Field holding the settings, for error messages
+ */
+export function parseCompilerSettings(raw: unknown, name: string, source: string): CompilerSettings {
+  const settings = expectObject(raw, name, source);
+  expectString(settings.version, `${name}.version`, source);
+  const optimizer = expectObject(settings.optimizer, `${name}.optimizer`, source);
+  expectBoolean(optimizer.enabled, `${name}.optimizer.enabled`, source);
+  expectInteger(optimizer.runs, `${name}.optimizer.runs`, source);
+  if (settings.evmVersion !== undefined) expectString(settings.evmVersion, `${name}.evmVersion`, source);
+  return settings as unknown as CompilerSettings;
+}
+
+/**
+ * Load (or start) a network's record, apply `update` and write it back
+ * @returns Path of the written record
+ */
+export function updateDeploymentRecord(
+  network: string,
+  chainId: bigint,
+  update: (record: DeploymentRecord) => void
+): string {
+  const record = loadDeploymentRecord(network) ?? {
+    version: RECORD_VERSION,
+    network,
+    chainId: chainId.toString(),
+    implementations: [],
+  };
+  if (record.chainId !== chainId.toString()) {
+    throw new Error(`Deployment record for ${network} is for chain ${record.chainId}, connected to chain ${chainId}`);
+  }
+
+  update(record);
+
+  const file = deploymentRecordPath(network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(record, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Append an implementation to the history unless it is already the current one
+ */
+export function recordImplementation(record: DeploymentRecord, implementation: ImplementationRecord): void {
+  const current = record.implementations[record.implementations.length - 1];
+  if (current?.address !== implementation.address) {
+    record.implementations.push(implementation);
+  }
+}
+
+/**
+ * Record the implementation and proxy of a deterministic deployment
+ *
+ * Transaction details already on record are kept when a contract was found
+ * deployed rather than deployed now.
+ */
+export function recordDeterministicDeployment(
+  record: DeploymentRecord,
+  plan: DeterministicPlan,
+  admin: string,
+  contracts: { implementation: string; proxy: string },
+  txs: { implementation: TxInfo; proxy: TxInfo },
+  compiler: CompilerSettings
+): void {
+  const previousProxy = record.proxy?.address === plan.proxyAddr ? record.proxy : undefined;
+
+  recordImplementation(record, {
+    contract: contracts.implementation,
+    address: plan.implAddr,
+    salt: plan.saltImpl,
+    txHash: txs.implementation.txHash,
+    blockNumber: txs.implementation.blockNumber,
+    compiler,
+  });
+  record.proxy = {
+    contract: contracts.proxy,
+    address: plan.proxyAddr,
+    salt: plan.saltProxy,
+    initData: plan.initData,
+    admin,
+    cap: plan.cap.toString(),
+    upgradeDelay: plan.delay.toString(),
+    txHash: txs.proxy.txHash ?? previousProxy?.txHash,
+    blockNumber: txs.proxy.blockNumber ?? previousProxy?.blockNumber,
+    compiler,
+  };
+}
+
+/**
+ * Compiler version and settings from the build that produced `contract`
+ */
+export async function compilerSettings(hre: HardhatRuntimeEnvironment, contract: string): Promise<CompilerSettings> {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact(contract);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${contract}; run \`hardhat compile\``);
+  }
+
+  const { optimizer, evmVersion } = buildInfo.input.settings;
+  return {
+    version: buildInfo.solcLongVersion,
+    optimizer: { enabled: optimizer.enabled ?? false, runs: optimizer.runs ?? 200 },
+    evmVersion,
+  };
+}
+
+/**
+ * Factory address from a task parameter, the network's record or FACTORY_ADDRESS
+ */
+export function resolveFactoryAddress(hre: HardhatRuntimeEnvironment, value: string | undefined): string {
+  return resolveAddress(value ?? loadDeploymentRecord(hre.network.name)?.factory?.address, "FACTORY_ADDRESS");
+}
+
+/**
+ * Token proxy address from a task parameter, the network's record or an environment variable
+ * @param envKey Fallback variable (TOKEN_ADDRESS or PROXY_ADDRESS)
+ */
+export function resolveTokenAddress(
+  hre: HardhatRuntimeEnvironment,
+  value: string | undefined,
+  envKey = "TOKEN_ADDRESS"
+): string {
+  return resolveAddress(value ?? loadDeploymentRecord(hre.network.name)?.proxy?.address, envKey);
+}
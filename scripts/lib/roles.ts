@@ -0,0 +1,44 @@
+import { ZeroHash, id } from "ethers";
+
+/**
+ * Role names accepted on the command line
+ *
+ * ADMIN maps to AccessControl's DEFAULT_ADMIN_ROLE; every other name maps to
+ * the `<NAME>_ROLE` constant declared in BalboaToken (SEIZER from BalboaTokenV7).
+ */
+export const ROLE_NAMES = ["ADMIN", "MINTER", "BURNER", "PAUSER", "UPGRADER", "BLACKLISTER", "SEIZER"] as const;
+
+export type RoleName = (typeof ROLE_NAMES)[number];
+
+export interface RoleInfo {
+  name: RoleName;
+  constant: string;
+  hash: string;
+}
+
+export function isRoleName(value: string): value is RoleName {
+  return (ROLE_NAMES as readonly string[]).includes(value);
+}
+
+export function roleConstant(name: RoleName): string {
+  return name === "ADMIN" ? "DEFAULT_ADMIN_ROLE" : `${name}_ROLE`;
+}
+
+export function roleHash(name: RoleName): string {
+  return name === "ADMIN" ? ZeroHash : id(roleConstant(name));
+}
+
+export function roleInfo(name: RoleName): RoleInfo {
+  return { name, constant: roleConstant(name), hash: roleHash(name) };
+}
+
+export function allRoles(): RoleInfo[] {
+  return ROLE_NAMES.map(roleInfo);
+}
+
+/**
+ * The role whose hash is `hash`, if it is one of BalboaToken's
+ */
+export function roleByHash(hash: string): RoleInfo | undefined {
+  return allRoles().find((role) => role.hash === hash.toLowerCase());
+}
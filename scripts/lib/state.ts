@@ -0,0 +1,232 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Provider, concat, getAddress, id, keccak256, toBeHex, toQuantity, zeroPadValue } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { EventIndex, queryEvents } from "./indexer";
+import { IMPLEMENTATION_SLOT, InvariantSnapshot, parseInvariantSnapshot } from "./invariants";
+import {
+  expectAddress,
+  expectInteger,
+  expectObject,
+  expectString,
+  expectStringRecord,
+  isObject,
+  readJsonFile,
+} from "./json";
+import { deploymentRecordPath } from "./records";
+import { allRoles } from "./roles";
+import { readStorageLayout } from "./storage";
+
+/**
+ * Recorded token state: `<records dir>/state/<network>.json`
+ *
+ * A dump holds the code and the storage slots of the proxy and its
+ * implementation at one block, so the token can be replayed on a local
+ * `hardhat node` without an RPC connection. Storage cannot be enumerated over
+ * JSON-RPC; slots are derived from the accounts in the invariant snapshot
+ * taken with the dump: balances, roles, the blacklist and role enumeration of
+ * those accounts, plus every plain variable. Allowances are not recorded.
+ */
+export const STATE_DUMP_VERSION = 1;
+
+export interface AccountState {
+  code: string;
+  /** Non-zero slots by slot number */
+  storage: Record<string, string>;
+}
+
+export interface StateDump {
+  version: number;
+  network: string;
+  chainId: string;
+  blockNumber: number;
+  /** Timestamp of that block, used as the replayed network's clock */
+  timestamp: number;
+  proxy: string;
+  implementation: string;
+  /** Contract the implementation was deployed from */
+  contract: string;
+  invariants: InvariantSnapshot;
+  accounts: Record<string, AccountState>;
+}
+
+/** ERC-7201 namespaces of the OpenZeppelin upgradeable base contracts */
+const NAMESPACES = {
+  initializable: "openzeppelin.storage.Initializable",
+  erc20: "openzeppelin.storage.ERC20",
+  accessControl: "openzeppelin.storage.AccessControl",
+  pausable: "openzeppelin.storage.Pausable",
+  reentrancyGuard: "openzeppelin.storage.ReentrancyGuard",
+};
+
+/**
+ * Default location: next to the network's deployment record, under state/
+ */
+export function defaultStateDumpPath(network: string): string {
+  return path.join(path.dirname(deploymentRecordPath(network)), "state", `${network}.json`);
+}
+
+export function loadStateDump(file: string): StateDump {
+  if (!fs.existsSync(file)) {
+    throw new Error(`State dump not found: ${file} (record one with balboa:state:dump)`);
+  }
+
+  return parseStateDump(readJsonFile(file), file);
+}
+
+function parseStateDump(raw: unknown, source: string): StateDump {
+  if (!isObject(raw) || raw.version !== STATE_DUMP_VERSION || !isObject(raw.accounts)) {
+    throw new Error(`${source} is not a BalboaToken state dump`);
+  }
+  expectString(raw.network, "network", source);
+  expectString(raw.chainId, "chainId", source);
+  expectInteger(raw.blockNumber, "blockNumber", source);
+  expectInteger(raw.timestamp, "timestamp", source);
+  expectAddress(raw.proxy, "proxy", source);
+  expectAddress(raw.implementation, "implementation", source);
+  expectString(raw.contract, "contract", source);
+  parseInvariantSnapshot(raw.invariants, "invariants", source);
+  for (const [address, entry] of Object.entries(raw.accounts)) {
+    const account = expectObject(entry, `accounts.${address}`, source);
+    expectString(account.code, `accounts.${address}.code`, source);
+    expectStringRecord(account.storage, `accounts.${address}.storage`, source);
+  }
+  return raw as unknown as StateDump;
+}
+
+export function saveStateDump(file: string, dump: StateDump): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(dump, null, 2) + "\n");
+}
+
+/**
+ * Read the storage of `proxy` that holds the accounts in `invariants`
+ * @param contract Contract the current implementation was deployed from (its layout locates the token's own variables)
+ * @param index Synced event index of the proxy, where scheduled upgrades are looked up
+ */
+export async function readTokenStorage(
+  hre: HardhatRuntimeEnvironment,
+  provider: Provider,
+  proxy: string,
+  contract: string,
+  invariants: InvariantSnapshot,
+  blockTag: number,
+  index: EventIndex
+): Promise<Record<string, string>> {
+  const storage: Record<string, string> = {};
+  const read = async (slot: bigint): Promise<bigint> => {
+    const value = await provider.getStorage(proxy, slot, blockTag);
+    if (BigInt(value) !== 0n) storage[toQuantity(slot)] = value;
+    return BigInt(value);
+  };
+
+  const accounts = new Set<string>([
+    ...Object.keys(invariants.balances),
+    ...Object.values(invariants.roles).flat(),
+    ...invariants.blacklisted,
+  ].map(getAddress));
+  const roles = allRoles().map((role) => role.hash);
+  const scheduled = queryEvents(index, { address: proxy, event: "UpgradeScheduled" })
+    .filter((event) => event.blockNumber <= blockTag)
+    .map((event) => event.args.id);
+
+  await read(BigInt(IMPLEMENTATION_SLOT));
+  await read(namespace(NAMESPACES.initializable));
+  await read(namespace(NAMESPACES.pausable));
+  await read(namespace(NAMESPACES.reentrancyGuard));
+
+  // ERC20Storage: _balances, _allowances, _totalSupply, _name, _symbol
+  const erc20 = namespace(NAMESPACES.erc20);
+  for (const account of accounts) await read(mappingSlot(account, erc20));
+  await read(erc20 + 2n);
+  await readString(read, erc20 + 3n);
+  await readString(read, erc20 + 4n);
+
+  // AccessControlStorage: _roles[role] = { hasRole, adminRole }
+  const accessControl = namespace(NAMESPACES.accessControl);
+  for (const role of roles) {
+    const data = mappingSlot(role, accessControl);
+    await read(data + 1n);
+    for (const account of accounts) await read(mappingSlot(account, data));
+  }
+
+  // BalboaToken's own variables, located by the compiler's layout
+  for (const entry of (await readStorageLayout(hre, contract)).storage) {
+    const slot = BigInt(entry.slot);
+    if (entry.label === "__gap") continue;
+
+    if (entry.type === "mapping(bytes32 => struct EnumerableSet.AddressSet)") {
+      // Set { bytes32[] _values; mapping(bytes32 => uint256) _positions }
+      for (const role of roles) {
+        const set = mappingSlot(role, slot);
+        const length = await read(set);
+        const values = BigInt(keccak256(toBeHex(set, 32)));
+        for (let i = 0n; i < length; ++i) {
+          const value = await read(values + i);
+          await read(mappingSlot(toBeHex(value, 32), set + 1n));
+        }
+      }
+    } else if (entry.type.startsWith("mapping(address => ") && !entry.type.includes("struct")) {
+      for (const account of accounts) await read(mappingSlot(account, slot));
+    } else if (entry.type.startsWith("mapping(bytes32 => ") && !entry.type.includes("struct")) {
+      for (const key of [...roles, ...scheduled]) await read(mappingSlot(key, slot));
+    } else if (!entry.type.startsWith("mapping") && !entry.type.includes("[") && entry.bytes <= 32) {
+      await read(slot);
+    } else {
+      throw new Error(`Cannot record ${entry.contract}.${entry.label} (${entry.type}); extend scripts/lib/state.ts`);
+    }
+  }
+  return storage;
+}
+
+/**
+ * Storage of an implementation contract: its initializer state only
+ */
+export async function readImplementationStorage(
+  provider: Provider,
+  implementation: string,
+  blockTag: number
+): Promise<Record<string, string>> {
+  const slot = namespace(NAMESPACES.initializable);
+  const value = await provider.getStorage(implementation, slot, blockTag);
+  return BigInt(value) === 0n ? {} : { [toQuantity(slot)]: value };
+}
+
+/**
+ * Write the code and storage of a dump into a Hardhat network
+ * @param provider JSON-RPC provider of a Hardhat network
+ */
+export async function applyStateDump(
+  provider: { send(method: string, params: unknown[]): Promise<unknown> },
+  dump: StateDump
+): Promise<void> {
+  for (const [address, account] of Object.entries(dump.accounts)) {
+    await provider.send("hardhat_setCode", [address, account.code]);
+    for (const [slot, value] of Object.entries(account.storage)) {
+      await provider.send("hardhat_setStorageAt", [address, slot, zeroPadValue(value, 32)]);
+    }
+  }
+}
+
+/**
+ * ERC-7201 storage location: keccak256(abi.encode(uint256(keccak256(id)) - 1)) & ~bytes32(uint256(0xff))
+ */
+function namespace(name: string): bigint {
+  return BigInt(keccak256(toBeHex(BigInt(id(name)) - 1n, 32))) & ~0xffn;
+}
+
+function mappingSlot(key: string, slot: bigint): bigint {
+  return BigInt(keccak256(concat([zeroPadValue(key, 32), toBeHex(slot, 32)])));
+}
+
+/**
+ * Strings of 32 bytes or more keep their length in the slot and the data at keccak256(slot)
+ */
+async function readString(read: (slot: bigint) => Promise<bigint>, slot: bigint): Promise<void> {
+  const value = await read(slot);
+  if ((value & 1n) === 0n) return;
+
+  const data = BigInt(keccak256(toBeHex(slot, 32)));
+  const length = (value - 1n) / 2n;
+  for (let i = 0n; i < (length + 31n) / 32n; ++i) await read(data + i);
+}
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { expectArray, expectInteger, expectObject, expectString, isObject, readJsonFile } from "./json";
+
+/**
+ * Storage layout snapshots: `storage-layouts/<Contract>.json`
+ *
+ * Each snapshot lists the slots of one BalboaToken version as the compiler
+ * laid them out. Types are kept by their readable label (e.g.
+ * `mapping(address => bool)`) because the compiler's type ids embed AST ids
+ * that change between builds. OpenZeppelin's upgradeable base contracts use
+ * ERC-7201 namespaced storage, so only BalboaToken's own variables appear.
+ */
+export const STORAGE_LAYOUT_DIR = "storage-layouts";
+
+/** Source files of the token versions: BalboaToken.sol, BalboaTokenV2.sol, ... */
+const VERSION_PATTERN = /^contracts\/BalboaToken(V(\d+))?\.sol:BalboaToken(V\d+)?$/;
+
+export interface StorageEntry {
+  /** Contract the layout was compiled for; solc lists inherited variables under it too */
+  contract: string;
+  label: string;
+  slot: number;
+  offset: number;
+  type: string;
+  bytes: number;
+}
+
+export interface StorageLayoutSnapshot {
+  contract: string;
+  source: string;
+  compiler: string;
+  storage: StorageEntry[];
+}
+
+interface SolcStorageLayout {
+  storage: { contract: string; label: string; offset: number; slot: string; type: string }[];
+  types: Record<string, { label: string; numberOfBytes: string }> | null;
+}
+
+/**
+ * Every BalboaToken version in the build, oldest first
+ */
+export async function tokenVersions(hre: HardhatRuntimeEnvironment): Promise<string[]> {
+  const versions: [number, string][] = [];
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const match = VERSION_PATTERN.exec(name);
+    if (match) versions.push([Number(match[2] ?? 1), name.split(":")[1]]);
+  }
+  return versions.sort(([a], [b]) => a - b).map(([, contract]) => contract);
+}
+
+/**
+ * Storage layout of `contract` from the compiler output (no network access)
+ */
+export async function readStorageLayout(hre: HardhatRuntimeEnvironment, contract: string): Promise<StorageLayoutSnapshot> {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact(contract);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${contract}; run \`hardhat compile\``);
+  }
+  const output = buildInfo.output.contracts[sourceName][contractName] as { storageLayout?: SolcStorageLayout };
+  if (!output.storageLayout) {
+    throw new Error(`Compiler output for ${contract} has no storage layout`);
+  }
+
+  const { storage, types } = output.storageLayout;
+  return {
+    contract: contractName,
+    source: sourceName,
+    compiler: buildInfo.solcLongVersion,
+    storage: storage.map((entry) => ({
+      contract: entry.contract.split(":")[1],
+      label: entry.label,
+      slot: Number(entry.slot),
+      offset: entry.offset,
+      type: types?.[entry.type]?.label ?? entry.type,
+      bytes: Number(types?.[entry.type]?.numberOfBytes ?? 32),
+    })),
+  };
+}
+
+export function storageLayoutPath(contract: string, dir = STORAGE_LAYOUT_DIR): string {
+  return path.join(dir, `${contract}.json`);
+}
+
+export function loadStorageLayout(contract: string, dir = STORAGE_LAYOUT_DIR): StorageLayoutSnapshot | undefined {
+  const file = storageLayoutPath(contract, dir);
+  return fs.existsSync(file) ? parseStorageLayout(readJsonFile(file), file) : undefined;
+}
+
+function parseStorageLayout(raw: unknown, source: string): StorageLayoutSnapshot {
+  if (!isObject(raw)) {
+    throw new Error(`${source}: expected a storage layout snapshot object`);
+  }
+  expectString(raw.contract, "contract", source);
+  expectString(raw.source, "source", source);
+  expectString(raw.compiler, "compiler", source);
+  expectArray(raw.storage, "storage", source).forEach((item, i) => {
+    const entry = expectObject(item, `storage[${i}]`, source);
+    for (const field of ["contract", "label", "type"]) {
+      expectString(entry[field], `storage[${i}].${field}`, source);
+    }
+    for (const field of ["slot", "offset", "bytes"]) {
+      expectInteger(entry[field], `storage[${i}].${field}`, source);
+    }
+  });
+  return raw as unknown as StorageLayoutSnapshot;
+}
+
+export function saveStorageLayout(snapshot: StorageLayoutSnapshot, dir = STORAGE_LAYOUT_DIR): string {
+  const file = storageLayoutPath(snapshot.contract, dir);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Unsafe changes from `previous` to `current`, one line each
+ *
+ * Each version re-declares the storage of the one before it, so variables are
+ * matched by name (the n-th `__gap` with the n-th `__gap`), not by declaring
+ * contract. Every variable must keep its slot, offset and type. A `__gap` may
+ * shrink only by the slots new variables take from its start: its last slot
+ * must not move, or everything stored after it shifts.
+ */
+export function compareStorageLayouts(previous: StorageEntry[], current: StorageEntry[]): string[] {
+  const issues: string[] = [];
+  const end = (entry: StorageEntry) => entry.slot + Math.ceil(entry.bytes / 32);
+  const currentByKey = keyed(current);
+  const previousByKey = keyed(previous);
+
+  for (const [key, entry] of previousByKey) {
+    const match = currentByKey.get(key);
+    if (!match) {
+      issues.push(`${key} (slot ${entry.slot}) was removed or renamed`);
+      continue;
+    }
+
+    if (isGap(entry)) {
+      if (end(match) !== end(entry)) {
+        issues.push(
+          `${key} now ends at slot ${end(match) - 1} instead of ${end(entry) - 1} ` +
+            `(${end(entry) - entry.slot} -> ${end(match) - match.slot} slots); later storage shifts`
+        );
+      }
+      continue;
+    }
+    if (match.slot !== entry.slot || match.offset !== entry.offset) {
+      issues.push(
+        `${key} moved from slot ${entry.slot} offset ${entry.offset} to slot ${match.slot} offset ${match.offset}`
+      );
+    }
+    if (match.type !== entry.type || match.bytes !== entry.bytes) {
+      issues.push(`${key} changed type from ${entry.type} to ${match.type}`);
+    }
+  }
+
+  // New variables may only use slots that were free or part of a gap
+  for (const [key, entry] of currentByKey) {
+    if (previousByKey.has(key)) continue;
+    for (const [oldKey, old] of previousByKey) {
+      if (!isGap(old) && entry.slot < end(old) && old.slot < end(entry)) {
+        issues.push(`new variable ${key} at slot ${entry.slot} overlaps ${oldKey}`);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Entries by label, numbering repeated labels in slot order (`__gap`, `__gap#2`, ...)
+ */
+function keyed(storage: StorageEntry[]): Map<string, StorageEntry> {
+  const entries = new Map<string, StorageEntry>();
+  const seen = new Map<string, number>();
+  for (const entry of [...storage].sort((a, b) => a.slot - b.slot || a.offset - b.offset)) {
+    const count = (seen.get(entry.label) ?? 0) + 1;
+    seen.set(entry.label, count);
+    entries.set(count === 1 ? entry.label : `${entry.label}#${count}`, entry);
+  }
+  return entries;
+}
+
+function isGap(entry: StorageEntry): boolean {
+  return entry.label === "__gap";
+}
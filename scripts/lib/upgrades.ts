@@ -0,0 +1,199 @@
+import { Contract, ContractFactory, Provider, getAddress, isError } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BalboaToken } from "../../typechain-types";
+import { resolveAddress, resolveSupplyCap, resolveUpgradeDelay } from "./config";
+import { findRoleHolders } from "./holders";
+import { EventIndex, queryEvents, syncTokenIndex } from "./indexer";
+import { loadDeploymentRecord } from "./records";
+import { allRoles } from "./roles";
+
+/**
+ * Helpers shared by direct, proposed and timelocked upgrades
+ */
+
+export interface InitializerCall {
+  fn: string;
+  args: unknown[];
+}
+
+export interface HistoricalImplementation {
+  address: string;
+  /** Contract name, when the deployment record knows the address */
+  contract?: string;
+  /** Block and transaction of the Upgraded event that activated it */
+  blockNumber: number;
+  txHash: string;
+}
+
+const TIMELOCK_ABI = ["function upgradeDelay() view returns (uint256)"];
+
+/**
+ * Upgrade delay of a proxy whose implementation timelocks upgrades (BalboaTokenV5+)
+ * @returns The delay in seconds, or undefined when upgrades take effect immediately
+ */
+export async function upgradeDelay(provider: Provider, proxy: string): Promise<bigint | undefined> {
+  try {
+    return await new Contract(proxy, TIMELOCK_ABI, provider).upgradeDelay();
+  } catch (e) {
+    // Earlier implementations revert on the unknown selector; an address without code returns no data
+    if (isRevert(e) || isError(e, "BAD_DATA")) return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Whether a call failed because the contract reverted, as opposed to the
+ * provider or the connection failing
+ */
+function isRevert(error: unknown): boolean {
+  if (isError(error, "CALL_EXCEPTION")) return true;
+  // Hardhat's in-process network throws its own error, carrying the revert data
+  return typeof error === "object" && error !== null && "data" in error && typeof error.data === "string";
+}
+
+/**
+ * Refuse to send an upgrade directly to a timelocked proxy, where it would revert
+ */
+export async function assertNotTimelocked(provider: Provider, proxy: string): Promise<void> {
+  const delay = await upgradeDelay(provider, proxy);
+  if (delay !== undefined) {
+    throw new Error(
+      `Proxy ${proxy} timelocks upgrades (${delay}s delay); use balboa:timelock:schedule and balboa:timelock:execute`
+    );
+  }
+}
+
+/**
+ * Check storage layout and UUPS compatibility of `implementation` against the proxy
+ *
+ * Proxies deployed outside this checkout are missing from the local upgrades
+ * manifest; they are imported first, as the contract the deployment record
+ * names for the current implementation (BalboaToken when there is none).
+ */
+export async function validateUpgradeSafety(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  implementation: ContractFactory
+): Promise<void> {
+  const { ethers, upgrades } = hre;
+  try {
+    await upgrades.validateUpgrade(proxy, implementation);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (!message.toLowerCase().includes("forceimport") && !message.toLowerCase().includes("not registered")) {
+      throw e;
+    }
+    console.log("⚠️  Proxy not registered in local upgrades manifest; importing...");
+    const CurrentImplementation = await ethers.getContractFactory(
+      await currentImplementationContract(hre, proxy)
+    );
+    await upgrades.forceImport(proxy, CurrentImplementation, { kind: "uups" });
+    console.log("✓ Proxy imported");
+    await upgrades.validateUpgrade(proxy, implementation);
+  }
+  console.log("✓ Upgrade compatibility check passed");
+}
+
+/**
+ * Contract name of the implementation a proxy points to, from the deployment record
+ */
+export async function currentImplementationContract(hre: HardhatRuntimeEnvironment, proxy: string): Promise<string> {
+  const record = loadDeploymentRecord(hre.network.name);
+  const implementation = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+  const recorded = record?.proxy?.address.toLowerCase() === proxy.toLowerCase()
+    ? record.implementations.find((entry) => entry.address.toLowerCase() === implementation.toLowerCase())
+    : undefined;
+  return recorded?.contract ?? "BalboaToken";
+}
+
+/**
+ * Every implementation a proxy has pointed to, oldest first
+ *
+ * Read from the proxy's Upgraded events (through the event index), so upgrades
+ * sent from elsewhere are included; contract names come from the deployment
+ * record where it has them.
+ */
+export async function implementationHistory(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string
+): Promise<HistoricalImplementation[]> {
+  const record = loadDeploymentRecord(hre.network.name);
+  const tracked = record?.proxy?.address.toLowerCase() === proxy.toLowerCase();
+  const index = await syncTokenIndex(hre, proxy);
+
+  return queryEvents(index, { address: proxy, event: "Upgraded" }).map((event) => {
+    const address = event.args.implementation;
+    const named = tracked ? record?.implementations.find((entry) => getAddress(entry.address) === address) : undefined;
+    return { address, contract: named?.contract, blockNumber: event.blockNumber, txHash: event.txHash };
+  });
+}
+
+/**
+ * Reinitializer to run with the upgrade, deriving default arguments when none are given
+ * @param knownHolders Role holders by role constant, checked even if no RoleGranted event is found
+ * @param index Synced event index of the token, where role holders are looked up
+ */
+export async function resolveInitializerCall(
+  token: BalboaToken,
+  fn: string | undefined,
+  args: unknown[] | undefined,
+  knownHolders: Record<string, string[]> = {},
+  index?: EventIndex
+): Promise<InitializerCall | undefined> {
+  if (!fn) return undefined;
+
+  const call = { fn, args: args ?? (await defaultInitializerArgs(token, fn, knownHolders, index)) };
+  const formatted = call.args.map((arg) => (Array.isArray(arg) ? `[${arg.join(", ")}]` : String(arg)));
+  console.log(`\nReinitializer: ${call.fn}(${formatted.join(", ")})`);
+  return call;
+}
+
+/**
+ * Arguments for reinitializers that can be derived from on-chain state and configuration
+ */
+async function defaultInitializerArgs(
+  token: BalboaToken,
+  fn: string,
+  knownHolders: Record<string, string[]>,
+  index: EventIndex | undefined
+): Promise<unknown[]> {
+  switch (fn) {
+    case "initializeV3":
+      return roleHolderArgs(token, knownHolders, index);
+    case "initializeV4":
+      return [...(await roleHolderArgs(token, knownHolders, index)), resolveSupplyCap(undefined)];
+    case "initializeV5":
+      return [...(await roleHolderArgs(token, knownHolders, index)), resolveUpgradeDelay(undefined)];
+    case "initializeV7": {
+      // 0 keeps the delay of a proxy that already ran initializeV5
+      const provider = token.runner?.provider;
+      if (!provider) throw new Error("Token is not connected to a provider");
+      const current = await upgradeDelay(provider, await token.getAddress());
+      return [
+        ...(await roleHolderArgs(token, knownHolders, index)),
+        current ? 0n : resolveUpgradeDelay(undefined),
+        resolveAddress(undefined, "RECOVERY_ADDRESS"),
+      ];
+    }
+    default:
+      throw new Error(`No default arguments for ${fn}; pass them with --args`);
+  }
+}
+
+/**
+ * Every role and every account that currently holds one of them
+ */
+async function roleHolderArgs(
+  token: BalboaToken,
+  knownHolders: Record<string, string[]>,
+  index: EventIndex | undefined
+): Promise<[string[], string[]]> {
+  const roles = allRoles();
+  const accounts = new Set<string>();
+  for (const role of roles) {
+    for (const holder of await findRoleHolders(token, role.hash, 0, knownHolders[role.constant], index)) {
+      accounts.add(holder);
+    }
+  }
+  return [roles.map((role) => role.hash), [...accounts]];
+}
@@ -1,47 +1,51 @@
-import { ethers } from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveSupplyCap, resolveTokenAdmin, resolveUpgradeDelay } from "../lib/config";
+import { computeDeterministicPlan } from "../lib/deterministic";
+import { describeError } from "../lib/errors";
+import { deploymentRecordPath, loadDeploymentRecord, resolveFactoryAddress } from "../lib/records";
 
 /**
  * Find the correct proxy address from deployment
- * 
- * This script calculates where your proxy should be deployed
- * based on the factory and salts used in deploy_deterministic.ts
- * 
+ *
+ * This task calculates where your proxy should be deployed
+ * based on the factory and salts used by balboa:deploy
+ *
  * Usage:
- *   npx hardhat run scripts/find_proxy.ts --network sepolia
+ *   npx hardhat balboa:proxy:find --network sepolia
+ *
+ * Optional:
+ *   --factory 0x...   Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)
+ *   --admin 0x...     Admin passed to initialize (defaults to TOKEN_ADMIN, then the configured signer)
+ *   --cap <amount>    Supply cap passed to initialize (defaults to SUPPLY_CAP)
+ *   --delay <seconds> Upgrade delay passed to initialize (defaults to UPGRADE_DELAY, then 48 hours)
+ *   --token 0x...     Address to compare against (defaults to the deployment record, then TOKEN_ADDRESS)
  */
 
-const SALT_IMPL = ethers.keccak256(ethers.toUtf8Bytes("BALBOA_IMPL_V1"));
-const SALT_PROXY = ethers.keccak256(ethers.toUtf8Bytes("BALBOA_PROXY_V1"));
+export interface FindProxyArgs {
+  factory?: string;
+  admin?: string;
+  cap?: bigint;
+  delay?: bigint;
+  token?: string;
+}
 
-async function main() {
+export async function findProxy(hre: HardhatRuntimeEnvironment, args: FindProxyArgs): Promise<string> {
+  const { ethers } = hre;
   const [deployer] = await ethers.getSigners();
-  const FACTORY = process.env.FACTORY_ADDRESS;
-
-  if (!FACTORY) {
-    throw new Error("FACTORY_ADDRESS not set in .env");
-  }
+  const FACTORY = resolveFactoryAddress(hre, args.factory);
+  const admin = resolveTokenAdmin(args.admin) ?? deployer.address;
+  const cap = resolveSupplyCap(args.cap);
+  const delay = resolveUpgradeDelay(args.delay);
 
   console.log("═══════════════════════════════════════════════════════════");
   console.log("           Finding Your Proxy Address");
   console.log("═══════════════════════════════════════════════════════════");
   console.log("\nFactory:", FACTORY);
-  console.log("Deployer:", deployer.address);
+  console.log("Admin:", admin);
 
-  // Get implementation bytecode
-  const Impl = await ethers.getContractFactory("BalboaToken");
-  const implCreation = Impl.bytecode;
-  const implBytecodeHash = ethers.keccak256(implCreation);
-  const implAddr = ethers.getCreate2Address(FACTORY, SALT_IMPL, implBytecodeHash);
+  const { implAddr, proxyAddr } = await computeDeterministicPlan(hre, FACTORY, admin, cap, delay);
 
   console.log("\n📍 Implementation Address:", implAddr);
-
-  // Get proxy bytecode
-  const initData = Impl.interface.encodeFunctionData("initialize", [deployer.address]);
-  const Proxy = await ethers.getContractFactory("ERC1967Proxy");
-  const proxyCreation = Proxy.bytecode + Proxy.interface.encodeDeploy([implAddr, initData]).slice(2);
-  const proxyBytecodeHash = ethers.keccak256(proxyCreation);
-  const proxyAddr = ethers.getCreate2Address(FACTORY, SALT_PROXY, proxyBytecodeHash);
-
   console.log("📍 Proxy Address (YOUR TOKEN):", proxyAddr);
 
   // Check if they exist on-chain
@@ -58,50 +62,51 @@ async function main() {
     try {
       const name = await token.name();
       const symbol = await token.symbol();
-      const hasRole = await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), deployer.address);
-      
+      const hasRole = await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), admin);
+
       console.log("\n📝 Token Info:");
       console.log("Name:  ", name);
       console.log("Symbol:", symbol);
-      console.log("\n🔐 Your Role Status:");
-      console.log(hasRole ? "✅ You have DEFAULT_ADMIN_ROLE" : "❌ You DON'T have DEFAULT_ADMIN_ROLE");
-      
+      console.log("\n🔐 Admin Role Status:");
+      console.log(hasRole ? "✅ Admin has DEFAULT_ADMIN_ROLE" : "❌ Admin DOESN'T have DEFAULT_ADMIN_ROLE");
+
       if (hasRole) {
         console.log("\n🎉 SUCCESS! This is the correct proxy address.");
-        console.log("\n📝 Update your .env:");
-        console.log(`TOKEN_ADDRESS=${proxyAddr}`);
+        if (loadDeploymentRecord(hre.network.name)?.proxy?.address !== proxyAddr) {
+          console.log(`\n📝 Not in ${deploymentRecordPath(hre.network.name)}; set TOKEN_ADDRESS=${proxyAddr} or pass --token`);
+        }
       } else {
-        console.log("\n⚠️  Proxy deployed but you don't have admin role.");
-        console.log("This might mean someone else deployed it or initialization failed.");
+        console.log("\n⚠️  Proxy deployed but the admin doesn't have admin role.");
+        console.log("This might mean the role was transferred or initialization failed.");
       }
-    } catch (error: any) {
-      console.log("\n❌ Error reading token:", error.message);
+    } catch (error) {
+      console.log("\n❌ Error reading token:", describeError(error));
     }
   } else {
     console.log("\n❌ Proxy not deployed yet!");
-    console.log("Run: pnpm hardhat run scripts/deploy_deterministic.ts --network sepolia");
+    console.log("Run: pnpm hardhat balboa:deploy --network <network>");
   }
 
-  // Check what's at the address in .env
-  const envTokenAddress = process.env.TOKEN_ADDRESS;
-  if (envTokenAddress && envTokenAddress !== proxyAddr) {
-    console.log("\n⚠️  WARNING: Your .env has a different address!");
-    console.log("Current TOKEN_ADDRESS:", envTokenAddress);
-    console.log("Expected PROXY:      ", proxyAddr);
-    
-    const envCode = await ethers.provider.getCode(envTokenAddress);
+  // Check what's at the configured token address
+  const configuredToken = args.token ?? loadDeploymentRecord(hre.network.name)?.proxy?.address ?? process.env.TOKEN_ADDRESS;
+  if (configuredToken && configuredToken !== proxyAddr) {
+    console.log("\n⚠️  WARNING: Your configured token address is different!");
+    console.log("Configured token:", configuredToken);
+    console.log("Expected proxy:  ", proxyAddr);
+
+    const envCode = await ethers.provider.getCode(configuredToken);
     if (envCode !== "0x") {
       try {
-        const token = await ethers.getContractAt("BalboaToken", envTokenAddress);
+        const token = await ethers.getContractAt("BalboaToken", configuredToken);
         const name = await token.name();
-        console.log("\nToken at .env address name:", name || "(empty - likely implementation)");
-        
+        console.log("\nToken at configured address name:", name || "(empty - likely implementation)");
+
         if (!name) {
           console.log("❌ This is the IMPLEMENTATION, not the PROXY!");
-          console.log(`\n✅ SOLUTION: Update TOKEN_ADDRESS to ${proxyAddr}`);
+          console.log(`\n✅ SOLUTION: Use ${proxyAddr} as the token address`);
         }
-      } catch (e) {
-        console.log("Cannot read token at .env address");
+      } catch {
+        console.log("Cannot read token at configured address");
       }
     }
   }
@@ -110,9 +115,6 @@ async function main() {
   console.log("Etherscan Links:");
   console.log(`Implementation: https://sepolia.etherscan.io/address/${implAddr}`);
   console.log(`Proxy (Token):  https://sepolia.etherscan.io/address/${proxyAddr}`);
-}
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
+  return proxyAddr;
+}
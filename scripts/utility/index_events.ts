@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { EventIndex, eventIndexPath, queryEvents, syncTokenIndex } from "../lib/indexer";
+import { resolveTokenAddress } from "../lib/records";
+
+/**
+ * Sync the local event index for the token and its factory
+ *
+ * Pulls role, blacklist, mint/burn, pause, upgrade and factory deployment
+ * events since the last checkpoint into deployments/index/<network>.json.
+ * balboa:roles:check, balboa:roles:plan/apply, balboa:roles:audit and
+ * balboa:rollback read events from this index instead of querying every block.
+ *
+ * Usage:
+ *   npx hardhat balboa:index --network sepolia
+ *
+ * Optional:
+ *   --token 0x...        Proxy address (defaults to the deployment record, then TOKEN_ADDRESS)
+ *   --block-range <n>    Blocks per eth_getLogs request (default 2000, halved while the provider rejects it)
+ *   --reset              Delete the index and re-sync from the deployment block
+ */
+
+export interface IndexEventsArgs {
+  token?: string;
+  blockRange?: number;
+  reset: boolean;
+}
+
+export async function indexEvents(hre: HardhatRuntimeEnvironment, args: IndexEventsArgs): Promise<EventIndex> {
+  const tokenAddress = resolveTokenAddress(hre, args.token);
+  const file = eventIndexPath(hre.network.name);
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Event Index");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nNetwork:", hre.network.name);
+  console.log("Token address:", tokenAddress);
+  console.log("Index:", file);
+
+  if (args.reset && fs.existsSync(file)) {
+    fs.rmSync(file);
+    console.log("\n🗑️  Deleted the existing index");
+  }
+
+  console.log("\n🔎 Syncing events...");
+  const index = await syncTokenIndex(hre, tokenAddress, args.blockRange);
+
+  for (const [address, contract] of Object.entries(index.contracts)) {
+    console.log(`\n${contract.kind === "token" ? "Token" : "Factory"} ${address}`);
+    console.log(`  Blocks: ${contract.fromBlock} - ${contract.checkpoint?.blockNumber ?? "not synced"}`);
+    const counts = new Map<string, number>();
+    for (const event of queryEvents(index, { address })) {
+      counts.set(event.event, (counts.get(event.event) ?? 0) + 1);
+    }
+    if (counts.size === 0) console.log("  No events");
+    for (const [event, count] of counts) {
+      console.log(`  ${event}: ${count}`);
+    }
+  }
+
+  console.log(`\n✅ ${index.events.length} event(s) indexed`);
+  return index;
+}
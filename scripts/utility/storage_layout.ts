@@ -0,0 +1,95 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  STORAGE_LAYOUT_DIR,
+  StorageLayoutSnapshot,
+  compareStorageLayouts,
+  loadStorageLayout,
+  readStorageLayout,
+  saveStorageLayout,
+  storageLayoutPath,
+  tokenVersions,
+} from "../lib/storage";
+
+/**
+ * Export and check the storage layout of every BalboaToken version
+ *
+ * balboa:storage:export writes one snapshot per version to storage-layouts/,
+ * to be committed alongside the contract. balboa:storage:check fails when a
+ * snapshot is missing or stale, or when a version changes the storage of the
+ * one before it unsafely (reordered or retyped variables, a `__gap` that no
+ * longer ends at the same slot). Both read the compiler output only and need
+ * no network.
+ *
+ * Usage:
+ *   npx hardhat balboa:storage:export
+ *   npx hardhat balboa:storage:check
+ *
+ * Optional:
+ *   --dir <path>      Snapshot directory (defaults to storage-layouts)
+ */
+
+export interface StorageLayoutArgs {
+  dir?: string;
+}
+
+export async function exportStorageLayouts(hre: HardhatRuntimeEnvironment, args: StorageLayoutArgs): Promise<string[]> {
+  const dir = args.dir ?? STORAGE_LAYOUT_DIR;
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Exporting Storage Layouts");
+  console.log("═══════════════════════════════════════════════════════════");
+
+  const files: string[] = [];
+  for (const contract of await tokenVersions(hre)) {
+    const snapshot = await readStorageLayout(hre, contract);
+    files.push(saveStorageLayout(snapshot, dir));
+    console.log(`\n✅ ${contract}: ${snapshot.storage.length} variables -> ${storageLayoutPath(contract, dir)}`);
+  }
+  return files;
+}
+
+export async function checkStorageLayouts(hre: HardhatRuntimeEnvironment, args: StorageLayoutArgs): Promise<void> {
+  const dir = args.dir ?? STORAGE_LAYOUT_DIR;
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("           Checking Storage Layouts");
+  console.log("═══════════════════════════════════════════════════════════");
+
+  const failures: string[] = [];
+  let previous: StorageLayoutSnapshot | undefined;
+
+  for (const contract of await tokenVersions(hre)) {
+    const current = await readStorageLayout(hre, contract);
+    const issues: string[] = [];
+
+    const snapshot = loadStorageLayout(contract, dir);
+    if (!snapshot) {
+      issues.push(`no snapshot at ${storageLayoutPath(contract, dir)}`);
+    } else {
+      for (const issue of compareStorageLayouts(snapshot.storage, current.storage)) {
+        issues.push(`against its snapshot: ${issue}`);
+      }
+      if (issues.length === 0 && JSON.stringify(snapshot.storage) !== JSON.stringify(current.storage)) {
+        issues.push(`snapshot ${storageLayoutPath(contract, dir)} is stale`);
+      }
+    }
+    if (previous) {
+      for (const issue of compareStorageLayouts(previous.storage, current.storage)) {
+        issues.push(`against ${previous.contract}: ${issue}`);
+      }
+    }
+
+    console.log(`\n${issues.length === 0 ? "✅" : "❌"} ${contract}`);
+    for (const issue of issues) console.log(`   ${issue}`);
+    failures.push(...issues.map((issue) => `${contract} ${issue}`));
+    previous = current;
+  }
+
+  if (failures.length > 0) {
+    throw new Error(
+      `Storage layout check failed:\n  ${failures.join("\n  ")}\n` +
+        "Fix the layout, or run balboa:storage:export if the change is intended"
+    );
+  }
+  console.log("\n✅ Storage layouts are compatible");
+}
@@ -0,0 +1,258 @@
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { PLUGIN_NAME } from "../../tasks/types";
+import { describeError } from "../lib/errors";
+import { CompilerSettings, DeploymentRecord, deploymentRecordPath, loadDeploymentRecord } from "../lib/records";
+
+/**
+ * Verify recorded contracts on the block explorer
+ *
+ * Reads deployments/<network>.json and verifies the factory, every
+ * implementation in the history and the ERC1967 proxy through hardhat-verify
+ * (`verify:verify`), so Etherscan and, when enabled in hardhat.config.ts,
+ * Sourcify are covered. Constructor arguments are rebuilt from the record
+ * (the proxy's first implementation and init calldata); for CREATE2
+ * deployments they are checked to reproduce the recorded address before
+ * anything is submitted. A submission still queued at the explorer after
+ * `--status-timeout` seconds is reported as pending; running the command again
+ * later picks it up as already verified.
+ *
+ * Usage:
+ *   npx hardhat balboa:verify --network mainnet
+ *   ./verify.sh mainnet base polygon
+ *
+ * Optional:
+ *   --status-timeout <s>   How long to poll a queued submission (default 120)
+ */
+
+export type VerificationStatus = "verified" | "already-verified" | "pending" | "failed";
+
+/** Seconds a submission may stay in the explorer's queue before it is reported as pending */
+export const DEFAULT_STATUS_TIMEOUT = 120;
+
+export interface VerifyArgs {
+  statusTimeout?: number;
+}
+
+export interface ContractVerification {
+  network: string;
+  name: string;
+  contract: string;
+  address: string;
+  status: VerificationStatus;
+  message?: string;
+  /** Explorer page of the contract, when Etherscan verification is enabled */
+  url?: string;
+}
+
+const PENDING_MESSAGE = "Still pending in the explorer's queue";
+
+/** Etherscan still reports "Pending in queue" for a submission */
+class VerificationPendingError extends Error {
+  constructor(readonly guid: string) {
+    super(`${PENDING_MESSAGE} (GUID ${guid})`);
+  }
+}
+
+interface VerificationTarget {
+  name: string;
+  contract: string;
+  address: string;
+  constructorArguments: unknown[];
+  salt?: string;
+  compiler?: CompilerSettings;
+}
+
+export async function verifyDeployments(
+  hre: HardhatRuntimeEnvironment,
+  args: VerifyArgs = {}
+): Promise<ContractVerification[]> {
+  const network = hre.network.name;
+
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("              Contract Verification");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("\nNetwork:", network);
+
+  const record = loadDeploymentRecord(network);
+  if (!record) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `No deployment record for ${network} at ${deploymentRecordPath(network)}`
+    );
+  }
+  const etherscan = hre.config.etherscan.enabled ? await connectEtherscan(hre) : undefined;
+
+  const results: ContractVerification[] = [];
+  await withStatusTimeout(args.statusTimeout ?? DEFAULT_STATUS_TIMEOUT, async () => {
+    for (const target of verificationTargets(record)) {
+      const result = await verifyTarget(hre, record, etherscan, target);
+      console.log(`  ${result.name}: ${result.status}${result.message ? ` (${result.message})` : ""}`);
+      results.push(result);
+    }
+  });
+
+  console.log("");
+  console.table(results.map(({ name, address, status, url }) => ({ name, address, status, url })));
+
+  const failed = results.filter((result) => result.status === "failed");
+  if (failed.length > 0) {
+    throw new Error(
+      `Verification failed:\n  ${failed.map((result) => `${result.network} ${result.name} ${result.address}: ${result.message}`).join("\n  ")}`
+    );
+  }
+  const pending = results.filter((result) => result.status === "pending");
+  if (pending.length > 0) {
+    console.log(`\n⏳ ${pending.length} still queued at the explorer; run balboa:verify again later`);
+    return results;
+  }
+  console.log("\n✅ Verification complete");
+  return results;
+}
+
+/**
+ * Run `action` with hardhat-verify's status polling bounded to `seconds` per submission
+ *
+ * Etherscan#getVerificationStatus sleeps and calls itself for as long as the
+ * explorer answers "Pending in queue", so every poll goes through the
+ * prototype, including the ones hardhat-upgrades makes for proxies.
+ */
+async function withStatusTimeout<T>(seconds: number, action: () => Promise<T>): Promise<T> {
+  const poll = Etherscan.prototype.getVerificationStatus;
+  const deadlines = new Map<string, number>();
+  Etherscan.prototype.getVerificationStatus = function (this: Etherscan, guid: string) {
+    const deadline = deadlines.get(guid) ?? Date.now() + seconds * 1000;
+    deadlines.set(guid, deadline);
+    if (Date.now() >= deadline) return Promise.reject(new VerificationPendingError(guid));
+    return poll.call(this, guid);
+  };
+  try {
+    return await action();
+  } finally {
+    Etherscan.prototype.getVerificationStatus = poll;
+  }
+}
+
+/**
+ * hardhat-verify's Etherscan client for the connected chain, from the `etherscan` section of hardhat.config.ts
+ */
+async function connectEtherscan(hre: HardhatRuntimeEnvironment): Promise<Etherscan> {
+  const { apiKey, customChains } = hre.config.etherscan;
+  if (!apiKey || (typeof apiKey !== "string" && !apiKey[hre.network.name])) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      "Missing ETHERSCAN_API_KEY; get one from https://etherscan.io/myapikey and add it to .env"
+    );
+  }
+
+  const chain = await Etherscan.getCurrentChainConfig(hre.network.name, hre.network.provider, customChains);
+  return Etherscan.fromChainConfig(apiKey, chain);
+}
+
+/**
+ * Factory, implementation history and proxy, with constructor arguments rebuilt from the record
+ */
+function verificationTargets(record: DeploymentRecord): VerificationTarget[] {
+  const targets: VerificationTarget[] = [];
+
+  if (record.factory) {
+    const { contract, address, owner, compiler } = record.factory;
+    targets.push({ name: "factory", contract, address, constructorArguments: [owner], compiler });
+  }
+
+  const seen = new Set<string>();
+  for (const [i, implementation] of record.implementations.entries()) {
+    const { contract, address, salt, compiler } = implementation;
+    if (seen.has(address)) continue;
+    seen.add(address);
+    targets.push({ name: `implementation #${i + 1}`, contract, address, constructorArguments: [], salt, compiler });
+  }
+
+  if (record.proxy) {
+    const { contract, address, salt, initData, compiler } = record.proxy;
+    const implementation = record.implementations[0]?.address;
+    targets.push({
+      name: "proxy",
+      contract,
+      address,
+      // ERC1967Proxy(implementation, data): the implementation it was deployed with, not the current one
+      constructorArguments: implementation && initData ? [implementation, initData] : [],
+      salt,
+      compiler,
+    });
+  }
+  return targets;
+}
+
+async function verifyTarget(
+  hre: HardhatRuntimeEnvironment,
+  record: DeploymentRecord,
+  etherscan: Etherscan | undefined,
+  target: VerificationTarget
+): Promise<ContractVerification> {
+  const result: ContractVerification = {
+    network: record.network,
+    name: target.name,
+    contract: target.contract,
+    address: target.address,
+    status: "failed",
+    url: etherscan?.getContractUrl(target.address),
+  };
+
+  try {
+    const contract = await checkReproducible(hre, record, target);
+    const alreadyVerified = (await etherscan?.isVerified(target.address)) ?? false;
+    await hre.run("verify:verify", {
+      address: target.address,
+      constructorArguments: target.constructorArguments,
+      contract,
+    });
+    return { ...result, status: alreadyVerified ? "already-verified" : "verified" };
+  } catch (error) {
+    const message = describeError(error);
+    // hardhat-upgrades reports the proxy's failures as one message, so the error itself may be gone
+    const pending = error instanceof VerificationPendingError || message.includes(PENDING_MESSAGE);
+    return { ...result, status: pending ? "pending" : "failed", message };
+  }
+}
+
+/**
+ * Fully qualified name of the target's contract, once the current build is known to reproduce the record
+ *
+ * Fails on a different compiler, missing constructor data, or (for CREATE2
+ * deployments) creation code that no longer hashes to the recorded address.
+ */
+async function checkReproducible(
+  hre: HardhatRuntimeEnvironment,
+  record: DeploymentRecord,
+  target: VerificationTarget
+): Promise<string> {
+  const { ethers } = hre;
+  const artifact = await hre.artifacts.readArtifact(target.contract);
+  const contractName = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await hre.artifacts.getBuildInfo(contractName);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${target.contract}; run \`hardhat compile\``);
+  }
+  if (target.compiler && target.compiler.version !== buildInfo.solcLongVersion) {
+    throw new Error(
+      `Recorded compiler ${target.compiler.version} differs from the current build (${buildInfo.solcLongVersion})`
+    );
+  }
+
+  const iface = new ethers.Interface(artifact.abi);
+  if (iface.deploy.inputs.length !== target.constructorArguments.length) {
+    throw new Error(`Record has no constructor arguments for ${target.contract}`);
+  }
+
+  if (target.salt && record.factory) {
+    const encodedArgs = iface.encodeDeploy(target.constructorArguments);
+    const initCodeHash = ethers.keccak256(ethers.concat([artifact.bytecode, encodedArgs]));
+    const expected = ethers.getCreate2Address(record.factory.address, target.salt, initCodeHash);
+    if (expected !== target.address) {
+      throw new Error(`Current build and recorded constructor arguments give ${expected}, not ${target.address}`);
+    }
+  }
+  return contractName;
+}
@@ -0,0 +1,41 @@
+import { getAddress } from "ethers";
+import mainnet from "../deployments/mainnet.json";
+import type { DeploymentRecord } from "../scripts/lib/records";
+
+/**
+ * Token deployments known to this release, from the committed deployment records
+ *
+ * Add a network by importing its `deployments/<network>.json` here.
+ */
+
+export interface KnownDeployment {
+  network: string;
+  chainId: bigint;
+  /** Token proxy: the address integrators use */
+  token: string;
+  /** Contract the current implementation was deployed from */
+  contract: string;
+  factory?: string;
+}
+
+export const KNOWN_DEPLOYMENTS: readonly KnownDeployment[] = [mainnet as DeploymentRecord].map(fromRecord);
+
+/**
+ * The known deployment on a chain, if any
+ */
+export function knownDeployment(chainId: bigint | number): KnownDeployment | undefined {
+  return KNOWN_DEPLOYMENTS.find((deployment) => deployment.chainId === BigInt(chainId));
+}
+
+function fromRecord(record: DeploymentRecord): KnownDeployment {
+  if (!record.proxy) {
+    throw new Error(`Deployment record for ${record.network} has no proxy`);
+  }
+  return {
+    network: record.network,
+    chainId: BigInt(record.chainId),
+    token: getAddress(record.proxy.address),
+    contract: record.implementations[record.implementations.length - 1]?.contract ?? "BalboaToken",
+    factory: record.factory && getAddress(record.factory.address),
+  };
+}
@@ -0,0 +1,172 @@
+import type { BigNumberish, ContractRunner, ContractTransactionResponse } from "ethers";
+import { BalboaTokenV7__factory } from "../typechain-types";
+import type { BalboaTokenV7 } from "../typechain-types";
+import { RoleName, roleHash } from "../scripts/lib/roles";
+import { knownDeployment } from "./addresses";
+import { decodeBalboaError } from "./errors";
+
+/** ERC165 interface id of IAccessControlEnumerable */
+export const ACCESS_CONTROL_ENUMERABLE_ID = "0x5a05180f";
+
+/**
+ * Client for a BalboaToken proxy, built on ethers and the generated contract types
+ *
+ * Calls go through the ABI of the latest version; functions a deployed
+ * implementation does not have yet (e.g. `cap` before V4) revert. Failed
+ * calls and transactions throw a {@link BalboaError} when the revert is one
+ * of the token's custom errors.
+ *
+ * ```ts
+ * const client = await BalboaClient.connect(wallet);
+ * await (await client.mint(recipient, parseUnits("100", 18))).wait();
+ * ```
+ */
+export class BalboaClient {
+  readonly address: string;
+  /** Typed contract, for anything the client does not wrap */
+  readonly token: BalboaTokenV7;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.token = BalboaTokenV7__factory.connect(address, runner);
+  }
+
+  /**
+   * Connect to the known deployment on the runner's chain, or to `address`
+   */
+  static async connect(runner: ContractRunner, address?: string): Promise<BalboaClient> {
+    if (address) return new BalboaClient(address, runner);
+
+    const provider = runner.provider;
+    if (!provider) throw new Error("Runner is not connected to a provider");
+    const { chainId } = await provider.getNetwork();
+    const deployment = knownDeployment(chainId);
+    if (!deployment) {
+      throw new Error(`No known BalboaToken deployment on chain ${chainId}; pass the token address`);
+    }
+    return new BalboaClient(deployment.token, runner);
+  }
+
+  // Token state
+
+  name(): Promise<string> {
+    return this.#call(() => this.token.name());
+  }
+
+  symbol(): Promise<string> {
+    return this.#call(() => this.token.symbol());
+  }
+
+  decimals(): Promise<bigint> {
+    return this.#call(() => this.token.decimals());
+  }
+
+  totalSupply(): Promise<bigint> {
+    return this.#call(() => this.token.totalSupply());
+  }
+
+  balanceOf(account: string): Promise<bigint> {
+    return this.#call(() => this.token.balanceOf(account));
+  }
+
+  paused(): Promise<boolean> {
+    return this.#call(() => this.token.paused());
+  }
+
+  isBlacklisted(account: string): Promise<boolean> {
+    return this.#call(() => this.token.isBlacklisted(account));
+  }
+
+  /** Account that receives seized balances (V7+) */
+  recoveryAddress(): Promise<string> {
+    return this.#call(() => this.token.recoveryAddress());
+  }
+
+  // Roles
+
+  hasRole(role: RoleName, account: string): Promise<boolean> {
+    return this.#call(() => this.token.hasRole(roleHash(role), account));
+  }
+
+  /**
+   * Holders of a role; needs role enumeration (BalboaTokenV3+)
+   */
+  async roleMembers(role: RoleName): Promise<string[]> {
+    if (!(await this.supportsRoleEnumeration())) {
+      throw new Error(`Token ${this.address} does not enumerate role members (BalboaTokenV3+)`);
+    }
+    return this.#call(() => this.token.getRoleMembers(roleHash(role)));
+  }
+
+  async supportsRoleEnumeration(): Promise<boolean> {
+    try {
+      return await this.token.supportsInterface(ACCESS_CONTROL_ENUMERABLE_ID);
+    } catch {
+      return false;
+    }
+  }
+
+  // Transactions (resolve once sent; call `wait()` on the result for the receipt)
+
+  mint(to: string, amount: BigNumberish): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.mint(to, amount));
+  }
+
+  burn(from: string, amount: BigNumberish): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.burn(from, amount));
+  }
+
+  burnSelf(amount: BigNumberish): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.burnSelf(amount));
+  }
+
+  pause(): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.pause());
+  }
+
+  unpause(): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.unpause());
+  }
+
+  blacklist(account: string): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.blacklist(account));
+  }
+
+  unBlacklist(account: string): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.unBlacklist(account));
+  }
+
+  /** Blacklist several accounts, with a reason hash per account or none (V6+) */
+  blacklistBatch(accounts: string[], reasons: string[] = []): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.blacklistBatch(accounts, reasons));
+  }
+
+  /** Lift the blacklist for several accounts, with a reason hash per account or none (V6+) */
+  unBlacklistBatch(accounts: string[], reasons: string[] = []): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.unBlacklistBatch(accounts, reasons));
+  }
+
+  /** Move a blacklisted account's whole balance to the recovery address (V7+) */
+  seize(account: string): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.seize(account));
+  }
+
+  grantRole(role: RoleName, account: string): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.grantRole(roleHash(role), account));
+  }
+
+  revokeRole(role: RoleName, account: string): Promise<ContractTransactionResponse> {
+    return this.#call(() => this.token.revokeRole(roleHash(role), account));
+  }
+
+  /**
+   * Run a contract call, rethrowing custom errors decoded
+   */
+  async #call<T>(run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      throw decodeBalboaError(error) ?? error;
+    }
+  }
+}
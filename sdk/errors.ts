@@ -0,0 +1,82 @@
+import { ErrorDescription, ErrorFragment, Interface, isHexString } from "ethers";
+import { BalboaTokenV7__factory, Create2Factory__factory } from "../typechain-types";
+
+/**
+ * Custom errors raised by BalboaToken and the Create2Factory
+ *
+ * The latest token ABI declares the errors of every earlier version and of
+ * the OpenZeppelin base contracts (AccessControlUnauthorizedAccount,
+ * EnforcedPause, ERC20InsufficientBalance, ...), so one interface decodes
+ * reverts from any deployed version. The factory adds its deployment errors
+ * (ContractAlreadyDeployed, EmptyBytecode, ...).
+ */
+
+const ERRORS_INTERFACE = new Interface(
+  [...BalboaTokenV7__factory.abi, ...Create2Factory__factory.abi]
+    .filter((fragment) => fragment.type === "error")
+    .map((fragment) => ErrorFragment.from(fragment).format("full"))
+    .filter((signature, index, all) => all.indexOf(signature) === index)
+);
+
+export class BalboaError extends Error {
+  /** Solidity error name, e.g. AccountBlacklisted */
+  readonly errorName: string;
+  /** Decoded arguments in declaration order */
+  readonly args: unknown[];
+  /** Raw revert data */
+  readonly data: string;
+  /** The ethers error the revert was decoded from */
+  readonly cause?: unknown;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    const args = description.args.toArray();
+    super(`${description.name}(${args.map(String).join(", ")})`);
+    this.name = "BalboaError";
+    this.errorName = description.name;
+    this.args = args;
+    this.data = data;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Decode the custom error behind a failed call or transaction
+ * @returns The decoded error, or undefined when the revert is not a BalboaToken or factory error
+ */
+export function decodeBalboaError(error: unknown): BalboaError | undefined {
+  const data = revertData(error);
+  if (!data) return undefined;
+
+  let description: ErrorDescription | null;
+  try {
+    description = ERRORS_INTERFACE.parseError(data);
+  } catch {
+    return undefined;
+  }
+  // Error(string) and Panic(uint256) are not custom errors
+  if (!description || description.name === "Error" || description.name === "Panic") return undefined;
+  return new BalboaError(description, data, error);
+}
+
+/** Fields of ethers and provider errors that can carry or wrap revert data */
+interface WrappedError {
+  data?: unknown;
+  info?: { error?: unknown };
+  error?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Revert data from an ethers error, or from the provider error it wraps
+ */
+function revertData(error: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  let current = error;
+  while (current && typeof current === "object" && !seen.has(current)) {
+    seen.add(current);
+    const { data, info, error: wrapped, cause } = current as WrappedError;
+    if (isHexString(data) && data.length >= 10) return data;
+    current = info?.error ?? wrapped ?? cause;
+  }
+  return undefined;
+}
@@ -0,0 +1,10 @@
+/**
+ * BalboaToken client for integrators
+ *
+ * Depends on ethers and the generated contract types only; nothing here
+ * loads the Hardhat runtime.
+ */
+export { KNOWN_DEPLOYMENTS, KnownDeployment, knownDeployment } from "./addresses";
+export { ACCESS_CONTROL_ENUMERABLE_ID, BalboaClient } from "./client";
+export { BalboaError, decodeBalboaError } from "./errors";
+export { ROLE_NAMES, RoleName, roleHash } from "../scripts/lib/roles";
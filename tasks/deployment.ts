@@ -0,0 +1,122 @@
+import { task, types } from "hardhat/config";
+import { bootstrapFactory } from "../scripts/deployment/bootstrap_factory";
+import { deployDeterministic } from "../scripts/deployment/deploy_deterministic";
+import { deployFactory } from "../scripts/deployment/deploy_factory";
+import { deployMultichain } from "../scripts/deployment/deploy_multichain";
+import { generateKeylessFactory } from "../scripts/deployment/keyless_factory";
+import { rollback } from "../scripts/deployment/rollback";
+import { upgrade } from "../scripts/deployment/upgrade";
+import { confirmUpgrade, executeUpgrade, proposeUpgrade } from "../scripts/deployment/upgrade_proposal";
+import { dumpState, rehearseUpgrade } from "../scripts/deployment/upgrade_rehearsal";
+import {
+  cancelScheduledUpgrade,
+  executeScheduledUpgrade,
+  scheduleUpgrade,
+} from "../scripts/deployment/upgrade_timelock";
+import { explainErrors } from "./errors";
+import { address, networkList } from "./types";
+
+task("balboa:deploy:factory", "Deploy the Create2Factory from the configured account")
+  .addOptionalParam("owner", "Account allowed to deploy through the factory (defaults to the deployer)", undefined, address)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => deployFactory(hre, args)));
+
+task("balboa:deploy:factory:keyless", "Generate the pre-signed, chain-agnostic Create2Factory deployment transaction")
+  .addOptionalParam("owner", "Factory owner (defaults to FACTORY_OWNER)", undefined, address)
+  .addOptionalParam("gasPrice", "Gas price in wei baked into the transaction (default 100 gwei)", undefined, types.bigint)
+  .addOptionalParam("gasLimit", "Gas limit baked into the transaction (default 1500000)", undefined, types.bigint)
+  .addOptionalParam("file", "Output file (default deployments/keyless-factory.json)", undefined, types.string)
+  .setAction(explainErrors(async (args, hre) => generateKeylessFactory(hre, args)));
+
+task("balboa:deploy:factory:bootstrap", "Fund the one-time signer and broadcast the keyless Create2Factory deployment")
+  .addOptionalParam("file", "Keyless transaction file (default deployments/keyless-factory.json)", undefined, types.string)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => bootstrapFactory(hre, args)));
+
+task("balboa:deploy", "Deploy the BalboaToken implementation and proxy through the Create2Factory")
+  .addOptionalParam("factory", "Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)", undefined, address)
+  .addOptionalParam("admin", "Account that receives all roles (defaults to TOKEN_ADMIN, then the deployer)", undefined, address)
+  .addOptionalParam("cap", "Supply cap in base units (defaults to SUPPLY_CAP; 0 for unlimited)", undefined, types.bigint)
+  .addOptionalParam("delay", "Upgrade delay in seconds (defaults to UPGRADE_DELAY, then 48 hours)", undefined, types.bigint)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => deployDeterministic(hre, args)));
+
+task("balboa:deploy:multichain", "Deploy the BalboaToken implementation and proxy to several networks")
+  .addParam("networks", "Networks from hardhat.config.ts, comma-separated", undefined, networkList)
+  .addOptionalParam("factory", "Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)", undefined, address)
+  .addOptionalParam("admin", "Account that receives all roles (defaults to TOKEN_ADMIN, then each network's deployer)", undefined, address)
+  .addOptionalParam("cap", "Supply cap in base units (defaults to SUPPLY_CAP; 0 for unlimited)", undefined, types.bigint)
+  .addOptionalParam("delay", "Upgrade delay in seconds (defaults to UPGRADE_DELAY, then 48 hours)", undefined, types.bigint)
+  .addOptionalParam("report", "Write the consolidated report as JSON to this path", undefined, types.string)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => deployMultichain(hre, args)));
+
+task("balboa:upgrade", "Upgrade the BalboaToken proxy to a new implementation")
+  .addOptionalParam("proxy", "Token proxy address (defaults to the deployment record, then PROXY_ADDRESS)", undefined, address)
+  .addOptionalParam("contract", "New implementation contract name", "BalboaToken", types.string)
+  .addOptionalParam("call", "Reinitializer to run atomically with the upgrade (e.g. initializeV3)", undefined, types.string)
+  .addOptionalParam("args", "JSON array of arguments for --call", undefined, types.json)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => upgrade(hre, args)));
+
+task("balboa:upgrade:rollback", "Return the BalboaToken proxy to an implementation from its history")
+  .addOptionalParam("proxy", "Token proxy address (defaults to the deployment record, then PROXY_ADDRESS)", undefined, address)
+  .addOptionalParam("to", "Implementation to return to (defaults to the one before the current)", undefined, address)
+  .addOptionalParam("contract", "Contract the target was deployed from, when the deployment record does not name it", undefined, types.string)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => rollback(hre, args)));
+
+task("balboa:upgrade:propose", "Deploy a new implementation and write the upgrade as a Safe transaction batch")
+  .addOptionalParam("proxy", "Token proxy address (defaults to the deployment record, then PROXY_ADDRESS)", undefined, address)
+  .addOptionalParam("contract", "New implementation contract name", "BalboaToken", types.string)
+  .addOptionalParam("call", "Reinitializer to run atomically with the upgrade (e.g. initializeV3)", undefined, types.string)
+  .addOptionalParam("args", "JSON array of arguments for --call", undefined, types.json)
+  .addOptionalParam("safe", "Multisig that will execute the batch; must hold UPGRADER_ROLE", undefined, address)
+  .addOptionalParam("out", "Output file (default deployments/proposals/<network>-<contract>.json)", undefined, types.string)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => proposeUpgrade(hre, args)));
+
+task("balboa:upgrade:execute", "Send an upgrade proposal from the configured account and confirm it")
+  .addParam("file", "Upgrade proposal written by balboa:upgrade:propose", undefined, types.string)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => executeUpgrade(hre, args)));
+
+task("balboa:upgrade:confirm", "Verify that an upgrade proposal was applied and record the new implementation")
+  .addParam("file", "Upgrade proposal written by balboa:upgrade:propose", undefined, types.string)
+  .setAction(explainErrors(async (args, hre) => confirmUpgrade(hre, args)));
+
+task("balboa:state:dump", "Record the token proxy's code and storage for offline upgrade rehearsals")
+  .addOptionalParam("proxy", "Token proxy address (defaults to the deployment record, then PROXY_ADDRESS)", undefined, address)
+  .addOptionalParam("contract", "Contract the current implementation was deployed from (defaults to the deployment record)", undefined, types.string)
+  .addOptionalParam("out", "Output file (default deployments/state/<network>.json)", undefined, types.string)
+  .setAction(explainErrors(async (args, hre) => dumpState(hre, args)));
+
+task("balboa:upgrade:rehearse", "Replay a state dump on an in-process network, upgrade it and check the result")
+  .addParam("contract", "New implementation contract name", undefined, types.string)
+  .addOptionalParam("state", "State dump written by balboa:state:dump (default deployments/state/<network>.json)", undefined, types.string)
+  .addOptionalParam("call", "Reinitializer to run with the upgrade (e.g. initializeV5)", undefined, types.string)
+  .addOptionalParam("args", "JSON array of arguments for --call", undefined, types.json)
+  .addOptionalParam("upgrader", "UPGRADER_ROLE holder to impersonate (defaults to the first one recorded)", undefined, address)
+  .addOptionalParam("out", "Report file (default deployments/rehearsals/<network>-<contract>.json)", undefined, types.string)
+  .setAction(explainErrors(async (args, hre) => rehearseUpgrade(hre, args)));
+
+task("balboa:timelock:schedule", "Deploy a new implementation and schedule the upgrade on a timelocked proxy")
+  .addOptionalParam("proxy", "Token proxy address (defaults to the deployment record, then PROXY_ADDRESS)", undefined, address)
+  .addParam("contract", "New implementation contract name", undefined, types.string)
+  .addOptionalParam("call", "Reinitializer to run with the upgrade", undefined, types.string)
+  .addOptionalParam("args", "JSON array of arguments for --call", undefined, types.json)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => scheduleUpgrade(hre, args)));
+
+task("balboa:timelock:execute", "Execute a scheduled upgrade once its delay has passed")
+  .addOptionalParam("proxy", "Token proxy address (defaults to the deployment record, then PROXY_ADDRESS)", undefined, address)
+  .addOptionalParam("id", "Scheduled upgrade to execute (required when several are scheduled)", undefined, types.string)
+  .addOptionalParam("contract", "Implementation name for the record, when scheduled from elsewhere", undefined, types.string)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => executeScheduledUpgrade(hre, args)));
+
+task("balboa:timelock:cancel", "Cancel a scheduled upgrade")
+  .addOptionalParam("proxy", "Token proxy address (defaults to the deployment record, then PROXY_ADDRESS)", undefined, address)
+  .addParam("id", "Scheduled upgrade to cancel", undefined, types.string)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => cancelScheduledUpgrade(hre, args)));
@@ -0,0 +1,25 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import type { ActionType, TaskArguments } from "hardhat/types";
+import { explainError, formatExplanation } from "../scripts/lib/errors";
+import { PLUGIN_NAME } from "./types";
+
+/**
+ * Wrap a task action so custom-error reverts surface as an explanation with
+ * remedies instead of raw revert data
+ *
+ * The original error stays available as the plugin error's parent; errors
+ * that are not decodable reverts pass through unchanged.
+ */
+export function explainErrors<TaskArgumentsT extends TaskArguments>(
+  action: ActionType<TaskArgumentsT>,
+): ActionType<TaskArgumentsT> {
+  return async (args, hre, runSuper) => {
+    try {
+      return await action(args, hre, runSuper);
+    } catch (error) {
+      const explanation = explainError(error);
+      if (!explanation) throw error;
+      throw new HardhatPluginError(PLUGIN_NAME, formatExplanation(explanation), error as Error);
+    }
+  };
+}
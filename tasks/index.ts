@@ -0,0 +1,3 @@
+import "./deployment";
+import "./roles";
+import "./utility";
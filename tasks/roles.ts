@@ -0,0 +1,96 @@
+import { task, types } from "hardhat/config";
+import { auditRoles } from "../scripts/admin/audit_roles";
+import { blacklistFromCsv, unBlacklistFromCsv } from "../scripts/admin/blacklist";
+import { checkRoles } from "../scripts/admin/check_roles";
+import { authorizeDeployer, revokeDeployer } from "../scripts/admin/factory_deployers";
+import { grantRole } from "../scripts/admin/grant_roles";
+import { revokeRole } from "../scripts/admin/revoke_roles";
+import { applyRoles, planRoles } from "../scripts/admin/role_manifest";
+import { seizeBalance, setRecoveryAddress } from "../scripts/admin/seize";
+import { explainErrors } from "./errors";
+import { address, networkList, role } from "./types";
+
+task("balboa:roles:grant", "Grant a BalboaToken role to an account")
+  .addParam("role", "Role to grant", undefined, role)
+  .addParam("account", "Account receiving the role", undefined, address)
+  .addOptionalParam("token", "Token proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addFlag("yes", "Skip the confirmation countdown")
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => grantRole(hre, args)));
+
+task("balboa:roles:revoke", "Revoke a BalboaToken role from an account")
+  .addParam("role", "Role to revoke", undefined, role)
+  .addParam("account", "Account losing the role", undefined, address)
+  .addOptionalParam("token", "Token proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addFlag("yes", "Skip the confirmation countdown")
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => revokeRole(hre, args)));
+
+task("balboa:roles:check", "Show which BalboaToken roles an account holds")
+  .addOptionalParam("token", "Token proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addOptionalParam("account", "Account to check (defaults to the configured signer)", undefined, address)
+  .setAction(explainErrors(async (args, hre) => checkRoles(hre, args)));
+
+task("balboa:roles:audit", "Report role holders and admin state on several networks and flag drift between them")
+  .addOptionalParam("networks", "Networks from hardhat.config.ts, comma-separated (defaults to every one with an RPC URL)", undefined, networkList)
+  .addOptionalParam("token", "Token proxy address (defaults to each network's deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addOptionalParam("factory", "Create2Factory address (defaults to each network's deployment record, then FACTORY_ADDRESS)", undefined, address)
+  .addOptionalParam("json", "JSON report (default deployments/audits/roles-<date>.json)", undefined, types.string)
+  .addOptionalParam("markdown", "Markdown report (default deployments/audits/roles-<date>.md)", undefined, types.string)
+  .setAction(explainErrors(async (args, hre) => auditRoles(hre, args)));
+
+task("balboa:roles:plan", "Show the grants and revokes needed to match the role manifest")
+  .addOptionalParam("manifest", "Role manifest file (defaults to roles/<network>.json)", undefined, types.inputFile)
+  .addOptionalParam("token", "Token proxy address (defaults to the manifest, then the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .setAction(explainErrors(async (args, hre) => planRoles(hre, args)));
+
+task("balboa:roles:apply", "Execute the grants and revokes needed to match the role manifest")
+  .addOptionalParam("manifest", "Role manifest file (defaults to roles/<network>.json)", undefined, types.inputFile)
+  .addOptionalParam("token", "Token proxy address (defaults to the manifest, then the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addFlag("yes", "Skip the confirmation countdown")
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => applyRoles(hre, args)));
+
+task("balboa:blacklist:add", "Blacklist the accounts in a CSV file, with a reason hash each, in gas-bounded batches")
+  .addParam("file", "CSV of address,reason lines", undefined, types.inputFile)
+  .addOptionalParam("token", "Token proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addOptionalParam("gasLimit", "Most gas per transaction (default 5000000)", undefined, types.bigint)
+  .addOptionalParam("receipts", "Receipt log (default deployments/blacklist/<network>-<timestamp>.json)", undefined, types.string)
+  .addFlag("yes", "Skip the confirmation countdown")
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => blacklistFromCsv(hre, args)));
+
+task("balboa:blacklist:remove", "Lift the blacklist for the accounts in a CSV file, in gas-bounded batches")
+  .addParam("file", "CSV of address,reason lines", undefined, types.inputFile)
+  .addOptionalParam("token", "Token proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addOptionalParam("gasLimit", "Most gas per transaction (default 5000000)", undefined, types.bigint)
+  .addOptionalParam("receipts", "Receipt log (default deployments/blacklist/<network>-<timestamp>.json)", undefined, types.string)
+  .addFlag("yes", "Skip the confirmation countdown")
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => unBlacklistFromCsv(hre, args)));
+
+task("balboa:seize", "Move the whole balance of a blacklisted account to the recovery address")
+  .addParam("account", "Blacklisted account to seize from", undefined, address)
+  .addOptionalParam("token", "Token proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addFlag("yes", "Skip the confirmation countdown")
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => seizeBalance(hre, args)));
+
+task("balboa:seize:recovery", "Set the address that receives seized balances")
+  .addParam("recovery", "New recovery address", undefined, address)
+  .addOptionalParam("token", "Token proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addFlag("yes", "Skip the confirmation countdown")
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => setRecoveryAddress(hre, args)));
+
+task("balboa:factory:authorize", "Allow an account to deploy through the Create2Factory")
+  .addParam("account", "Account to authorize", undefined, address)
+  .addOptionalParam("factory", "Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)", undefined, address)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => authorizeDeployer(hre, args)));
+
+task("balboa:factory:revoke", "Stop an account from deploying through the Create2Factory")
+  .addParam("account", "Account to revoke", undefined, address)
+  .addOptionalParam("factory", "Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)", undefined, address)
+  .addFlag("dryRun", "Simulate the transactions against the latest block without sending them")
+  .setAction(explainErrors(async (args, hre) => revokeDeployer(hre, args)));
@@ -0,0 +1,59 @@
+import { getAddress, isAddress } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { CLIArgumentType } from "hardhat/types";
+import { ROLE_NAMES, RoleName, isRoleName } from "../scripts/lib/roles";
+
+/**
+ * Argument types for the balboa:* tasks
+ *
+ * `parse` handles values typed on the command line, `validate` handles values
+ * passed programmatically through `hre.run`.
+ */
+
+export const PLUGIN_NAME = "balboa";
+
+function invalidValue(argName: string, value: unknown, typeName: string): HardhatPluginError {
+  return new HardhatPluginError(PLUGIN_NAME, `Invalid value ${String(value)} for argument ${argName} of type ${typeName}`);
+}
+
+export const address: CLIArgumentType<string> = {
+  name: "address",
+  parse(argName, strValue) {
+    if (!isAddress(strValue)) throw invalidValue(argName, strValue, "address");
+    return getAddress(strValue);
+  },
+  validate(argName, value) {
+    if (value === undefined) return;
+    if (typeof value !== "string" || !isAddress(value)) throw invalidValue(argName, value, "address");
+  },
+};
+
+export const role: CLIArgumentType<RoleName> = {
+  name: `role (${ROLE_NAMES.join("|")})`,
+  parse(argName, strValue) {
+    const normalized = strValue.toUpperCase().replace(/_ROLE$/, "");
+    if (normalized === "DEFAULT_ADMIN") return "ADMIN";
+    if (!isRoleName(normalized)) throw invalidValue(argName, strValue, "role");
+    return normalized;
+  },
+  validate(argName, value) {
+    if (typeof value !== "string" || !isRoleName(value)) throw invalidValue(argName, value, "role");
+  },
+};
+
+export const networkList: CLIArgumentType<string[]> = {
+  name: "networks (comma-separated)",
+  parse(argName, strValue) {
+    const names = strValue
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+    if (names.length === 0) throw invalidValue(argName, strValue, "networks");
+    return names;
+  },
+  validate(argName, value) {
+    if (!Array.isArray(value) || value.length === 0 || !value.every((name) => typeof name === "string")) {
+      throw invalidValue(argName, value, "networks");
+    }
+  },
+};
@@ -0,0 +1,43 @@
+import { task, types } from "hardhat/config";
+import { findProxy } from "../scripts/utility/find_proxy";
+import { indexEvents } from "../scripts/utility/index_events";
+import { checkStorageLayouts, exportStorageLayouts } from "../scripts/utility/storage_layout";
+import { verifyDeployments } from "../scripts/utility/verify";
+import { explainErrors } from "./errors";
+import { address } from "./types";
+
+task("balboa:proxy:find", "Compute the deterministic proxy address and check its deployment status")
+  .addOptionalParam("factory", "Create2Factory address (defaults to the deployment record, then FACTORY_ADDRESS)", undefined, address)
+  .addOptionalParam("admin", "Admin passed to initialize (defaults to TOKEN_ADMIN, then the configured signer)", undefined, address)
+  .addOptionalParam("token", "Address to compare against (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addOptionalParam("cap", "Supply cap passed to initialize (defaults to SUPPLY_CAP)", undefined, types.bigint)
+  .addOptionalParam("delay", "Upgrade delay passed to initialize (defaults to UPGRADE_DELAY, then 48 hours)", undefined, types.bigint)
+  .setAction(explainErrors(async (args, hre) => findProxy(hre, args)));
+
+task("balboa:index", "Sync the local index of token and factory events up to the latest block")
+  .addOptionalParam("token", "Proxy address (defaults to the deployment record, then TOKEN_ADDRESS)", undefined, address)
+  .addOptionalParam("blockRange", "Blocks per eth_getLogs request, halved while the provider rejects it", undefined, types.int)
+  .addFlag("reset", "Delete the index and re-sync from the deployment block")
+  .setAction(explainErrors(async (args, hre) => indexEvents(hre, args)));
+
+task("balboa:verify", "Verify the recorded factory, implementations and proxy through hardhat-verify")
+  .addOptionalParam("statusTimeout", "Seconds to poll a queued submission before reporting it as pending", undefined, types.int)
+  .setAction(explainErrors(async (args, hre) => verifyDeployments(hre, args)));
+
+task("balboa:storage:export", "Write storage layout snapshots of every BalboaToken version from the compiler output")
+  .addOptionalParam("dir", "Snapshot directory (defaults to storage-layouts)")
+  .setAction(
+    explainErrors(async (args, hre) => {
+      await hre.run("compile", { quiet: true });
+      return exportStorageLayouts(hre, args);
+    })
+  );
+
+task("balboa:storage:check", "Fail if storage layout snapshots are stale or a version changes storage unsafely")
+  .addOptionalParam("dir", "Snapshot directory (defaults to storage-layouts)")
+  .setAction(
+    explainErrors(async (args, hre) => {
+      await hre.run("compile", { quiet: true });
+      return checkStorageLayouts(hre, args);
+    })
+  );
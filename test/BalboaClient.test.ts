@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { execFileSync } from "child_process";
+import * as path from "path";
+import { ethers, upgrades } from "hardhat";
+import mainnet from "../deployments/mainnet.json";
+import { BalboaClient, BalboaError, KNOWN_DEPLOYMENTS, decodeBalboaError, knownDeployment } from "../sdk";
+
+describe("BalboaClient", function () {
+  let client: BalboaClient;
+  let address: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  async function rejection(promise: Promise<unknown>): Promise<BalboaError> {
+    const error = await promise.then(
+      () => undefined,
+      (e: unknown) => e
+    );
+    expect(error).to.be.instanceOf(BalboaError);
+    return error as BalboaError;
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+    const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+    const token = await upgrades.deployProxy(BalboaTokenV4, [owner.address, ethers.parseEther("1000")], {
+      kind: "uups",
+      initializer: "initializeWithCap",
+    });
+    address = await token.getAddress();
+    client = new BalboaClient(address, owner);
+  });
+
+  describe("Token operations", function () {
+    it("Should mint, burn and burn from the caller", async function () {
+      await (await client.mint(user1.address, ethers.parseEther("100"))).wait();
+      await (await client.burn(user1.address, ethers.parseEther("30"))).wait();
+      await (await new BalboaClient(address, user1).burnSelf(ethers.parseEther("20"))).wait();
+
+      expect(await client.balanceOf(user1.address)).to.equal(ethers.parseEther("50"));
+      expect(await client.totalSupply()).to.equal(ethers.parseEther("50"));
+      expect(await client.name()).to.equal("BALBOA");
+      expect(await client.decimals()).to.equal(18n);
+    });
+
+    it("Should pause and unpause", async function () {
+      await (await client.pause()).wait();
+      expect(await client.paused()).to.equal(true);
+
+      await (await client.unpause()).wait();
+      expect(await client.paused()).to.equal(false);
+    });
+
+    it("Should blacklist and unblacklist", async function () {
+      await (await client.blacklist(user2.address)).wait();
+      expect(await client.isBlacklisted(user2.address)).to.equal(true);
+
+      await (await client.unBlacklist(user2.address)).wait();
+      expect(await client.isBlacklisted(user2.address)).to.equal(false);
+    });
+
+    it("Should grant, query and enumerate roles", async function () {
+      await (await client.grantRole("MINTER", user1.address)).wait();
+
+      expect(await client.hasRole("MINTER", user1.address)).to.equal(true);
+      expect(await client.hasRole("ADMIN", owner.address)).to.equal(true);
+      expect(await client.roleMembers("MINTER")).to.deep.equal([owner.address, user1.address]);
+
+      await (await client.revokeRole("MINTER", user1.address)).wait();
+      expect(await client.hasRole("MINTER", user1.address)).to.equal(false);
+    });
+
+    it("Should refuse to enumerate roles before BalboaTokenV3", async function () {
+      const BalboaToken = await ethers.getContractFactory("BalboaToken");
+      const v1 = await upgrades.deployProxy(BalboaToken, [owner.address], { kind: "uups", initializer: "initialize" });
+      const legacy = new BalboaClient(await v1.getAddress(), owner);
+
+      expect(await legacy.supportsRoleEnumeration()).to.equal(false);
+      await expect(legacy.roleMembers("MINTER")).to.be.rejectedWith(/does not enumerate role members/);
+    });
+  });
+
+  describe("Decoded errors", function () {
+    it("Should decode ZeroAddress and ZeroAmount", async function () {
+      expect((await rejection(client.mint(ethers.ZeroAddress, 1n))).errorName).to.equal("ZeroAddress");
+      expect((await rejection(client.mint(user1.address, 0n))).errorName).to.equal("ZeroAmount");
+      expect((await rejection(client.burnSelf(0n))).message).to.equal("ZeroAmount()");
+    });
+
+    it("Should decode AccountBlacklisted with its argument", async function () {
+      await (await client.blacklist(user2.address)).wait();
+
+      const error = await rejection(client.mint(user2.address, 1n));
+
+      expect(error.errorName).to.equal("AccountBlacklisted");
+      expect(error.args).to.deep.equal([user2.address]);
+      expect(error.message).to.equal(`AccountBlacklisted(${user2.address})`);
+    });
+
+    it("Should decode errors from the OpenZeppelin base contracts", async function () {
+      const error = await rejection(new BalboaClient(address, user1).pause());
+      expect(error.errorName).to.equal("AccessControlUnauthorizedAccount");
+      expect(error.args[0]).to.equal(user1.address);
+
+      await (await client.pause()).wait();
+      expect((await rejection(client.mint(user1.address, 1n))).errorName).to.equal("EnforcedPause");
+    });
+
+    it("Should leave other errors alone", function () {
+      const error = new Error("network down");
+      expect(decodeBalboaError(error)).to.equal(undefined);
+      expect(decodeBalboaError({ data: "0x08c379a0" })).to.equal(undefined);
+      const reason = ethers.Interface.from(["error Error(string)"]).encodeErrorResult("Error", ["no"]);
+      expect(decodeBalboaError({ data: reason })).to.equal(undefined);
+    });
+  });
+
+  describe("Known addresses", function () {
+    it("Should list the committed deployment records", function () {
+      expect(knownDeployment(1)).to.deep.equal({
+        network: "mainnet",
+        chainId: 1n,
+        token: mainnet.proxy.address,
+        contract: "BalboaToken",
+        factory: undefined,
+      });
+      expect(KNOWN_DEPLOYMENTS.map((deployment) => deployment.network)).to.include("mainnet");
+      expect(knownDeployment(31337n)).to.equal(undefined);
+    });
+
+    it("Should connect to the known deployment of the runner's chain", async function () {
+      await expect(BalboaClient.connect(owner)).to.be.rejectedWith(
+        "No known BalboaToken deployment on chain 31337; pass the token address"
+      );
+      expect((await BalboaClient.connect(owner, address)).address).to.equal(address);
+    });
+  });
+
+  it("Should load without the Hardhat runtime", function () {
+    this.timeout(60000);
+    const script = `
+      require("./sdk");
+      const loaded = Object.keys(require.cache).filter((file) => /[\\\\/]node_modules[\\\\/]hardhat[\\\\/]/.test(file));
+      process.stdout.write(JSON.stringify(loaded));
+    `;
+    const output = execFileSync(process.execPath, ["-r", "ts-node/register/transpile-only", "-e", script], {
+      cwd: path.join(__dirname, ".."),
+      encoding: "utf8",
+      timeout: 60000,
+    });
+
+    expect(JSON.parse(output)).to.deep.equal([]);
+  });
+});
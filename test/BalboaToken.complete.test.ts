@@ -1,5 +1,7 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import { syncTokenIndex } from "../scripts/lib/indexer";
+import { captureInvariants, verifyInvariants } from "../scripts/lib/invariants";
 import type { BalboaToken } from "../typechain-types";
 
 describe("BalboaToken - Complete Test Suite", function () {
@@ -626,6 +628,7 @@ describe("BalboaToken - Complete Test Suite", function () {
       
       const balanceBefore = await balboa.balanceOf(user1.address);
       const isBlacklistedBefore = await balboa.isBlacklisted(attacker.address);
+      const before = await captureInvariants(balboa, { index: await syncTokenIndex(hre, await balboa.getAddress()) });
       
       const BalboaToken = await ethers.getContractFactory("BalboaToken");
       const newImpl = await BalboaToken.deploy();
@@ -634,6 +637,9 @@ describe("BalboaToken - Complete Test Suite", function () {
       
       expect(await balboa.balanceOf(user1.address)).to.equal(balanceBefore);
       expect(await balboa.isBlacklisted(attacker.address)).to.equal(isBlacklistedBefore);
+      await verifyInvariants(balboa, before, await newImpl.getAddress(), {
+        index: await syncTokenIndex(hre, await balboa.getAddress()),
+      });
     });
   });
 
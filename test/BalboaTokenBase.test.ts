@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Interface } from "ethers";
+import { StorageEntry, readStorageLayout } from "../scripts/lib/storage";
+import type { BalboaToken } from "../typechain-types";
+
+/**
+ * BalboaTokenBase restates the deployed BalboaToken so V3+ can build on it;
+ * these tests keep the two from drifting apart
+ */
+describe("BalboaTokenBase", function () {
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  async function deployProxy(contract: string): Promise<BalboaToken> {
+    const Implementation = await ethers.getContractFactory(contract);
+    const implementation = await Implementation.deploy();
+    await implementation.waitForDeployment();
+
+    const initData = Implementation.interface.encodeFunctionData("initialize", [owner.address]);
+    const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await Proxy.deploy(await implementation.getAddress(), initData);
+    await proxy.waitForDeployment();
+    return (await ethers.getContractAt("BalboaToken", await proxy.getAddress())) as unknown as BalboaToken;
+  }
+
+  /** Run the same operations on a token and describe every outcome */
+  async function scenario(token: BalboaToken): Promise<string[]> {
+    const outcomes: string[] = [];
+    const attempt = async (label: string, send: () => Promise<{ wait(): Promise<unknown> }>) => {
+      try {
+        await (await send()).wait();
+        outcomes.push(`${label}: ok`);
+      } catch (error) {
+        const { data } = error as { data?: string };
+        outcomes.push(`${label}: ${(data && token.interface.parseError(data)?.name) ?? "reverted"}`);
+      }
+    };
+    const state = async () =>
+      outcomes.push(
+        `supply ${await token.totalSupply()}, balances ${await token.balanceOf(user1.address)}/${await token.balanceOf(user2.address)}`
+      );
+
+    await attempt("mint", () => token.mint(user1.address, 1000n));
+    await attempt("mint zero", () => token.mint(user1.address, 0n));
+    await attempt("transfer", () => token.connect(user1).transfer(user2.address, 100n));
+    await attempt("blacklist", () => token.blacklist(user1.address));
+    await attempt("blacklist again", () => token.blacklist(user1.address));
+    await attempt("transfer from blacklisted", () => token.connect(user1).transfer(user2.address, 1n));
+    await attempt("transfer to blacklisted", () => token.connect(user2).transfer(user1.address, 1n));
+    await attempt("burnSelf while blacklisted", () => token.connect(user1).burnSelf(10n));
+    await attempt("unblacklist", () => token.unBlacklist(user1.address));
+    await attempt("pause", () => token.pause());
+    await attempt("transfer while paused", () => token.connect(user1).transfer(user2.address, 1n));
+    await attempt("mint while paused", () => token.mint(user1.address, 1n));
+    await attempt("burn while paused", () => token.burn(user2.address, 50n));
+    await attempt("unpause", () => token.unpause());
+    await attempt("mint without role", () => token.connect(user1).mint(user1.address, 1n));
+    await state();
+    outcomes.push(`blacklisted ${await token.isBlacklisted(user1.address)}, paused ${await token.paused()}`);
+    return outcomes;
+  }
+
+  it("Should keep BalboaToken's storage layout", async function () {
+    // Entries differ only in the contract declaring them
+    const strip = ({ contract: _, ...entry }: StorageEntry) => entry;
+    const v1 = await readStorageLayout(hre, "BalboaToken");
+    const base = await readStorageLayout(hre, "BalboaTokenBase");
+
+    expect(base.storage.map(strip)).to.deep.equal(v1.storage.map(strip));
+  });
+
+  it("Should expose BalboaToken's functions, events and errors", async function () {
+    const fragments = async (contract: string) =>
+      new Interface((await hre.artifacts.readArtifact(contract)).abi).fragments
+        .filter((fragment) => fragment.type !== "constructor")
+        .map((fragment) => fragment.format("full"))
+        .sort();
+
+    expect(await fragments("BalboaTokenBase")).to.deep.equal(await fragments("BalboaToken"));
+  });
+
+  it("Should behave like BalboaToken in V3", async function () {
+    const v1 = await scenario(await deployProxy("BalboaToken"));
+    const v3 = await scenario(await deployProxy("BalboaTokenV3"));
+
+    expect(v3).to.deep.equal(v1);
+    expect(v1).to.include("transfer from blacklisted: AccountBlacklisted");
+    expect(v1).to.include("burnSelf while blacklisted: ok");
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { syncTokenIndex } from "../scripts/lib/indexer";
+import { captureInvariants, verifyInvariants } from "../scripts/lib/invariants";
+import { StorageEntry, readStorageLayout } from "../scripts/lib/storage";
+import type { BalboaToken, BalboaTokenV3 } from "../typechain-types";
+
+describe("BalboaTokenV3", function () {
+  let balboa: BalboaToken;
+  let tokenAddress: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let minter: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let upgrader: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let formerMinter: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, minter, upgrader, user1, formerMinter] = await ethers.getSigners();
+
+    const BalboaToken = await ethers.getContractFactory("BalboaToken");
+    const implementation = await BalboaToken.deploy();
+    await implementation.waitForDeployment();
+
+    const initData = BalboaToken.interface.encodeFunctionData("initialize", [owner.address]);
+    const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await Proxy.deploy(await implementation.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    tokenAddress = await proxy.getAddress();
+    balboa = BalboaToken.attach(tokenAddress) as unknown as BalboaToken;
+
+    await balboa.grantRole(await balboa.MINTER_ROLE(), minter.address);
+    await balboa.grantRole(await balboa.MINTER_ROLE(), formerMinter.address);
+    await balboa.revokeRole(await balboa.MINTER_ROLE(), formerMinter.address);
+    await balboa.grantRole(await balboa.UPGRADER_ROLE(), upgrader.address);
+  });
+
+  async function upgradeToV3(accounts: string[]): Promise<BalboaTokenV3> {
+    const BalboaTokenV3 = await ethers.getContractFactory("BalboaTokenV3");
+    const implementation = await BalboaTokenV3.deploy();
+    await implementation.waitForDeployment();
+
+    const roles = [
+      await balboa.DEFAULT_ADMIN_ROLE(),
+      await balboa.MINTER_ROLE(),
+      await balboa.UPGRADER_ROLE(),
+    ];
+    const initData = BalboaTokenV3.interface.encodeFunctionData("initializeV3", [roles, accounts]);
+    const before = await captureInvariants(balboa, { index: await syncTokenIndex(hre, tokenAddress) });
+    await balboa.upgradeToAndCall(await implementation.getAddress(), initData);
+    await verifyInvariants(balboa, before, await implementation.getAddress(), {
+      index: await syncTokenIndex(hre, tokenAddress),
+    });
+
+    return BalboaTokenV3.attach(tokenAddress) as unknown as BalboaTokenV3;
+  }
+
+  describe("Storage Layout", function () {
+    it("Should pass the upgrades plugin safety checks", async function () {
+      const BalboaToken = await ethers.getContractFactory("BalboaToken");
+      const BalboaTokenV3 = await ethers.getContractFactory("BalboaTokenV3");
+
+      await upgrades.validateUpgrade(BalboaToken, BalboaTokenV3, { kind: "uups" });
+    });
+
+    it("Should keep every V1 slot and append new state after the gap", async function () {
+      const { storage: v1 } = await readStorageLayout(hre, "BalboaToken");
+      const { storage: v3 } = await readStorageLayout(hre, "BalboaTokenV3");
+
+      const strip = ({ label, offset, slot, type }: StorageEntry) => ({ label, offset, slot, type });
+      expect(v3.slice(0, v1.length).map(strip)).to.deep.equal(v1.map(strip));
+
+      const appended = v3.slice(v1.length);
+      expect(appended.map((entry) => entry.label)).to.deep.equal(["_roleMembers", "__gap"]);
+      expect(appended[0].slot).to.equal(50);
+    });
+  });
+
+  describe("Role Enumeration", function () {
+    it("Should register existing holders during the upgrade", async function () {
+      const v3 = await upgradeToV3([owner.address, minter.address, upgrader.address]);
+
+      expect([...(await v3.getRoleMembers(await v3.DEFAULT_ADMIN_ROLE()))]).to.deep.equal([owner.address]);
+      expect([...(await v3.getRoleMembers(await v3.MINTER_ROLE()))]).to.have.members([owner.address, minter.address]);
+      expect([...(await v3.getRoleMembers(await v3.UPGRADER_ROLE()))]).to.have.members([owner.address, upgrader.address]);
+      expect(await v3.getRoleMemberCount(await v3.MINTER_ROLE())).to.equal(2);
+    });
+
+    it("Should ignore candidates that do not hold the role", async function () {
+      const v3 = await upgradeToV3([owner.address, minter.address, formerMinter.address, user1.address]);
+
+      expect([...(await v3.getRoleMembers(await v3.MINTER_ROLE()))]).to.not.include(formerMinter.address);
+      expect([...(await v3.getRoleMembers(await v3.DEFAULT_ADMIN_ROLE()))]).to.not.include(user1.address);
+    });
+
+    it("Should track grants and revokes after the upgrade", async function () {
+      const v3 = await upgradeToV3([owner.address, minter.address]);
+      const MINTER_ROLE = await v3.MINTER_ROLE();
+
+      await v3.grantRole(MINTER_ROLE, user1.address);
+      await v3.revokeRole(MINTER_ROLE, minter.address);
+
+      expect([...(await v3.getRoleMembers(MINTER_ROLE))]).to.have.members([owner.address, user1.address]);
+      expect(await v3.getRoleMember(MINTER_ROLE, 0)).to.equal(owner.address);
+    });
+
+    it("Should support the IAccessControlEnumerable interface", async function () {
+      expect(await balboa.supportsInterface("0x5a05180f")).to.be.false;
+
+      const v3 = await upgradeToV3([]);
+      expect(await v3.supportsInterface("0x5a05180f")).to.be.true;
+    });
+  });
+
+  describe("Reinitializer", function () {
+    it("Should only run once", async function () {
+      const v3 = await upgradeToV3([owner.address]);
+
+      await expect(v3.initializeV3([], [])).to.be.revertedWithCustomError(v3, "InvalidInitialization");
+    });
+
+    it("Should require DEFAULT_ADMIN_ROLE", async function () {
+      const BalboaTokenV3 = await ethers.getContractFactory("BalboaTokenV3");
+      const implementation = await BalboaTokenV3.deploy();
+      await implementation.waitForDeployment();
+
+      const initData = BalboaTokenV3.interface.encodeFunctionData("initializeV3", [[], []]);
+      await expect(
+        balboa.connect(upgrader).upgradeToAndCall(await implementation.getAddress(), initData)
+      ).to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should preserve balances and blacklist state", async function () {
+      await balboa.connect(minter).mint(user1.address, ethers.parseEther("500"));
+      await balboa.blacklist(formerMinter.address);
+
+      const v3 = await upgradeToV3([owner.address]);
+
+      expect(await v3.balanceOf(user1.address)).to.equal(ethers.parseEther("500"));
+      expect(await v3.isBlacklisted(formerMinter.address)).to.be.true;
+      expect(await v3.symbol()).to.equal("BALBOA");
+    });
+  });
+
+  describe("Tasks", function () {
+    it("Should derive initializeV3 arguments from role events", async function () {
+      await hre.run("balboa:upgrade", { proxy: tokenAddress, contract: "BalboaTokenV3", call: "initializeV3" });
+
+      const v3 = (await ethers.getContractAt("BalboaTokenV3", tokenAddress)) as unknown as BalboaTokenV3;
+      expect([...(await v3.getRoleMembers(await v3.MINTER_ROLE()))]).to.have.members([owner.address, minter.address]);
+      expect([...(await v3.getRoleMembers(await v3.BLACKLISTER_ROLE()))]).to.deep.equal([owner.address]);
+    });
+  });
+});
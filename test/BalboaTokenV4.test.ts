@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import type { BalboaToken, BalboaTokenV4 } from "../typechain-types";
+import { deployPreTimelockToken } from "./helpers/preTimelockToken";
+
+describe("BalboaTokenV4", function () {
+  const CAP = ethers.parseEther("1000");
+
+  let balboa: BalboaTokenV4;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let minter: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, minter, user1] = await ethers.getSigners();
+
+    const { proxy } = await deployPreTimelockToken(owner.address, CAP);
+    balboa = (await ethers.getContractAt("BalboaTokenV4", proxy)) as unknown as BalboaTokenV4;
+
+    await balboa.grantRole(await balboa.MINTER_ROLE(), minter.address);
+  });
+
+  describe("Initialization", function () {
+    it("Should set the cap at initialization", async function () {
+      expect(await balboa.cap()).to.equal(CAP);
+      expect(await balboa.hasRole(await balboa.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+    });
+
+    it("Should enumerate the initial role holders", async function () {
+      expect(await balboa.getRoleMemberCount(await balboa.MINTER_ROLE())).to.equal(2);
+    });
+
+    it("Should not allow initializing twice", async function () {
+      await expect(balboa.initializeWithCap(user1.address, 0)).to.be.revertedWithCustomError(
+        balboa,
+        "InvalidInitialization"
+      );
+    });
+
+    it("Should pass the upgrades plugin safety checks from V3", async function () {
+      const BalboaTokenV3 = await ethers.getContractFactory("BalboaTokenV3");
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+
+      await upgrades.validateUpgrade(BalboaTokenV3, BalboaTokenV4, { kind: "uups" });
+    });
+  });
+
+  describe("Minting", function () {
+    it("Should mint up to the cap", async function () {
+      await balboa.connect(minter).mint(user1.address, CAP);
+
+      expect(await balboa.totalSupply()).to.equal(CAP);
+    });
+
+    it("Should revert when a mint exceeds the cap", async function () {
+      await balboa.connect(minter).mint(user1.address, CAP - 1n);
+
+      await expect(balboa.connect(minter).mint(user1.address, 2n))
+        .to.be.revertedWithCustomError(balboa, "CapExceeded")
+        .withArgs(CAP, CAP + 1n);
+    });
+
+    it("Should allow minting again after burns", async function () {
+      await balboa.connect(minter).mint(user1.address, CAP);
+      await balboa.connect(user1).burnSelf(ethers.parseEther("10"));
+
+      await balboa.connect(minter).mint(user1.address, ethers.parseEther("10"));
+      expect(await balboa.totalSupply()).to.equal(CAP);
+    });
+  });
+
+  describe("Cap Adjustment", function () {
+    it("Should lower the cap", async function () {
+      const newCap = ethers.parseEther("500");
+
+      await expect(balboa.setCap(newCap)).to.emit(balboa, "CapUpdated").withArgs(CAP, newCap);
+      expect(await balboa.cap()).to.equal(newCap);
+    });
+
+    it("Should allow lowering the cap to the current supply", async function () {
+      await balboa.connect(minter).mint(user1.address, ethers.parseEther("400"));
+
+      await balboa.setCap(ethers.parseEther("400"));
+      await expect(balboa.connect(minter).mint(user1.address, 1n)).to.be.revertedWithCustomError(
+        balboa,
+        "CapExceeded"
+      );
+    });
+
+    it("Should revert when lowering below the current supply", async function () {
+      await balboa.connect(minter).mint(user1.address, ethers.parseEther("400"));
+
+      await expect(balboa.setCap(ethers.parseEther("399")))
+        .to.be.revertedWithCustomError(balboa, "CapBelowSupply")
+        .withArgs(ethers.parseEther("399"), ethers.parseEther("400"));
+    });
+
+    it("Should revert when raising or removing the cap", async function () {
+      await expect(balboa.setCap(CAP + 1n)).to.be.revertedWithCustomError(balboa, "InvalidCap");
+      await expect(balboa.setCap(CAP)).to.be.revertedWithCustomError(balboa, "InvalidCap");
+      await expect(balboa.setCap(0)).to.be.revertedWithCustomError(balboa, "InvalidCap");
+    });
+
+    it("Should only allow the admin to change the cap", async function () {
+      await expect(balboa.connect(minter).setCap(ethers.parseEther("500"))).to.be.revertedWithCustomError(
+        balboa,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Upgrade from V1", function () {
+    let v1: BalboaToken;
+    let tokenAddress: string;
+    let previousCap: string | undefined;
+
+    beforeEach(async function () {
+      const BalboaToken = await ethers.getContractFactory("BalboaToken");
+      const implementation = await BalboaToken.deploy();
+      await implementation.waitForDeployment();
+
+      const initData = BalboaToken.interface.encodeFunctionData("initialize", [owner.address]);
+      const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+      const proxy = await Proxy.deploy(await implementation.getAddress(), initData);
+      await proxy.waitForDeployment();
+
+      tokenAddress = await proxy.getAddress();
+      v1 = BalboaToken.attach(tokenAddress) as unknown as BalboaToken;
+      await v1.mint(user1.address, ethers.parseEther("300"));
+
+      previousCap = process.env.SUPPLY_CAP;
+    });
+
+    afterEach(function () {
+      if (previousCap === undefined) delete process.env.SUPPLY_CAP;
+      else process.env.SUPPLY_CAP = previousCap;
+    });
+
+    it("Should pass the configured SUPPLY_CAP and register role holders", async function () {
+      process.env.SUPPLY_CAP = CAP.toString();
+
+      await hre.run("balboa:upgrade", { proxy: tokenAddress, contract: "BalboaTokenV4", call: "initializeV4" });
+
+      const v4 = (await ethers.getContractAt("BalboaTokenV4", tokenAddress)) as unknown as BalboaTokenV4;
+      expect(await v4.cap()).to.equal(CAP);
+      expect(await v4.balanceOf(user1.address)).to.equal(ethers.parseEther("300"));
+      expect([...(await v4.getRoleMembers(await v4.DEFAULT_ADMIN_ROLE()))]).to.deep.equal([owner.address]);
+    });
+
+    it("Should reject a cap below the existing supply", async function () {
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+      const implementation = await BalboaTokenV4.deploy();
+      await implementation.waitForDeployment();
+
+      const initData = BalboaTokenV4.interface.encodeFunctionData("initializeV4", [[], [], ethers.parseEther("299")]);
+      await expect(v1.upgradeToAndCall(await implementation.getAddress(), initData)).to.be.revertedWithCustomError(
+        BalboaTokenV4,
+        "CapBelowSupply"
+      );
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import type { Provider } from "ethers";
+import type { ExecuteScheduledUpgradeResult, ScheduleUpgradeResult } from "../scripts/deployment/upgrade_timelock";
+import { loadDeploymentRecord } from "../scripts/lib/records";
+import { upgradeDelay } from "../scripts/lib/upgrades";
+import type { BalboaTokenV5 } from "../typechain-types";
+import { deployPreTimelockToken } from "./helpers/preTimelockToken";
+
+describe("BalboaTokenV5", function () {
+  const DELAY = 3600n;
+
+  let dir: string;
+  let previousDir: string | undefined;
+  let balboa: BalboaTokenV5;
+  let proxy: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let upgrader: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, upgrader, user1] = await ethers.getSigners();
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-timelock-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+
+    ({ proxy } = await deployPreTimelockToken(owner.address));
+    await hre.run("balboa:upgrade", {
+      contract: "BalboaTokenV5",
+      call: "initializeV5",
+      args: [[], [], DELAY.toString()],
+    });
+    balboa = (await ethers.getContractAt("BalboaTokenV5", proxy)) as unknown as BalboaTokenV5;
+
+    await balboa.grantRole(await balboa.UPGRADER_ROLE(), upgrader.address);
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function newImplementation(): Promise<string> {
+    const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+    const implementation = await BalboaTokenV5.deploy();
+    await implementation.waitForDeployment();
+    return implementation.getAddress();
+  }
+
+  describe("Initialization", function () {
+    it("Should set the upgrade delay", async function () {
+      expect(await balboa.upgradeDelay()).to.equal(DELAY);
+    });
+
+    it("Should not allow initializing V5 twice", async function () {
+      await expect(balboa.initializeV5([], [], DELAY)).to.be.revertedWithCustomError(balboa, "InvalidInitialization");
+    });
+
+    it("Should reject a zero delay and a delay above the maximum", async function () {
+      const V1 = await ethers.getContractFactory("BalboaToken");
+      const v1 = await upgrades.deployProxy(V1, [owner.address], { kind: "uups", initializer: "initialize" });
+      const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+      const tooLong = (await balboa.MAX_UPGRADE_DELAY()) + 1n;
+
+      for (const delay of [0n, tooLong]) {
+        await expect(upgrades.upgradeProxy(v1, BalboaTokenV5, { call: { fn: "initializeV5", args: [[], [], delay] } }))
+          .to.be.revertedWithCustomError(balboa, "InvalidUpgradeDelay")
+          .withArgs(delay);
+      }
+    });
+
+    it("Should register role holders when upgrading straight from V1", async function () {
+      const V1 = await ethers.getContractFactory("BalboaToken");
+      const v1 = await upgrades.deployProxy(V1, [owner.address], { kind: "uups", initializer: "initialize" });
+      await v1.grantRole(await v1.MINTER_ROLE(), user1.address);
+
+      await hre.run("balboa:upgrade", {
+        proxy: await v1.getAddress(),
+        contract: "BalboaTokenV5",
+        call: "initializeV5",
+      });
+
+      const v5 = (await ethers.getContractAt("BalboaTokenV5", await v1.getAddress())) as unknown as BalboaTokenV5;
+      expect([...(await v5.getRoleMembers(await v5.MINTER_ROLE()))]).to.have.members([owner.address, user1.address]);
+      expect(await v5.upgradeDelay()).to.equal(48n * 60n * 60n);
+      await expect(v5.initializeV3([], [])).to.be.revertedWithCustomError(v5, "InvalidInitialization");
+    });
+
+    it("Should set the delay on a fresh deployment", async function () {
+      const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+      const cap = ethers.parseEther("1000");
+
+      const fresh = (await upgrades.deployProxy(BalboaTokenV5, [owner.address, cap, DELAY], {
+        kind: "uups",
+        initializer: "initializeWithTimelock",
+      })) as unknown as BalboaTokenV5;
+
+      expect(await fresh.upgradeDelay()).to.equal(DELAY);
+      expect(await fresh.cap()).to.equal(cap);
+      expect([...(await fresh.getRoleMembers(await fresh.UPGRADER_ROLE()))]).to.deep.equal([owner.address]);
+      await expect(fresh.initializeV5([], [], 1n)).to.be.revertedWithCustomError(fresh, "InvalidInitialization");
+      await expect(balboa.initializeWithTimelock(user1.address, 0n, DELAY)).to.be.revertedWithCustomError(
+        balboa,
+        "InvalidInitialization"
+      );
+    });
+
+    it("Should reject the inherited initializers, which leave the delay unset", async function () {
+      const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+
+      await expect(
+        upgrades.deployProxy(BalboaTokenV5, [owner.address], { kind: "uups", initializer: "initialize" })
+      ).to.be.revertedWithCustomError(balboa, "UpgradeDelayNotSet");
+      await expect(
+        upgrades.deployProxy(BalboaTokenV5, [owner.address, 0n], { kind: "uups", initializer: "initializeWithCap" })
+      ).to.be.revertedWithCustomError(balboa, "UpgradeDelayNotSet");
+    });
+
+    it("Should pass the upgrades plugin safety checks from V4", async function () {
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+      const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+
+      await upgrades.validateUpgrade(BalboaTokenV4, BalboaTokenV5, { kind: "uups" });
+    });
+  });
+
+  describe("Scheduling", function () {
+    it("Should schedule an upgrade after the delay", async function () {
+      const implementation = await newImplementation();
+      const id = await balboa.upgradeId(implementation, "0x");
+
+      const tx = await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      const readyAt = BigInt(await time.latest()) + DELAY;
+
+      await expect(tx).to.emit(balboa, "UpgradeScheduled").withArgs(id, implementation, "0x", readyAt);
+      expect(await balboa.upgradeReadyAt(id)).to.equal(readyAt);
+    });
+
+    it("Should identify upgrades by implementation and calldata", async function () {
+      const implementation = await newImplementation();
+      const data = balboa.interface.encodeFunctionData("pause");
+
+      expect(await balboa.upgradeId(implementation, data)).to.equal(
+        ethers.keccak256(
+          ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [implementation, ethers.keccak256(data)])
+        )
+      );
+      expect(await balboa.upgradeId(implementation, data)).to.not.equal(await balboa.upgradeId(implementation, "0x"));
+    });
+
+    it("Should only allow UPGRADER_ROLE to schedule", async function () {
+      await expect(balboa.connect(user1).scheduleUpgrade(await newImplementation(), "0x"))
+        .to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await balboa.UPGRADER_ROLE());
+    });
+
+    it("Should reject scheduling the same upgrade twice", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+
+      await expect(balboa.connect(upgrader).scheduleUpgrade(implementation, "0x"))
+        .to.be.revertedWithCustomError(balboa, "UpgradeAlreadyScheduled")
+        .withArgs(await balboa.upgradeId(implementation, "0x"));
+    });
+
+    it("Should reject the zero address", async function () {
+      await expect(
+        balboa.connect(upgrader).scheduleUpgrade(ethers.ZeroAddress, "0x")
+      ).to.be.revertedWithCustomError(balboa, "ZeroAddress");
+    });
+  });
+
+  describe("Execution", function () {
+    it("Should execute a scheduled upgrade once the delay has passed", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      await time.increase(DELAY);
+
+      await expect(balboa.connect(upgrader).upgradeToAndCall(implementation, "0x"))
+        .to.emit(balboa, "Upgraded")
+        .withArgs(implementation);
+      expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(implementation);
+      expect(await balboa.upgradeReadyAt(await balboa.upgradeId(implementation, "0x"))).to.equal(0n);
+    });
+
+    it("Should reject an upgrade before the delay has passed", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      const id = await balboa.upgradeId(implementation, "0x");
+      const readyAt = await balboa.upgradeReadyAt(id);
+      await time.increase(DELAY - 10n);
+
+      await expect(balboa.connect(upgrader).upgradeToAndCall(implementation, "0x"))
+        .to.be.revertedWithCustomError(balboa, "UpgradeNotReady")
+        .withArgs(id, readyAt);
+    });
+
+    it("Should reject an upgrade that was not scheduled", async function () {
+      const implementation = await newImplementation();
+
+      await expect(balboa.connect(upgrader).upgradeToAndCall(implementation, "0x"))
+        .to.be.revertedWithCustomError(balboa, "UpgradeNotScheduled")
+        .withArgs(await balboa.upgradeId(implementation, "0x"));
+    });
+
+    it("Should reject calldata other than what was scheduled", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      await time.increase(DELAY);
+      const data = balboa.interface.encodeFunctionData("pause");
+
+      await expect(balboa.connect(upgrader).upgradeToAndCall(implementation, data))
+        .to.be.revertedWithCustomError(balboa, "UpgradeNotScheduled")
+        .withArgs(await balboa.upgradeId(implementation, data));
+    });
+
+    it("Should still require UPGRADER_ROLE to execute", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      await time.increase(DELAY);
+
+      await expect(balboa.connect(user1).upgradeToAndCall(implementation, "0x"))
+        .to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await balboa.UPGRADER_ROLE());
+    });
+
+    it("Should run the scheduled calldata with the upgrade", async function () {
+      const implementation = await newImplementation();
+      const data = balboa.interface.encodeFunctionData("pause");
+      await balboa.grantRole(await balboa.PAUSER_ROLE(), upgrader.address);
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, data);
+      await time.increase(DELAY);
+
+      await balboa.connect(upgrader).upgradeToAndCall(implementation, data);
+
+      expect(await balboa.paused()).to.be.true;
+    });
+
+    it("Should not allow executing the same schedule twice", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      await time.increase(DELAY);
+      await balboa.connect(upgrader).upgradeToAndCall(implementation, "0x");
+
+      await expect(
+        balboa.connect(upgrader).upgradeToAndCall(implementation, "0x")
+      ).to.be.revertedWithCustomError(balboa, "UpgradeNotScheduled");
+    });
+    it("Should refuse to schedule or upgrade until a delay is set", async function () {
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+      const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+      const v4 = await upgrades.deployProxy(BalboaTokenV4, [owner.address, 0n], {
+        kind: "uups",
+        initializer: "initializeWithCap",
+      });
+      // Upgrading from V4 without initializeV5 leaves the delay at zero
+      const unset = (await upgrades.upgradeProxy(v4, BalboaTokenV5)) as unknown as BalboaTokenV5;
+      const implementation = await newImplementation();
+      expect(await unset.upgradeDelay()).to.equal(0n);
+
+      await expect(unset.scheduleUpgrade(implementation, "0x")).to.be.revertedWithCustomError(
+        unset,
+        "UpgradeDelayNotSet"
+      );
+      await expect(unset.upgradeToAndCall(implementation, "0x")).to.be.revertedWithCustomError(
+        unset,
+        "UpgradeDelayNotSet"
+      );
+
+      await unset.initializeV5([], [], DELAY);
+      await unset.scheduleUpgrade(implementation, "0x");
+      await expect(unset.upgradeToAndCall(implementation, "0x")).to.be.revertedWithCustomError(
+        unset,
+        "UpgradeNotReady"
+      );
+    });
+  });
+
+  describe("Cancellation", function () {
+    it("Should let the upgrader cancel a scheduled upgrade", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      const id = await balboa.upgradeId(implementation, "0x");
+
+      await expect(balboa.connect(upgrader).cancelUpgrade(id)).to.emit(balboa, "UpgradeCancelled").withArgs(id);
+      await time.increase(DELAY);
+
+      await expect(
+        balboa.connect(upgrader).upgradeToAndCall(implementation, "0x")
+      ).to.be.revertedWithCustomError(balboa, "UpgradeNotScheduled");
+    });
+
+    it("Should let an admin without UPGRADER_ROLE cancel", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+      await balboa.revokeRole(await balboa.UPGRADER_ROLE(), owner.address);
+
+      await expect(balboa.cancelUpgrade(await balboa.upgradeId(implementation, "0x"))).to.emit(
+        balboa,
+        "UpgradeCancelled"
+      );
+    });
+
+    it("Should not let other accounts cancel", async function () {
+      const implementation = await newImplementation();
+      await balboa.connect(upgrader).scheduleUpgrade(implementation, "0x");
+
+      await expect(balboa.connect(user1).cancelUpgrade(await balboa.upgradeId(implementation, "0x")))
+        .to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await balboa.UPGRADER_ROLE());
+    });
+
+    it("Should reject cancelling an upgrade that is not scheduled", async function () {
+      await expect(balboa.connect(upgrader).cancelUpgrade(ethers.ZeroHash))
+        .to.be.revertedWithCustomError(balboa, "UpgradeNotScheduled")
+        .withArgs(ethers.ZeroHash);
+    });
+  });
+
+  describe("Timelock Tasks", function () {
+    it("Should schedule, wait and execute an upgrade", async function () {
+      await balboa.mint(user1.address, 100n);
+      const scheduled: ScheduleUpgradeResult = await hre.run("balboa:timelock:schedule", { contract: "BalboaTokenV5" });
+
+      const entry = loadDeploymentRecord("hardhat")?.scheduledUpgrades?.[0];
+      expect(entry).to.include({ id: scheduled.id, contract: "BalboaTokenV5", readyAt: scheduled.readyAt });
+      expect(entry?.invariants?.balances).to.deep.equal({ [user1.address]: "100" });
+      await expect(hre.run("balboa:timelock:execute", {})).to.be.rejectedWith(/can execute from .* from now/);
+
+      // Activity during the delay is not an invariant violation
+      await balboa.connect(user1).transfer(owner.address, 40n);
+      await time.increaseTo(scheduled.readyAt);
+      const result: ExecuteScheduledUpgradeResult = await hre.run("balboa:timelock:execute", {});
+
+      expect(result.implementation).to.equal(scheduled.implementation);
+      const record = loadDeploymentRecord("hardhat");
+      expect(record?.scheduledUpgrades).to.be.undefined;
+      expect(record?.implementations.at(-1)?.address).to.equal(scheduled.implementation);
+    });
+
+    it("Should check the invariants after executing", async function () {
+      const scheduled: ScheduleUpgradeResult = await hre.run("balboa:timelock:schedule", {
+        contract: "BalboaTokenV5",
+        call: "pause",
+        args: [],
+      });
+      await time.increaseTo(scheduled.readyAt);
+
+      await expect(hre.run("balboa:timelock:execute", {})).to.be.rejectedWith(
+        "Upgrade invariants violated:\n  paused: false -> true"
+      );
+      // The upgrade itself went through and is recorded
+      expect(await balboa.paused()).to.be.true;
+      expect(loadDeploymentRecord("hardhat")?.implementations.at(-1)?.address).to.equal(scheduled.implementation);
+    });
+
+    it("Should cancel a scheduled upgrade", async function () {
+      const scheduled: ScheduleUpgradeResult = await hre.run("balboa:timelock:schedule", {
+        contract: "BalboaTokenV5",
+        call: "pause",
+        args: [],
+      });
+
+      await hre.run("balboa:timelock:cancel", { id: scheduled.id });
+
+      expect(await balboa.upgradeReadyAt(scheduled.id)).to.equal(0n);
+      expect(loadDeploymentRecord("hardhat")?.scheduledUpgrades).to.be.undefined;
+      await expect(hre.run("balboa:timelock:execute", {})).to.be.rejectedWith(/No upgrade is scheduled/);
+    });
+
+    it("Should require --id when several upgrades are scheduled", async function () {
+      await hre.run("balboa:timelock:schedule", { contract: "BalboaTokenV5", call: "pause", args: [] });
+      const second: ScheduleUpgradeResult = await hre.run("balboa:timelock:schedule", { contract: "BalboaTokenV5" });
+      await time.increase(DELAY);
+
+      await expect(hre.run("balboa:timelock:execute", {})).to.be.rejectedWith(/Several upgrades are scheduled/);
+      await hre.run("balboa:timelock:execute", { id: second.id });
+
+      expect(await balboa.paused()).to.be.false;
+    });
+
+    it("Should refuse direct upgrades of a timelocked proxy", async function () {
+      await expect(hre.run("balboa:upgrade", { contract: "BalboaTokenV5" })).to.be.rejectedWith(
+        /timelocks upgrades \(3600s delay\); use balboa:timelock:schedule/
+      );
+      await expect(hre.run("balboa:upgrade:propose", { contract: "BalboaTokenV5" })).to.be.rejectedWith(
+        /timelocks upgrades/
+      );
+    });
+
+    it("Should only treat a reverting upgradeDelay() as no timelock", async function () {
+      const { proxy: untimelocked } = await deployPreTimelockToken(owner.address);
+      expect(await upgradeDelay(ethers.provider, untimelocked)).to.equal(undefined);
+      expect(await upgradeDelay(ethers.provider, proxy)).to.equal(DELAY);
+
+      const unreachable = {
+        call: async () => {
+          throw new Error("connection refused");
+        },
+      } as unknown as Provider;
+      await expect(upgradeDelay(unreachable, proxy)).to.be.rejectedWith(/connection refused/);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ZeroAddress, ZeroHash, id } from "ethers";
+import hre, { ethers, upgrades } from "hardhat";
+import type { BlacklistReceiptLog } from "../scripts/admin/blacklist";
+import { parseBlacklistCsv } from "../scripts/lib/blacklist";
+import type { DryRunReport } from "../scripts/lib/dryrun";
+import type { BalboaTokenV6 } from "../typechain-types";
+
+describe("BalboaTokenV6", function () {
+  const DELAY = 3600n;
+
+  let dir: string;
+  let previousDir: string | undefined;
+  let balboa: BalboaTokenV6;
+  let tokenAddress: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let blacklister: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let accounts: string[];
+
+  beforeEach(async function () {
+    let others;
+    [owner, blacklister, ...others] = await ethers.getSigners();
+    accounts = others.slice(0, 6).map((signer) => signer.address);
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-blacklist-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+
+    const BalboaTokenV6 = await ethers.getContractFactory("BalboaTokenV6");
+    balboa = (await upgrades.deployProxy(BalboaTokenV6, [owner.address, 0n, DELAY], {
+      kind: "uups",
+      initializer: "initializeWithTimelock",
+    })) as unknown as BalboaTokenV6;
+    tokenAddress = await balboa.getAddress();
+    await balboa.grantRole(await balboa.BLACKLISTER_ROLE(), blacklister.address);
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeCsv(lines: string[]): string {
+    const file = path.join(dir, "blacklist.csv");
+    fs.writeFileSync(file, ["address,reason", ...lines].join("\n") + "\n");
+    return file;
+  }
+
+  describe("Batch Blacklisting", function () {
+    it("Should pass the upgrades plugin safety checks from V5", async function () {
+      const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+      const BalboaTokenV6 = await ethers.getContractFactory("BalboaTokenV6");
+
+      await upgrades.validateUpgrade(BalboaTokenV5, BalboaTokenV6, { kind: "uups" });
+    });
+
+    it("Should blacklist every account with its reason", async function () {
+      const reasons = [id("CASE-1"), id("CASE-2")];
+
+      const tx = balboa.connect(blacklister).blacklistBatch(accounts.slice(0, 2), reasons);
+
+      await expect(tx).to.emit(balboa, "Blacklisted").withArgs(accounts[0]);
+      await expect(tx).to.emit(balboa, "BlacklistUpdated").withArgs(accounts[0], true, reasons[0]);
+      await expect(tx).to.emit(balboa, "BlacklistUpdated").withArgs(accounts[1], true, reasons[1]);
+      expect(await balboa.isBlacklisted(accounts[0])).to.be.true;
+      expect(await balboa.isBlacklisted(accounts[1])).to.be.true;
+    });
+
+    it("Should skip accounts already in the requested state", async function () {
+      await balboa.connect(blacklister).blacklist(accounts[0]);
+
+      expect(await balboa.connect(blacklister).blacklistBatch.staticCall(accounts.slice(0, 3), [])).to.equal(2n);
+      await expect(balboa.connect(blacklister).blacklistBatch(accounts.slice(0, 3), []))
+        .to.emit(balboa, "BlacklistUpdated")
+        .withArgs(accounts[1], true, ZeroHash);
+
+      expect(await balboa.connect(blacklister).unBlacklistBatch.staticCall([accounts[0], accounts[3]], [])).to.equal(
+        1n
+      );
+      await expect(balboa.connect(blacklister).unBlacklistBatch([accounts[0], accounts[3]], []))
+        .to.emit(balboa, "UnBlacklisted")
+        .withArgs(accounts[0]);
+      expect(await balboa.isBlacklisted(accounts[0])).to.be.false;
+    });
+
+    it("Should reject mismatched reasons and the zero address", async function () {
+      await expect(
+        balboa.connect(blacklister).blacklistBatch(accounts.slice(0, 2), [ZeroHash])
+      ).to.be.revertedWithCustomError(balboa, "BatchLengthMismatch");
+      await expect(
+        balboa.connect(blacklister).blacklistBatch([accounts[0], ZeroAddress], [])
+      ).to.be.revertedWithCustomError(balboa, "ZeroAddress");
+    });
+
+    it("Should only allow BLACKLISTER_ROLE", async function () {
+      const outsider = (await ethers.getSigners())[10];
+      await expect(balboa.connect(outsider).blacklistBatch([accounts[0]], []))
+        .to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount")
+        .withArgs(outsider.address, await balboa.BLACKLISTER_ROLE());
+      await expect(balboa.connect(outsider).unBlacklistBatch([accounts[0]], [])).to.be.revertedWithCustomError(
+        balboa,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("CSV Import", function () {
+    it("Should parse reasons, quotes and comments", function () {
+      const entries = parseBlacklistCsv(
+        [
+          "# sanctions list",
+          "address,reason",
+          `${accounts[0].toLowerCase()},CASE-2026-014`,
+          `${accounts[1]},"Ticket 7, exchange report"`,
+          `${accounts[2]},${id("evidence")}`,
+          accounts[3],
+        ].join("\n")
+      );
+
+      expect(entries).to.deep.equal([
+        { account: accounts[0], reason: "CASE-2026-014", reasonHash: id("CASE-2026-014") },
+        { account: accounts[1], reason: "Ticket 7, exchange report", reasonHash: id("Ticket 7, exchange report") },
+        { account: accounts[2], reason: id("evidence"), reasonHash: id("evidence") },
+        { account: accounts[3], reason: "", reasonHash: ZeroHash },
+      ]);
+      expect(() => parseBlacklistCsv(`${accounts[0]}\n${accounts[0]}`, "list.csv")).to.throw(
+        `list.csv:2: ${accounts[0]} is already listed on line 1`
+      );
+      expect(() => parseBlacklistCsv("0x1234,reason", "list.csv")).to.throw("list.csv:1: invalid address: 0x1234");
+    });
+
+    it("Should blacklist from a CSV in gas-bounded batches and log the receipts", async function () {
+      await balboa.connect(blacklister).blacklist(accounts[0]);
+      const file = writeCsv(accounts.map((account, i) => `${account},CASE-${i}`));
+      const receipts = path.join(dir, "receipts.json");
+      const one = await balboa.blacklistBatch.estimateGas([accounts[1]], [id("CASE-1")]);
+      const two = await balboa.blacklistBatch.estimateGas([accounts[1], accounts[2]], [id("CASE-1"), id("CASE-2")]);
+      const gasLimit = two + (two - one) / 2n;
+
+      const log: BlacklistReceiptLog = await hre.run("balboa:blacklist:add", {
+        file,
+        token: tokenAddress,
+        gasLimit,
+        receipts,
+        yes: true,
+      });
+
+      expect(log.skipped.map((entry) => entry.account)).to.deep.equal([accounts[0]]);
+      expect(log.batches).to.have.length(3);
+      expect(log.batches.flatMap((batch) => batch.entries.map((entry) => entry.account))).to.deep.equal(
+        accounts.slice(1)
+      );
+      expect(log.batches.every((batch) => batch.changed === batch.entries.length)).to.be.true;
+      expect(log.batches.every((batch) => BigInt(batch.gasUsed) <= gasLimit)).to.be.true;
+      for (const account of accounts) {
+        expect(await balboa.isBlacklisted(account)).to.be.true;
+      }
+
+      const receipt = await ethers.provider.getTransactionReceipt(log.batches[0].txHash);
+      const reasons = receipt!.logs
+        .map((entry) => balboa.interface.parseLog(entry))
+        .filter((event) => event?.name === "BlacklistUpdated")
+        .map((event) => event!.args.reason);
+      expect(reasons).to.deep.equal(log.batches[0].entries.map((entry) => id(entry.reason)));
+      expect(JSON.parse(fs.readFileSync(receipts, "utf8"))).to.deep.equal(log);
+    });
+
+    it("Should lift the blacklist from a CSV", async function () {
+      await balboa.connect(blacklister).blacklistBatch(accounts.slice(0, 2), []);
+      const file = writeCsv([`${accounts[0]},CLEARED-1`, `${accounts[2]},CLEARED-2`]);
+
+      const log: BlacklistReceiptLog = await hre.run("balboa:blacklist:remove", {
+        file,
+        token: tokenAddress,
+        yes: true,
+      });
+
+      expect(log.action).to.equal("unblacklist");
+      expect(log.skipped.map((entry) => entry.account)).to.deep.equal([accounts[2]]);
+      expect(log.batches).to.have.length(1);
+      expect(await balboa.isBlacklisted(accounts[0])).to.be.false;
+      expect(await balboa.isBlacklisted(accounts[1])).to.be.true;
+      expect(fs.readdirSync(path.join(dir, "blacklist"))).to.have.length(1);
+    });
+
+    it("Should simulate the batches without sending them", async function () {
+      const file = writeCsv(accounts.slice(0, 3));
+
+      const report: DryRunReport = await hre.run("balboa:blacklist:add", {
+        file,
+        token: tokenAddress,
+        yes: true,
+        dryRun: true,
+      });
+
+      expect(report.transactions.map((transaction) => transaction.description)).to.deep.equal([
+        "Blacklist batch 1/1 (3 accounts)",
+      ]);
+      expect(report.transactions[0].events).to.include(`Blacklisted(account=${accounts[0]})`);
+      expect(report.transactions[0].events?.filter((event) => event.startsWith("BlacklistUpdated("))).to.have.length(3);
+      expect(await balboa.isBlacklisted(accounts[0])).to.be.false;
+    });
+
+    it("Should refuse tokens without batch blacklisting", async function () {
+      const BalboaTokenV5 = await ethers.getContractFactory("BalboaTokenV5");
+      const v5 = await upgrades.deployProxy(BalboaTokenV5, [owner.address, 0n, DELAY], {
+        kind: "uups",
+        initializer: "initializeWithTimelock",
+      });
+      const file = writeCsv([accounts[0]]);
+
+      await expect(
+        hre.run("balboa:blacklist:add", { file, token: await v5.getAddress(), yes: true })
+      ).to.be.rejectedWith(/has no batch blacklisting; upgrade it to BalboaTokenV6 first/);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ZeroAddress } from "ethers";
+import hre, { ethers, upgrades } from "hardhat";
+import type { SeizeResult } from "../scripts/admin/seize";
+import type { DryRunReport } from "../scripts/lib/dryrun";
+import type { BalboaTokenV7 } from "../typechain-types";
+
+describe("BalboaTokenV7", function () {
+  const BALANCE = ethers.parseEther("250");
+  const DELAY = 3600n;
+
+  let dir: string;
+  let previousDir: string | undefined;
+  let balboa: BalboaTokenV7;
+  let tokenAddress: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let seizer: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let blacklister: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let recovery: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let holder: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  async function deployV7(): Promise<BalboaTokenV7> {
+    const BalboaTokenV7 = await ethers.getContractFactory("BalboaTokenV7");
+    return (await upgrades.deployProxy(BalboaTokenV7, [owner.address, 0n, DELAY], {
+      kind: "uups",
+      initializer: "initializeWithTimelock",
+    })) as unknown as BalboaTokenV7;
+  }
+
+  beforeEach(async function () {
+    [owner, seizer, blacklister, recovery, holder] = await ethers.getSigners();
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-seize-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+
+    balboa = await deployV7();
+    tokenAddress = await balboa.getAddress();
+    await balboa.initializeV7([], [], 0n, recovery.address);
+    await balboa.grantRole(await balboa.SEIZER_ROLE(), seizer.address);
+    await balboa.grantRole(await balboa.BLACKLISTER_ROLE(), blacklister.address);
+    await balboa.mint(holder.address, BALANCE);
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("Initialization", function () {
+    it("Should pass the upgrades plugin safety checks from V6", async function () {
+      const BalboaTokenV6 = await ethers.getContractFactory("BalboaTokenV6");
+      const BalboaTokenV7 = await ethers.getContractFactory("BalboaTokenV7");
+
+      await upgrades.validateUpgrade(BalboaTokenV6, BalboaTokenV7, { kind: "uups" });
+    });
+
+    it("Should set the recovery address without granting SEIZER_ROLE", async function () {
+      expect(await balboa.recoveryAddress()).to.equal(recovery.address);
+      expect(await balboa.upgradeDelay()).to.equal(DELAY);
+      expect(await balboa.hasRole(await balboa.SEIZER_ROLE(), owner.address)).to.be.false;
+      await expect(balboa.initializeV7([], [], 0n, recovery.address)).to.be.revertedWithCustomError(
+        balboa,
+        "InvalidInitialization"
+      );
+    });
+
+    it("Should register role holders and the delay when upgrading straight from V1", async function () {
+      const V1 = await ethers.getContractFactory("BalboaToken");
+      const v1 = await upgrades.deployProxy(V1, [owner.address], { kind: "uups", initializer: "initialize" });
+      await v1.grantRole(await v1.MINTER_ROLE(), holder.address);
+      const BalboaTokenV7 = await ethers.getContractFactory("BalboaTokenV7");
+
+      await expect(
+        upgrades.upgradeProxy(v1, BalboaTokenV7, { call: { fn: "initializeV7", args: [[], [], 0n, recovery.address] } })
+      )
+        .to.be.revertedWithCustomError(balboa, "InvalidUpgradeDelay")
+        .withArgs(0n);
+
+      const previousRecovery = process.env.RECOVERY_ADDRESS;
+      process.env.RECOVERY_ADDRESS = recovery.address;
+      try {
+        await hre.run("balboa:upgrade", {
+          proxy: await v1.getAddress(),
+          contract: "BalboaTokenV7",
+          call: "initializeV7",
+        });
+      } finally {
+        if (previousRecovery === undefined) delete process.env.RECOVERY_ADDRESS;
+        else process.env.RECOVERY_ADDRESS = previousRecovery;
+      }
+
+      const v7 = BalboaTokenV7.attach(await v1.getAddress()) as unknown as BalboaTokenV7;
+      expect([...(await v7.getRoleMembers(await v7.MINTER_ROLE()))]).to.have.members([owner.address, holder.address]);
+      expect(await v7.upgradeDelay()).to.equal(48n * 60n * 60n);
+      expect(await v7.recoveryAddress()).to.equal(recovery.address);
+    });
+
+    it("Should reject the zero address and blacklisted accounts as recovery address", async function () {
+      await balboa.connect(blacklister).blacklist(holder.address);
+
+      await expect(balboa.setRecoveryAddress(ZeroAddress)).to.be.revertedWithCustomError(balboa, "ZeroAddress");
+      await expect(balboa.setRecoveryAddress(holder.address))
+        .to.be.revertedWithCustomError(balboa, "AccountBlacklisted")
+        .withArgs(holder.address);
+      await expect(balboa.setRecoveryAddress(owner.address))
+        .to.emit(balboa, "RecoveryAddressUpdated")
+        .withArgs(recovery.address, owner.address);
+    });
+  });
+
+  describe("Seizing", function () {
+    beforeEach(async function () {
+      await balboa.connect(blacklister).blacklist(holder.address);
+    });
+
+    it("Should move the full balance of a blacklisted account to the recovery address", async function () {
+      const supply = await balboa.totalSupply();
+
+      await expect(balboa.connect(seizer).seize(holder.address))
+        .to.emit(balboa, "BalanceSeized")
+        .withArgs(holder.address, recovery.address, BALANCE)
+        .and.to.emit(balboa, "Transfer")
+        .withArgs(holder.address, recovery.address, BALANCE);
+
+      expect(await balboa.balanceOf(holder.address)).to.equal(0n);
+      expect(await balboa.balanceOf(recovery.address)).to.equal(BALANCE);
+      expect(await balboa.totalSupply()).to.equal(supply);
+      expect(await balboa.isBlacklisted(holder.address)).to.be.true;
+    });
+
+    it("Should keep the blacklist in force for ordinary transfers", async function () {
+      await expect(balboa.connect(holder).transfer(recovery.address, 1n))
+        .to.be.revertedWithCustomError(balboa, "AccountBlacklisted")
+        .withArgs(holder.address);
+    });
+
+    it("Should reject accounts that are not blacklisted", async function () {
+      await balboa.connect(blacklister).unBlacklist(holder.address);
+
+      await expect(balboa.connect(seizer).seize(holder.address))
+        .to.be.revertedWithCustomError(balboa, "AccountNotBlacklisted")
+        .withArgs(holder.address);
+    });
+
+    it("Should not seize while paused", async function () {
+      await balboa.pause();
+
+      await expect(balboa.connect(seizer).seize(holder.address)).to.be.revertedWithCustomError(balboa, "EnforcedPause");
+
+      await balboa.unpause();
+      await expect(balboa.connect(seizer).seize(holder.address)).to.emit(balboa, "BalanceSeized");
+    });
+
+    it("Should reject empty balances, a blacklisted recovery address and a missing one", async function () {
+      await balboa.connect(seizer).seize(holder.address);
+      await expect(balboa.connect(seizer).seize(holder.address)).to.be.revertedWithCustomError(balboa, "ZeroAmount");
+
+      await balboa.mint(owner.address, BALANCE);
+      await balboa.connect(blacklister).blacklist(owner.address);
+      await balboa.connect(blacklister).blacklist(recovery.address);
+      await expect(balboa.connect(seizer).seize(owner.address))
+        .to.be.revertedWithCustomError(balboa, "AccountBlacklisted")
+        .withArgs(recovery.address);
+
+      const fresh = await deployV7();
+      await fresh.grantRole(await fresh.SEIZER_ROLE(), seizer.address);
+      await fresh.blacklist(holder.address);
+      await expect(fresh.connect(seizer).seize(holder.address)).to.be.revertedWithCustomError(
+        fresh,
+        "RecoveryAddressNotSet"
+      );
+    });
+  });
+
+  describe("Role Separation", function () {
+    beforeEach(async function () {
+      await balboa.connect(blacklister).blacklist(holder.address);
+    });
+
+    it("Should only let SEIZER_ROLE seize", async function () {
+      const seizerRole = await balboa.SEIZER_ROLE();
+      for (const account of [owner, blacklister, recovery]) {
+        await expect(balboa.connect(account).seize(holder.address))
+          .to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount")
+          .withArgs(account.address, seizerRole);
+      }
+    });
+
+    it("Should not let the seizer choose the recovery address or blacklist", async function () {
+      await expect(balboa.connect(seizer).setRecoveryAddress(seizer.address))
+        .to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount")
+        .withArgs(seizer.address, await balboa.DEFAULT_ADMIN_ROLE());
+      await expect(balboa.connect(seizer).blacklist(owner.address))
+        .to.be.revertedWithCustomError(balboa, "AccessControlUnauthorizedAccount")
+        .withArgs(seizer.address, await balboa.BLACKLISTER_ROLE());
+    });
+  });
+
+  describe("Seize Tasks", function () {
+    it("Should seize through the task", async function () {
+      await balboa.blacklist(holder.address);
+      await balboa.grantRole(await balboa.SEIZER_ROLE(), owner.address);
+
+      const dryRun: DryRunReport = await hre.run("balboa:seize", {
+        token: tokenAddress,
+        account: holder.address,
+        yes: true,
+        dryRun: true,
+      });
+      expect(dryRun.transactions[0].description).to.equal(
+        `Seize 250.0 BALBOA from ${holder.address} to ${recovery.address}`
+      );
+      expect(dryRun.transactions[0].revert).to.equal(undefined);
+      expect(await balboa.balanceOf(holder.address)).to.equal(BALANCE);
+
+      const result: SeizeResult = await hre.run("balboa:seize", {
+        token: tokenAddress,
+        account: holder.address,
+        yes: true,
+      });
+      expect(result).to.include({ account: holder.address, recovery: recovery.address, amount: BALANCE });
+      expect(await balboa.balanceOf(recovery.address)).to.equal(BALANCE);
+    });
+
+    it("Should refuse accounts that are not blacklisted and signers without SEIZER_ROLE", async function () {
+      await expect(
+        hre.run("balboa:seize", { token: tokenAddress, account: holder.address, yes: true })
+      ).to.be.rejectedWith("does not have SEIZER_ROLE");
+
+      await balboa.grantRole(await balboa.SEIZER_ROLE(), owner.address);
+      await expect(
+        hre.run("balboa:seize", { token: tokenAddress, account: holder.address, yes: true })
+      ).to.be.rejectedWith(`${holder.address} is not blacklisted`);
+    });
+
+    it("Should explain a seizure blocked by the pause", async function () {
+      await balboa.blacklist(holder.address);
+      await balboa.grantRole(await balboa.SEIZER_ROLE(), owner.address);
+      await balboa.pause();
+
+      await expect(
+        hre.run("balboa:seize", { token: tokenAddress, account: holder.address, yes: true })
+      ).to.be.rejectedWith(/The token is paused/);
+    });
+
+    it("Should change the recovery address through the task", async function () {
+      await hre.run("balboa:seize:recovery", { token: tokenAddress, recovery: owner.address, yes: true });
+
+      expect(await balboa.recoveryAddress()).to.equal(owner.address);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import type { Create2Factory } from "../typechain-types";
+import type { BalboaTokenV4, Create2Factory } from "../typechain-types";
 
 describe("Create2Factory - Security Tests", function () {
   let factory: Create2Factory;
@@ -12,7 +12,7 @@ describe("Create2Factory - Security Tests", function () {
     [owner, user, attacker] = await ethers.getSigners();
 
     const Create2Factory = await ethers.getContractFactory("Create2Factory");
-    const deployedFactory = await Create2Factory.deploy();
+    const deployedFactory = await Create2Factory.deploy(owner.address);
     await deployedFactory.waitForDeployment();
     factory = deployedFactory as unknown as Create2Factory;
   });
@@ -22,6 +22,21 @@ describe("Create2Factory - Security Tests", function () {
       expect(await factory.owner()).to.equal(owner.address);
     });
 
+    it("Should set the owner passed to the constructor", async function () {
+      const Create2Factory = await ethers.getContractFactory("Create2Factory");
+      const other = await Create2Factory.deploy(user.address);
+
+      expect(await other.owner()).to.equal(user.address);
+    });
+
+    it("Should reject a zero initial owner", async function () {
+      const Create2Factory = await ethers.getContractFactory("Create2Factory");
+
+      await expect(Create2Factory.deploy(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(factory, "OwnableInvalidOwner")
+        .withArgs(ethers.ZeroAddress);
+    });
+
     it("Should prevent non-owner from deploying", async function () {
       const salt = ethers.randomBytes(32);
       const bytecode = "0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe6080604052600080fd";
@@ -196,7 +211,7 @@ describe("Create2Factory - Security Tests", function () {
     it("Should maintain deterministic addresses across different factories", async function () {
       // Deploy a second factory
       const Create2Factory = await ethers.getContractFactory("Create2Factory");
-      const deployedFactory2 = await Create2Factory.deploy();
+      const deployedFactory2 = await Create2Factory.deploy(owner.address);
       await deployedFactory2.waitForDeployment();
       const factory2 = deployedFactory2 as unknown as Create2Factory;
 
@@ -210,6 +225,16 @@ describe("Create2Factory - Security Tests", function () {
       expect(addr1).to.not.equal(addr2);
     });
 
+    it("Should land at the deployer-and-nonce address whatever its constructor takes", async function () {
+      // A factory redeployed from the account and nonce of one built before the owner argument keeps its address
+      const expected = ethers.getCreateAddress({ from: owner.address, nonce: await owner.getNonce() });
+
+      const Create2Factory = await ethers.getContractFactory("Create2Factory");
+      const redeployed = await Create2Factory.deploy(user.address);
+
+      expect(await redeployed.getAddress()).to.equal(expected);
+    });
+
     it("Should produce consistent addresses for same inputs", async function () {
       const salt = ethers.randomBytes(32);
       const bytecode = "0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe6080604052600080fdfea2646970667358221220";
@@ -257,6 +282,355 @@ describe("Create2Factory - Security Tests", function () {
     });
   });
 
+  describe("Deploy And Call", function () {
+    let implementation: string;
+    let proxyBytecode: string;
+    let token: BalboaTokenV4;
+
+    beforeEach(async function () {
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+      const impl = await BalboaTokenV4.deploy();
+      await impl.waitForDeployment();
+      implementation = await impl.getAddress();
+      token = impl as unknown as BalboaTokenV4;
+
+      // Proxy with empty init data: the initializer runs through deployAndCall instead
+      const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+      proxyBytecode = Proxy.bytecode + Proxy.interface.encodeDeploy([implementation, "0x"]).slice(2);
+    });
+
+    it("Should deploy and initialize in one transaction", async function () {
+      const salt = ethers.randomBytes(32);
+      const predicted = await factory.computeAddress(salt, proxyBytecode);
+      const data = token.interface.encodeFunctionData("initializeWithCap", [user.address, 1000n]);
+
+      const tx = await factory.deployAndCall(salt, proxyBytecode, data);
+
+      await expect(tx).to.emit(factory, "Deployed").withArgs(predicted, ethers.hexlify(salt), owner.address);
+      await expect(tx)
+        .to.emit(factory, "DeployedAndCalled")
+        .withArgs(predicted, ethers.hexlify(salt), owner.address, "0x");
+
+      const proxy = token.attach(predicted) as BalboaTokenV4;
+      expect(await proxy.hasRole(await proxy.DEFAULT_ADMIN_ROLE(), user.address)).to.be.true;
+      expect(await proxy.hasRole(await proxy.DEFAULT_ADMIN_ROLE(), await factory.getAddress())).to.be.false;
+      expect(await proxy.cap()).to.equal(1000n);
+    });
+
+    it("Should leave nothing to front-run after deployment", async function () {
+      const salt = ethers.randomBytes(32);
+      const predicted = await factory.computeAddress(salt, proxyBytecode);
+      await factory.deployAndCall(salt, proxyBytecode, token.interface.encodeFunctionData("initializeWithCap", [user.address, 0n]));
+
+      const proxy = token.attach(predicted) as BalboaTokenV4;
+      await expect(
+        proxy.connect(attacker).initializeWithCap(attacker.address, 0n)
+      ).to.be.revertedWithCustomError(proxy, "InvalidInitialization");
+    });
+
+    it("Should carry the call result in the event", async function () {
+      const salt = ethers.randomBytes(32);
+      const initData = token.interface.encodeFunctionData("initializeWithCap", [user.address, 0n]);
+      const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+      const bytecode = Proxy.bytecode + Proxy.interface.encodeDeploy([implementation, initData]).slice(2);
+      const predicted = await factory.computeAddress(salt, bytecode);
+
+      const tx = factory.deployAndCall(salt, bytecode, token.interface.encodeFunctionData("name"));
+
+      await expect(tx)
+        .to.emit(factory, "DeployedAndCalled")
+        .withArgs(predicted, ethers.hexlify(salt), owner.address, ethers.AbiCoder.defaultAbiCoder().encode(["string"], ["BALBOA"]));
+    });
+
+    it("Should roll back the deployment when the call fails", async function () {
+      const salt = ethers.randomBytes(32);
+      const predicted = await factory.computeAddress(salt, proxyBytecode);
+      const badData = token.interface.encodeFunctionData("initializeWithCap", [ethers.ZeroAddress, 0n]);
+
+      await expect(factory.deployAndCall(salt, proxyBytecode, badData))
+        .to.be.revertedWithCustomError(factory, "CallFailed")
+        .withArgs(predicted, token.interface.encodeErrorResult("ZeroAddress"));
+
+      expect(await ethers.provider.getCode(predicted)).to.equal("0x");
+      expect(await factory.isDeployed(salt, proxyBytecode)).to.be.false;
+
+      // The salt is still available
+      const goodData = token.interface.encodeFunctionData("initializeWithCap", [user.address, 0n]);
+      await expect(factory.deployAndCall(salt, proxyBytecode, goodData)).to.emit(factory, "DeployedAndCalled");
+    });
+
+    it("Should roll back when the call hits a contract without that function", async function () {
+      const salt = ethers.randomBytes(32);
+      const bytecode = "0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe6080604052600080fdfea2646970667358221220";
+      const predicted = await factory.computeAddress(salt, bytecode);
+
+      await expect(factory.deployAndCall(salt, bytecode, "0x12345678"))
+        .to.be.revertedWithCustomError(factory, "CallFailed")
+        .withArgs(predicted, "0x");
+      expect(await ethers.provider.getCode(predicted)).to.equal("0x");
+    });
+
+    it("Should require call data", async function () {
+      await expect(
+        factory.deployAndCall(ethers.randomBytes(32), proxyBytecode, "0x")
+      ).to.be.revertedWithCustomError(factory, "EmptyCallData");
+    });
+
+    it("Should prevent non-owner from deploying and calling", async function () {
+      const data = token.interface.encodeFunctionData("initializeWithCap", [attacker.address, 0n]);
+
+      await expect(
+        factory.connect(attacker).deployAndCall(ethers.randomBytes(32), proxyBytecode, data)
+      ).to.be.revertedWithCustomError(factory, "UnauthorizedDeployer");
+    });
+
+    it("Should prevent deploying over an existing contract", async function () {
+      const salt = ethers.randomBytes(32);
+      const data = token.interface.encodeFunctionData("initializeWithCap", [user.address, 0n]);
+      await factory.deployAndCall(salt, proxyBytecode, data);
+
+      await expect(
+        factory.deployAndCall(salt, proxyBytecode, data)
+      ).to.be.revertedWithCustomError(factory, "ContractAlreadyDeployed");
+    });
+  });
+
+  describe("Batch Deployment", function () {
+    const bytecode = "0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe6080604052600080fdfea2646970667358221220";
+
+    it("Should deploy every contract in order in one transaction", async function () {
+      const salts = [ethers.randomBytes(32), ethers.randomBytes(32), ethers.randomBytes(32)];
+      const predicted = await Promise.all(salts.map((salt) => factory.computeAddress(salt, bytecode)));
+
+      expect(await factory.deployMany.staticCall(salts, [bytecode, bytecode, bytecode])).to.deep.equal(predicted);
+
+      const tx = await factory.deployMany(salts, [bytecode, bytecode, bytecode]);
+      for (const [i, addr] of predicted.entries()) {
+        await expect(tx).to.emit(factory, "Deployed").withArgs(addr, ethers.hexlify(salts[i]), owner.address);
+        expect(await factory.isDeployed(salts[i], bytecode)).to.be.true;
+      }
+    });
+
+    it("Should let a later contract use an earlier one", async function () {
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+      const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+      const [saltImpl, saltProxy] = [ethers.randomBytes(32), ethers.randomBytes(32)];
+      const implementation = await factory.computeAddress(saltImpl, BalboaTokenV4.bytecode);
+      const initData = BalboaTokenV4.interface.encodeFunctionData("initializeWithCap", [user.address, 0n]);
+      const proxyBytecode = Proxy.bytecode + Proxy.interface.encodeDeploy([implementation, initData]).slice(2);
+
+      await factory.deployMany([saltImpl, saltProxy], [BalboaTokenV4.bytecode, proxyBytecode]);
+
+      const token = await ethers.getContractAt("BalboaTokenV4", await factory.computeAddress(saltProxy, proxyBytecode));
+      expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), user.address)).to.be.true;
+    });
+
+    it("Should deploy nothing when a later contract already exists", async function () {
+      const [salt1, salt2] = [ethers.randomBytes(32), ethers.randomBytes(32)];
+      await factory.deploy(salt2, bytecode);
+
+      await expect(
+        factory.deployMany([salt1, salt2], [bytecode, bytecode])
+      ).to.be.revertedWithCustomError(factory, "ContractAlreadyDeployed");
+
+      expect(await factory.isDeployed(salt1, bytecode)).to.be.false;
+    });
+
+    it("Should deploy nothing when a later constructor reverts", async function () {
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+      const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+      const [saltImpl, saltProxy] = [ethers.randomBytes(32), ethers.randomBytes(32)];
+      const implementation = await factory.computeAddress(saltImpl, BalboaTokenV4.bytecode);
+      const badInit = BalboaTokenV4.interface.encodeFunctionData("initializeWithCap", [ethers.ZeroAddress, 0n]);
+      const proxyBytecode = Proxy.bytecode + Proxy.interface.encodeDeploy([implementation, badInit]).slice(2);
+
+      await expect(
+        factory.deployMany([saltImpl, saltProxy], [BalboaTokenV4.bytecode, proxyBytecode])
+      ).to.be.revertedWithCustomError(factory, "CreateFailed");
+
+      expect(await ethers.provider.getCode(implementation)).to.equal("0x");
+    });
+
+    it("Should deploy nothing when any bytecode is empty", async function () {
+      const [salt1, salt2] = [ethers.randomBytes(32), ethers.randomBytes(32)];
+
+      await expect(
+        factory.deployMany([salt1, salt2], [bytecode, "0x"])
+      ).to.be.revertedWithCustomError(factory, "EmptyBytecode");
+
+      expect(await factory.isDeployed(salt1, bytecode)).to.be.false;
+    });
+
+    it("Should reject mismatched salts and bytecodes", async function () {
+      await expect(factory.deployMany([ethers.randomBytes(32)], [bytecode, bytecode]))
+        .to.be.revertedWithCustomError(factory, "LengthMismatch")
+        .withArgs(1, 2);
+    });
+
+    it("Should prevent non-owner from batch deploying", async function () {
+      await expect(
+        factory.connect(attacker).deployMany([ethers.randomBytes(32)], [bytecode])
+      ).to.be.revertedWithCustomError(factory, "UnauthorizedDeployer");
+    });
+  });
+
+  describe("Authorized Deployers", function () {
+    const bytecode = "0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe6080604052600080fdfea2646970667358221220";
+
+    it("Should let the owner authorize a deployer", async function () {
+      await expect(factory.authorizeDeployer(user.address))
+        .to.emit(factory, "DeployerAuthorized")
+        .withArgs(user.address);
+
+      expect(await factory.isAuthorizedDeployer(user.address)).to.be.true;
+      await expect(factory.connect(user).deploy(ethers.randomBytes(32), bytecode)).to.emit(factory, "Deployed");
+    });
+
+    it("Should let the owner revoke a deployer", async function () {
+      await factory.authorizeDeployer(user.address);
+
+      await expect(factory.revokeDeployer(user.address))
+        .to.emit(factory, "DeployerRevoked")
+        .withArgs(user.address);
+
+      expect(await factory.isAuthorizedDeployer(user.address)).to.be.false;
+      await expect(factory.connect(user).deploy(ethers.randomBytes(32), bytecode))
+        .to.be.revertedWithCustomError(factory, "UnauthorizedDeployer")
+        .withArgs(user.address);
+    });
+
+    it("Should always treat the owner as authorized", async function () {
+      expect(await factory.isAuthorizedDeployer(owner.address)).to.be.true;
+
+      await factory.revokeDeployer(owner.address);
+      expect(await factory.isAuthorizedDeployer(owner.address)).to.be.true;
+    });
+
+    it("Should prevent non-owner from managing deployers", async function () {
+      await expect(factory.connect(attacker).authorizeDeployer(attacker.address))
+        .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+
+      await factory.authorizeDeployer(user.address);
+      await expect(factory.connect(user).authorizeDeployer(attacker.address))
+        .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(factory.connect(user).revokeDeployer(user.address))
+        .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should reject authorizing the zero address", async function () {
+      await expect(factory.authorizeDeployer(ethers.ZeroAddress)).to.be.revertedWithCustomError(factory, "ZeroAddress");
+    });
+
+    it("Should not emit events for no-op changes", async function () {
+      await factory.authorizeDeployer(user.address);
+
+      await expect(factory.authorizeDeployer(user.address)).to.not.emit(factory, "DeployerAuthorized");
+      await expect(factory.revokeDeployer(attacker.address)).to.not.emit(factory, "DeployerRevoked");
+    });
+  });
+
+  describe("Sender-Protected Salts", function () {
+    const bytecode = "0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe6080604052600080fdfea2646970667358221220";
+
+    function protectedSalt(sender: string): string {
+      return ethers.concat([sender, ethers.randomBytes(12)]);
+    }
+
+    beforeEach(async function () {
+      await factory.authorizeDeployer(user.address);
+      await factory.authorizeDeployer(attacker.address);
+    });
+
+    it("Should recognize salts that start with the sender", async function () {
+      const salt = protectedSalt(user.address);
+
+      expect(await factory.isProtectedSalt(user.address, salt)).to.be.true;
+      expect(await factory.isProtectedSalt(attacker.address, salt)).to.be.false;
+      expect(await factory.isProtectedSalt(user.address, ethers.id("BALBOA_PROXY_V1"))).to.be.false;
+    });
+
+    it("Should deploy a protected salt at the sender's computed address", async function () {
+      const salt = protectedSalt(user.address);
+      const expected = await factory.computeAddressFor(user.address, salt, bytecode);
+      const guarded = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [user.address, salt]));
+
+      expect(expected).to.equal(ethers.getCreate2Address(await factory.getAddress(), guarded, ethers.keccak256(bytecode)));
+      expect(expected).to.not.equal(await factory.computeAddress(salt, bytecode));
+
+      await expect(factory.connect(user).deploy(salt, bytecode))
+        .to.emit(factory, "Deployed")
+        .withArgs(expected, salt, user.address);
+    });
+
+    it("Should keep another deployer off a protected address", async function () {
+      const salt = protectedSalt(user.address);
+      const userAddress = await factory.computeAddressFor(user.address, salt, bytecode);
+
+      // The attacker front-runs with the same salt and bytecode, but lands elsewhere
+      await expect(factory.connect(attacker).deploy(salt, bytecode))
+        .to.emit(factory, "Deployed")
+        .withArgs(await factory.computeAddressFor(attacker.address, salt, bytecode), salt, attacker.address);
+      expect(await ethers.provider.getCode(userAddress)).to.equal("0x");
+
+      await expect(factory.connect(user).deploy(salt, bytecode))
+        .to.emit(factory, "Deployed")
+        .withArgs(userAddress, salt, user.address);
+    });
+
+    it("Should report deployments at the sender's address", async function () {
+      const salt = protectedSalt(user.address);
+
+      await factory.connect(user).deploy(salt, bytecode);
+      expect(await factory.isDeployedFor(user.address, salt, bytecode)).to.be.true;
+      expect(await factory.isDeployedFor(attacker.address, salt, bytecode)).to.be.false;
+      // The shared-salt check looks at the wrong address for a protected salt
+      expect(await factory.isDeployed(salt, bytecode)).to.be.false;
+
+      await factory.connect(attacker).deploy(salt, bytecode);
+      expect(await factory.isDeployedFor(attacker.address, salt, bytecode)).to.be.true;
+    });
+
+    it("Should keep another deployer from initializing a protected proxy", async function () {
+      const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+      const impl = await BalboaTokenV4.deploy();
+      const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+      const proxyBytecode = Proxy.bytecode + Proxy.interface.encodeDeploy([await impl.getAddress(), "0x"]).slice(2);
+      const salt = protectedSalt(user.address);
+      const userProxy = await factory.computeAddressFor(user.address, salt, proxyBytecode);
+
+      const attackerInit = BalboaTokenV4.interface.encodeFunctionData("initializeWithCap", [attacker.address, 0n]);
+      await factory.connect(attacker).deployAndCall(salt, proxyBytecode, attackerInit);
+
+      const userInit = BalboaTokenV4.interface.encodeFunctionData("initializeWithCap", [user.address, 0n]);
+      await factory.connect(user).deployAndCall(salt, proxyBytecode, userInit);
+
+      const token = await ethers.getContractAt("BalboaTokenV4", userProxy);
+      expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), user.address)).to.be.true;
+      expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), attacker.address)).to.be.false;
+    });
+
+    it("Should let any authorized deployer reach the same address with a shared salt", async function () {
+      const salt = ethers.id("BALBOA_PROXY_V1");
+      const shared = await factory.computeAddress(salt, bytecode);
+
+      expect(await factory.computeAddressFor(user.address, salt, bytecode)).to.equal(shared);
+      expect(await factory.computeAddressFor(attacker.address, salt, bytecode)).to.equal(shared);
+
+      await factory.connect(user).deploy(salt, bytecode);
+      await expect(factory.connect(attacker).deploy(salt, bytecode))
+        .to.be.revertedWithCustomError(factory, "ContractAlreadyDeployed")
+        .withArgs(shared);
+    });
+
+    it("Should apply protection inside batch deployments", async function () {
+      const salt = protectedSalt(user.address);
+
+      const [addr] = await factory.connect(user).deployMany.staticCall([salt], [bytecode]);
+
+      expect(addr).to.equal(await factory.computeAddressFor(user.address, salt, bytecode));
+    });
+  });
+
   describe("Gas Considerations", function () {
     it("Should deploy small contracts efficiently", async function () {
       const salt = ethers.keccak256(ethers.toUtf8Bytes("gas-test-salt"));
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import { DEFAULT_UPGRADE_DELAY } from "../scripts/lib/config";
+import { loadDeploymentRecord } from "../scripts/lib/records";
+import type { BalboaTokenV4, BalboaTokenV7, Create2Factory } from "../typechain-types";
+import { deployPreTimelockToken } from "./helpers/preTimelockToken";
+
+describe("Deployment Records", function () {
+  let dir: string;
+  let previousDir: string | undefined;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1] = await ethers.getSigners();
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-records-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should record the factory with its transaction and compiler settings", async function () {
+    const factory: string = await hre.run("balboa:deploy:factory");
+
+    const record = loadDeploymentRecord("hardhat");
+    expect(fs.existsSync(path.join(dir, "hardhat.json"))).to.be.true;
+    expect(record?.chainId).to.equal("31337");
+    expect(record?.factory?.address).to.equal(factory);
+    expect(record?.factory?.owner).to.equal(owner.address);
+    expect(record?.factory?.txHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(record?.factory?.blockNumber).to.be.a("number");
+    expect(record?.factory?.compiler?.version).to.match(/^0\.8\.24/);
+    expect(record?.factory?.compiler?.optimizer).to.deep.equal({ enabled: true, runs: 200 });
+  });
+
+  it("Should deploy with the recorded factory and record the proxy", async function () {
+    const factory: string = await hre.run("balboa:deploy:factory");
+    const { implementation, proxy } = await hre.run("balboa:deploy", { cap: 0n });
+
+    const record = loadDeploymentRecord("hardhat");
+    expect(record?.factory?.address).to.equal(factory);
+    expect(record?.proxy?.address).to.equal(proxy);
+    expect(record?.proxy?.salt).to.equal(ethers.id("BALBOA_PROXY_V1"));
+    expect(record?.proxy?.admin).to.equal(owner.address);
+    expect(record?.proxy?.cap).to.equal("0");
+    expect(record?.proxy?.upgradeDelay).to.equal(DEFAULT_UPGRADE_DELAY.toString());
+
+    const token = (await ethers.getContractAt("BalboaTokenV7", proxy)) as unknown as BalboaTokenV7;
+    expect(record?.proxy?.initData).to.equal(
+      token.interface.encodeFunctionData("initializeWithTimelock", [owner.address, 0n, DEFAULT_UPGRADE_DELAY])
+    );
+    expect(record?.implementations).to.have.length(1);
+    expect(record?.implementations[0]).to.include({ contract: "BalboaTokenV7", address: implementation });
+    expect(record?.implementations[0].salt).to.equal(ethers.id("BALBOA_IMPL_V1"));
+  });
+
+  it("Should record the factory's owner when an authorized deployer deploys", async function () {
+    const Factory = await ethers.getContractFactory("Create2Factory");
+    const factory = (await Factory.deploy(user1.address)) as unknown as Create2Factory;
+    await factory.connect(user1).authorizeDeployer(owner.address);
+
+    await hre.run("balboa:deploy", { factory: await factory.getAddress(), cap: 0n });
+
+    expect(loadDeploymentRecord("hardhat")?.factory?.owner).to.equal(user1.address);
+  });
+
+  it("Should let other commands default to the recorded proxy", async function () {
+    await hre.run("balboa:deploy:factory");
+    const { proxy } = await hre.run("balboa:deploy", { cap: 0n });
+
+    await hre.run("balboa:roles:grant", { role: "MINTER", account: user1.address, yes: true });
+
+    const token = (await ethers.getContractAt("BalboaTokenV4", proxy)) as unknown as BalboaTokenV4;
+    expect(await token.hasRole(await token.MINTER_ROLE(), user1.address)).to.be.true;
+  });
+
+  it("Should append upgrades to the implementation history", async function () {
+    const { implementation } = await deployPreTimelockToken(owner.address);
+
+    const result = await hre.run("balboa:upgrade", { contract: "BalboaTokenV5" });
+
+    const record = loadDeploymentRecord("hardhat");
+    expect(record?.implementations.map((entry) => entry.address)).to.deep.equal([
+      implementation,
+      result.implementation,
+    ]);
+    expect(record?.implementations[1].contract).to.equal("BalboaTokenV5");
+    expect(record?.implementations[1].txHash).to.match(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("Should refuse a record written for another chain", async function () {
+    fs.writeFileSync(
+      path.join(dir, "hardhat.json"),
+      JSON.stringify({ version: 1, network: "hardhat", chainId: "1", implementations: [] })
+    );
+
+    await expect(hre.run("balboa:deploy:factory")).to.be.rejectedWith(/is for chain 1, connected to chain 31337/);
+  });
+
+  it("Should name the field a malformed record gets wrong", async function () {
+    const file = path.join(dir, "hardhat.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        version: 1,
+        network: "hardhat",
+        chainId: "31337",
+        proxy: { contract: "ERC1967Proxy", address: "0x1234" },
+        implementations: [],
+      })
+    );
+    expect(() => loadDeploymentRecord("hardhat")).to.throw(`${file}: "proxy.address" must be an address`);
+
+    fs.writeFileSync(file, '{ "version": 1,');
+    expect(() => loadDeploymentRecord("hardhat")).to.throw(`${file} is not valid JSON`);
+  });
+});
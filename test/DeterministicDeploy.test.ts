@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import hre, { ethers } from "hardhat";
+import { computeDeterministicPlan } from "../scripts/lib/deterministic";
+import type { BalboaTokenV7, Create2Factory } from "../typechain-types";
+
+describe("Deterministic Deployment", function () {
+  const DELAY = 3600n;
+
+  let factory: Create2Factory;
+  let factoryAddress: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let operator: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let multisig: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let previousAdmin: string | undefined;
+
+  beforeEach(async function () {
+    [owner, operator, multisig] = await ethers.getSigners();
+    previousAdmin = process.env.TOKEN_ADMIN;
+    delete process.env.TOKEN_ADMIN;
+
+    const Factory = await ethers.getContractFactory("Create2Factory");
+    factory = (await Factory.deploy(owner.address)) as unknown as Create2Factory;
+    await factory.waitForDeployment();
+    factoryAddress = await factory.getAddress();
+  });
+
+  afterEach(function () {
+    if (previousAdmin === undefined) delete process.env.TOKEN_ADMIN;
+    else process.env.TOKEN_ADMIN = previousAdmin;
+  });
+
+  it("Should give the same proxy address whichever signer deploys with a fixed admin", async function () {
+    const snapshot = await takeSnapshot();
+    const { proxy } = await hre.run("balboa:deploy", {
+      factory: factoryAddress,
+      admin: multisig.address,
+      cap: 0n,
+      delay: DELAY,
+    });
+    await snapshot.restore();
+
+    // Same chain state, but the factory is now operated by a different account
+    await factory.transferOwnership(operator.address);
+    const plan = await computeDeterministicPlan(hre, factoryAddress, multisig.address, 0n, DELAY);
+    await factory.connect(operator).deploy(plan.saltImpl, plan.implCreation);
+    await factory.connect(operator).deploy(plan.saltProxy, plan.proxyCreation);
+
+    expect(plan.proxyAddr).to.equal(proxy);
+    expect(await ethers.provider.getCode(proxy)).to.not.equal("0x");
+
+    const token = (await ethers.getContractAt("BalboaTokenV7", proxy)) as unknown as BalboaTokenV7;
+    const adminRole = await token.DEFAULT_ADMIN_ROLE();
+    expect(await token.hasRole(adminRole, multisig.address)).to.be.true;
+    expect(await token.hasRole(adminRole, operator.address)).to.be.false;
+  });
+
+  it("Should initialize the proxy with the upgrade timelock", async function () {
+    const { proxy } = await hre.run("balboa:deploy", {
+      factory: factoryAddress,
+      admin: multisig.address,
+      cap: 0n,
+      delay: DELAY,
+    });
+
+    const token = (await ethers.getContractAt("BalboaTokenV7", proxy)) as unknown as BalboaTokenV7;
+    expect(await token.upgradeDelay()).to.equal(DELAY);
+    expect(proxy).to.not.equal(
+      (await computeDeterministicPlan(hre, factoryAddress, multisig.address, 0n, DELAY + 1n)).proxyAddr
+    );
+    await expect(hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV7" })).to.be.rejectedWith(/timelock/);
+  });
+
+  it("Should give each deployer a different proxy address without a fixed admin", async function () {
+    const { proxy } = await hre.run("balboa:deploy", { factory: factoryAddress, cap: 0n, delay: DELAY });
+
+    const ownPlan = await computeDeterministicPlan(hre, factoryAddress, owner.address, 0n, DELAY);
+    const otherPlan = await computeDeterministicPlan(hre, factoryAddress, operator.address, 0n, DELAY);
+    expect(proxy).to.equal(ownPlan.proxyAddr);
+    expect(otherPlan.proxyAddr).to.not.equal(proxy);
+  });
+
+  it("Should read the admin from TOKEN_ADMIN", async function () {
+    process.env.TOKEN_ADMIN = multisig.address;
+
+    const { proxy } = await hre.run("balboa:deploy", { factory: factoryAddress, cap: 0n, delay: DELAY });
+
+    const token = (await ethers.getContractAt("BalboaTokenV7", proxy)) as unknown as BalboaTokenV7;
+    expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), multisig.address)).to.be.true;
+    expect(await token.hasRole(await token.MINTER_ROLE(), owner.address)).to.be.false;
+  });
+
+  it("Should let anyone find the proxy from the admin alone", async function () {
+    const { proxy } = await hre.run("balboa:deploy", {
+      factory: factoryAddress,
+      admin: multisig.address,
+      cap: 0n,
+      delay: DELAY,
+    });
+
+    expect(
+      await hre.run("balboa:proxy:find", { factory: factoryAddress, admin: multisig.address, cap: 0n, delay: DELAY })
+    ).to.equal(proxy);
+  });
+
+  it("Should deploy the implementation and proxy in one transaction", async function () {
+    const blockBefore = await ethers.provider.getBlockNumber();
+
+    const { implementation, proxy } = await hre.run("balboa:deploy", {
+      factory: factoryAddress,
+      cap: 0n,
+      delay: DELAY,
+    });
+
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore + 1);
+    expect(await ethers.provider.getCode(implementation)).to.not.equal("0x");
+    expect(await ethers.provider.getCode(proxy)).to.not.equal("0x");
+  });
+
+  it("Should leave no implementation behind when the proxy fails", async function () {
+    const plan = await computeDeterministicPlan(hre, factoryAddress, ethers.ZeroAddress, 0n, DELAY);
+
+    await expect(
+      hre.run("balboa:deploy", { factory: factoryAddress, admin: ethers.ZeroAddress, cap: 0n, delay: DELAY })
+    ).to.be.rejectedWith(/CreateFailed/);
+
+    expect(await ethers.provider.getCode(plan.implAddr)).to.equal("0x");
+  });
+
+  it("Should reject an invalid TOKEN_ADMIN", async function () {
+    process.env.TOKEN_ADMIN = "0x1234";
+
+    await expect(hre.run("balboa:deploy", { factory: factoryAddress, cap: 0n, delay: DELAY })).to.be.rejectedWith(
+      /TOKEN_ADMIN is not a valid address/
+    );
+  });
+});
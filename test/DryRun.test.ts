@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import type { DryRunReport } from "../scripts/lib/dryrun";
+import type { BalboaTokenV4 } from "../typechain-types";
+
+describe("Dry Run", function () {
+  let token: BalboaTokenV4;
+  let tokenAddress: string;
+  let dir: string;
+  let previousDir: string | undefined;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+    const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+    token = (await upgrades.deployProxy(BalboaTokenV4, [owner.address, 0n], {
+      kind: "uups",
+      initializer: "initializeWithCap",
+    })) as unknown as BalboaTokenV4;
+    tokenAddress = await token.getAddress();
+
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-dryrun-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("Roles", function () {
+    it("Should report the events and gas of a grant without sending it", async function () {
+      const block = await ethers.provider.getBlockNumber();
+      const minterRole = await token.MINTER_ROLE();
+
+      const report: DryRunReport = await hre.run("balboa:roles:grant", {
+        token: tokenAddress,
+        role: "MINTER",
+        account: user1.address,
+        yes: true,
+        dryRun: true,
+      });
+
+      expect(report.network).to.equal("hardhat");
+      expect(report.transactions).to.have.length(1);
+      const [grant] = report.transactions;
+      expect(grant.description).to.equal(`Grant MINTER_ROLE to ${user1.address}`);
+      expect(grant.revert).to.equal(undefined);
+      expect(grant.gas).to.be.greaterThan(21000n);
+      expect(grant.cost).to.equal(grant.gas! * report.gasPrice);
+      expect(grant.events).to.deep.equal([
+        `RoleGranted(role=${minterRole}, account=${user1.address}, sender=${owner.address})`,
+      ]);
+
+      expect(await ethers.provider.getBlockNumber()).to.equal(block);
+      expect(await token.hasRole(minterRole, user1.address)).to.be.false;
+    });
+
+    it("Should simulate every change of a manifest", async function () {
+      const file = path.join(dir, "roles.json");
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ token: tokenAddress, roles: { MINTER_ROLE: [user1.address], PAUSER_ROLE: [user2.address] } })
+      );
+
+      const report: DryRunReport = await hre.run("balboa:roles:apply", { manifest: file, yes: true, dryRun: true });
+
+      expect(report.transactions.map((transaction) => transaction.description)).to.have.members([
+        `Grant MINTER_ROLE to ${user1.address}`,
+        `Revoke MINTER_ROLE from ${owner.address}`,
+        `Grant PAUSER_ROLE to ${user2.address}`,
+        `Revoke PAUSER_ROLE from ${owner.address}`,
+      ]);
+      expect(report.gas).to.equal(report.transactions.reduce((sum, transaction) => sum + transaction.gas!, 0n));
+      expect(await token.hasRole(await token.MINTER_ROLE(), owner.address)).to.be.true;
+      expect(await token.hasRole(await token.MINTER_ROLE(), user1.address)).to.be.false;
+    });
+  });
+
+  describe("Deployment", function () {
+    it("Should simulate a deployment without recording it", async function () {
+      await hre.run("balboa:deploy:factory");
+      const record = fs.readFileSync(path.join(dir, "hardhat.json"), "utf8");
+
+      const report: DryRunReport = await hre.run("balboa:deploy", { admin: user1.address, cap: 0n, dryRun: true });
+
+      const [deploy] = report.transactions;
+      expect(deploy.revert).to.equal(undefined);
+      expect(deploy.events?.some((event) => event.startsWith("Initialized("))).to.be.true;
+      expect(fs.readFileSync(path.join(dir, "hardhat.json"), "utf8")).to.equal(record);
+    });
+
+    it("Should flag a deployment that would revert", async function () {
+      await hre.run("balboa:deploy:factory");
+      const { implementation } = await hre.run("balboa:deploy", { cap: 0n });
+
+      const error: any = await hre.run("balboa:deploy", { cap: 0n, dryRun: true }).catch((e: unknown) => e);
+
+      expect(error.message).to.match(/^Dry run: 1 transaction\(s\) would revert:\n {2}Deploy /);
+      expect(error.message).to.include(
+        `: A contract is already deployed at ${implementation} (ContractAlreadyDeployed)`
+      );
+    });
+  });
+
+  describe("Upgrades", function () {
+    it("Should simulate the implementation deployment and the upgrade", async function () {
+      const previous = await upgrades.erc1967.getImplementationAddress(tokenAddress);
+
+      const report: DryRunReport = await hre.run("balboa:upgrade", {
+        proxy: tokenAddress,
+        contract: "BalboaTokenV5",
+        dryRun: true,
+      });
+
+      const [deploy, upgrade] = report.transactions;
+      expect(deploy.description).to.equal("Deploy BalboaTokenV5 implementation");
+      expect(upgrade.description).to.equal(`upgradeToAndCall(${deploy.address}, 0x) on ${tokenAddress}`);
+      expect(upgrade.revert).to.equal(undefined);
+      expect(await upgrades.erc1967.getImplementationAddress(tokenAddress)).to.equal(previous);
+    });
+
+    it("Should flag a reinitializer that already ran", async function () {
+      await expect(
+        hre.run("balboa:upgrade", {
+          proxy: tokenAddress,
+          contract: "BalboaTokenV4",
+          call: "initialize",
+          args: [owner.address],
+          dryRun: true,
+        })
+      ).to.be.rejectedWith(/The initializer already ran on this proxy \(InvalidInitialization\)/);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import { describeError, explainError } from "../scripts/lib/errors";
+import type { BalboaTokenV4, Create2Factory } from "../typechain-types";
+
+describe("Error Explanations", function () {
+  let token: BalboaTokenV4;
+  let factory: Create2Factory;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  async function rejection(promise: Promise<unknown>): Promise<unknown> {
+    const error = await promise.then(
+      () => undefined,
+      (e: unknown) => e,
+    );
+    expect(error).to.not.equal(undefined);
+    return error;
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+    const BalboaTokenV4 = await ethers.getContractFactory("BalboaTokenV4");
+    token = (await upgrades.deployProxy(BalboaTokenV4, [owner.address, ethers.parseEther("1000")], {
+      kind: "uups",
+      initializer: "initializeWithCap",
+    })) as unknown as BalboaTokenV4;
+    factory = (await (
+      await ethers.getContractFactory("Create2Factory")
+    ).deploy(owner.address)) as unknown as Create2Factory;
+  });
+
+  describe("Token reverts", function () {
+    it("Should name the missing role and how to grant it", async function () {
+      const explanation = explainError(await rejection(token.connect(user1).mint(user1.address, 1n)));
+
+      expect(explanation?.error.errorName).to.equal("AccessControlUnauthorizedAccount");
+      expect(explanation?.summary).to.equal(`${user1.address} does not hold MINTER_ROLE`);
+      expect(explanation?.remedies[0]).to.equal(
+        `Have an admin run balboa:roles:grant --role MINTER --account ${user1.address}`,
+      );
+    });
+
+    it("Should explain pause, blacklist and cap reverts", async function () {
+      await token.blacklist(user2.address);
+      expect(explainError(await rejection(token.mint(user2.address, 1n)))?.summary).to.equal(
+        `${user2.address} is blacklisted`,
+      );
+
+      expect(explainError(await rejection(token.mint(user1.address, ethers.parseEther("1001"))))?.summary).to.equal(
+        "Minting would bring the supply to 1001.0, above the cap of 1000.0",
+      );
+
+      await token.pause();
+      const explanation = explainError(await rejection(token.mint(user1.address, 1n)));
+      expect(explanation?.summary).to.equal("The token is paused");
+      expect(explanation?.remedies[0]).to.equal("A PAUSER_ROLE holder must call unpause() first");
+    });
+
+    it("Should describe other errors by their message", async function () {
+      expect(explainError(new Error("network down"))).to.equal(undefined);
+      expect(describeError(new Error("network down"))).to.equal("network down");
+      expect(describeError(await rejection(token.burnSelf(0n)))).to.equal(
+        "Amount must be greater than zero (ZeroAmount)",
+      );
+    });
+  });
+
+  describe("Factory reverts", function () {
+    const salt = ethers.id("errors");
+
+    it("Should explain deployments to an occupied address and empty bytecode", async function () {
+      const { bytecode } = await ethers.getContractFactory("ERC1967Proxy");
+      const creation =
+        bytecode +
+        ethers.AbiCoder.defaultAbiCoder()
+          .encode(["address", "bytes"], [await token.getAddress(), "0x"])
+          .slice(2);
+      await factory.deploy(salt, creation);
+      const existing = await factory.computeAddress(salt, creation);
+
+      const explanation = explainError(await rejection(factory.deploy(salt, creation)));
+      expect(explanation?.error.errorName).to.equal("ContractAlreadyDeployed");
+      expect(explanation?.summary).to.equal(`A contract is already deployed at ${existing}`);
+
+      expect(explainError(await rejection(factory.deploy(salt, "0x")))?.summary).to.equal("No bytecode to deploy");
+    });
+
+    it("Should explain the revert inside a failed deploy-and-call", async function () {
+      const { bytecode } = await ethers.getContractFactory("BalboaToken");
+      const init = (await ethers.getContractFactory("BalboaToken")).interface.encodeFunctionData("pause");
+
+      const explanation = explainError(await rejection(factory.deployAndCall(salt, bytecode, init)));
+
+      expect(explanation?.error.errorName).to.equal("CallFailed");
+      expect(explanation?.summary).to.match(
+        /^Call to 0x[0-9a-fA-F]{40} after deployment failed: .* does not hold PAUSER_ROLE/,
+      );
+    });
+
+    it("Should explain an unauthorized deployer", async function () {
+      const explanation = explainError(await rejection(factory.connect(user1).deploy(salt, "0x00")));
+
+      expect(explanation?.summary).to.equal(`${user1.address} is not allowed to deploy through the Create2Factory`);
+      expect(explanation?.remedies[0]).to.equal(
+        `Have the factory owner run balboa:factory:authorize --account ${user1.address}`,
+      );
+    });
+  });
+
+  describe("Tasks", function () {
+    let dir: string;
+    let previousDir: string | undefined;
+
+    beforeEach(function () {
+      previousDir = process.env.DEPLOYMENTS_DIR;
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-errors-"));
+      process.env.DEPLOYMENTS_DIR = dir;
+    });
+
+    afterEach(function () {
+      if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+      else process.env.DEPLOYMENTS_DIR = previousDir;
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should explain a repeated deployment with remedies", async function () {
+      await hre.run("balboa:deploy:factory");
+      const { implementation } = await hre.run("balboa:deploy", { cap: 0n });
+
+      const error: any = await rejection(hre.run("balboa:deploy", { cap: 0n }));
+
+      expect(error.message).to.equal(
+        [
+          `A contract is already deployed at ${implementation} (ContractAlreadyDeployed(${implementation}))`,
+          "",
+          "💡 Possible Solutions:",
+          "1. Run balboa:proxy:find to see whether this is your earlier deployment",
+          "2. Use the existing contract, or deploy with a different admin, cap or salt",
+        ].join("\n"),
+      );
+      expect(error.pluginName).to.equal("balboa");
+      expect(explainError(error.parent)?.error.errorName).to.equal("ContractAlreadyDeployed");
+    });
+
+    it("Should explain a revert inside an upgrade", async function () {
+      await expect(
+        hre.run("balboa:upgrade", {
+          proxy: await token.getAddress(),
+          contract: "BalboaTokenV4",
+          call: "initialize",
+          args: [owner.address],
+        }),
+      ).to.be.rejectedWith(/^The initializer already ran on this proxy \(InvalidInitialization\(\)\)/);
+    });
+
+    it("Should explain an initializer that would leave the upgrade delay unset", async function () {
+      await expect(
+        hre.run("balboa:upgrade", {
+          proxy: await token.getAddress(),
+          contract: "BalboaTokenV5",
+          call: "initializeWithCap",
+          args: [owner.address, "0"],
+        }),
+      ).to.be.rejectedWith(/^The upgrade timelock has no delay yet.*\(UpgradeDelayNotSet\(\)\)[\s\S]*initializeV5/);
+    });
+
+    it("Should leave errors that are not reverts unchanged", async function () {
+      await expect(hre.run("balboa:upgrade", { proxy: user1.address, contract: "BalboaTokenV5" })).to.be.rejectedWith(
+        `No contract found at proxy address: ${user1.address}`,
+      );
+    });
+  });
+});
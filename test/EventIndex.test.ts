@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import { findBlacklisted, findRoleHolders } from "../scripts/lib/holders";
+import {
+  EventIndex,
+  IndexProvider,
+  eventIndexPath,
+  loadEventIndex,
+  queryEvents,
+  syncEventIndex,
+} from "../scripts/lib/indexer";
+import type { BalboaToken } from "../typechain-types";
+
+describe("Event Index", function () {
+  let token: BalboaToken;
+  let tokenAddress: string;
+  let deployBlock: number;
+  let dir: string;
+  let previousDir: string | undefined;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let requests: { fromBlock: number; toBlock: number }[];
+
+  /** Hardhat provider that records each eth_getLogs range and rejects ranges above maxRange */
+  function countingProvider(maxRange = Infinity): IndexProvider {
+    return {
+      getNetwork: () => ethers.provider.getNetwork(),
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: (blockNumber) => ethers.provider.getBlock(blockNumber),
+      getLogs: async (filter) => {
+        if (filter.toBlock - filter.fromBlock + 1 > maxRange) throw new Error("query exceeds max block range");
+        requests.push({ fromBlock: filter.fromBlock, toBlock: filter.toBlock });
+        return ethers.provider.getLogs(filter);
+      },
+    };
+  }
+
+  function sync(maxRange?: number, blockRange?: number): Promise<EventIndex> {
+    return syncEventIndex(
+      countingProvider(maxRange),
+      "hardhat",
+      [{ address: tokenAddress, kind: "token", fromBlock: deployBlock }],
+      blockRange
+    );
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+    const BalboaToken = await ethers.getContractFactory("BalboaToken");
+    token = (await upgrades.deployProxy(BalboaToken, [owner.address], { kind: "uups" })) as unknown as BalboaToken;
+    tokenAddress = await token.getAddress();
+    deployBlock = (await token.deploymentTransaction())!.blockNumber!;
+    requests = [];
+
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-index-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("Sync", function () {
+    it("Should fetch events in bounded block ranges", async function () {
+      await ethers.provider.send("hardhat_mine", ["0x14"]);
+      await (await token.grantRole(await token.MINTER_ROLE(), user1.address)).wait();
+      const head = await ethers.provider.getBlockNumber();
+
+      const index = await sync(undefined, 5);
+
+      expect(requests).to.have.length(Math.ceil((head - deployBlock + 1) / 5));
+      expect(requests.every((request) => request.toBlock - request.fromBlock < 5)).to.be.true;
+      expect(requests[0].fromBlock).to.equal(deployBlock);
+      expect(requests[requests.length - 1].toBlock).to.equal(head);
+      expect(index.contracts[tokenAddress].checkpoint?.blockNumber).to.equal(head);
+
+      const grants = queryEvents(index, { event: "RoleGranted", args: { account: user1.address.toLowerCase() } });
+      expect(grants).to.have.length(1);
+      expect(grants[0].args.role).to.equal(await token.MINTER_ROLE());
+      expect(grants[0].blockNumber).to.equal(head);
+      expect(loadEventIndex("hardhat")).to.deep.equal(index);
+    });
+
+    it("Should only fetch blocks after the checkpoint", async function () {
+      const first = await sync();
+      const checkpoint = first.contracts[tokenAddress].checkpoint!.blockNumber;
+      requests = [];
+
+      await (await token.blacklist(user2.address)).wait();
+      const index = await sync();
+
+      expect(requests).to.deep.equal([{ fromBlock: checkpoint + 1, toBlock: await ethers.provider.getBlockNumber() }]);
+      expect(queryEvents(index, { event: "Blacklisted" }).map((event) => event.args.account)).to.deep.equal([
+        user2.address,
+      ]);
+      expect(queryEvents(index, { event: "RoleGranted" })).to.deep.equal(queryEvents(first, { event: "RoleGranted" }));
+    });
+
+    it("Should halve the block range while the provider rejects it", async function () {
+      await ethers.provider.send("hardhat_mine", ["0x20"]);
+
+      const index = await sync(4, 64);
+
+      expect(requests.every((request) => request.toBlock - request.fromBlock < 4)).to.be.true;
+      expect(index.contracts[tokenAddress].checkpoint?.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+      expect(queryEvents(index, { address: tokenAddress, event: "RoleGranted" })).to.have.length(6);
+    });
+
+    it("Should re-index a contract whose checkpoint block was replaced", async function () {
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await (await token.grantRole(await token.MINTER_ROLE(), user1.address)).wait();
+      expect(queryEvents(await sync(), { args: { account: user1.address } })).to.have.length(1);
+
+      await ethers.provider.send("evm_revert", [snapshot]);
+      await (await token.grantRole(await token.PAUSER_ROLE(), user2.address)).wait();
+      const index = await sync();
+
+      expect(queryEvents(index, { args: { account: user1.address } })).to.deep.equal([]);
+      expect(queryEvents(index, { args: { account: user2.address } })).to.have.length(1);
+    });
+  });
+
+  describe("Queries", function () {
+    it("Should find role holders and blacklisted accounts from the index", async function () {
+      const minterRole = await token.MINTER_ROLE();
+      await (await token.grantRole(minterRole, user1.address)).wait();
+      await (await token.revokeRole(minterRole, owner.address)).wait();
+      await (await token.blacklist(user2.address)).wait();
+      const index = await sync();
+
+      expect(await findRoleHolders(token, minterRole, 0, [], index)).to.deep.equal([user1.address]);
+      expect(await findBlacklisted(token, 0, [], index)).to.deep.equal([user2.address]);
+      // Without an index, only the given candidates are checked
+      expect(await findRoleHolders(token, minterRole, 0, [owner.address, user1.address])).to.deep.equal([
+        user1.address,
+      ]);
+    });
+
+    it("Should sync the index from the task", async function () {
+      await (await token.mint(user1.address, ethers.parseEther("5"))).wait();
+
+      const index: EventIndex = await hre.run("balboa:index", { token: tokenAddress, reset: false });
+
+      expect(fs.existsSync(eventIndexPath("hardhat"))).to.be.true;
+      expect(queryEvents(index, { event: "TokensMinted" }).map((event) => event.args.amount)).to.deep.equal([
+        ethers.parseEther("5").toString(),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import { impersonateAccount, setBalance, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import type { BootstrapFactoryResult } from "../scripts/deployment/bootstrap_factory";
+import { DEFAULT_KEYLESS_GAS_LIMIT, KeylessDeployment } from "../scripts/lib/keyless";
+import { loadDeploymentRecord } from "../scripts/lib/records";
+import type { Create2Factory } from "../typechain-types";
+import { LocalNode, startNode, stopNode } from "./helpers/localNode";
+
+describe("Keyless Factory Bootstrap", function () {
+  let dir: string;
+  let file: string;
+  let previousDir: string | undefined;
+  let snapshot: Awaited<ReturnType<typeof takeSnapshot>>;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1] = await ethers.getSigners();
+    snapshot = await takeSnapshot();
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-keyless-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+    file = path.join(dir, "keyless-factory.json");
+  });
+
+  afterEach(async function () {
+    await snapshot.restore();
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should generate the same chain-agnostic transaction every time", async function () {
+    const first: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+    const second: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+
+    expect(second).to.deep.equal(first);
+    const tx = ethers.Transaction.from(first.rawTransaction);
+    expect(tx.chainId).to.equal(0n);
+    expect(tx.nonce).to.equal(0);
+    expect(tx.from).to.equal(first.signer);
+    expect(first.address).to.equal(ethers.getCreateAddress({ from: first.signer, nonce: 0 }));
+    expect(JSON.parse(fs.readFileSync(file, "utf8"))).to.deep.equal(first);
+  });
+
+  it("Should give a different address for a different owner", async function () {
+    const mine: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+    const theirs: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: user1.address, file });
+
+    expect(theirs.address).to.not.equal(mine.address);
+  });
+
+  it("Should fund the signer, deploy the factory and record it", async function () {
+    const deployment: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+
+    const result: BootstrapFactoryResult = await hre.run("balboa:deploy:factory:bootstrap", { file });
+
+    expect(result).to.include({ address: deployment.address, status: "deployed" });
+    const factory = (await ethers.getContractAt("Create2Factory", deployment.address)) as unknown as Create2Factory;
+    expect(await factory.owner()).to.equal(owner.address);
+    expect(await ethers.provider.getTransactionCount(deployment.signer)).to.equal(1);
+
+    const record = loadDeploymentRecord("hardhat");
+    expect(record?.factory).to.include({ address: deployment.address, owner: owner.address, txHash: result.txHash });
+
+    // The owner can deploy through it as usual
+    await expect(factory.deploy(ethers.randomBytes(32), "0x6000600000")).to.emit(factory, "Deployed");
+  });
+
+  it("Should do nothing where the factory already exists", async function () {
+    await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+    await hre.run("balboa:deploy:factory:bootstrap", { file });
+    const blockBefore = await ethers.provider.getBlockNumber();
+
+    const result: BootstrapFactoryResult = await hre.run("balboa:deploy:factory:bootstrap", { file });
+
+    expect(result.status).to.equal("existing");
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+  });
+
+  it("Should deploy the factory at the same address on another chain", async function () {
+    const deployment: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+    await hre.run("balboa:deploy:factory:bootstrap", { file });
+
+    let node: LocalNode | undefined;
+    try {
+      node = await startNode("keylessB", 31501);
+      const funder = await node.provider.getSigner(0);
+      await (await funder.sendTransaction({ to: deployment.signer, value: ethers.parseEther("1") })).wait();
+      await (await node.provider.broadcastTransaction(deployment.rawTransaction)).wait();
+
+      expect((await node.provider.getNetwork()).chainId).to.equal(31501n);
+      expect(await node.provider.getCode(deployment.address)).to.equal(
+        await ethers.provider.getCode(deployment.address)
+      );
+    } finally {
+      if (node) await stopNode(node);
+    }
+  });
+
+  it("Should refuse when the one-time signer has already used nonce 0", async function () {
+    const deployment: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+    await impersonateAccount(deployment.signer);
+    await setBalance(deployment.signer, ethers.parseEther("1"));
+    const signer = await ethers.getSigner(deployment.signer);
+    await signer.sendTransaction({ to: user1.address, value: 1n });
+
+    await expect(hre.run("balboa:deploy:factory:bootstrap", { file })).to.be.rejectedWith(
+      /has already used nonce 0 .* can never be deployed/
+    );
+  });
+
+  it("Should default to a gas limit well above the factory's deployment gas", async function () {
+    const deployment: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+    const data = ethers.Transaction.from(deployment.rawTransaction).data;
+
+    const gas = await ethers.provider.estimateGas({ from: deployment.signer, data });
+
+    expect(deployment.gasLimit).to.equal(DEFAULT_KEYLESS_GAS_LIMIT.toString());
+    expect(DEFAULT_KEYLESS_GAS_LIMIT).to.be.at.least((gas * 3n) / 2n);
+  });
+
+  it("Should refuse a gas limit the network cannot deploy with", async function () {
+    await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, gasLimit: 100000n, file });
+
+    await expect(hre.run("balboa:deploy:factory:bootstrap", { file })).to.be.rejectedWith(
+      /needs \d+ gas on hardhat but the transaction allows 100000/
+    );
+  });
+
+  it("Should refuse a gas price below the base fee", async function () {
+    const deployment: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", {
+      owner: owner.address,
+      gasPrice: 1n,
+      file,
+    });
+
+    await expect(hre.run("balboa:deploy:factory:bootstrap", { file })).to.be.rejectedWith(/Base fee .* exceeds/);
+    expect(await ethers.provider.getBalance(deployment.signer)).to.equal(0n);
+  });
+
+  it("Should reject a file that does not match its transaction", async function () {
+    const deployment: KeylessDeployment = await hre.run("balboa:deploy:factory:keyless", { owner: owner.address, file });
+    fs.writeFileSync(file, JSON.stringify({ ...deployment, address: user1.address }));
+
+    await expect(hre.run("balboa:deploy:factory:bootstrap", { file })).to.be.rejectedWith(/does not match/);
+  });
+});
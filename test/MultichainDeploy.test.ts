@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import type { MultichainReport } from "../scripts/deployment/deploy_multichain";
+import type { DryRunReport } from "../scripts/lib/dryrun";
+import { LocalNode, startNode, stopNode } from "./helpers/localNode";
+
+describe("Multi-Chain Deployment", function () {
+  const nodes: LocalNode[] = [];
+  let factoryAddress: string;
+  let recordsDir: string;
+  let previousDir: string | undefined;
+
+  before(async function () {
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    recordsDir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-multichain-"));
+    process.env.DEPLOYMENTS_DIR = recordsDir;
+
+    nodes.push(await startNode("localA", 31401), await startNode("localB", 31402), await startNode("localC", 31403));
+
+    // Same deployer at nonce 0 gives the same factory address on A and B; C has no factory
+    const Factory = await ethers.getContractFactory("Create2Factory");
+    for (const node of nodes.slice(0, 2)) {
+      const signer = await node.provider.getSigner(0);
+      const factory = await Factory.connect(signer).deploy(signer.address);
+      await factory.waitForDeployment();
+      factoryAddress = await factory.getAddress();
+    }
+  });
+
+  beforeEach(async function () {
+    for (const node of nodes) {
+      node.snapshot = await node.provider.send("evm_snapshot", []);
+    }
+  });
+
+  afterEach(async function () {
+    for (const node of nodes) {
+      await node.provider.send("evm_revert", [node.snapshot]);
+    }
+  });
+
+  after(async function () {
+    for (const node of nodes) {
+      await stopNode(node);
+    }
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(recordsDir, { recursive: true, force: true });
+  });
+
+  it("Should deploy the same proxy to every network", async function () {
+    const report: MultichainReport = await hre.run("balboa:deploy:multichain", {
+      networks: ["localA", "localB"],
+      factory: factoryAddress,
+      cap: ethers.parseEther("1000"),
+    });
+
+    expect(report.consistent).to.be.true;
+    expect(report.chains.map((chain) => chain.chainId)).to.deep.equal(["31401", "31402"]);
+    for (const chain of report.chains) {
+      expect(chain.proxy.address).to.equal(report.proxy);
+      expect(chain.proxy.status).to.equal("deployed");
+      expect(chain.verified).to.be.true;
+    }
+    for (const node of nodes.slice(0, 2)) {
+      expect(await node.provider.getCode(report.proxy)).to.not.equal("0x");
+
+      const record = JSON.parse(fs.readFileSync(path.join(recordsDir, `${node.name}.json`), "utf8"));
+      expect(record.proxy.address).to.equal(report.proxy);
+      expect(record.implementations[0].address).to.equal(report.implementation);
+    }
+  });
+
+  it("Should skip contracts that already exist", async function () {
+    const args = { networks: ["localA"], factory: factoryAddress, cap: 0n };
+    await hre.run("balboa:deploy:multichain", args);
+
+    const report: MultichainReport = await hre.run("balboa:deploy:multichain", {
+      ...args,
+      networks: ["localA", "localB"],
+    });
+
+    expect(report.consistent).to.be.true;
+    expect(report.chains[0].implementation.status).to.equal("existing");
+    expect(report.chains[0].proxy.status).to.equal("existing");
+    expect(report.chains[1].proxy.status).to.equal("deployed");
+  });
+
+  it("Should simulate only the missing contracts in a dry run", async function () {
+    const args = { networks: ["localA"], factory: factoryAddress, cap: 0n };
+    const deployed: MultichainReport = await hre.run("balboa:deploy:multichain", args);
+    const blockBefore = await nodes[1].provider.getBlockNumber();
+
+    const reports: DryRunReport[] = await hre.run("balboa:deploy:multichain", {
+      ...args,
+      networks: ["localA", "localB"],
+      dryRun: true,
+    });
+
+    expect(reports.map((report) => report.chainId)).to.deep.equal([31401n, 31402n]);
+    expect(reports[0].transactions).to.have.length(0);
+    expect(reports[1].transactions).to.have.length(1);
+    expect(reports[1].transactions[0].description).to.equal(
+      `Deploy implementation at ${deployed.implementation} and proxy at ${deployed.proxy}`
+    );
+    expect(reports[1].transactions[0].revert).to.equal(undefined);
+    expect(await nodes[1].provider.getBlockNumber()).to.equal(blockBefore);
+    expect(await nodes[1].provider.getCode(deployed.proxy)).to.equal("0x");
+  });
+
+  it("Should deploy nothing when a network is missing the factory", async function () {
+    const blockBefore = await nodes[0].provider.getBlockNumber();
+
+    await expect(
+      hre.run("balboa:deploy:multichain", {
+        networks: ["localA", "localC"],
+        factory: factoryAddress,
+        cap: 0n,
+      })
+    ).to.be.rejectedWith(/localC: no factory/);
+
+    expect(await nodes[0].provider.getBlockNumber()).to.equal(blockBefore);
+  });
+
+  it("Should reject networks that are not configured", async function () {
+    await expect(
+      hre.run("balboa:deploy:multichain", { networks: ["localZ"], factory: factoryAddress, cap: 0n })
+    ).to.be.rejectedWith(/Network localZ is not defined/);
+  });
+});
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Contract } from "ethers";
+import hre, { ethers, upgrades } from "hardhat";
+import type { RoleAuditReport } from "../scripts/admin/audit_roles";
+import type { MultichainReport } from "../scripts/deployment/deploy_multichain";
+import type { BalboaTokenV7 } from "../typechain-types";
+import { LocalNode, startNode, stopNode } from "./helpers/localNode";
+
+describe("Role Audit", function () {
+  const nodes: LocalNode[] = [];
+  let deployed: MultichainReport;
+  let factoryAddress: string;
+  let deployer: string;
+  let recordsDir: string;
+  let previousDir: string | undefined;
+
+  function outputs(): { json: string; markdown: string } {
+    return { json: path.join(recordsDir, "audit.json"), markdown: path.join(recordsDir, "audit.md") };
+  }
+
+  before(async function () {
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    recordsDir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-audit-"));
+    process.env.DEPLOYMENTS_DIR = recordsDir;
+
+    nodes.push(await startNode("localA", 31411), await startNode("localB", 31412));
+
+    const Factory = await ethers.getContractFactory("Create2Factory");
+    for (const node of nodes) {
+      const signer = await node.provider.getSigner(0);
+      const factory = await Factory.connect(signer).deploy(signer.address);
+      await factory.waitForDeployment();
+      factoryAddress = await factory.getAddress();
+      deployer = signer.address;
+    }
+    deployed = await hre.run("balboa:deploy:multichain", {
+      networks: ["localA", "localB"],
+      factory: factoryAddress,
+      cap: 0n,
+    });
+  });
+
+  beforeEach(async function () {
+    for (const node of nodes) {
+      node.snapshot = await node.provider.send("evm_snapshot", []);
+    }
+  });
+
+  afterEach(async function () {
+    for (const node of nodes) {
+      await node.provider.send("evm_revert", [node.snapshot]);
+    }
+  });
+
+  after(async function () {
+    for (const node of nodes) {
+      await stopNode(node);
+    }
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(recordsDir, { recursive: true, force: true });
+  });
+
+  it("Should report each network's roles and state", async function () {
+    const report: RoleAuditReport = await hre.run("balboa:roles:audit", {
+      networks: ["localA", "localB"],
+      ...outputs(),
+    });
+
+    expect(report.unaudited).to.deep.equal([]);
+    expect(report.drift).to.deep.equal([]);
+    expect(report.networks.map((audit) => audit.chainId)).to.deep.equal(["31411", "31412"]);
+    for (const audit of report.networks) {
+      expect(audit.token).to.equal(deployed.proxy);
+      expect(audit.implementation.address).to.equal(deployed.implementation);
+      expect(audit.implementation.contract).to.equal("BalboaTokenV7");
+      expect(audit.factory).to.deep.equal({ address: factoryAddress, owner: deployer });
+      expect(audit.paused).to.be.false;
+      expect(audit.blacklisted).to.deep.equal([]);
+      expect(audit.roles.DEFAULT_ADMIN_ROLE).to.deep.equal([deployer]);
+      expect(audit.roles.MINTER_ROLE).to.deep.equal([deployer]);
+    }
+
+    expect(JSON.parse(fs.readFileSync(outputs().json, "utf8"))).to.deep.equal(JSON.parse(JSON.stringify(report)));
+    const markdown = fs.readFileSync(outputs().markdown, "utf8");
+    expect(markdown).to.include(
+      `| localA | 31411 | \`${deployed.proxy}\` | BalboaTokenV7 \`${deployed.implementation}\``
+    );
+    expect(markdown).to.include(`| MINTER_ROLE | \`${deployer}\` | ✓ | ✓ |`);
+    expect(markdown).to.include("## Drift\n\nNone.");
+  });
+
+  it("Should flag drift between networks", async function () {
+    const signer = await nodes[1].provider.getSigner(0);
+    const other = (await nodes[1].provider.getSigner(1)).address;
+    const { abi } = await hre.artifacts.readArtifact("BalboaTokenV7");
+    const token = new Contract(deployed.proxy, abi, signer) as unknown as BalboaTokenV7;
+    await (await token.grantRole(await token.MINTER_ROLE(), other)).wait();
+    await (await token.blacklist(other)).wait();
+    await (await token.pause()).wait();
+
+    const report: RoleAuditReport = await hre.run("balboa:roles:audit", {
+      networks: ["localA", "localB"],
+      ...outputs(),
+    });
+
+    expect(report.drift).to.deep.equal([
+      { item: "paused", values: { localA: "false", localB: "true" } },
+      { item: "blacklist", values: { localA: "empty", localB: other } },
+      {
+        item: "MINTER_ROLE holders",
+        values: { localA: deployer, localB: [deployer, other].sort().join(", ") },
+      },
+    ]);
+    const markdown = fs.readFileSync(outputs().markdown, "utf8");
+    expect(markdown).to.include(`| MINTER_ROLE | \`${other}\` | ✗ | ✓ |`);
+    expect(markdown).to.include("- **paused**\n  - localA: false\n  - localB: true");
+  });
+
+  it("Should read the selected network in-process and list networks it cannot read", async function () {
+    const [owner] = await ethers.getSigners();
+    const BalboaToken = await ethers.getContractFactory("BalboaToken");
+    const token = await upgrades.deployProxy(BalboaToken, [owner.address], { kind: "uups" });
+
+    const report: RoleAuditReport = await hre.run("balboa:roles:audit", {
+      networks: ["hardhat", "localZ"],
+      token: await token.getAddress(),
+      ...outputs(),
+    });
+
+    expect(report.networks).to.have.length(1);
+    expect(report.networks[0].network).to.equal("hardhat");
+    expect(report.networks[0].roles.PAUSER_ROLE).to.deep.equal([owner.address]);
+    expect(report.networks[0].factory).to.equal(undefined);
+    expect(report.unaudited).to.deep.equal([
+      { network: "localZ", error: "Network localZ is not defined in hardhat.config.ts" },
+    ]);
+  });
+});
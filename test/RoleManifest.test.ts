@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import { computeRolePlan } from "../scripts/admin/role_manifest";
+import { syncTokenIndex } from "../scripts/lib/indexer";
+import { parseRoleManifest } from "../scripts/lib/manifest";
+import type { BalboaToken } from "../typechain-types";
+
+describe("Role Manifest", function () {
+  let balboa: BalboaToken;
+  let tokenAddress: string;
+  let manifestDir: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let multisig: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let treasury: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let compliance: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  function writeManifest(roles: Record<string, string[]>): string {
+    const file = path.join(manifestDir, "hardhat.json");
+    fs.writeFileSync(file, JSON.stringify({ token: tokenAddress, roles }, null, 2));
+    return file;
+  }
+
+  beforeEach(async function () {
+    [owner, multisig, treasury, compliance] = await ethers.getSigners();
+
+    const BalboaToken = await ethers.getContractFactory("BalboaToken");
+    const implementation = await BalboaToken.deploy();
+    await implementation.waitForDeployment();
+
+    const initData = BalboaToken.interface.encodeFunctionData("initialize", [owner.address]);
+    const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await Proxy.deploy(await implementation.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    tokenAddress = await proxy.getAddress();
+    balboa = BalboaToken.attach(tokenAddress) as unknown as BalboaToken;
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-roles-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+
+  describe("Parsing", function () {
+    it("Should reject unknown roles", function () {
+      expect(() => parseRoleManifest({ roles: { OWNER_ROLE: [] } })).to.throw(/unknown role "OWNER_ROLE"/);
+    });
+
+    it("Should reject invalid addresses", function () {
+      expect(() => parseRoleManifest({ roles: { MINTER_ROLE: ["0x1234"] } })).to.throw(/invalid address/);
+    });
+
+    it("Should refuse an empty DEFAULT_ADMIN_ROLE", function () {
+      expect(() => parseRoleManifest({ roles: { DEFAULT_ADMIN_ROLE: [] } })).to.throw(/at least one holder/);
+    });
+  });
+
+  describe("Plan", function () {
+    it("Should list grants and revokes for managed roles only", async function () {
+      const manifest = parseRoleManifest({
+        roles: {
+          MINTER_ROLE: [treasury.address],
+          BURNER_ROLE: [owner.address, compliance.address],
+        },
+      });
+
+      const changes = await computeRolePlan(balboa, manifest, owner.address, await syncTokenIndex(hre, tokenAddress));
+      const summary = changes.map((change) => `${change.action} ${change.role.name} ${change.account}`);
+
+      expect(summary).to.deep.equal([
+        `grant MINTER ${treasury.address}`,
+        `grant BURNER ${compliance.address}`,
+        `revoke MINTER ${owner.address}`,
+      ]);
+    });
+
+    it("Should order the executor's own admin revocation last", async function () {
+      await balboa.grantRole(await balboa.DEFAULT_ADMIN_ROLE(), treasury.address);
+      const manifest = parseRoleManifest({
+        roles: {
+          DEFAULT_ADMIN_ROLE: [multisig.address],
+          PAUSER_ROLE: [multisig.address],
+        },
+      });
+
+      const changes = await computeRolePlan(balboa, manifest, owner.address, await syncTokenIndex(hre, tokenAddress));
+      const last = changes[changes.length - 1];
+
+      expect(last.action).to.equal("revoke");
+      expect(last.role.name).to.equal("ADMIN");
+      expect(last.account).to.equal(owner.address);
+    });
+
+    it("Should report no changes when state matches", async function () {
+      const file = writeManifest({ MINTER_ROLE: [owner.address] });
+
+      const changes = await hre.run("balboa:roles:plan", { manifest: file });
+      expect(changes).to.have.length(0);
+    });
+  });
+
+  describe("Apply", function () {
+    it("Should converge on-chain roles to the manifest", async function () {
+      const file = writeManifest({
+        DEFAULT_ADMIN_ROLE: [multisig.address],
+        MINTER_ROLE: [treasury.address],
+        BLACKLISTER_ROLE: [compliance.address],
+      });
+
+      await hre.run("balboa:roles:apply", { manifest: file, yes: true });
+
+      expect(await balboa.hasRole(await balboa.DEFAULT_ADMIN_ROLE(), multisig.address)).to.be.true;
+      expect(await balboa.hasRole(await balboa.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.false;
+      expect(await balboa.hasRole(await balboa.MINTER_ROLE(), treasury.address)).to.be.true;
+      expect(await balboa.hasRole(await balboa.MINTER_ROLE(), owner.address)).to.be.false;
+      expect(await balboa.hasRole(await balboa.BLACKLISTER_ROLE(), compliance.address)).to.be.true;
+      // Unmanaged roles are left alone
+      expect(await balboa.hasRole(await balboa.PAUSER_ROLE(), owner.address)).to.be.true;
+
+      const remaining = await hre.run("balboa:roles:plan", { manifest: file });
+      expect(remaining).to.have.length(0);
+    });
+
+    it("Should refuse to apply without DEFAULT_ADMIN_ROLE", async function () {
+      await balboa.grantRole(await balboa.DEFAULT_ADMIN_ROLE(), multisig.address);
+      await balboa.renounceRole(await balboa.DEFAULT_ADMIN_ROLE(), owner.address);
+      const file = writeManifest({ MINTER_ROLE: [treasury.address] });
+
+      await expect(hre.run("balboa:roles:apply", { manifest: file, yes: true })).to.be.rejectedWith(
+        /does not have DEFAULT_ADMIN_ROLE/
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import type { BalboaToken, Create2Factory } from "../typechain-types";
+
+describe("Role Tasks", function () {
+  let balboa: BalboaToken;
+  let tokenAddress: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1] = await ethers.getSigners();
+
+    const BalboaToken = await ethers.getContractFactory("BalboaToken");
+    const implementation = await BalboaToken.deploy();
+    await implementation.waitForDeployment();
+
+    const initData = BalboaToken.interface.encodeFunctionData("initialize", [owner.address]);
+    const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await Proxy.deploy(await implementation.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    tokenAddress = await proxy.getAddress();
+    balboa = BalboaToken.attach(tokenAddress) as unknown as BalboaToken;
+  });
+
+  it("Should grant a role through balboa:roles:grant", async function () {
+    await hre.run("balboa:roles:grant", {
+      token: tokenAddress,
+      role: "MINTER",
+      account: user1.address,
+      yes: true,
+    });
+
+    expect(await balboa.hasRole(await balboa.MINTER_ROLE(), user1.address)).to.be.true;
+  });
+
+  it("Should revoke a role through balboa:roles:revoke", async function () {
+    await hre.run("balboa:roles:revoke", {
+      token: tokenAddress,
+      role: "PAUSER",
+      account: owner.address,
+      yes: true,
+    });
+
+    expect(await balboa.hasRole(await balboa.PAUSER_ROLE(), owner.address)).to.be.false;
+  });
+
+  it("Should reject unknown roles", async function () {
+    await expect(
+      hre.run("balboa:roles:grant", {
+        token: tokenAddress,
+        role: "OWNER",
+        account: user1.address,
+        yes: true,
+      })
+    ).to.be.rejectedWith(/Invalid value OWNER for argument role/);
+  });
+
+  it("Should reject malformed addresses", async function () {
+    await expect(
+      hre.run("balboa:roles:grant", {
+        token: tokenAddress,
+        role: "MINTER",
+        account: "0x1234",
+        yes: true,
+      })
+    ).to.be.rejectedWith(/Invalid value 0x1234 for argument account/);
+  });
+
+  it("Should refuse to grant without DEFAULT_ADMIN_ROLE", async function () {
+    await balboa.grantRole(await balboa.DEFAULT_ADMIN_ROLE(), user1.address);
+    await balboa.renounceRole(await balboa.DEFAULT_ADMIN_ROLE(), owner.address);
+
+    await expect(
+      hre.run("balboa:roles:grant", {
+        token: tokenAddress,
+        role: "MINTER",
+        account: user1.address,
+        yes: true,
+      })
+    ).to.be.rejectedWith("Cannot grant roles without DEFAULT_ADMIN_ROLE");
+  });
+});
+
+describe("Factory Deployer Tasks", function () {
+  let factory: Create2Factory;
+  let factoryAddress: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1] = await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory("Create2Factory");
+    factory = (await Factory.deploy(owner.address)) as unknown as Create2Factory;
+    await factory.waitForDeployment();
+    factoryAddress = await factory.getAddress();
+  });
+
+  it("Should authorize and revoke a deployer", async function () {
+    await hre.run("balboa:factory:authorize", { factory: factoryAddress, account: user1.address });
+    expect(await factory.isAuthorizedDeployer(user1.address)).to.be.true;
+
+    await hre.run("balboa:factory:revoke", { factory: factoryAddress, account: user1.address });
+    expect(await factory.isAuthorizedDeployer(user1.address)).to.be.false;
+  });
+
+  it("Should refuse to revoke the owner", async function () {
+    await expect(
+      hre.run("balboa:factory:revoke", { factory: factoryAddress, account: owner.address })
+    ).to.be.rejectedWith(/owns the factory; transfer ownership instead/);
+  });
+
+  it("Should require the factory owner", async function () {
+    await factory.transferOwnership(user1.address);
+
+    await expect(
+      hre.run("balboa:factory:authorize", { factory: factoryAddress, account: user1.address })
+    ).to.be.rejectedWith(`Only the factory owner (${user1.address}) can manage deployers`);
+  });
+});
@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import type { RollbackResult } from "../scripts/deployment/rollback";
+import type { UpgradeResult } from "../scripts/deployment/upgrade";
+import { loadDeploymentRecord } from "../scripts/lib/records";
+import { implementationHistory } from "../scripts/lib/upgrades";
+import type { BalboaToken } from "../typechain-types";
+
+describe("Rollback", function () {
+  let dir: string;
+  let previousDir: string | undefined;
+  let token: BalboaToken;
+  let proxy: string;
+  let v1: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-rollback-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+
+    const BalboaToken = await ethers.getContractFactory("BalboaToken");
+    token = (await upgrades.deployProxy(BalboaToken, [owner.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as BalboaToken;
+    proxy = await token.getAddress();
+    v1 = await upgrades.erc1967.getImplementationAddress(proxy);
+
+    await token.mint(user1.address, ethers.parseEther("100"));
+    await token.mint(user2.address, ethers.parseEther("50"));
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should roll V1 -> V2 -> V1 back and keep balances", async function () {
+    const { implementation: v2 }: UpgradeResult = await hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV2" });
+    expect(await token.symbol()).to.equal("BALBOA1");
+    await token.connect(user1).transfer(user2.address, ethers.parseEther("10"));
+
+    const result: RollbackResult = await hre.run("balboa:upgrade:rollback", { proxy, contract: "BalboaToken" });
+
+    expect(result).to.include({ proxy, previousImplementation: v2, implementation: v1 });
+    expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(v1);
+    expect(await token.symbol()).to.equal("BALBOA");
+    expect(await token.balanceOf(user1.address)).to.equal(ethers.parseEther("90"));
+    expect(await token.balanceOf(user2.address)).to.equal(ethers.parseEther("60"));
+    expect(await token.totalSupply()).to.equal(ethers.parseEther("150"));
+
+    const record = loadDeploymentRecord("hardhat");
+    expect(record?.implementations.map((entry) => [entry.contract, entry.address])).to.deep.equal([
+      ["BalboaTokenV2", v2],
+      ["BalboaToken", v1],
+    ]);
+    expect(record?.implementations[1].txHash).to.equal(result.txHash);
+  });
+
+  it("Should read the history from Upgraded events and name recorded implementations", async function () {
+    await upgrades.upgradeProxy(proxy, await ethers.getContractFactory("BalboaTokenV2"));
+    const { implementation: v3 }: UpgradeResult = await hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV3" });
+
+    const history = await implementationHistory(hre, proxy);
+
+    expect(history.map((entry) => entry.address)).to.have.length(3);
+    expect(history[0]).to.include({ address: v1, contract: undefined });
+    expect(history[2]).to.include({ address: v3, contract: "BalboaTokenV3" });
+  });
+
+  it("Should roll forward again to the implementation it rolled back from", async function () {
+    const { implementation: v2 }: UpgradeResult = await hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV2" });
+    await hre.run("balboa:upgrade:rollback", { proxy, contract: "BalboaToken" });
+
+    const result: RollbackResult = await hre.run("balboa:upgrade:rollback", { proxy });
+
+    expect(result.implementation).to.equal(v2);
+    expect(await token.symbol()).to.equal("BALBOA1");
+  });
+
+  it("Should roll back to a given implementation", async function () {
+    await hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV2" });
+
+    const result: RollbackResult = await hre.run("balboa:upgrade:rollback", { proxy, to: v1, contract: "BalboaToken" });
+
+    expect(result.implementation).to.equal(v1);
+  });
+
+  it("Should require a contract name for implementations the record does not know", async function () {
+    await upgrades.upgradeProxy(proxy, await ethers.getContractFactory("BalboaTokenV2"));
+
+    await expect(hre.run("balboa:upgrade:rollback", { proxy })).to.be.rejectedWith(
+      `Implementation ${v1} is not named in the deployment record; pass --contract`
+    );
+  });
+
+  it("Should refuse an implementation that drops storage added since", async function () {
+    await hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV3", call: "initializeV3" });
+
+    await expect(hre.run("balboa:upgrade:rollback", { proxy, contract: "BalboaToken" })).to.be.rejectedWith(
+      /BalboaToken is not storage-compatible with BalboaTokenV3:\n {2}_roleMembers \(slot 50\) was removed or renamed/
+    );
+    expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.not.equal(v1);
+  });
+
+  it("Should refuse an address outside the history", async function () {
+    await hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV2" });
+
+    await expect(hre.run("balboa:upgrade:rollback", { proxy, to: user1.address })).to.be.rejectedWith(
+      `${user1.address} is not in the implementation history of proxy ${proxy}`
+    );
+  });
+
+  it("Should refuse when there is nothing to roll back to", async function () {
+    await expect(hre.run("balboa:upgrade:rollback", { proxy })).to.be.rejectedWith(
+      `No earlier implementation to roll back to for proxy ${proxy}`
+    );
+  });
+
+  it("Should require UPGRADER_ROLE", async function () {
+    await hre.run("balboa:upgrade", { proxy, contract: "BalboaTokenV2" });
+    await token.revokeRole(await token.UPGRADER_ROLE(), owner.address);
+
+    await expect(hre.run("balboa:upgrade:rollback", { proxy, contract: "BalboaToken" })).to.be.rejectedWith(
+      `Account ${owner.address} does not have UPGRADER_ROLE`
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import hre from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import {
+  StorageEntry,
+  compareStorageLayouts,
+  loadStorageLayout,
+  readStorageLayout,
+  saveStorageLayout,
+  tokenVersions,
+} from "../scripts/lib/storage";
+import { checkStorageLayouts, exportStorageLayouts } from "../scripts/utility/storage_layout";
+
+function entry(label: string, slot: number, type = "uint256", bytes = 32): StorageEntry {
+  return { contract: "BalboaToken", label, slot, offset: 0, type, bytes };
+}
+
+describe("Storage Layout", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-storage-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("Snapshots", function () {
+    it("Should find every token version, oldest first", async function () {
+      const versions = await tokenVersions(hre);
+      expect(versions.slice(0, 3)).to.deep.equal(["BalboaToken", "BalboaTokenV2", "BalboaTokenV3"]);
+      expect(versions).to.include("BalboaTokenV5");
+    });
+
+    it("Should read the layout from the compiler output", async function () {
+      const layout = await readStorageLayout(hre, "BalboaToken");
+
+      expect(layout.source).to.equal("contracts/BalboaToken.sol");
+      expect(layout.storage[0]).to.include({ label: "_blacklisted", slot: 0, type: "mapping(address => bool)" });
+      expect(layout.storage[1]).to.include({ label: "__gap", slot: 1, type: "uint256[49]" });
+    });
+
+    it("Should match the committed snapshots", async function () {
+      await checkStorageLayouts(hre, {});
+    });
+
+    it("Should export snapshots that pass the check", async function () {
+      const files = await exportStorageLayouts(hre, { dir });
+
+      expect(files).to.have.length((await tokenVersions(hre)).length);
+      expect(loadStorageLayout("BalboaTokenV3", dir)?.storage).to.deep.equal(
+        (await readStorageLayout(hre, "BalboaTokenV3")).storage
+      );
+      await checkStorageLayouts(hre, { dir });
+    });
+
+    it("Should fail on a missing snapshot", async function () {
+      await exportStorageLayouts(hre, { dir });
+      fs.rmSync(path.join(dir, "BalboaTokenV2.json"));
+
+      await expect(checkStorageLayouts(hre, { dir })).to.be.rejectedWith(/BalboaTokenV2 no snapshot/);
+    });
+
+    it("Should fail on a snapshot the contract no longer matches", async function () {
+      await exportStorageLayouts(hre, { dir });
+      const snapshot = loadStorageLayout("BalboaTokenV3", dir)!;
+      snapshot.storage[0].type = "mapping(address => uint256)";
+      saveStorageLayout(snapshot, dir);
+
+      await expect(checkStorageLayouts(hre, { dir })).to.be.rejectedWith(
+        /BalboaTokenV3 against its snapshot: _blacklisted changed type/
+      );
+    });
+
+    it("Should name the field a malformed snapshot gets wrong", async function () {
+      await exportStorageLayouts(hre, { dir });
+      const file = path.join(dir, "BalboaTokenV3.json");
+      const snapshot = JSON.parse(fs.readFileSync(file, "utf8"));
+      snapshot.storage[0].slot = "0";
+      fs.writeFileSync(file, JSON.stringify(snapshot));
+
+      await expect(checkStorageLayouts(hre, { dir })).to.be.rejectedWith(
+        /BalboaTokenV3\.json: "storage\[0\]\.slot" must be a non-negative integer/
+      );
+    });
+  });
+
+  describe("Compatibility", function () {
+    const base = [entry("_blacklisted", 0, "mapping(address => bool)"), entry("__gap", 1, "uint256[49]", 49 * 32)];
+
+    it("Should accept an unchanged layout", function () {
+      expect(compareStorageLayouts(base, base)).to.deep.equal([]);
+    });
+
+    it("Should accept a variable taken from the start of the gap", function () {
+      const next = [base[0], entry("_cap", 1), entry("__gap", 2, "uint256[48]", 48 * 32)];
+      expect(compareStorageLayouts(base, next)).to.deep.equal([]);
+    });
+
+    it("Should accept variables appended after the gap", function () {
+      const next = [...base, entry("_roleMembers", 50), entry("__gap", 51, "uint256[49]", 49 * 32)];
+      expect(compareStorageLayouts(base, next)).to.deep.equal([]);
+    });
+
+    it("Should reject a gap that shrinks without new variables", function () {
+      const next = [base[0], entry("__gap", 1, "uint256[48]", 48 * 32)];
+      expect(compareStorageLayouts(base, next)).to.deep.equal([
+        "__gap now ends at slot 48 instead of 49 (49 -> 48 slots); later storage shifts",
+      ]);
+    });
+
+    it("Should reject a gap that grows", function () {
+      const next = [base[0], entry("__gap", 1, "uint256[50]", 50 * 32)];
+      expect(compareStorageLayouts(base, next)[0]).to.match(/^__gap now ends at slot 50 instead of 49/);
+    });
+
+    it("Should reject reordered variables", function () {
+      const previous = [entry("_a", 0), entry("_b", 1), entry("__gap", 2, "uint256[48]", 48 * 32)];
+      const next = [entry("_b", 0), entry("_a", 1), entry("__gap", 2, "uint256[48]", 48 * 32)];
+      expect(compareStorageLayouts(previous, next)).to.deep.equal([
+        "_a moved from slot 0 offset 0 to slot 1 offset 0",
+        "_b moved from slot 1 offset 0 to slot 0 offset 0",
+      ]);
+    });
+
+    it("Should reject a type change", function () {
+      const next = [entry("_blacklisted", 0, "mapping(address => uint256)"), base[1]];
+      expect(compareStorageLayouts(base, next)).to.deep.equal([
+        "_blacklisted changed type from mapping(address => bool) to mapping(address => uint256)",
+      ]);
+    });
+
+    it("Should reject a removed or renamed variable", function () {
+      const next = [entry("_denylisted", 0, "mapping(address => bool)"), base[1]];
+      expect(compareStorageLayouts(base, next)).to.deep.equal([
+        "_blacklisted (slot 0) was removed or renamed",
+        "new variable _denylisted at slot 0 overlaps _blacklisted",
+      ]);
+    });
+
+    it("Should match repeated gaps in slot order", function () {
+      const previous = [...base, entry("_cap", 50), entry("__gap", 51, "uint256[49]", 49 * 32)];
+      const next = [...base, entry("_cap", 50), entry("__gap", 51, "uint256[48]", 48 * 32)];
+      expect(compareStorageLayouts(previous, next)).to.deep.equal([
+        "__gap#2 now ends at slot 98 instead of 99 (49 -> 48 slots); later storage shifts",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { syncTokenIndex } from "../scripts/lib/indexer";
+import {
+  IMPLEMENTATION_SLOT,
+  InvariantOptions,
+  captureInvariants,
+  diffInvariants,
+  verifyInvariants,
+} from "../scripts/lib/invariants";
+import type { BalboaToken } from "../typechain-types";
+
+describe("Upgrade Invariants", function () {
+  let balboa: BalboaToken;
+  let tokenAddress: string;
+  let implementation: string;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let attacker: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  /** Options with the token's event index synced to the latest block */
+  async function indexed(options: InvariantOptions = {}): Promise<InvariantOptions> {
+    return { ...options, index: await syncTokenIndex(hre, tokenAddress) };
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2, attacker] = await ethers.getSigners();
+
+    const BalboaToken = await ethers.getContractFactory("BalboaToken");
+    const deployed = await BalboaToken.deploy();
+    await deployed.waitForDeployment();
+    implementation = await deployed.getAddress();
+
+    const initData = BalboaToken.interface.encodeFunctionData("initialize", [owner.address]);
+    const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await Proxy.deploy(implementation, initData);
+    await proxy.waitForDeployment();
+
+    tokenAddress = await proxy.getAddress();
+    balboa = BalboaToken.attach(tokenAddress) as unknown as BalboaToken;
+
+    await balboa.mint(user1.address, ethers.parseEther("100"));
+    await balboa.mint(user2.address, ethers.parseEther("50"));
+    await balboa.grantRole(await balboa.MINTER_ROLE(), user1.address);
+    await balboa.blacklist(attacker.address);
+  });
+
+  it("Should capture supply, balances, roles, blacklist, pause state and the implementation slot", async function () {
+    const snapshot = await captureInvariants(balboa, await indexed());
+
+    expect(snapshot.implementation).to.equal(implementation);
+    expect(await ethers.provider.getStorage(tokenAddress, IMPLEMENTATION_SLOT)).to.equal(
+      ethers.zeroPadValue(implementation.toLowerCase(), 32)
+    );
+    expect(snapshot.totalSupply).to.equal(ethers.parseEther("150").toString());
+    expect(snapshot.paused).to.be.false;
+    expect(snapshot.balances).to.deep.equal({
+      [user1.address]: ethers.parseEther("100").toString(),
+      [user2.address]: ethers.parseEther("50").toString(),
+    });
+    expect(snapshot.roles.MINTER_ROLE).to.have.members([owner.address, user1.address]);
+    expect(snapshot.roles.DEFAULT_ADMIN_ROLE).to.deep.equal([owner.address]);
+    expect(snapshot.blacklisted).to.deep.equal([attacker.address]);
+  });
+
+  it("Should sample only the most recently active accounts", async function () {
+    await balboa.connect(user1).transfer(owner.address, 1n);
+
+    const snapshot = await captureInvariants(balboa, await indexed({ sampleSize: 2, accounts: [attacker.address] }));
+
+    expect(Object.keys(snapshot.balances)).to.have.members([user1.address, owner.address, attacker.address]);
+  });
+
+  it("Should read only the given accounts without an event index", async function () {
+    const snapshot = await captureInvariants(balboa, { accounts: [user2.address] });
+
+    expect(snapshot.balances).to.deep.equal({ [user2.address]: ethers.parseEther("50").toString() });
+    expect(snapshot.roles.MINTER_ROLE).to.deep.equal([]);
+    expect(snapshot.blacklisted).to.deep.equal([]);
+  });
+
+  it("Should pass across an upgrade that preserves state", async function () {
+    const before = await captureInvariants(balboa, await indexed());
+    const BalboaTokenV3 = await ethers.getContractFactory("BalboaTokenV3");
+    const v3 = await BalboaTokenV3.deploy();
+    await v3.waitForDeployment();
+
+    // No initializeV3: the holders found before are still checked with hasRole
+    await balboa.upgradeToAndCall(await v3.getAddress(), "0x");
+
+    const after = await verifyInvariants(balboa, before, await v3.getAddress(), await indexed());
+    expect(after.roles).to.deep.equal(before.roles);
+  });
+
+  it("Should report every difference", async function () {
+    const before = await captureInvariants(balboa, await indexed());
+
+    await balboa.mint(user2.address, 1n);
+    await balboa.revokeRole(await balboa.MINTER_ROLE(), user1.address);
+    await balboa.unBlacklist(attacker.address);
+    await balboa.pause();
+
+    await expect(verifyInvariants(balboa, before, undefined, await indexed())).to.be.rejectedWith(
+      [
+        "Upgrade invariants violated:",
+        `  totalSupply: ${ethers.parseEther("150")} -> ${ethers.parseEther("150") + 1n}`,
+        "  paused: false -> true",
+        `  balance of ${user2.address}: ${ethers.parseEther("50")} -> ${ethers.parseEther("50") + 1n}`,
+        `  MINTER_ROLE: ${user1.address} lost the role`,
+        `  blacklist: ${attacker.address} removed`,
+      ].join("\n")
+    );
+  });
+
+  it("Should report an unexpected implementation", async function () {
+    const before = await captureInvariants(balboa, await indexed());
+    const after = await captureInvariants(balboa, {}, before);
+
+    expect(diffInvariants(before, after, user1.address)).to.deep.equal([
+      `implementation: ${implementation} (expected ${user1.address})`,
+    ]);
+  });
+
+  it("Should make balboa:upgrade fail when the upgrade changes state", async function () {
+    await expect(
+      hre.run("balboa:upgrade", { proxy: tokenAddress, contract: "BalboaTokenV2", call: "pause", args: [] })
+    ).to.be.rejectedWith("Upgrade invariants violated:\n  paused: false -> true");
+
+    // The upgrade itself went through and is reported, not rolled back
+    expect(await upgrades.erc1967.getImplementationAddress(tokenAddress)).to.not.equal(implementation);
+  });
+});
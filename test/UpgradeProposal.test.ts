@@ -0,0 +1,216 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import type { ConfirmUpgradeResult, ProposeUpgradeResult } from "../scripts/deployment/upgrade_proposal";
+import { loadDeploymentRecord } from "../scripts/lib/records";
+import type { BalboaTokenV4 } from "../typechain-types";
+import { deployPreTimelockToken } from "./helpers/preTimelockToken";
+
+describe("Upgrade Proposals", function () {
+  let dir: string;
+  let previousDir: string | undefined;
+  let proxy: string;
+  let implementation: string;
+  let token: BalboaTokenV4;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let safe: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, safe] = await ethers.getSigners();
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-proposals-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+
+    ({ implementation, proxy } = await deployPreTimelockToken(owner.address));
+    token = (await ethers.getContractAt("BalboaTokenV4", proxy)) as unknown as BalboaTokenV4;
+    await token.grantRole(await token.UPGRADER_ROLE(), safe.address);
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should write a Safe batch without touching the proxy", async function () {
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+      safe: safe.address,
+    });
+
+    expect(file).to.equal(path.join(dir, "proposals", "hardhat-BalboaTokenV5.json"));
+    expect(fs.readFileSync(file, "utf8")).to.equal(JSON.stringify(proposal, null, 2) + "\n");
+    expect(proposal).to.include({ version: "1.0", chainId: "31337" });
+    expect(proposal.meta.createdFromSafeAddress).to.equal(safe.address);
+    expect(proposal.upgrade).to.include({ proxy, previousImplementation: implementation, contract: "BalboaTokenV5" });
+
+    const [transaction] = proposal.transactions;
+    expect(transaction).to.include({ to: proxy, value: "0" });
+    const decoded = token.interface.decodeFunctionData("upgradeToAndCall", transaction.data);
+    expect(decoded[0]).to.equal(proposal.upgrade.implementation);
+    expect(decoded[1]).to.equal("0x");
+
+    expect(await ethers.provider.getCode(proposal.upgrade.implementation)).to.not.equal("0x");
+    expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(implementation);
+    expect(loadDeploymentRecord("hardhat")?.implementations).to.have.length(1);
+  });
+
+  it("Should confirm a batch executed by the Safe and record it", async function () {
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+      safe: safe.address,
+    });
+    const [transaction] = proposal.transactions;
+    const executed = await safe.sendTransaction({ to: transaction.to, data: transaction.data });
+
+    const result: ConfirmUpgradeResult = await hre.run("balboa:upgrade:confirm", { file });
+
+    expect(result).to.deep.equal({
+      proxy,
+      previousImplementation: implementation,
+      implementation: proposal.upgrade.implementation,
+      txHash: executed.hash,
+    });
+    const record = loadDeploymentRecord("hardhat");
+    expect(record?.implementations.map((entry) => entry.address)).to.deep.equal([
+      implementation,
+      proposal.upgrade.implementation,
+    ]);
+    expect(record?.implementations[1]).to.include({ contract: "BalboaTokenV5", txHash: executed.hash });
+  });
+
+  it("Should execute from an account with UPGRADER_ROLE only once", async function () {
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+    });
+
+    await hre.run("balboa:upgrade:execute", { file });
+    const blockAfter = await ethers.provider.getBlockNumber();
+    const again: ConfirmUpgradeResult = await hre.run("balboa:upgrade:execute", { file });
+
+    expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(proposal.upgrade.implementation);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockAfter);
+    expect(again.txHash).to.match(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("Should run the reinitializer in the same transaction", async function () {
+    const V1 = await ethers.getContractFactory("BalboaToken");
+    const v1Proxy = await upgrades.deployProxy(V1, [owner.address], { kind: "uups", initializer: "initialize" });
+    const v1Address = await v1Proxy.getAddress();
+
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      proxy: v1Address,
+      contract: "BalboaTokenV4",
+      call: "initializeV4",
+      args: [[], [], "1000"],
+      out: path.join(dir, "v4.json"),
+    });
+    await hre.run("balboa:upgrade:execute", { file });
+
+    expect(proposal.upgrade.call).to.deep.equal({ fn: "initializeV4", args: [[], [], "1000"] });
+    const upgraded = (await ethers.getContractAt("BalboaTokenV4", v1Address)) as unknown as BalboaTokenV4;
+    expect(await upgraded.cap()).to.equal(1000n);
+  });
+
+  it("Should refuse a Safe without UPGRADER_ROLE", async function () {
+    const [, , other] = await ethers.getSigners();
+
+    await expect(
+      hre.run("balboa:upgrade:propose", { contract: "BalboaTokenV5", safe: other.address })
+    ).to.be.rejectedWith(`${other.address} does not have UPGRADER_ROLE`);
+  });
+
+  it("Should refuse to confirm a proposal that was not executed", async function () {
+    const { file }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", { contract: "BalboaTokenV5" });
+
+    await expect(hre.run("balboa:upgrade:confirm", { file })).to.be.rejectedWith(
+      new RegExp(`Proposal not applied: proxy ${proxy} points to ${implementation}`)
+    );
+  });
+
+  it("Should report post-upgrade checks that no longer hold", async function () {
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+    });
+    const [transaction] = proposal.transactions;
+    await safe.sendTransaction({ to: transaction.to, data: transaction.data });
+    await token.revokeRole(await token.UPGRADER_ROLE(), safe.address);
+
+    await expect(hre.run("balboa:upgrade:confirm", { file })).to.be.rejectedWith(
+      `Post-upgrade checks failed:\n  ${safe.address} keeps UPGRADER_ROLE`
+    );
+  });
+
+  it("Should check the invariants across the upgrade", async function () {
+    await token.mint(safe.address, 100n);
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+      call: "mint",
+      args: [safe.address, "1"],
+    });
+
+    expect(proposal.upgrade.invariants.balances).to.deep.equal({ [safe.address]: "100" });
+    await expect(hre.run("balboa:upgrade:execute", { file })).to.be.rejectedWith(
+      ["Upgrade invariants violated:", "  totalSupply: 100 -> 101", `  balance of ${safe.address}: 100 -> 101`].join("\n")
+    );
+  });
+
+  it("Should not report activity after the upgrade", async function () {
+    await token.mint(safe.address, 100n);
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+    });
+    const [transaction] = proposal.transactions;
+    await safe.sendTransaction({ to: transaction.to, data: transaction.data });
+    await token.burn(safe.address, 1n);
+
+    const result: ConfirmUpgradeResult = await hre.run("balboa:upgrade:confirm", { file });
+    expect(result.implementation).to.equal(proposal.upgrade.implementation);
+  });
+
+  it("Should not report activity between the proposal and its execution", async function () {
+    await token.mint(safe.address, 100n);
+    const { file }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", { contract: "BalboaTokenV5" });
+    await token.connect(safe).transfer(owner.address, 40n);
+
+    const result: ConfirmUpgradeResult = await hre.run("balboa:upgrade:execute", { file });
+    expect(result.txHash).to.match(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("Should refuse to execute once the proxy has moved on", async function () {
+    const { file }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", { contract: "BalboaTokenV5" });
+    const other = await (await ethers.getContractFactory("BalboaTokenV5")).deploy();
+    await token.upgradeToAndCall(await other.getAddress(), "0x");
+
+    await expect(hre.run("balboa:upgrade:execute", { file })).to.be.rejectedWith(/create a new proposal/);
+  });
+
+  it("Should refuse to execute without UPGRADER_ROLE", async function () {
+    const { file }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", { contract: "BalboaTokenV5" });
+    await token.revokeRole(await token.UPGRADER_ROLE(), owner.address);
+
+    await expect(hre.run("balboa:upgrade:execute", { file })).to.be.rejectedWith(/execute .* from the Safe/);
+  });
+
+  it("Should reject a proposal for another chain", async function () {
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+    });
+    fs.writeFileSync(file, JSON.stringify({ ...proposal, chainId: "1" }));
+
+    await expect(hre.run("balboa:upgrade:confirm", { file })).to.be.rejectedWith(/is for chain 1, connected to chain 31337/);
+  });
+
+  it("Should reject a proposal with a malformed field", async function () {
+    const { file, proposal }: ProposeUpgradeResult = await hre.run("balboa:upgrade:propose", {
+      contract: "BalboaTokenV5",
+    });
+    fs.writeFileSync(file, JSON.stringify({ ...proposal, upgrade: { ...proposal.upgrade, proposedAtBlock: "1" } }));
+
+    await expect(hre.run("balboa:upgrade:confirm", { file })).to.be.rejectedWith(
+      /"upgrade\.proposedAtBlock" must be a non-negative integer/
+    );
+  });
+});
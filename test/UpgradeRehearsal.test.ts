@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import type { DumpStateResult, RehearseUpgradeResult } from "../scripts/deployment/upgrade_rehearsal";
+import { loadStateDump } from "../scripts/lib/state";
+import type { BalboaTokenV4 } from "../typechain-types";
+import { deployPreTimelockToken } from "./helpers/preTimelockToken";
+
+describe("Upgrade Rehearsal", function () {
+  let dir: string;
+  let previousDir: string | undefined;
+  let proxy: string;
+  let implementation: string;
+  let token: BalboaTokenV4;
+  let owner: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user1: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let user2: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+  let attacker: Awaited<ReturnType<typeof ethers.getSigners>>[0];
+
+  beforeEach(async function () {
+    [owner, user1, user2, attacker] = await ethers.getSigners();
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-rehearsal-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+
+    ({ implementation, proxy } = await deployPreTimelockToken(owner.address));
+    token = (await ethers.getContractAt("BalboaTokenV4", proxy)) as unknown as BalboaTokenV4;
+    await token.mint(user1.address, ethers.parseEther("100"));
+    await token.mint(user2.address, ethers.parseEther("50"));
+    await token.grantRole(await token.MINTER_ROLE(), user1.address);
+    await token.blacklist(attacker.address);
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should record the proxy's code, storage and invariants", async function () {
+    const { file, dump }: DumpStateResult = await hre.run("balboa:state:dump");
+
+    expect(file).to.equal(path.join(dir, "state", "hardhat.json"));
+    expect(loadStateDump(file)).to.deep.equal(dump);
+    expect(dump).to.include({ proxy, implementation, contract: "BalboaTokenV4", chainId: "31337" });
+    expect(dump.accounts[proxy].code).to.equal(await ethers.provider.getCode(proxy));
+    expect(dump.accounts[implementation].code).to.equal(await ethers.provider.getCode(implementation));
+    expect(dump.invariants.blacklisted).to.deep.equal([attacker.address]);
+    expect(dump.invariants.roles.MINTER_ROLE).to.include(user1.address);
+  });
+
+  it("Should rehearse an upgrade without touching the live network", async function () {
+    await hre.run("balboa:state:dump");
+    // Later activity on the live chain does not affect the recorded state
+    await token.mint(user2.address, ethers.parseEther("1"));
+
+    const { file, report }: RehearseUpgradeResult = await hre.run("balboa:upgrade:rehearse", {
+      contract: "BalboaTokenV5",
+      call: "initializeV5",
+      args: [[], [], 3600],
+    });
+
+    expect(file).to.equal(path.join(dir, "rehearsals", "hardhat-BalboaTokenV5.json"));
+    expect(JSON.parse(fs.readFileSync(file, "utf8"))).to.deep.equal(report);
+    expect(report).to.include({ passed: true, from: "BalboaTokenV4", contract: "BalboaTokenV5", upgrader: owner.address });
+    expect(report.checks.map((check) => [check.name, check.passed])).to.deep.equal([
+      ["storage layout", true],
+      ["replayed state", true],
+      ["upgrade", true],
+      ["invariants", true],
+      ["smoke", true],
+    ]);
+    expect(report.call).to.deep.equal({ fn: "initializeV5", args: [[], [], 3600] });
+    expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(implementation);
+  });
+
+  it("Should rehearse a timelocked upgrade by waiting out the delay", async function () {
+    await hre.run("balboa:upgrade", { contract: "BalboaTokenV5", call: "initializeV5", args: [[], [], 86400] });
+    await hre.run("balboa:state:dump");
+
+    const { report }: RehearseUpgradeResult = await hre.run("balboa:upgrade:rehearse", { contract: "BalboaTokenV5" });
+
+    expect(report.passed).to.equal(true);
+    expect(report.checks[2].notes[0]).to.equal("scheduled and waited out the 86400s upgrade delay");
+  });
+
+  it("Should rehearse a proxy whose implementation lacks role enumeration", async function () {
+    const V1 = await ethers.getContractFactory("BalboaToken");
+    const v1 = await upgrades.deployProxy(V1, [owner.address], { kind: "uups", initializer: "initialize" });
+    await v1.mint(user1.address, ethers.parseEther("10"));
+    await v1.grantRole(await v1.PAUSER_ROLE(), user2.address);
+    await hre.run("balboa:state:dump", { proxy: await v1.getAddress(), contract: "BalboaToken" });
+
+    const { report }: RehearseUpgradeResult = await hre.run("balboa:upgrade:rehearse", {
+      contract: "BalboaTokenV3",
+      call: "initializeV3",
+    });
+
+    expect(report.passed).to.equal(true);
+    // Role holders come from the dump, since the replayed network has no RoleGranted events
+    const [, accounts] = report.call!.args as [string[], string[]];
+    expect(accounts).to.include.members([owner.address, user2.address]);
+  });
+
+  it("Should fail and report an upgrade that breaks the storage layout", async function () {
+    await hre.run("balboa:state:dump");
+
+    await expect(hre.run("balboa:upgrade:rehearse", { contract: "BalboaTokenV2" })).to.be.rejectedWith(
+      /Upgrade rehearsal failed: storage layout/
+    );
+
+    const report = JSON.parse(fs.readFileSync(path.join(dir, "rehearsals", "hardhat-BalboaTokenV2.json"), "utf8"));
+    expect(report.passed).to.equal(false);
+    expect(report.checks[0].issues).to.include("_roleMembers (slot 50) was removed or renamed");
+  });
+
+  it("Should skip the post-upgrade checks when the upgrader lacks the role", async function () {
+    await hre.run("balboa:state:dump");
+
+    await expect(
+      hre.run("balboa:upgrade:rehearse", { contract: "BalboaTokenV5", upgrader: user2.address })
+    ).to.be.rejectedWith(/Upgrade rehearsal failed: upgrade, invariants, smoke/);
+  });
+
+  it("Should require a state dump", async function () {
+    await expect(hre.run("balboa:upgrade:rehearse", { contract: "BalboaTokenV5" })).to.be.rejectedWith(
+      /State dump not found: .* \(record one with balboa:state:dump\)/
+    );
+  });
+});
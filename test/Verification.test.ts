@@ -0,0 +1,241 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { ContractVerification } from "../scripts/utility/verify";
+import { deploymentRecordPath, loadDeploymentRecord } from "../scripts/lib/records";
+import { deployPreTimelockToken } from "./helpers/preTimelockToken";
+
+/**
+ * Minimal Etherscan-compatible API: answers getsourcecode, verifysourcecode
+ * and checkverifystatus, recording every submission, plus the getLogs and
+ * proxy-linking actions hardhat-upgrades uses for proxies
+ */
+class StubExplorer {
+  readonly verified = new Set<string>();
+  readonly submissions: Record<string, string>[] = [];
+  /** Proxy address to linked implementation */
+  readonly links = new Map<string, string>();
+  /** Result returned by checkverifystatus */
+  outcome = "Pass - Verified";
+  private readonly guids = new Map<string, string>();
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const params = Object.fromEntries(new URL(req.url ?? "", "http://stub").searchParams);
+      Object.assign(params, Object.fromEntries(new URLSearchParams(body)));
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(this.respond(params)));
+    });
+  }
+
+  private respond(params: Record<string, string>): object {
+    switch (params.action) {
+      case "getsourcecode":
+        return {
+          status: "1",
+          message: "OK",
+          result: [{ SourceCode: this.verified.has(params.address.toLowerCase()) ? "{}" : "" }],
+        };
+      case "verifysourcecode": {
+        this.submissions.push(params);
+        const guid = `guid-${this.submissions.length}`;
+        this.guids.set(guid, params.contractaddress.toLowerCase());
+        return { status: "1", message: "OK", result: guid };
+      }
+      case "checkverifystatus":
+        if (this.outcome !== "Pass - Verified") {
+          return { status: "0", message: "NOTOK", result: this.outcome };
+        }
+        this.verified.add(this.guids.get(params.guid) as string);
+        return { status: "1", message: "OK", result: this.outcome };
+      case "getLogs":
+        return { status: "0", message: "No records found", result: [] };
+      case "verifyproxycontract":
+        this.links.set(params.address.toLowerCase(), params.expectedimplementation.toLowerCase());
+        return { status: "1", message: "OK", result: `proxy-${params.address}` };
+      case "checkproxyverification":
+        return { status: "1", message: "OK", result: "The proxy's implementation contract is found" };
+      default:
+        return { status: "0", message: "NOTOK", result: `Unknown action ${params.action}` };
+    }
+  }
+}
+
+describe("Contract Verification", function () {
+  const previousApiKey = hre.config.etherscan.apiKey;
+  const previousChains = hre.config.etherscan.customChains;
+  const previousSourcify = hre.config.sourcify.enabled;
+  let explorer: StubExplorer;
+  let dir: string;
+  let previousDir: string | undefined;
+  let implementation: string;
+  let proxy: string;
+
+  before(async function () {
+    explorer = new StubExplorer();
+    const apiURL = await explorer.start();
+    // hardhat-verify sends a single key to the Etherscan v2 endpoint; a per-network key uses the custom chain's URL
+    hre.config.etherscan.apiKey = { hardhat: "test-key" };
+    hre.config.etherscan.customChains = [
+      { network: "hardhat", chainId: 31337, urls: { apiURL, browserURL: "http://explorer.test" } },
+    ];
+    hre.config.sourcify.enabled = false;
+  });
+
+  after(async function () {
+    hre.config.etherscan.apiKey = previousApiKey;
+    hre.config.etherscan.customChains = previousChains;
+    hre.config.sourcify.enabled = previousSourcify;
+    await explorer.stop();
+  });
+
+  beforeEach(async function () {
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "balboa-verify-"));
+    process.env.DEPLOYMENTS_DIR = dir;
+
+    explorer.verified.clear();
+    explorer.submissions.length = 0;
+    explorer.links.clear();
+    explorer.outcome = "Pass - Verified";
+
+    await hre.run("balboa:deploy:factory");
+    ({ implementation, proxy } = await hre.run("balboa:deploy", { cap: 0n }));
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) delete process.env.DEPLOYMENTS_DIR;
+    else process.env.DEPLOYMENTS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should submit the factory, implementation and proxy with rebuilt constructor arguments", async function () {
+    const results: ContractVerification[] = await hre.run("balboa:verify");
+
+    expect(results.map((result) => [result.name, result.status])).to.deep.equal([
+      ["factory", "verified"],
+      ["implementation #1", "verified"],
+      ["proxy", "verified"],
+    ]);
+    expect(results[2].url).to.equal(`http://explorer.test/address/${proxy}#code`);
+
+    const [factory, impl, proxySubmission] = explorer.submissions;
+    expect(factory.contractname).to.equal("contracts/Create2Factory.sol:Create2Factory");
+    const [owner] = await ethers.getSigners();
+    expect(factory.constructorArguements).to.equal(
+      ethers.AbiCoder.defaultAbiCoder().encode(["address"], [owner.address]).slice(2)
+    );
+    expect(impl.contractaddress).to.equal(implementation);
+    expect(impl.contractname).to.equal("contracts/BalboaTokenV7.sol:BalboaTokenV7");
+    expect(impl.constructorArguements).to.equal("");
+
+    const { initData } = loadDeploymentRecord("hardhat")?.proxy ?? {};
+    const expectedArgs = ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes"], [implementation, initData]);
+    expect(proxySubmission.contractname).to.equal("@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol:ERC1967Proxy");
+    expect(proxySubmission.constructorArguements).to.equal(expectedArgs.slice(2));
+    expect(explorer.links.get(proxy.toLowerCase())).to.equal(implementation.toLowerCase());
+
+    for (const submission of explorer.submissions) {
+      expect(submission.apikey).to.equal("test-key");
+      expect(submission.compilerversion).to.match(/^v0\.8\.24\+commit\./);
+      expect(JSON.parse(submission.sourceCode).language).to.equal("Solidity");
+    }
+  });
+
+  it("Should skip contracts the explorer already verified", async function () {
+    await hre.run("balboa:verify");
+
+    const results: ContractVerification[] = await hre.run("balboa:verify");
+
+    expect(results.map((result) => result.status)).to.deep.equal(Array(3).fill("already-verified"));
+    expect(explorer.submissions).to.have.length(3);
+  });
+
+  it("Should fail when the explorer rejects a submission", async function () {
+    explorer.outcome = "Fail - Unable to verify";
+
+    await expect(hre.run("balboa:verify")).to.be.rejectedWith(
+      new RegExp(`Verification failed:[\\s\\S]*hardhat proxy ${proxy}: [\\s\\S]*Reason: Fail - Unable to verify`)
+    );
+  });
+
+  it("Should report submissions still queued at the explorer as pending", async function () {
+    explorer.outcome = "Pending in queue";
+
+    const results: ContractVerification[] = await hre.run("balboa:verify", { statusTimeout: 0 });
+
+    expect(results.map((result) => result.status)).to.deep.equal(Array(3).fill("pending"));
+    expect(results[0].message).to.match(/Still pending in the explorer's queue \(GUID guid-1\)/);
+  });
+
+  it("Should verify every implementation in the history", async function () {
+    // A proxy deployed before the timelock, which still upgrades with balboa:upgrade
+    fs.rmSync(deploymentRecordPath("hardhat"));
+    await hre.run("balboa:deploy:factory");
+    const [owner] = await ethers.getSigners();
+    ({ implementation } = await deployPreTimelockToken(owner.address));
+    const upgrade = await hre.run("balboa:upgrade", { contract: "BalboaTokenV5" });
+
+    const results: ContractVerification[] = await hre.run("balboa:verify");
+
+    expect(results.map((result) => result.name)).to.deep.equal([
+      "factory",
+      "implementation #1",
+      "implementation #2",
+      "proxy",
+    ]);
+    expect(results[2]).to.include({ contract: "BalboaTokenV5", address: upgrade.implementation, status: "verified" });
+
+    // The proxy is still verified against the implementation it was deployed with
+    const proxySubmission = explorer.submissions[3];
+    const [firstImplementation] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ["address", "bytes"],
+      "0x" + proxySubmission.constructorArguements
+    );
+    expect(firstImplementation).to.equal(implementation);
+  });
+
+  it("Should not submit constructor arguments that do not reproduce the address", async function () {
+    const file = deploymentRecordPath("hardhat");
+    const record = JSON.parse(fs.readFileSync(file, "utf8"));
+    const token = await ethers.getContractAt("BalboaTokenV7", proxy);
+    record.proxy.initData = token.interface.encodeFunctionData("initializeWithTimelock", [ethers.ZeroAddress, 0n, 1n]);
+    fs.writeFileSync(file, JSON.stringify(record));
+
+    await expect(hre.run("balboa:verify")).to.be.rejectedWith(/hardhat proxy .*: Current build .* not /);
+    expect(explorer.submissions.map((submission) => submission.contractaddress)).to.not.include(proxy);
+  });
+
+  it("Should require an explorer API key", async function () {
+    hre.config.etherscan.apiKey = "";
+    try {
+      await expect(hre.run("balboa:verify")).to.be.rejectedWith(/Missing ETHERSCAN_API_KEY/);
+    } finally {
+      hre.config.etherscan.apiKey = { hardhat: "test-key" };
+    }
+  });
+
+  it("Should reject a network without a deployment record", async function () {
+    fs.rmSync(deploymentRecordPath("hardhat"));
+
+    await expect(hre.run("balboa:verify")).to.be.rejectedWith(HardhatPluginError, /No deployment record for hardhat/);
+    expect(explorer.submissions).to.deep.equal([]);
+  });
+});
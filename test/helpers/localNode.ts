@@ -0,0 +1,40 @@
+import { JsonRpcProvider } from "ethers";
+import hre from "hardhat";
+import type { HttpNetworkConfig } from "hardhat/types";
+import { LocalNodeProcess, startLocalNode, stopLocalNode } from "../../scripts/lib/node";
+
+export interface LocalNode {
+  name: string;
+  node: LocalNodeProcess;
+  provider: JsonRpcProvider;
+  snapshot?: string;
+}
+
+/**
+ * Start a `hardhat node` with its own chain id and register it as a network
+ */
+export async function startNode(name: string, chainId: number): Promise<LocalNode> {
+  const node = await startLocalNode(hre, { chainId });
+
+  hre.config.networks[name] = {
+    url: node.url,
+    accounts: "remote",
+    chainId,
+    gas: "auto",
+    gasPrice: "auto",
+    gasMultiplier: 1,
+    timeout: 20000,
+    httpHeaders: {},
+  } as HttpNetworkConfig;
+
+  return { name, node, provider: new JsonRpcProvider(node.url, undefined, { staticNetwork: true }) };
+}
+
+/**
+ * Shut a node down and remove its network entry
+ */
+export async function stopNode(node: LocalNode): Promise<void> {
+  node.provider.destroy();
+  await stopLocalNode(node.node);
+  delete hre.config.networks[node.name];
+}
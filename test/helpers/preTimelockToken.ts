@@ -0,0 +1,36 @@
+import { ethers } from "hardhat";
+import { recordImplementation, updateDeploymentRecord } from "../../scripts/lib/records";
+
+export interface PreTimelockToken {
+  implementation: string;
+  proxy: string;
+}
+
+/**
+ * Deploy a BalboaTokenV4 proxy and record it the way balboa:deploy did before
+ * fresh deployments started on the upgrade timelock
+ *
+ * Stands in for proxies deployed earlier, such as the mainnet one, which
+ * still upgrade through balboa:upgrade and Safe proposals.
+ */
+export async function deployPreTimelockToken(admin: string, cap = 0n): Promise<PreTimelockToken> {
+  const Implementation = await ethers.getContractFactory("BalboaTokenV4");
+  const implementationContract = await Implementation.deploy();
+  await implementationContract.waitForDeployment();
+  const implementation = await implementationContract.getAddress();
+
+  const initData = Implementation.interface.encodeFunctionData("initializeWithCap", [admin, cap]);
+  const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+  const proxyContract = await Proxy.deploy(implementation, initData);
+  const receipt = await proxyContract.deploymentTransaction()?.wait();
+  if (!receipt) throw new Error("Proxy deployment was not mined");
+  const proxy = await proxyContract.getAddress();
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const deployed = { txHash: receipt.hash, blockNumber: receipt.blockNumber };
+  updateDeploymentRecord("hardhat", chainId, (record) => {
+    recordImplementation(record, { contract: "BalboaTokenV4", address: implementation, ...deployed });
+    record.proxy = { contract: "ERC1967Proxy", address: proxy, initData, admin, cap: cap.toString(), ...deployed };
+  });
+  return { implementation, proxy };
+}